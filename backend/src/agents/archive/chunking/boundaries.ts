@@ -0,0 +1,196 @@
+// =====================================
+// backend/src/agents/archive/chunking/boundaries.ts
+// Sentence, paragraph, clause and section boundaries with exact offsets
+// =====================================
+
+import { DocumentHeading } from '../extractors';
+import { TextSpan } from './types';
+
+export interface SectionBoundary {
+  startIndex: number;
+  level: number;
+  title: string;
+}
+
+export interface ClauseBoundary {
+  startIndex: number;
+  label: string;
+}
+
+// Lower-cased, without the trailing period
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'ca', 'viz', 'ibid', 'op', 'cit', 'n.b', 'resp',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'hon',
+  'no', 'nos', 'art', 'arts', 'sec', 'secs', 'para', 'paras', 'ch', 'chap', 'fig', 'figs', 'vol', 'vols',
+  'p', 'pp', 'ed', 'eds', 'rev', 'ref', 'refs', 'reg', 'regs', 'rec', 'recs', 'annex', 'app',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'govt', 'est', 'min', 'max',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'u.s', 'u.k', 'e.u', 'u.n'
+]);
+
+// Sentence-final punctuation, closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s)/g;
+
+// Lines that start a new unit even without a blank line before them
+const LIST_LINE = /\n(?=[^\S\n]*(?:[-*•|>#]|\(?[0-9a-zA-Z]{1,4}[.)](?:[0-9.]*)\s))/g;
+
+const BLANK_LINE = /\n[^\S\n]*\n/g;
+
+// Numbered clause labels at the start of a line: 1. / 4.2 / 4.2.1 / (b) / iv) / a.
+const CLAUSE_LABEL = /^[^\S\n]*(\(?(?:[0-9]+(?:\.[0-9]+)*|[a-z]|[ivxlc]+)[.)]|[0-9]+(?:\.[0-9]+)+)[^\S\n]+(?=\S)/gm;
+
+const KEYWORD_HEADING = /^(part|title|chapter|article|section|annex|appendix|schedule)\s+(?:[0-9]+|[IVXLC]+|[A-Z])(?:\.[0-9]+)*\b/i;
+
+const NUMBERED_HEADING = /^([0-9]+(?:\.[0-9]+)*)\.?\s+\p{Lu}/u;
+
+const MAX_HEADING_LENGTH = 100;
+
+/**
+ * Shrink a span to exclude surrounding whitespace; undefined when empty
+ */
+export function trimSpan(text: string, start: number, end: number): TextSpan | undefined {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : undefined;
+}
+
+/**
+ * Cut a span at the given offsets, dropping whitespace-only pieces
+ */
+export function splitAt(text: string, span: TextSpan, cuts: number[]): TextSpan[] {
+  const pieces: TextSpan[] = [];
+  let previous = span.start;
+  for (const cut of [...cuts.filter(offset => offset > span.start && offset < span.end).sort((a, b) => a - b), span.end]) {
+    const piece = trimSpan(text, previous, cut);
+    if (piece) pieces.push(piece);
+    previous = cut;
+  }
+  return pieces;
+}
+
+function cutsFor(text: string, span: TextSpan, pattern: RegExp, offset: number = 0): number[] {
+  const cuts: number[] = [];
+  const slice = text.slice(span.start, span.end);
+  for (const match of slice.matchAll(pattern)) {
+    cuts.push(span.start + match.index! + offset);
+  }
+  return cuts;
+}
+
+export function splitParagraphs(text: string, span: TextSpan): TextSpan[] {
+  return splitAt(text, span, cutsFor(text, span, BLANK_LINE));
+}
+
+export function splitLines(text: string, span: TextSpan): TextSpan[] {
+  return splitAt(text, span, cutsFor(text, span, /\n/g));
+}
+
+export function splitWords(text: string, span: TextSpan): TextSpan[] {
+  return splitAt(text, span, cutsFor(text, span, /\s+/g));
+}
+
+/**
+ * A period that ends an abbreviation, an initial or a clause label rather
+ * than a sentence
+ */
+function isNonTerminalPeriod(text: string, lineStart: number, index: number): boolean {
+  const before = text.slice(lineStart, index);
+  const word = (/(\S+)$/.exec(before)?.[1] || '').replace(/^["'(\[“‘]+/, '');
+  if (!word) return false;
+
+  if (ABBREVIATIONS.has(word.toLowerCase())) return true;
+  if (/^(?:\p{L}\.)+\p{L}$/u.test(word)) return true;
+  if (/^\p{Lu}$/u.test(word)) return true;
+  return before.trim() === word && /^(?:[0-9]+(?:\.[0-9]+)*|[ivxlc]+|[a-z])$/i.test(word);
+}
+
+/**
+ * Sentence spans that survive abbreviations (`e.g.`, `Art. 5`), decimals,
+ * URLs, initials and numbered clause labels. Blank lines and list/table
+ * lines always end a sentence.
+ */
+export function splitSentences(text: string, span: TextSpan): TextSpan[] {
+  const cuts = [...cutsFor(text, span, BLANK_LINE), ...cutsFor(text, span, LIST_LINE)];
+  const slice = text.slice(span.start, span.end);
+
+  for (const match of slice.matchAll(SENTENCE_END)) {
+    const index = span.start + match.index!;
+    const end = index + match[0].length;
+    const next = /\S/.exec(text.slice(end, end + 64));
+    const nextChar = next ? next[0] : '';
+
+    // "approx. five", "... and"
+    if (/\p{Ll}/u.test(nextChar)) continue;
+    if (match[0][0] === '.' && /^\.["'”’)\]]*$/.test(match[0])) {
+      const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+      if (isNonTerminalPeriod(text, Math.max(lineStart, span.start), index)) continue;
+    }
+    cuts.push(end);
+  }
+
+  return splitAt(text, span, cuts);
+}
+
+/**
+ * Numbered clauses (`1.`, `4.2`, `(b)`, `iv)`) starting a line within the span
+ */
+export function detectClauses(text: string, span: TextSpan): ClauseBoundary[] {
+  const clauses: ClauseBoundary[] = [];
+  const slice = text.slice(span.start, span.end);
+  for (const match of slice.matchAll(CLAUSE_LABEL)) {
+    const start = span.start + match.index!;
+    if (start === span.start && start > 0 && text[start - 1] !== '\n') continue;
+    clauses.push({
+      startIndex: start + match[0].length - match[0].trimStart().length,
+      label: match[1].replace(/^\(?(.*?)[.)]?$/, (label, inner: string) => label.startsWith('(') ? `(${inner})` : inner)
+    });
+  }
+  return clauses;
+}
+
+export function splitClauses(text: string, span: TextSpan): TextSpan[] {
+  return splitAt(text, span, detectClauses(text, span).map(clause => clause.startIndex));
+}
+
+function headingLevel(line: string): number | undefined {
+  const markdown = /^(#{1,6})\s+\S/.exec(line);
+  if (markdown) return markdown[1].length;
+
+  if (line.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(line)) return undefined;
+
+  const keyword = KEYWORD_HEADING.exec(line);
+  if (keyword) {
+    return ['part', 'title', 'chapter'].includes(keyword[1].toLowerCase()) ? 1 : 2;
+  }
+  const numbered = NUMBERED_HEADING.exec(line);
+  if (numbered) return numbered[1].split('.').length;
+
+  // Short all-caps lines such as "EXECUTIVE SUMMARY"
+  if (/^[\p{Lu}0-9][\p{Lu}0-9 ,&'\-]{3,59}$/u.test(line) && /\p{Lu}{2,}/u.test(line)) return 1;
+  return undefined;
+}
+
+/**
+ * Headings for section-aware chunking: the extractor's when it found any,
+ * otherwise stand-alone heading-like paragraphs (Markdown `#`, "Article 4",
+ * "2.1 Scope", all-caps titles)
+ */
+export function detectSections(text: string, headings: DocumentHeading[] = []): SectionBoundary[] {
+  if (headings.length > 0) {
+    return headings
+      .filter(heading => heading.startIndex >= 0 && heading.startIndex < text.length)
+      .map(heading => ({ startIndex: heading.startIndex, level: heading.level, title: heading.text }))
+      .sort((a, b) => a.startIndex - b.startIndex);
+  }
+
+  const sections: SectionBoundary[] = [];
+  for (const paragraph of splitParagraphs(text, { start: 0, end: text.length })) {
+    const line = text.slice(paragraph.start, paragraph.end);
+    if (line.includes('\n')) continue;
+    const level = headingLevel(line);
+    if (level !== undefined) {
+      sections.push({ startIndex: paragraph.start, level, title: line.replace(/^#{1,6}\s+/, '').replace(/\s+#*$/, '') });
+    }
+  }
+  return sections;
+}
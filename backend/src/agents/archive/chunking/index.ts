@@ -0,0 +1,137 @@
+// =====================================
+// backend/src/agents/archive/chunking/index.ts
+// Strategy dispatch and citation metadata for document chunks
+// =====================================
+
+import { logger } from '../../../utils/logger';
+import { DocumentPage } from '../extractors';
+import { detectClauses, detectSections, SectionBoundary } from './boundaries';
+import { chunkSemantically } from './semantic';
+import { chunkBySection, chunkByTokens, chunkRecursively, spanTokens } from './splitters';
+import { getTokenizer, Tokenizer } from './tokenizer';
+import { CHUNKING_STRATEGIES, ChunkingOptions, ChunkingResult, ChunkingStrategy, TextChunk, TextSpan } from './types';
+
+export * from './types';
+export * from './tokenizer';
+export { splitLines, splitSentences } from './boundaries';
+
+const DEFAULT_BREAKPOINT_PERCENTILE = 90;
+
+function pageAt(pages: DocumentPage[], offset: number): number | undefined {
+  return pages.find(page => offset >= page.startIndex && offset < page.endIndex)?.pageNumber;
+}
+
+/**
+ * Heading path in effect at `offset`, outermost first
+ */
+function headingPath(sections: SectionBoundary[], offset: number): string[] {
+  const path: SectionBoundary[] = [];
+  for (const section of sections) {
+    if (section.startIndex > offset) break;
+    while (path.length > 0 && path[path.length - 1].level >= section.level) {
+      path.pop();
+    }
+    path.push(section);
+  }
+  return path.map(section => section.title);
+}
+
+function describe(text: string, spans: TextSpan[], options: ChunkingOptions, tokenizer: Tokenizer): TextChunk[] {
+  const sections = detectSections(text, options.structure?.headings);
+  const clauses = detectClauses(text, { start: 0, end: text.length });
+  const pages = options.structure?.pages || [];
+
+  return spans.map((span, chunkIndex) => {
+    const content = text.slice(span.start, span.end);
+    const path = headingPath(sections, span.start);
+    const sectionStart = [...sections].reverse().find(section => section.startIndex <= span.start)?.startIndex ?? 0;
+    const clause = [...clauses].reverse().find(entry => entry.startIndex <= span.start && entry.startIndex >= sectionStart);
+    const pageNumber = pageAt(pages, span.start);
+    const pageEnd = pageAt(pages, span.end - 1);
+
+    return {
+      chunkIndex,
+      content,
+      startIndex: span.start,
+      endIndex: span.end,
+      tokenCount: spanTokens(text, span, tokenizer),
+      wordCount: content.split(/\s+/).filter(word => word.length > 0).length,
+      section: path[path.length - 1],
+      headingPath: path,
+      clause: clause?.label,
+      pageNumber,
+      pageEnd: pageEnd !== pageNumber ? pageEnd : undefined
+    };
+  });
+}
+
+/**
+ * Split extracted text into chunks measured in the embedding model's tokens.
+ * Every chunk's content is exactly `text.slice(startIndex, endIndex)`, so
+ * offsets can be cited against the stored document text.
+ */
+export async function chunkText(text: string, options: ChunkingOptions): Promise<ChunkingResult> {
+  if (!CHUNKING_STRATEGIES.includes(options.strategy)) {
+    throw new Error(`Unknown chunking strategy: ${options.strategy}`);
+  }
+  if (!Number.isInteger(options.chunkSize) || options.chunkSize <= 0) {
+    throw new Error('chunkSize must be a positive number of tokens');
+  }
+  if (!Number.isInteger(options.chunkOverlap) || options.chunkOverlap < 0 || options.chunkOverlap >= options.chunkSize) {
+    throw new Error('chunkOverlap must be between 0 and chunkSize');
+  }
+
+  const tokenizer = getTokenizer(options.embeddingModel);
+  const warnings: string[] = [];
+
+  let chunkSize = options.chunkSize;
+  let chunkOverlap = options.chunkOverlap;
+  if (chunkSize > tokenizer.maxInputTokens) {
+    warnings.push(`chunkSize ${chunkSize} exceeds ${options.embeddingModel} input limit; using ${tokenizer.maxInputTokens}`);
+    chunkOverlap = Math.round(chunkOverlap * tokenizer.maxInputTokens / chunkSize);
+    chunkSize = tokenizer.maxInputTokens;
+  }
+
+  let strategy: ChunkingStrategy = options.strategy;
+  let spans: TextSpan[] | undefined;
+
+  if (strategy === 'semantic') {
+    try {
+      if (!options.embed) {
+        throw new Error('no embedding function provided');
+      }
+      spans = await chunkSemantically(text, {
+        chunkSize,
+        tokenizer,
+        embed: options.embed,
+        breakpointPercentile: options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE,
+        hardBreaks: detectSections(text, options.structure?.headings).map(section => section.startIndex)
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`Semantic chunking failed, falling back to section chunking: ${reason}`);
+      warnings.push(`Semantic chunking failed (${reason}); used section chunking`);
+      strategy = 'section';
+    }
+  }
+
+  if (!spans) {
+    switch (strategy) {
+      case 'token':
+        spans = chunkByTokens(text, chunkSize, chunkOverlap, tokenizer);
+        break;
+      case 'recursive':
+        spans = chunkRecursively(text, chunkSize, chunkOverlap, tokenizer);
+        break;
+      default:
+        spans = chunkBySection(text, options.structure?.headings, chunkSize, chunkOverlap, tokenizer);
+    }
+  }
+
+  return {
+    strategy,
+    tokenizer: tokenizer.name,
+    chunks: describe(text, spans, options, tokenizer),
+    warnings
+  };
+}
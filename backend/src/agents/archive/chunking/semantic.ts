@@ -0,0 +1,121 @@
+// =====================================
+// backend/src/agents/archive/chunking/semantic.ts
+// Semantic boundary detection from embedding distance between passages
+// =====================================
+
+import { splitSentences, splitWords } from './boundaries';
+import { RECURSIVE_SEPARATORS, mergePieces, recursiveSplit, spanTokens } from './splitters';
+import { Tokenizer } from './tokenizer';
+import { TextSpan } from './types';
+
+// Upper bound on embedding calls per document; passages grow to stay under it
+const MAX_PASSAGES = 400;
+
+export interface SemanticSplitOptions {
+  chunkSize: number;
+  tokenizer: Tokenizer;
+  embed: (text: string) => Promise<number[]>;
+  breakpointPercentile: number;
+  /** Offsets that always start a chunk, e.g. section headings */
+  hardBreaks: number[];
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+}
+
+function percentile(values: number[], share: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = Math.min(sorted.length - 1, Math.max(0, Math.ceil((share / 100) * sorted.length) - 1));
+  return sorted[position];
+}
+
+/**
+ * Group sentences into passages of roughly `minTokens`, never across a hard break
+ */
+function passages(sentences: TextSpan[], counts: number[], minTokens: number, hardBreaks: Set<number>): TextSpan[] {
+  const result: TextSpan[] = [];
+  let current: { span: TextSpan; tokens: number } | undefined;
+  sentences.forEach((sentence, index) => {
+    if (current && (current.tokens >= minTokens || hardBreaks.has(sentence.start))) {
+      result.push(current.span);
+      current = undefined;
+    }
+    current = current
+      ? { span: { start: current.span.start, end: sentence.end }, tokens: current.tokens + counts[index] }
+      : { span: sentence, tokens: counts[index] };
+  });
+  if (current) result.push(current.span);
+  return result;
+}
+
+/**
+ * Embed each passage with its neighbours for context and start a new chunk
+ * where the distance to the next passage is in the top
+ * `100 - breakpointPercentile` percent. Groups over budget are split
+ * recursively and small neighbours are packed together.
+ */
+export async function chunkSemantically(text: string, options: SemanticSplitOptions): Promise<TextSpan[]> {
+  const { chunkSize, tokenizer } = options;
+  const hardBreaks = new Set(options.hardBreaks);
+
+  const sentences = splitSentences(text, { start: 0, end: text.length })
+    .flatMap(sentence => recursiveSplit(text, sentence, [splitWords], chunkSize, tokenizer));
+  const counts = sentences.map(sentence => spanTokens(text, sentence, tokenizer));
+  const total = counts.reduce((sum, count) => sum + count, 0);
+
+  const minTokens = Math.max(Math.floor(chunkSize / 8), Math.ceil(total / MAX_PASSAGES));
+  const units = passages(sentences, counts, minTokens, hardBreaks);
+  if (units.length < 3) {
+    return mergePieces(text, units, chunkSize, 0, tokenizer);
+  }
+
+  const embeddings: number[][] = [];
+  for (let index = 0; index < units.length; index++) {
+    const window = {
+      start: units[Math.max(0, index - 1)].start,
+      end: units[Math.min(units.length - 1, index + 1)].end
+    };
+    embeddings.push(await options.embed(text.slice(window.start, window.end)));
+  }
+
+  const distances = units.slice(1).map((_, index) => cosineDistance(embeddings[index], embeddings[index + 1]));
+  const threshold = percentile(distances, options.breakpointPercentile);
+
+  const groups: TextSpan[] = [];
+  let group = units[0];
+  units.slice(1).forEach((unit, index) => {
+    if (distances[index] > threshold || hardBreaks.has(unit.start)) {
+      groups.push(group);
+      group = unit;
+    } else {
+      group = { start: group.start, end: unit.end };
+    }
+  });
+  groups.push(group);
+
+  const pieces = groups.flatMap(entry => spanTokens(text, entry, tokenizer) > chunkSize
+    ? mergePieces(text, recursiveSplit(text, entry, RECURSIVE_SEPARATORS, chunkSize, tokenizer), chunkSize, 0, tokenizer)
+    : [entry]);
+
+  const chunks: TextSpan[] = [];
+  for (const piece of pieces) {
+    const previous = chunks[chunks.length - 1];
+    const joined = previous ? { start: previous.start, end: piece.end } : undefined;
+    if (previous && joined && !hardBreaks.has(piece.start) &&
+      spanTokens(text, previous, tokenizer) < minTokens && spanTokens(text, joined, tokenizer) <= chunkSize) {
+      chunks[chunks.length - 1] = joined;
+    } else {
+      chunks.push(piece);
+    }
+  }
+  return chunks;
+}
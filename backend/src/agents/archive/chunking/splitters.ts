@@ -0,0 +1,194 @@
+// =====================================
+// backend/src/agents/archive/chunking/splitters.ts
+// Token, recursive and section-aware splitting into chunk spans
+// =====================================
+
+import {
+  detectSections,
+  SectionBoundary,
+  splitAt,
+  splitClauses,
+  splitLines,
+  splitParagraphs,
+  splitSentences,
+  splitWords,
+  trimSpan
+} from './boundaries';
+import { countTokens, Tokenizer } from './tokenizer';
+import { DocumentHeading } from '../extractors';
+import { TextSpan } from './types';
+
+export type SpanSplitter = (text: string, span: TextSpan) => TextSpan[];
+
+export const RECURSIVE_SEPARATORS: SpanSplitter[] = [splitParagraphs, splitLines, splitSentences, splitWords];
+
+// Inside a section, prefer clause boundaries over paragraphs
+const SECTION_SEPARATORS: SpanSplitter[] = [splitClauses, splitParagraphs, splitLines, splitSentences, splitWords];
+
+export function spanTokens(text: string, span: TextSpan, tokenizer: Tokenizer): number {
+  return countTokens(text.slice(span.start, span.end), tokenizer);
+}
+
+/**
+ * Fixed windows of `size` tokens, each starting `size - overlap` tokens after
+ * the previous one
+ */
+export function tokenWindows(text: string, span: TextSpan, size: number, overlap: number, tokenizer: Tokenizer): TextSpan[] {
+  const tokens = tokenizer.tokenize(text.slice(span.start, span.end));
+  const step = Math.max(1, size - overlap);
+  const windows: TextSpan[] = [];
+
+  for (let first = 0; first < tokens.length; first += step) {
+    const last = Math.min(first + size, tokens.length) - 1;
+    const window = trimSpan(text, span.start + tokens[first][0], span.start + tokens[last][1]);
+    if (window) windows.push(window);
+    if (last === tokens.length - 1) break;
+  }
+  return windows;
+}
+
+/**
+ * Split with the first separator that divides the span, recursing into
+ * pieces still over budget with the finer separators; token windows are the
+ * last resort
+ */
+export function recursiveSplit(
+  text: string,
+  span: TextSpan,
+  separators: SpanSplitter[],
+  budget: number,
+  tokenizer: Tokenizer
+): TextSpan[] {
+  if (spanTokens(text, span, tokenizer) <= budget) {
+    return [span];
+  }
+
+  for (let index = 0; index < separators.length; index++) {
+    const pieces = separators[index](text, span);
+    if (pieces.length > 1) {
+      return pieces.flatMap(piece => recursiveSplit(text, piece, separators.slice(index + 1), budget, tokenizer));
+    }
+  }
+  return tokenWindows(text, span, budget, 0, tokenizer);
+}
+
+/**
+ * Start of the overlap carried into the next chunk: `overlap` tokens before
+ * the chunk end, moved forward to a piece start (or at least a word start)
+ * when one falls inside that tail
+ */
+function overlapStart(text: string, chunk: TextSpan, pieces: TextSpan[], overlap: number, tokenizer: Tokenizer): number | undefined {
+  const tokens = tokenizer.tokenize(text.slice(chunk.start, chunk.end));
+  const take = Math.min(overlap, Math.floor(tokens.length / 2));
+  if (take <= 0) return undefined;
+
+  const candidate = chunk.start + tokens[tokens.length - take][0];
+  const piece = pieces.find(entry => entry.start >= candidate && entry.start > chunk.start && entry.start < chunk.end);
+  if (piece) return piece.start;
+
+  const word = /\s\S/.exec(text.slice(candidate - 1, chunk.end));
+  if (!word) return undefined;
+  const start = candidate - 1 + word.index + 1;
+  return start > chunk.start && start < chunk.end ? start : undefined;
+}
+
+/**
+ * Pack consecutive pieces into chunks of at most `budget` tokens, repeating
+ * up to `overlap` tokens of each chunk at the start of the next
+ */
+export function mergePieces(text: string, pieces: TextSpan[], budget: number, overlap: number, tokenizer: Tokenizer): TextSpan[] {
+  // Each piece is counted with the whitespace before it, so sums match the joined text
+  const counts = pieces.map((piece, index) =>
+    spanTokens(text, { start: index > 0 ? pieces[index - 1].end : piece.start, end: piece.end }, tokenizer));
+  const chunks: TextSpan[] = [];
+
+  let index = 0;
+  let carried: { start: number; tokens: number } | undefined;
+  while (index < pieces.length) {
+    if (carried && carried.tokens + counts[index] > budget) {
+      carried = undefined;
+    }
+    const start = carried ? carried.start : pieces[index].start;
+    let tokens = carried ? carried.tokens : 0;
+
+    const first = index;
+    while (index < pieces.length && (index === first || tokens + counts[index] <= budget)) {
+      tokens += counts[index];
+      index++;
+    }
+
+    // Estimates are not strictly additive across piece boundaries
+    while (index - first > 1 && spanTokens(text, { start, end: pieces[index - 1].end }, tokenizer) > budget) {
+      index--;
+    }
+    const overBudget = spanTokens(text, { start, end: pieces[index - 1].end }, tokenizer) > budget;
+
+    const chunk = { start: overBudget ? pieces[first].start : start, end: pieces[index - 1].end };
+    chunks.push(chunk);
+
+    carried = undefined;
+    if (index < pieces.length && overlap > 0) {
+      const overlapFrom = overlapStart(text, chunk, pieces.slice(first, index), overlap, tokenizer);
+      if (overlapFrom !== undefined) {
+        carried = { start: overlapFrom, tokens: spanTokens(text, { start: overlapFrom, end: chunk.end }, tokenizer) };
+      }
+    }
+  }
+  return chunks;
+}
+
+export function chunkByTokens(text: string, chunkSize: number, chunkOverlap: number, tokenizer: Tokenizer): TextSpan[] {
+  return tokenWindows(text, { start: 0, end: text.length }, chunkSize, chunkOverlap, tokenizer);
+}
+
+export function chunkRecursively(text: string, chunkSize: number, chunkOverlap: number, tokenizer: Tokenizer): TextSpan[] {
+  const span = trimSpan(text, 0, text.length);
+  if (!span) return [];
+  const pieces = recursiveSplit(text, span, RECURSIVE_SEPARATORS, chunkSize, tokenizer);
+  return mergePieces(text, pieces, chunkSize, chunkOverlap, tokenizer);
+}
+
+/**
+ * Sections (with any preamble) as spans; a subsection that fits is kept
+ * with its parent instead of becoming a chunk of its own
+ */
+export function sectionSpans(text: string, sections: SectionBoundary[], chunkSize: number, tokenizer: Tokenizer): TextSpan[] {
+  const starts = sections.map(section => section.startIndex);
+  const spans = splitAt(text, { start: 0, end: text.length }, starts);
+
+  const groups: TextSpan[] = [];
+  let group: { span: TextSpan; level: number; tokens: number } | undefined;
+  for (const span of spans) {
+    const section = sections.find(entry => entry.startIndex === span.start);
+    const level = section ? section.level : 0;
+    const tokens = spanTokens(text, span, tokenizer);
+
+    // A heading with no body of its own always opens the following section's chunk
+    const headingOnly = group !== undefined && !text.slice(group.span.start, group.span.end).includes('\n');
+    if (group && section && (headingOnly || (level > group.level && group.tokens + tokens <= chunkSize))) {
+      group.span = { start: group.span.start, end: span.end };
+      group.tokens += tokens;
+      continue;
+    }
+    if (group) groups.push(group.span);
+    group = { span, level: section ? level : Number.MAX_SAFE_INTEGER, tokens };
+  }
+  if (group) groups.push(group.span);
+  return groups;
+}
+
+/**
+ * Chunks never cross a section boundary; oversized sections are split at
+ * clauses, then paragraphs, lines, sentences and words
+ */
+export function chunkBySection(
+  text: string,
+  headings: DocumentHeading[] | undefined,
+  chunkSize: number,
+  chunkOverlap: number,
+  tokenizer: Tokenizer
+): TextSpan[] {
+  const sections = detectSections(text, headings);
+  return sectionSpans(text, sections, chunkSize, tokenizer).flatMap(section =>
+    mergePieces(text, recursiveSplit(text, section, SECTION_SEPARATORS, chunkSize, tokenizer), chunkSize, chunkOverlap, tokenizer));
+}
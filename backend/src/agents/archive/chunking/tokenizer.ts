@@ -0,0 +1,116 @@
+// =====================================
+// backend/src/agents/archive/chunking/tokenizer.ts
+// Token counting per embedding model
+// =====================================
+
+/**
+ * Token boundaries as [start, end) offsets into the tokenized text
+ */
+export type TokenSpan = [number, number];
+
+export interface Tokenizer {
+  name: string;
+  /** Longest input the embedding model reads before truncating */
+  maxInputTokens: number;
+  tokenize(text: string): TokenSpan[];
+}
+
+// Pre-tokenization pattern of OpenAI's cl100k_base (text-embedding-3-*, ada-002)
+const CL100K_PATTERN = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+// BERT basic tokenization: words, digit runs and single punctuation marks
+const WORDPIECE_PATTERN = /\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu;
+
+// Characters per merged token for Latin words, chosen to over-count slightly
+// so estimated chunks stay within the model's real limit
+const LATIN_CHARS_PER_TOKEN = 6;
+const WORDPIECE_CHARS_PER_TOKEN = 5;
+
+/**
+ * Split a pre-token into `count` equal pieces so every estimated token still
+ * maps to a character range
+ */
+function pieces(start: number, end: number, count: number, spans: TokenSpan[]): void {
+  const size = (end - start) / count;
+  for (let index = 0; index < count; index++) {
+    spans.push([start + Math.round(index * size), index === count - 1 ? end : start + Math.round((index + 1) * size)]);
+  }
+}
+
+function isLatin(text: string): boolean {
+  return /^[\u0000-\u024f\u1e00-\u1eff\u2000-\u206f]*$/.test(text);
+}
+
+/**
+ * Estimator for byte-pair encodings. Pre-token boundaries match cl100k_base
+ * exactly; merges inside a pre-token are approximated from its length,
+ * since the merge table is not shipped with the backend.
+ */
+class BytePairEstimator implements Tokenizer {
+  constructor(public name: string, public maxInputTokens: number) {}
+
+  tokenize(text: string): TokenSpan[] {
+    const spans: TokenSpan[] = [];
+    for (const match of text.matchAll(CL100K_PATTERN)) {
+      const start = match.index!;
+      const token = match[0];
+      let count = 1;
+      if (/\p{L}/u.test(token)) {
+        count = isLatin(token) ? Math.ceil(token.length / LATIN_CHARS_PER_TOKEN) : token.length;
+      } else if (!/^\s+$/.test(token)) {
+        count = Math.ceil(token.trim().length / 3) || 1;
+      }
+      pieces(start, start + token.length, Math.min(count, token.length), spans);
+    }
+    return spans;
+  }
+}
+
+/**
+ * Estimator for WordPiece vocabularies (sentence-transformers, BERT family):
+ * whitespace is free, punctuation marks are single tokens and long words
+ * split into continuation pieces
+ */
+class WordPieceEstimator implements Tokenizer {
+  constructor(public name: string, public maxInputTokens: number) {}
+
+  tokenize(text: string): TokenSpan[] {
+    const spans: TokenSpan[] = [];
+    for (const match of text.matchAll(WORDPIECE_PATTERN)) {
+      const start = match.index!;
+      const token = match[0];
+      const count = /^\p{L}/u.test(token) && isLatin(token)
+        ? Math.ceil(token.length / WORDPIECE_CHARS_PER_TOKEN)
+        : /^\p{N}/u.test(token) ? Math.ceil(token.length / 3) : token.length;
+      pieces(start, start + token.length, count, spans);
+    }
+    return spans;
+  }
+}
+
+const registered: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [];
+
+const BUILT_IN: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [
+  { pattern: /minilm|mpnet|bert|sentence-transformers|bge-|e5-/i, tokenizer: new WordPieceEstimator('wordpiece-estimate', 256) },
+  { pattern: /text-embedding-3|ada-002/i, tokenizer: new BytePairEstimator('cl100k-estimate', 8191) }
+];
+
+const DEFAULT_TOKENIZER = new BytePairEstimator('cl100k-estimate', 8191);
+
+/**
+ * Register an exact tokenizer for matching embedding models; takes
+ * precedence over the built-in estimators
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+  registered.unshift({ pattern, tokenizer });
+}
+
+export function getTokenizer(embeddingModel?: string): Tokenizer {
+  if (!embeddingModel) return DEFAULT_TOKENIZER;
+  const entry = [...registered, ...BUILT_IN].find(candidate => candidate.pattern.test(embeddingModel));
+  return entry ? entry.tokenizer : DEFAULT_TOKENIZER;
+}
+
+export function countTokens(text: string, tokenizer: Tokenizer): number {
+  return tokenizer.tokenize(text).length;
+}
@@ -0,0 +1,58 @@
+// =====================================
+// backend/src/agents/archive/chunking/types.ts
+// Chunking strategies, options and chunk output
+// =====================================
+
+import { DocumentStructure } from '../extractors';
+
+export type ChunkingStrategy = 'section' | 'token' | 'recursive' | 'semantic';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['section', 'token', 'recursive', 'semantic'];
+
+/**
+ * A [start, end) character range in the chunked text
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  /** Maximum chunk length in tokens of the embedding model */
+  chunkSize: number;
+  /** Tokens repeated from the end of the previous chunk (ignored by `semantic`) */
+  chunkOverlap: number;
+  embeddingModel?: string;
+  /** Headings and pages from extraction; headings are detected from the text when absent */
+  structure?: Pick<DocumentStructure, 'headings' | 'pages'>;
+  /** Required by `semantic`: embeds one passage */
+  embed?: (text: string) => Promise<number[]>;
+  /** `semantic` splits where adjacent passages are less similar than this share of all pairs (default 90) */
+  breakpointPercentile?: number;
+}
+
+export interface TextChunk {
+  chunkIndex: number;
+  /** Exactly `text.slice(startIndex, endIndex)` */
+  content: string;
+  startIndex: number;
+  endIndex: number;
+  tokenCount: number;
+  wordCount: number;
+  /** Innermost heading in effect at the chunk start */
+  section?: string;
+  headingPath: string[];
+  /** Label of the numbered clause in effect at the chunk start, e.g. `4.2` or `(b)` */
+  clause?: string;
+  pageNumber?: number;
+  pageEnd?: number;
+}
+
+export interface ChunkingResult {
+  /** Strategy actually applied; `semantic` falls back to `section` when embedding fails */
+  strategy: ChunkingStrategy;
+  tokenizer: string;
+  chunks: TextChunk[];
+  warnings: string[];
+}
@@ -0,0 +1,260 @@
+// =====================================
+// backend/src/agents/archive/citations.ts
+// Inline citation markers anchored to chunk spans, and a support check
+// =====================================
+
+import { splitLines, splitSentences, TextSpan } from './chunking';
+import { FilteredResult } from './retrieval-system';
+
+export interface Citation {
+  /** Number shown in the answer, e.g. 2 for "[2]"; the 1-based position in RAGResponse.sources */
+  marker: number;
+  /** Offsets of the marker in the answer */
+  markerSpan: TextSpan;
+  /** Offsets of the answer sentence the marker is attached to */
+  sentenceSpan: TextSpan;
+  sourceIndex: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  /** Best-matching passage, as offsets into the chunk content */
+  chunkSpan: TextSpan;
+  /** The same passage as offsets into the stored document text */
+  documentSpan: TextSpan;
+  quote: string;
+  /** Share of the sentence's content terms found in the passage, 0..1 */
+  support: number;
+  supported: boolean;
+}
+
+export type UnsupportedReason = 'uncited' | 'unknown-source' | 'weak-support';
+
+export interface UnsupportedSentence {
+  span: TextSpan;
+  text: string;
+  reason: UnsupportedReason;
+  /** Best support among the sentence's citations */
+  support?: number;
+}
+
+export interface CitationCheck {
+  /** Answer sentences that make a claim; headings and lead-in lines are skipped */
+  claims: number;
+  cited: number;
+  supported: number;
+  unsupported: UnsupportedSentence[];
+}
+
+export interface CitedAnswer {
+  /** The answer with model markers rewritten to "[n]" */
+  response: string;
+  citations: Citation[];
+  check: CitationCheck;
+}
+
+export interface CitationOptions {
+  /** Support below this marks a citation as not backing its sentence */
+  minSupport?: number;
+}
+
+const DEFAULT_MIN_SUPPORT = 0.5;
+
+// Claims need this many content terms; shorter lines are connective text
+const MIN_CLAIM_TERMS = 3;
+
+// Multiplier when a number in the sentence is missing from the passage
+const MISSING_NUMBER_PENALTY = 0.5;
+
+// [S1], [S1, S3], [Source 2]; leading whitespace is captured so dropped markers leave none
+const MODEL_MARKER = /([^\S\n]*)\[\s*S(?:ource)?\s*\d+(?:\s*[,;]\s*S?(?:ource)?\s*\d+)*\s*\]/gi;
+
+const ANSWER_MARKER = /\[\d+\]/g;
+
+const LEADING_MARKERS = /^(?:\[\d+\]\s*)*/;
+
+const TERM = /[\p{L}\p{N}]+(?:[.'’-][\p{L}\p{N}]+)*/gu;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'have', 'had', 'was', 'were',
+  'its', 'it\'s', 'this', 'that', 'these', 'those', 'with', 'from', 'into', 'onto', 'than', 'then', 'there',
+  'their', 'they', 'them', 'which', 'who', 'whom', 'what', 'when', 'where', 'while', 'will', 'would', 'shall',
+  'should', 'could', 'may', 'might', 'must', 'also', 'such', 'each', 'other', 'more', 'most', 'some', 'only',
+  'been', 'being', 'does', 'did', 'our', 'out', 'over', 'under', 'about', 'between', 'through', 'both',
+  'source', 'sources', 'document', 'documents', 'according', 'states', 'stated', 'notes', 'noted'
+]);
+
+export const CITATION_INSTRUCTIONS = `**Inline Citations:**
+- After each factual sentence, cite the sources it relies on by label, before the final punctuation: "... within 24 hours [S1]." or "... [S1, S3]."
+- Cite a source only for statements its text actually makes; leave your own reasoning and recommendations uncited.
+- Use only the labels listed with the sources.`;
+
+export function sourceLabel(index: number): string {
+  return `S${index + 1}`;
+}
+
+function stem(word: string): string {
+  const suffix = /(?:ing|ed|es|s)$/.exec(word);
+  return suffix && word.length - suffix[0].length >= 4 ? word.slice(0, -suffix[0].length) : word;
+}
+
+function terms(text: string): string[] {
+  const words = (text.toLowerCase().match(TERM) || []).filter(word =>
+    /\d/.test(word) || (word.length > 2 && !STOP_WORDS.has(word)));
+  return Array.from(new Set(words.map(stem)));
+}
+
+function sentenceSpans(text: string, span: TextSpan = { start: 0, end: text.length }): TextSpan[] {
+  return splitLines(text, span).flatMap(line => splitSentences(text, line));
+}
+
+/**
+ * Share of the claim's terms present in the passage; a number the passage
+ * does not contain halves the score, since figures are where answers drift
+ */
+function supportScore(claim: string[], passage: Set<string>): number {
+  if (claim.length === 0) return 0;
+  const found = claim.filter(term => passage.has(term));
+  const missingNumber = claim.some(term => /\d/.test(term) && !passage.has(term));
+  return (found.length / claim.length) * (missingNumber ? MISSING_NUMBER_PENALTY : 1);
+}
+
+/**
+ * The sentence, or pair of adjacent sentences, of the chunk that best
+ * supports the claim; offsets are relative to the chunk content
+ */
+function alignClaim(claim: string[], source: FilteredResult): { span: TextSpan; support: number } {
+  // Summary access appends "..." to a truncated chunk; keep spans inside the real text
+  const visible = Math.min(source.content.length, Math.max(0, source.metadata.endIndex - source.metadata.startIndex) || source.content.length);
+  const whole = { start: 0, end: visible };
+  if (source.accessLevel === 'metadata' || visible === 0) {
+    return { span: whole, support: 0 };
+  }
+
+  const sentences = sentenceSpans(source.content, whole);
+  const windows = [
+    ...sentences,
+    ...sentences.slice(1).map((sentence, index) => ({ start: sentences[index].start, end: sentence.end }))
+  ];
+
+  let best = { span: sentences[0] || whole, support: -1 };
+  for (const window of windows) {
+    const support = supportScore(claim, new Set(terms(source.content.slice(window.start, window.end))));
+    if (support > best.support) {
+      best = { span: window, support };
+    }
+  }
+  return { span: best.span, support: Math.max(0, best.support) };
+}
+
+/**
+ * Whether an answer sentence makes a claim that should carry a citation
+ */
+function isClaim(text: string, span: TextSpan): boolean {
+  const lineStart = text.lastIndexOf('\n', span.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', span.end);
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd).trim();
+  if (/^#/.test(line) || /^\*\*[^*]+\*\*:?$/.test(line)) return false;
+
+  const sentence = text.slice(span.start, span.end).replace(ANSWER_MARKER, '').trim();
+  if (/:$/.test(sentence)) return false;
+  return terms(sentence).length >= MIN_CLAIM_TERMS;
+}
+
+/**
+ * Rewrite the model's [S1]-style markers to "[1]" (the source's position in
+ * `sources`), anchor each one to the supporting passage of its chunk, and
+ * flag answer sentences that are uncited or not backed by what they cite.
+ * `sources` must be in the order they were labelled in the prompt.
+ */
+export function annotateCitations(answer: string, sources: FilteredResult[], options: CitationOptions = {}): CitedAnswer {
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+
+  // Pass 1: rewrite markers, remembering where each landed
+  const markers: { span: TextSpan; sourceIndex: number }[] = [];
+  const invalidAt: number[] = [];
+  let response = '';
+  let last = 0;
+  for (const match of answer.matchAll(MODEL_MARKER)) {
+    response += answer.slice(last, match.index);
+    last = match.index! + match[0].length;
+
+    const indices = (match[0].slice(match[1].length).match(/\d+/g) || []).map(value => Number(value) - 1);
+    const valid = indices.filter((index, position) => index >= 0 && index < sources.length && indices.indexOf(index) === position);
+    if (indices.some(index => index < 0 || index >= sources.length)) {
+      invalidAt.push(response.length);
+    }
+    if (valid.length === 0) continue;
+
+    response += match[1];
+    for (const index of valid) {
+      const marker = `[${index + 1}]`;
+      markers.push({ span: { start: response.length, end: response.length + marker.length }, sourceIndex: index });
+      response += marker;
+    }
+  }
+  response += answer.slice(last);
+
+  // Pass 2: attach markers to sentences. Markers opening a sentence ("... accounts. [2] Audits")
+  // are cut off it, so they fall to the sentence before.
+  const sentences = sentenceSpans(response)
+    .map(span => ({ start: span.start + LEADING_MARKERS.exec(response.slice(span.start, span.end))![0].length, end: span.end }))
+    .filter(span => span.start < span.end);
+  const owner = (offset: number): number => {
+    const index = sentences.findIndex(sentence => offset >= sentence.start && offset < sentence.end);
+    return index !== -1 ? index : sentences.filter(sentence => sentence.end <= offset).length - 1;
+  };
+
+  const citations: Citation[] = [];
+  const bySentence = new Map<number, Citation[]>();
+  for (const marker of markers) {
+    const sentenceIndex = owner(marker.span.start);
+    if (sentenceIndex < 0) continue;
+
+    const sentenceSpan = sentences[sentenceIndex];
+    const source = sources[marker.sourceIndex];
+    const claim = terms(response.slice(sentenceSpan.start, sentenceSpan.end).replace(ANSWER_MARKER, ''));
+    const { span, support } = alignClaim(claim, source);
+
+    const citation: Citation = {
+      marker: marker.sourceIndex + 1,
+      markerSpan: marker.span,
+      sentenceSpan,
+      sourceIndex: marker.sourceIndex,
+      chunkId: source.id,
+      documentId: source.metadata.documentId,
+      title: source.document?.title || source.metadata.title || 'Untitled',
+      chunkSpan: span,
+      documentSpan: { start: source.metadata.startIndex + span.start, end: source.metadata.startIndex + span.end },
+      quote: source.content.slice(span.start, span.end),
+      support,
+      supported: support >= minSupport
+    };
+    citations.push(citation);
+    bySentence.set(sentenceIndex, [...(bySentence.get(sentenceIndex) || []), citation]);
+  }
+
+  // Pass 3: check every claim
+  const invalidSentences = new Set(invalidAt.map(owner));
+  const check: CitationCheck = { claims: 0, cited: 0, supported: 0, unsupported: [] };
+  sentences.forEach((span, index) => {
+    if (!isClaim(response, span)) return;
+    check.claims++;
+
+    const cited = bySentence.get(index) || [];
+    const text = response.slice(span.start, span.end);
+    if (cited.length === 0) {
+      check.unsupported.push({ span, text, reason: invalidSentences.has(index) ? 'unknown-source' : 'uncited' });
+      return;
+    }
+
+    check.cited++;
+    const support = Math.max(...cited.map(citation => citation.support));
+    if (cited.some(citation => citation.supported)) {
+      check.supported++;
+    } else {
+      check.unsupported.push({ span, text, reason: 'weak-support', support });
+    }
+  });
+
+  return { response, citations, check };
+}
@@ -7,6 +7,8 @@ import { llmClient } from '../../integrations/llm/llm-client';
 import { kwaaiClient } from '../../integrations/kwaai/kwaai-client';
 import { logger } from '../../utils/logger';
 import { database } from '../../utils/database';
+import { extractDocument, DocumentStructure, ExtractedDocument } from './extractors';
+import { chunkText, ChunkingStrategy } from './chunking';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface DocumentMetadata {
@@ -24,6 +26,8 @@ export interface DocumentMetadata {
   language?: string;
   category?: string;
   version?: string;
+  fileName?: string;
+  extraction?: DocumentStructure;
 }
 
 export interface DocumentChunk {
@@ -38,6 +42,12 @@ export interface DocumentChunk {
     startIndex: number;
     endIndex: number;
     wordCount: number;
+    tokenCount: number;
+    section?: string;
+    headingPath: string[];
+    clause?: string;
+    pageNumber?: number;
+    pageEnd?: number;
   };
   embedding?: number[];
   qualityScore?: number;
@@ -64,8 +74,10 @@ export interface ProcessedDocument {
 }
 
 export class DocumentProcessor {
-  private readonly CHUNK_SIZE = 1000;
-  private readonly CHUNK_OVERLAP = 200;
+  private readonly CHUNKING_STRATEGY: ChunkingStrategy = 'section';
+  private readonly CHUNK_SIZE = 256; // embedding model tokens
+  private readonly CHUNK_OVERLAP = 48;
+  private readonly EMBEDDING_MODEL = 'text-embedding-3-small';
   private readonly COLLECTION_NAME = 'bgin_documents';
 
   constructor() {
@@ -105,8 +117,18 @@ export class DocumentProcessor {
       logger.info(`Processing document: ${metadata.title || 'Untitled'}`);
 
       // Extract text content based on file type
-      const content = await this.extractTextContent(file, metadata.mimeType);
-      
+      const { text: content, ...structure } = await this.extractTextContent(file, metadata);
+      metadata = {
+        ...metadata,
+        title: metadata.title || structure.title,
+        author: metadata.author || structure.author,
+        documentType: metadata.documentType || structure.format,
+        extraction: structure
+      };
+      if (structure.warnings.length > 0) {
+        logger.warn(`Extraction warnings for ${metadata.title || 'Untitled'}: ${structure.warnings.join('; ')}`);
+      }
+
       // Process with Kwaai for privacy-preserving analysis
       const kwaaiResult = await kwaaiClient.processDocument(content, {
         ...metadata,
@@ -181,10 +203,8 @@ export class DocumentProcessor {
     }
   }
 
-  private async extractTextContent(file: Buffer, mimeType?: string): Promise<string> {
-    // For now, assume text content is already extracted
-    // In production, you would use libraries like pdf-parse, mammoth, etc.
-    return file.toString('utf-8');
+  private async extractTextContent(file: Buffer, metadata: DocumentMetadata): Promise<ExtractedDocument> {
+    return extractDocument(file, { mimeType: metadata.mimeType, fileName: metadata.fileName });
   }
 
   private async generateSummary(content: string, metadata: DocumentMetadata): Promise<string> {
@@ -236,64 +256,39 @@ export class DocumentProcessor {
     documentId: string,
     metadata: DocumentMetadata
   ): Promise<DocumentChunk[]> {
-    const chunks: DocumentChunk[] = [];
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    let currentChunk = '';
-    let chunkIndex = 0;
-    let startIndex = 0;
-
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i].trim();
-      if (!sentence) continue;
-
-      // Check if adding this sentence would exceed chunk size
-      if (currentChunk.length + sentence.length > this.CHUNK_SIZE && currentChunk.length > 0) {
-        // Save current chunk
-        chunks.push({
-          id: uuidv4(),
-          documentId,
-          chunkIndex,
-          content: currentChunk.trim(),
-          metadata: {
-            title: metadata.title,
-            sessionId: metadata.sessionId,
-            privacyLevel: metadata.privacyLevel,
-            startIndex,
-            endIndex: startIndex + currentChunk.length,
-            wordCount: currentChunk.split(/\s+/).length
-          }
-        });
-
-        // Start new chunk with overlap
-        const overlapText = currentChunk.slice(-this.CHUNK_OVERLAP);
-        currentChunk = overlapText + ' ' + sentence;
-        startIndex += currentChunk.length - overlapText.length - sentence.length - 1;
-        chunkIndex++;
-      } else {
-        currentChunk += (currentChunk ? '. ' : '') + sentence;
-      }
+    const { chunks, strategy, warnings } = await chunkText(content, {
+      strategy: this.CHUNKING_STRATEGY,
+      chunkSize: this.CHUNK_SIZE,
+      chunkOverlap: this.CHUNK_OVERLAP,
+      embeddingModel: this.EMBEDDING_MODEL,
+      structure: metadata.extraction,
+      embed: async text => (await llmClient.generateEmbedding(text)).embedding
+    });
+    if (warnings.length > 0) {
+      logger.warn(`Chunking warnings for ${metadata.title || 'Untitled'}: ${warnings.join('; ')}`);
     }
-
-    // Add final chunk if there's content
-    if (currentChunk.trim().length > 0) {
-      chunks.push({
-        id: uuidv4(),
-        documentId,
-        chunkIndex,
-        content: currentChunk.trim(),
-        metadata: {
-          title: metadata.title,
-          sessionId: metadata.sessionId,
-          privacyLevel: metadata.privacyLevel,
-          startIndex,
-          endIndex: startIndex + currentChunk.length,
-          wordCount: currentChunk.split(/\s+/).length
-        }
-      });
-    }
-
-    return chunks;
+    logger.info(`Split document ${documentId} into ${chunks.length} chunks (${strategy})`);
+
+    return chunks.map(chunk => ({
+      id: uuidv4(),
+      documentId,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      metadata: {
+        title: metadata.title,
+        sessionId: metadata.sessionId,
+        privacyLevel: metadata.privacyLevel,
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        wordCount: chunk.wordCount,
+        tokenCount: chunk.tokenCount,
+        section: chunk.section,
+        headingPath: chunk.headingPath,
+        clause: chunk.clause,
+        pageNumber: chunk.pageNumber,
+        pageEnd: chunk.pageEnd
+      }
+    }));
   }
 
   private async generateChunkEmbeddings(chunks: DocumentChunk[]): Promise<DocumentChunk[]> {
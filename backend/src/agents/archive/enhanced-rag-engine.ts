@@ -3,9 +3,12 @@
 // =====================================
 
 import { retrievalSystem, SearchFilters, UserContext, SearchResult, FilteredResult } from './retrieval-system';
+import { hybridRetriever } from './hybrid-retriever';
+import { reranker, RerankMethod } from './reranker';
+import { annotateCitations, Citation, CitationCheck, CitedAnswer, CITATION_INSTRUCTIONS, sourceLabel } from './citations';
 import { documentProcessor, DocumentMetadata, ProcessedDocument } from './document-processor';
 import { documentationAdvisor, DocumentationQualityMetrics, DocumentationRecommendation, DocumentationPlan } from './documentation-advisor';
-import { llmClient } from '../../integrations/llm/llm-client';
+import { llmClient, GenerationOptions } from '../../integrations/llm/llm-client';
 import { discourseClient } from '../../integrations/discourse-api/discourse-client';
 import { kwaaiClient } from '../../integrations/kwaai/kwaai-client';
 import { phalaRAGService, PhalaRAGResult } from './phala-rag-service';
@@ -21,6 +24,8 @@ export interface RAGQuery {
   includeCrossSession?: boolean;
   maxResults?: number;
   synthesisMode?: 'summary' | 'detailed' | 'analytical';
+  /** false skips the configured reranker for this query */
+  rerank?: boolean;
 }
 
 export interface RAGResponse {
@@ -31,18 +36,49 @@ export interface RAGResponse {
     content: string;
     score: number;
     accessLevel: 'full' | 'summary' | 'metadata';
+    /** Reranker relevance, 0..1; absent when the source was not reranked */
+    rerankScore?: number;
   }[];
+  /** Inline "[n]" markers in `response`, each bound to a chunk passage */
+  citations: Citation[];
   metadata: {
     totalSources: number;
     crossSessionSources: number;
     processingTime: number;
     confidence: number;
     privacyLevel: string;
+    reranking?: RerankingSummary;
+    /** Answer sentences that are uncited or not backed by their sources */
+    citationCheck?: CitationCheck;
   };
   insights?: string[];
   recommendations?: string[];
 }
 
+export interface RerankingSummary {
+  method: RerankMethod;
+  candidates: number;
+  /** Candidates scored below MIN_CONFIDENCE */
+  dropped: number;
+  /** Set when the reranker failed and retrieval order was kept */
+  error?: string;
+}
+
+export type RerankedResult = FilteredResult & { rerankScore?: number };
+
+export type RAGStreamEvent =
+  | { type: 'sources'; sources: RAGResponse['sources'] }
+  | { type: 'chunk'; content: string }
+  | {
+      type: 'complete';
+      /** The streamed text with citation markers rewritten; replaces what was streamed */
+      response: string;
+      citations: Citation[];
+      metadata: RAGResponse['metadata'];
+      insights: string[];
+      recommendations: string[];
+    };
+
 export interface SynthesisContext {
   query: string;
   sources: FilteredResult[];
@@ -58,6 +94,15 @@ export interface SynthesisContext {
 export class EnhancedRAGEngine {
   private readonly MAX_SOURCES = 10;
   private readonly MIN_CONFIDENCE = 0.6;
+  // Candidates retrieved per final source when reranking
+  private readonly RERANK_CANDIDATE_FACTOR = 3;
+  // Top sources given to the model, labelled S1..Sn for citation
+  private readonly PROMPT_SOURCES = 5;
+  // Synthesis confidence by path, shared by processQuery and processQueryStream
+  private readonly PHALA_CONFIDENCE = 0.9;
+  private readonly LOCAL_CONFIDENCE = 0.8;
+  private readonly FAILED_SYNTHESIS_CONFIDENCE = 0.1;
+  private readonly FAILED_SYNTHESIS = 'Unable to generate synthesis at this time.';
 
   async processQuery(ragQuery: RAGQuery): Promise<RAGResponse> {
     const startTime = Date.now();
@@ -65,31 +110,8 @@ export class EnhancedRAGEngine {
     try {
       logger.info(`Processing RAG query: "${ragQuery.query}" in session ${ragQuery.sessionId}`);
 
-      // Step 1: Search for relevant documents
-      const searchResults = await this.searchRelevantDocuments(ragQuery);
-      
-      // Step 2: Rank and filter results
-      const rankedResults = await retrievalSystem.rankResults(searchResults);
-      const filteredResults = await retrievalSystem.applyPrivacyFilters(rankedResults, ragQuery.userContext);
-      
-      // Step 3: Cross-session search if enabled
-      let crossSessionResults: FilteredResult[] = [];
-      if (ragQuery.includeCrossSession) {
-        crossSessionResults = await this.performCrossSessionSearch(ragQuery);
-      }
-
-      // Step 4: Combine and limit results
-      const allResults = [...filteredResults, ...crossSessionResults]
-        .slice(0, ragQuery.maxResults || this.MAX_SOURCES);
-
-      // Step 5: Generate synthesis context
-      const synthesisContext: SynthesisContext = {
-        query: ragQuery.query,
-        sources: allResults,
-        sessionContext: await this.getSessionContext(ragQuery.sessionId),
-        userContext: ragQuery.userContext,
-        synthesisMode: ragQuery.synthesisMode || 'summary'
-      };
+      // Steps 1-5: Retrieve sources and build the synthesis context
+      const { synthesisContext, allResults, crossSessionResults, reranking } = await this.retrieveContext(ragQuery);
 
       // Step 6: Generate response using LLM (with Phala Cloud integration)
       const response = await this.generateSynthesisWithPhala(synthesisContext);
@@ -98,23 +120,23 @@ export class EnhancedRAGEngine {
       const insights = await this.generateInsights(synthesisContext);
       const recommendations = await this.generateRecommendations(synthesisContext);
 
+      // Step 8: Anchor inline citations and check the answer against its sources
+      const cited = this.annotateResponse(response.content, synthesisContext);
+
       const processingTime = Date.now() - startTime;
 
       return {
-        response: response.content,
-        sources: allResults.map(result => ({
-          documentId: result.metadata.documentId,
-          title: result.document?.title || 'Untitled',
-          content: result.content,
-          score: result.finalScore,
-          accessLevel: result.accessLevel
-        })),
+        response: cited.response,
+        sources: this.formatSources(allResults),
+        citations: cited.citations,
         metadata: {
           totalSources: allResults.length,
           crossSessionSources: crossSessionResults.length,
           processingTime,
           confidence: response.confidence || 0.8,
-          privacyLevel: ragQuery.userContext.privacyLevel
+          privacyLevel: ragQuery.userContext.privacyLevel,
+          reranking,
+          citationCheck: cited.check
         },
         insights,
         recommendations
@@ -126,6 +148,167 @@ export class EnhancedRAGEngine {
     }
   }
 
+  /**
+   * Stream a RAG query: sources are emitted up-front, then synthesis tokens as
+   * the LLM produces them, then the final metadata, insights and recommendations
+   */
+  async *processQueryStream(ragQuery: RAGQuery): AsyncGenerator<RAGStreamEvent> {
+    const startTime = Date.now();
+
+    logger.info(`Streaming RAG query: "${ragQuery.query}" in session ${ragQuery.sessionId}`);
+
+    const { synthesisContext, allResults, crossSessionResults, reranking } = await this.retrieveContext(ragQuery);
+
+    yield { type: 'sources', sources: this.formatSources(allResults) };
+
+    // Same synthesis path as processQuery: Phala Cloud first, then the local LLM
+    let synthesis: { content: string; confidence: number };
+    try {
+      // Phala Cloud does not stream, so its answer goes out as a single chunk
+      synthesis = await this.synthesizeWithPhala(synthesisContext);
+      yield { type: 'chunk', content: synthesis.content };
+    } catch (error) {
+      logger.error('Phala Cloud synthesis failed, streaming from local LLM:', error);
+      synthesis = yield* this.streamSynthesis(synthesisContext);
+    }
+    const response = synthesis.content;
+    const confidence = synthesis.confidence;
+
+    const insights = await this.generateInsights(synthesisContext);
+    const recommendations = await this.generateRecommendations(synthesisContext);
+    const cited = this.annotateResponse(response, synthesisContext);
+
+    yield {
+      type: 'complete',
+      response: cited.response,
+      citations: cited.citations,
+      metadata: {
+        totalSources: allResults.length,
+        crossSessionSources: crossSessionResults.length,
+        processingTime: Date.now() - startTime,
+        confidence,
+        privacyLevel: ragQuery.userContext.privacyLevel,
+        reranking,
+        citationCheck: cited.check
+      },
+      insights,
+      recommendations
+    };
+  }
+
+  /**
+   * Search, rank, privacy-filter, combine and rerank results, then build the synthesis context
+   */
+  private async retrieveContext(ragQuery: RAGQuery): Promise<{
+    synthesisContext: SynthesisContext;
+    allResults: RerankedResult[];
+    crossSessionResults: FilteredResult[];
+    reranking?: RerankingSummary;
+  }> {
+    const maxSources = ragQuery.maxResults || this.MAX_SOURCES;
+    const rerank = reranker.isEnabled && ragQuery.rerank !== false;
+
+    // Step 1: Search for relevant documents, over-fetching when a reranker will choose among them
+    const searchResults = await this.searchRelevantDocuments(
+      ragQuery,
+      rerank ? maxSources * this.RERANK_CANDIDATE_FACTOR : maxSources
+    );
+    
+    // Step 2: Rank and filter results
+    const rankedResults = await retrievalSystem.rankResults(searchResults);
+    const filteredResults = await retrievalSystem.applyPrivacyFilters(rankedResults, ragQuery.userContext);
+    
+    // Step 3: Cross-session search if enabled
+    let crossSessionResults: FilteredResult[] = [];
+    if (ragQuery.includeCrossSession) {
+      crossSessionResults = await this.performCrossSessionSearch(ragQuery);
+    }
+
+    // Step 4: Combine, rerank and limit results
+    let allResults: RerankedResult[] = [...filteredResults, ...crossSessionResults];
+    let reranking: RerankingSummary | undefined;
+    if (rerank) {
+      ({ results: allResults, summary: reranking } = await this.rerankSources(ragQuery.query, allResults));
+    }
+    allResults = allResults.slice(0, maxSources);
+
+    // Step 5: Generate synthesis context
+    const synthesisContext: SynthesisContext = {
+      query: ragQuery.query,
+      sources: allResults,
+      sessionContext: await this.getSessionContext(ragQuery.sessionId),
+      userContext: ragQuery.userContext,
+      synthesisMode: ragQuery.synthesisMode || 'summary'
+    };
+
+    return { synthesisContext, allResults, crossSessionResults, reranking };
+  }
+
+  /**
+   * Score (query, chunk) pairs with the configured reranker, drop chunks
+   * below MIN_CONFIDENCE and order the rest by reranker score. Chunks the
+   * user may only see as metadata are not sent to the reranker and keep
+   * their place after the reranked ones. On reranker failure the retrieval
+   * order is kept.
+   */
+  private async rerankSources(
+    query: string,
+    results: FilteredResult[]
+  ): Promise<{ results: RerankedResult[]; summary: RerankingSummary }> {
+    const candidates = results.filter(result => result.accessLevel !== 'metadata');
+    const restricted = results.filter(result => result.accessLevel === 'metadata');
+
+    try {
+      const scores = await reranker.rerank(query, candidates.map(result => ({ id: result.id, content: result.content })));
+      const scoreById = new Map(scores.map(entry => [entry.id, entry.score]));
+
+      const reranked = candidates
+        .map(result => ({ ...result, rerankScore: scoreById.get(result.id) ?? 0 }))
+        .filter(result => result.rerankScore >= this.MIN_CONFIDENCE)
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+
+      logger.info(`Reranked ${candidates.length} sources with ${reranker.method}; kept ${reranked.length}`);
+      return {
+        results: [...reranked, ...restricted],
+        summary: { method: reranker.method, candidates: candidates.length, dropped: candidates.length - reranked.length }
+      };
+    } catch (error) {
+      logger.warn('Reranking failed, keeping retrieval order:', error);
+      return {
+        results,
+        summary: {
+          method: reranker.method,
+          candidates: candidates.length,
+          dropped: 0,
+          error: error instanceof Error ? error.message : 'Unknown reranking error'
+        }
+      };
+    }
+  }
+
+  /**
+   * Citation markers refer to the sources as labelled in the prompt, which
+   * are the first PROMPT_SOURCES of the context
+   */
+  private annotateResponse(response: string, context: SynthesisContext): CitedAnswer {
+    const cited = annotateCitations(response, context.sources.slice(0, this.PROMPT_SOURCES));
+    if (cited.check.unsupported.length > 0) {
+      logger.info(`Citation check: ${cited.check.unsupported.length} of ${cited.check.claims} claims unsupported`);
+    }
+    return cited;
+  }
+
+  private formatSources(results: RerankedResult[]): RAGResponse['sources'] {
+    return results.map(result => ({
+      documentId: result.metadata.documentId,
+      title: result.document?.title || 'Untitled',
+      content: result.content,
+      score: result.finalScore,
+      accessLevel: result.accessLevel,
+      rerankScore: result.rerankScore
+    }));
+  }
+
   /**
    * Process RAG query using Phala Cloud TEE for confidential compute
    * This method provides hardware-level privacy and verifiable computation
@@ -234,6 +417,8 @@ export class EnhancedRAGEngine {
           score: source.relevanceScore,
           accessLevel: 'full' as const
         })),
+        // The track prompts run inside the TEE and do not ask for inline markers
+        citations: [],
         metadata: {
           totalSources: phalaResult.sources.length,
           crossSessionSources: 0, // Phala handles this internally
@@ -257,32 +442,7 @@ export class EnhancedRAGEngine {
    */
   private async generateSynthesisWithPhala(context: SynthesisContext): Promise<{ content: string; confidence: number }> {
     try {
-      logger.info('Generating synthesis with Phala Cloud for confidential compute');
-
-      // Prepare context for Phala Cloud
-      const contextString = context.sources.map(source => 
-        `Document: ${source.document?.title || 'Untitled'}\nContent: ${source.content}\nRelevance: ${source.finalScore}`
-      ).join('\n\n');
-
-      // Use Phala Cloud for LLM inference
-      const phalaResponse = await phalaLLMService.generateArchiveResponse(
-        context.query,
-        context.sessionContext?.sessionId || 'unknown',
-        contextString,
-        context.synthesisMode
-      );
-
-      // Extract response content
-      const content = phalaResponse.choices[0]?.message?.content || 'No response generated';
-      const confidence = 0.9; // High confidence for Phala Cloud responses
-
-      logger.info(`Phala Cloud synthesis completed with ${phalaResponse.usage?.total_tokens || 0} tokens`);
-
-      return {
-        content,
-        confidence: confidence || 0.9
-      };
-
+      return await this.synthesizeWithPhala(context);
     } catch (error) {
       logger.error('Phala Cloud synthesis failed, falling back to local LLM:', error);
       
@@ -295,6 +455,34 @@ export class EnhancedRAGEngine {
     }
   }
 
+  /**
+   * Phala Cloud synthesis without the local fallback; throws on failure
+   */
+  private async synthesizeWithPhala(context: SynthesisContext): Promise<{ content: string; confidence: number }> {
+    logger.info('Generating synthesis with Phala Cloud for confidential compute');
+
+    // Prepare context for Phala Cloud, labelled the same way as the local prompt
+    const contextString = `${this.buildSourcesText(context)}\n\n${CITATION_INSTRUCTIONS}`;
+
+    // Use Phala Cloud for LLM inference
+    const phalaResponse = await phalaLLMService.generateArchiveResponse(
+      context.query,
+      context.sessionContext?.sessionId || 'unknown',
+      contextString,
+      context.synthesisMode
+    );
+
+    // Extract response content
+    const content = phalaResponse.choices[0]?.message?.content || 'No response generated';
+
+    logger.info(`Phala Cloud synthesis completed with ${phalaResponse.usage?.total_tokens || 0} tokens`);
+
+    return {
+      content,
+      confidence: this.PHALA_CONFIDENCE
+    };
+  }
+
   async processDocument(
     content: string,
     metadata: DocumentMetadata
@@ -405,18 +593,14 @@ export class EnhancedRAGEngine {
     }
   }
 
-  private async searchRelevantDocuments(ragQuery: RAGQuery): Promise<SearchResult[]> {
+  private async searchRelevantDocuments(ragQuery: RAGQuery, limit: number = ragQuery.maxResults || this.MAX_SOURCES): Promise<SearchResult[]> {
     const filters: SearchFilters = {
       sessionId: ragQuery.sessionId,
       privacyLevel: ragQuery.userContext.privacyLevel,
       ...ragQuery.filters
     };
 
-    return await retrievalSystem.searchSimilar(
-      ragQuery.query,
-      filters,
-      ragQuery.maxResults || this.MAX_SOURCES
-    );
+    return await hybridRetriever.search(ragQuery.query, filters, { limit });
   }
 
   private async performCrossSessionSearch(ragQuery: RAGQuery): Promise<FilteredResult[]> {
@@ -451,37 +635,70 @@ export class EnhancedRAGEngine {
 
   private async generateSynthesis(context: SynthesisContext): Promise<{ content: string; confidence?: number }> {
     try {
-      const sourcesText = context.sources
-        .slice(0, 5) // Limit to top 5 sources for context
-        .map((source, index) => 
-          `[Source ${index + 1}] ${source.content}\n` +
-          `(Title: ${source.document?.title || 'Untitled'}, ` +
-          `Score: ${source.finalScore.toFixed(2)}, ` +
-          `Privacy: ${source.metadata.privacyLevel})`
-        )
-        .join('\n\n');
-
-      const prompt = this.buildSynthesisPrompt(context, sourcesText);
+      const prompt = this.buildSynthesisPrompt(context, this.buildSourcesText(context));
       
-      const response = await llmClient.generateResponse(prompt, {
-        maxTokens: context.synthesisMode === 'detailed' ? 4000 : context.synthesisMode === 'analytical' ? 5000 : 3000,
-        temperature: 0.3
-      });
+      const response = await llmClient.generateResponse(prompt, this.getSynthesisOptions(context));
 
       return {
         content: response.content,
-        confidence: 0.8 // Could be calculated based on source quality
+        confidence: this.LOCAL_CONFIDENCE // Could be calculated based on source quality
       };
 
     } catch (error) {
       logger.error('Synthesis generation failed:', error);
       return {
-        content: 'Unable to generate synthesis at this time.',
-        confidence: 0.1
+        content: this.FAILED_SYNTHESIS,
+        confidence: this.FAILED_SYNTHESIS_CONFIDENCE
       };
     }
   }
 
+  /**
+   * Streaming counterpart of generateSynthesis, with the same confidences
+   */
+  private async *streamSynthesis(context: SynthesisContext): AsyncGenerator<RAGStreamEvent, { content: string; confidence: number }> {
+    let content = '';
+    try {
+      const prompt = this.buildSynthesisPrompt(context, this.buildSourcesText(context));
+
+      for await (const chunk of llmClient.streamResponse(prompt, this.getSynthesisOptions(context))) {
+        if (chunk.content) {
+          content += chunk.content;
+          yield { type: 'chunk', content: chunk.content };
+        }
+      }
+      return { content, confidence: this.LOCAL_CONFIDENCE };
+    } catch (error) {
+      logger.error('Streaming synthesis failed:', error);
+      if (content) {
+        throw error;
+      }
+
+      // Nothing reached the client yet, so degrade the same way generateSynthesis does
+      yield { type: 'chunk', content: this.FAILED_SYNTHESIS };
+      return { content: this.FAILED_SYNTHESIS, confidence: this.FAILED_SYNTHESIS_CONFIDENCE };
+    }
+  }
+
+  private buildSourcesText(context: SynthesisContext): string {
+    return context.sources
+      .slice(0, this.PROMPT_SOURCES)
+      .map((source, index) => 
+        `[${sourceLabel(index)}] ${source.content}\n` +
+        `(Title: ${source.document?.title || 'Untitled'}, ` +
+        `Score: ${source.finalScore.toFixed(2)}, ` +
+        `Privacy: ${source.metadata.privacyLevel})`
+      )
+      .join('\n\n');
+  }
+
+  private getSynthesisOptions(context: SynthesisContext): GenerationOptions {
+    return {
+      maxTokens: context.synthesisMode === 'detailed' ? 4000 : context.synthesisMode === 'analytical' ? 5000 : 3000,
+      temperature: 0.3
+    };
+  }
+
   private buildSynthesisPrompt(context: SynthesisContext, sourcesText: string): string {
     const basePrompt = `You are an Archive Agent in the BGIN Multi-Agent Research System. Your role is to synthesize research findings and provide evidence-based responses while respecting privacy levels.
 
@@ -495,6 +712,8 @@ Synthesis Mode: ${context.synthesisMode}
 Sources:
 ${sourcesText}
 
+${CITATION_INSTRUCTIONS}
+
 **Reasoning Framework:**
 1. Analyze each source document thoroughly
 2. Identify key themes, patterns, and relationships
@@ -0,0 +1,101 @@
+// =====================================
+// backend/src/agents/archive/extractors/csv.ts
+// RFC 4180 CSV/TSV extraction into a single table
+// =====================================
+
+import { DocumentBuilder } from './document-builder';
+import { decodeText } from './text';
+import { ExtractedDocument } from './types';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Pick the candidate that splits the header row into the most fields
+ */
+function sniffDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = unquoted.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCSV(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(candidate => candidate.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * The first row is treated as the header row
+ */
+export function extractCSV(file: Buffer, mimeType?: string): ExtractedDocument {
+  const builder = new DocumentBuilder();
+  const warnings: string[] = [];
+  const text = decodeText(file, warnings);
+  warnings.forEach(warning => builder.warn(warning));
+
+  const delimiter = mimeType === 'text/tab-separated-values' ? '\t' : sniffDelimiter(text);
+  const rows = parseCSV(text, delimiter);
+  if (rows.length === 0) {
+    throw new Error('CSV file has no rows');
+  }
+
+  const width = rows[0].length;
+  const ragged = rows.filter(row => row.length !== width).length;
+  if (ragged > 0) {
+    builder.warn(`${ragged} CSV row(s) do not have ${width} columns`);
+  }
+
+  builder.table(rows, { hasHeader: true });
+  return builder.build('csv');
+}
@@ -0,0 +1,154 @@
+// =====================================
+// backend/src/agents/archive/extractors/document-builder.ts
+// Accumulates extracted text while recording structure offsets
+// =====================================
+
+import { DocumentFormat, DocumentHeading, DocumentPage, DocumentTable, ExtractedDocument } from './types';
+
+export const MAX_TABLE_ROWS = 200;
+
+/**
+ * Collapse runs of spaces, trim every line and drop control characters so
+ * offsets are computed against the text that is actually indexed
+ */
+export function normalizeText(text: string, preserveWhitespace: boolean = false): string {
+  const cleaned = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000e-\u001f\u007f]/g, '')
+    .replace(/\u00a0/g, ' ');
+
+  if (preserveWhitespace) {
+    return cleaned.replace(/\f/g, '').replace(/^\n+|\s+$/g, '');
+  }
+
+  return cleaned
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export class DocumentBuilder {
+  private text = '';
+  private headings: DocumentHeading[] = [];
+  private pages: DocumentPage[] = [];
+  private tables: DocumentTable[] = [];
+  private warnings: string[] = [];
+  private currentPage?: { pageNumber: number; startIndex: number };
+  private lastBlock?: 'paragraph' | 'line' | 'heading' | 'table';
+
+  /**
+   * Add a block of text, separated from the previous block by a blank line
+   */
+  paragraph(text: string, options: { preserveWhitespace?: boolean } = {}): void {
+    const clean = normalizeText(text, options.preserveWhitespace);
+    if (!clean) return;
+    this.separate('\n\n');
+    this.text += clean;
+    this.lastBlock = 'paragraph';
+  }
+
+  /**
+   * Add a line that runs on from a preceding line, such as consecutive list items
+   */
+  line(text: string): void {
+    const clean = normalizeText(text);
+    if (!clean) return;
+    this.separate(this.lastBlock === 'line' ? '\n' : '\n\n');
+    this.text += clean;
+    this.lastBlock = 'line';
+  }
+
+  heading(level: number, text: string): void {
+    const clean = normalizeText(text).replace(/\n/g, ' ');
+    if (!clean) return;
+    this.separate('\n\n');
+    this.headings.push({
+      level: Math.min(Math.max(level, 1), 6),
+      text: clean,
+      startIndex: this.text.length,
+      pageNumber: this.currentPage?.pageNumber
+    });
+    this.text += clean;
+    this.lastBlock = 'heading';
+  }
+
+  /**
+   * Render a table as one ` | `-separated line per row
+   */
+  table(rows: string[][], options: { hasHeader?: boolean; caption?: string } = {}): void {
+    const cleanRows = rows
+      .map(row => row.map(cell => normalizeText(cell).replace(/\n/g, ' ')))
+      .filter(row => row.some(cell => cell.length > 0));
+    if (cleanRows.length === 0) return;
+
+    const caption = options.caption ? normalizeText(options.caption) : undefined;
+    if (caption) {
+      this.paragraph(caption);
+    }
+
+    this.separate('\n\n');
+    const startIndex = this.text.length;
+    this.text += cleanRows.map(row => row.join(' | ')).join('\n');
+
+    const headers = options.hasHeader ? cleanRows[0] : [];
+    const body = options.hasHeader ? cleanRows.slice(1) : cleanRows;
+    this.tables.push({
+      startIndex,
+      endIndex: this.text.length,
+      pageNumber: this.currentPage?.pageNumber,
+      caption,
+      headers,
+      rows: body.slice(0, MAX_TABLE_ROWS),
+      rowCount: body.length,
+      columnCount: Math.max(...cleanRows.map(row => row.length)),
+      truncated: body.length > MAX_TABLE_ROWS
+    });
+    this.lastBlock = 'table';
+  }
+
+  startPage(pageNumber: number): void {
+    this.endPage();
+    this.separate('\n\n');
+    this.currentPage = { pageNumber, startIndex: this.text.length };
+  }
+
+  endPage(): void {
+    if (!this.currentPage) return;
+    this.pages.push({ ...this.currentPage, endIndex: this.text.length });
+    this.currentPage = undefined;
+  }
+
+  warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  build(format: DocumentFormat, info: { title?: string; author?: string } = {}): ExtractedDocument {
+    this.endPage();
+    const title = info.title ? normalizeText(info.title).replace(/\n/g, ' ') : undefined;
+    const author = info.author ? normalizeText(info.author).replace(/\n/g, ' ') : undefined;
+
+    return {
+      format,
+      text: this.text,
+      title: title || this.headings.find(heading => heading.level === 1)?.text,
+      author: author || undefined,
+      headings: this.headings,
+      pages: this.pages,
+      tables: this.tables,
+      warnings: this.warnings
+    };
+  }
+
+  private separate(separator: string): void {
+    if (this.text.length === 0 || this.text.endsWith('\n\n')) return;
+    if (separator === '\n' && this.text.endsWith('\n')) return;
+    this.text += this.text.endsWith('\n') ? '\n' : separator;
+  }
+}
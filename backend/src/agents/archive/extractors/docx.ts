@@ -0,0 +1,294 @@
+// =====================================
+// backend/src/agents/archive/extractors/docx.ts
+// Word (Office Open XML) extraction with styles, numbering and tables
+// =====================================
+
+import { DocumentBuilder } from './document-builder';
+import { childElements, findFirst, MarkupElement, parseMarkup, textContent } from './markup';
+import { InflateBudget } from './inflate';
+import { readZipEntries, readZipEntry, ZipEntry } from './zip';
+import { ExtractedDocument } from './types';
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+// Elements whose text is not part of the visible document
+const SKIPPED_RUN_CONTENT = new Set(['w:del', 'w:delText', 'w:instrText', 'w:rPr', 'w:pPr', 'w:footnoteReference', 'w:endnoteReference']);
+
+function readPart(buffer: Buffer, entries: Map<string, ZipEntry>, name: string, budget: InflateBudget): MarkupElement | undefined {
+  const entry = entries.get(name);
+  return entry ? parseMarkup(readZipEntry(buffer, entry, budget).toString('utf8')) : undefined;
+}
+
+function attribute(element: MarkupElement | undefined, child: string, name: string = 'w:val'): string | undefined {
+  return element ? childElements(element, child)[0]?.attributes[name] : undefined;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ];
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetters(value: number): string {
+  let result = '';
+  while (value > 0) {
+    result = String.fromCharCode(97 + ((value - 1) % 26)) + result;
+    value = Math.floor((value - 1) / 26);
+  }
+  return result;
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value);
+    case 'upperLetter': return toLetters(value).toUpperCase();
+    case 'lowerRoman': return toRoman(value);
+    case 'upperRoman': return toRoman(value).toUpperCase();
+    case 'decimalZero': return value.toString().padStart(2, '0');
+    case 'none': return '';
+    default: return value.toString();
+  }
+}
+
+/**
+ * Reproduces Word's list numbering (`1.2`, `(a)`, `iv.`) so numbered
+ * clauses keep their labels in the extracted text
+ */
+class ListNumbering {
+  private levels: Map<string, NumberingLevel[]> = new Map();
+  private counters: Map<string, number[]> = new Map();
+
+  constructor(numbering?: MarkupElement) {
+    const root = numbering ? findFirst(numbering, 'w:numbering') : undefined;
+    if (!root) return;
+
+    const abstract = new Map<string, NumberingLevel[]>();
+    for (const definition of childElements(root, 'w:abstractNum')) {
+      const levels: NumberingLevel[] = [];
+      for (const level of childElements(definition, 'w:lvl')) {
+        levels[parseInt(level.attributes['w:ilvl'] || '0', 10)] = {
+          start: parseInt(attribute(level, 'w:start') || '1', 10),
+          format: attribute(level, 'w:numFmt') || 'decimal',
+          text: attribute(level, 'w:lvlText') ?? ''
+        };
+      }
+      abstract.set(definition.attributes['w:abstractNumId'], levels);
+    }
+
+    for (const num of childElements(root, 'w:num')) {
+      const levels = abstract.get(attribute(num, 'w:abstractNumId') || '');
+      if (levels) {
+        this.levels.set(num.attributes['w:numId'], levels);
+      }
+    }
+  }
+
+  /**
+   * Advance the counter for (numId, level) and return the rendered label;
+   * undefined for bullets and unknown lists
+   */
+  next(numId: string, level: number): string | undefined {
+    const levels = this.levels.get(numId);
+    const definition = levels?.[level];
+    if (!levels || !definition) return undefined;
+
+    const counters = this.counters.get(numId) || [];
+    counters[level] = counters[level] === undefined ? definition.start : counters[level] + 1;
+    counters.length = level + 1;
+    this.counters.set(numId, counters);
+
+    if (definition.format === 'bullet') return undefined;
+    return definition.text.replace(/%(\d)/g, (_, index: string) => {
+      const depth = parseInt(index, 10) - 1;
+      return formatNumber(counters[depth] ?? levels[depth]?.start ?? 1, levels[depth]?.format || 'decimal');
+    }).trim();
+  }
+}
+
+interface ParagraphStyle {
+  headingLevel?: number;
+  numId?: string;
+  numLevel?: number;
+}
+
+function readStyles(styles?: MarkupElement): Map<string, ParagraphStyle> {
+  const result = new Map<string, ParagraphStyle>();
+  const root = styles ? findFirst(styles, 'w:styles') : undefined;
+  if (!root) return result;
+
+  for (const style of childElements(root, 'w:style')) {
+    if (style.attributes['w:type'] !== 'paragraph') continue;
+
+    // Built-in style names are stored in English whatever the UI language
+    const name = (attribute(style, 'w:name') || '').toLowerCase();
+    const properties = childElements(style, 'w:pPr')[0];
+    const outline = attribute(properties, 'w:outlineLvl');
+    const numbering = properties ? childElements(properties, 'w:numPr')[0] : undefined;
+
+    const heading = /^heading (\d)$/.exec(name);
+    result.set(style.attributes['w:styleId'], {
+      headingLevel: heading ? parseInt(heading[1], 10)
+        : name === 'title' ? 1
+          : outline !== undefined && parseInt(outline, 10) < 9 ? parseInt(outline, 10) + 1
+            : undefined,
+      numId: attribute(numbering, 'w:numId'),
+      numLevel: numbering ? parseInt(attribute(numbering, 'w:ilvl') || '0', 10) : undefined
+    });
+  }
+  return result;
+}
+
+class DocxWalker {
+  private pageNumber = 1;
+
+  constructor(
+    private builder: DocumentBuilder,
+    private styles: Map<string, ParagraphStyle>,
+    private numbering: ListNumbering,
+    private paginate: boolean
+  ) {
+    if (paginate) {
+      builder.startPage(1);
+    }
+  }
+
+  blocks(container: MarkupElement): void {
+    for (const child of childElements(container)) {
+      switch (child.name) {
+        case 'w:p':
+          this.paragraph(child);
+          break;
+        case 'w:tbl':
+          this.table(child);
+          break;
+        case 'w:sdt':
+          childElements(child, 'w:sdtContent').forEach(content => this.blocks(content));
+          break;
+        case 'w:customXml':
+        case 'w:ins':
+          this.blocks(child);
+          break;
+      }
+    }
+  }
+
+  private paragraph(paragraph: MarkupElement): void {
+    const properties = childElements(paragraph, 'w:pPr')[0];
+    const style = this.styles.get(attribute(properties, 'w:pStyle') || '') || {};
+    const outline = attribute(properties, 'w:outlineLvl');
+    const headingLevel = style.headingLevel ?? (outline !== undefined && parseInt(outline, 10) < 9 ? parseInt(outline, 10) + 1 : undefined);
+
+    const numbering = properties ? childElements(properties, 'w:numPr')[0] : undefined;
+    const numId = attribute(numbering, 'w:numId') ?? style.numId;
+    const numLevel = numbering ? parseInt(attribute(numbering, 'w:ilvl') || '0', 10) : style.numLevel ?? 0;
+    const isListItem = numId !== undefined && numId !== '0';
+    const label = isListItem ? this.numbering.next(numId!, numLevel) : undefined;
+
+    const segments = this.runs(paragraph);
+    segments.forEach((segment, index) => {
+      if (index > 0 && this.paginate) {
+        this.builder.startPage(++this.pageNumber);
+      }
+      const text = index === 0 && label ? `${label} ${segment}` : segment;
+      if (headingLevel !== undefined) {
+        this.builder.heading(headingLevel, text);
+      } else if (isListItem) {
+        this.builder.line(index === 0 && !label ? `- ${text}` : text);
+      } else {
+        this.builder.paragraph(text);
+      }
+    });
+  }
+
+  /**
+   * Paragraph text split at page breaks (explicit breaks and the
+   * `lastRenderedPageBreak` markers Word writes from its last layout)
+   */
+  private runs(element: MarkupElement, segments: string[] = ['']): string[] {
+    for (const child of element.children) {
+      if (typeof child === 'string' || SKIPPED_RUN_CONTENT.has(child.name)) continue;
+
+      switch (child.name) {
+        case 'w:t':
+          segments[segments.length - 1] += textContent(child);
+          break;
+        case 'w:tab':
+          segments[segments.length - 1] += '\t';
+          break;
+        case 'w:br':
+          if (child.attributes['w:type'] === 'page') {
+            segments.push('');
+          } else {
+            segments[segments.length - 1] += '\n';
+          }
+          break;
+        case 'w:cr':
+          segments[segments.length - 1] += '\n';
+          break;
+        case 'w:lastRenderedPageBreak':
+          segments.push('');
+          break;
+        default:
+          this.runs(child, segments);
+      }
+    }
+    return segments;
+  }
+
+  private table(table: MarkupElement): void {
+    const rows = childElements(table, 'w:tr');
+    const cells = rows.map(row => childElements(row, 'w:tc').map(cell =>
+      childElements(cell, 'w:p').map(paragraph => this.runs(paragraph).join(' ')).join('\n')));
+    const headerProperties = rows[0] ? childElements(rows[0], 'w:trPr')[0] : undefined;
+
+    this.builder.table(cells, {
+      hasHeader: headerProperties !== undefined && childElements(headerProperties, 'w:tblHeader').length > 0
+    });
+  }
+}
+
+export function extractDocx(file: Buffer): ExtractedDocument {
+  const entries = readZipEntries(file);
+  const documentEntry = entries.get('word/document.xml');
+  if (!documentEntry) {
+    throw new Error('Not a Word document (word/document.xml missing)');
+  }
+
+  const budget = new InflateBudget();
+  const documentXml = readZipEntry(file, documentEntry, budget).toString('utf8');
+  const body = findFirst(parseMarkup(documentXml), 'w:body');
+  if (!body) {
+    throw new Error('Word document has no body');
+  }
+
+  const builder = new DocumentBuilder();
+  const walker = new DocxWalker(
+    builder,
+    readStyles(readPart(file, entries, 'word/styles.xml', budget)),
+    new ListNumbering(readPart(file, entries, 'word/numbering.xml', budget)),
+    documentXml.includes('w:lastRenderedPageBreak') || documentXml.includes('w:type="page"')
+  );
+  walker.blocks(body);
+
+  const core = readPart(file, entries, 'docProps/core.xml', budget);
+  const title = core ? findFirst(core, 'dc:title') : undefined;
+  const creator = core ? findFirst(core, 'dc:creator') : undefined;
+
+  return builder.build('docx', {
+    title: title ? textContent(title) : undefined,
+    author: creator ? textContent(creator) : undefined
+  });
+}
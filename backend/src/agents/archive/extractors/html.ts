@@ -0,0 +1,116 @@
+// =====================================
+// backend/src/agents/archive/extractors/html.ts
+// HTML extraction with headings, lists and tables
+// =====================================
+
+import { DocumentBuilder } from './document-builder';
+import { childElements, findAll, findFirst, MarkupElement, MarkupNode, parseMarkup, textContent } from './markup';
+import { decodeText } from './text';
+import { ExtractedDocument } from './types';
+
+// Scripts, embedded media and page chrome carry no document content
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'nav', 'button', 'select'
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'header', 'hr', 'main', 'ol', 'p', 'section', 'summary', 'ul'
+]);
+
+class HTMLWalker {
+  private inline = '';
+
+  constructor(private builder: DocumentBuilder) {}
+
+  walk(node: MarkupNode): void {
+    if (typeof node === 'string') {
+      this.inline += node;
+      return;
+    }
+
+    const { name } = node;
+    if (SKIPPED_ELEMENTS.has(name)) return;
+
+    const heading = /^h([1-6])$/.exec(name);
+    if (heading) {
+      this.flush();
+      this.builder.heading(parseInt(heading[1], 10), textContent(node));
+      return;
+    }
+
+    switch (name) {
+      case 'br':
+        this.inline += '\n';
+        return;
+      case 'pre':
+        this.flush();
+        this.builder.paragraph(textContent(node), { preserveWhitespace: true });
+        return;
+      case 'table':
+        this.flush();
+        this.table(node);
+        return;
+      case 'li':
+        this.flush();
+        this.inline = '- ';
+        node.children.forEach(child => this.walk(child));
+        this.flush('line');
+        return;
+    }
+
+    if (BLOCK_ELEMENTS.has(name)) {
+      this.flush();
+      node.children.forEach(child => this.walk(child));
+      this.flush();
+      return;
+    }
+
+    node.children.forEach(child => this.walk(child));
+  }
+
+  flush(as: 'paragraph' | 'line' = 'paragraph'): void {
+    if (as === 'line') {
+      this.builder.line(this.inline);
+    } else {
+      this.builder.paragraph(this.inline);
+    }
+    this.inline = '';
+  }
+
+  private table(table: MarkupElement): void {
+    const rows = findAll(table, 'tr');
+    const cells = rows.map(row => childElements(row).filter(cell => cell.name === 'td' || cell.name === 'th'));
+    const inHead = findFirst(table, 'thead');
+    const hasHeader = cells.length > 0 && (
+      cells[0].every(cell => cell.name === 'th') ||
+      (inHead !== undefined && findAll(inHead, 'tr').includes(rows[0]))
+    );
+    const caption = childElements(table, 'caption')[0];
+
+    this.builder.table(
+      cells.map(row => row.map(cell => textContent(cell))),
+      { hasHeader, caption: caption ? textContent(caption) : undefined }
+    );
+  }
+}
+
+export function extractHTML(file: Buffer): ExtractedDocument {
+  const builder = new DocumentBuilder();
+  const warnings: string[] = [];
+  const source = decodeText(file, warnings);
+  warnings.forEach(warning => builder.warn(warning));
+
+  const root = parseMarkup(source, { html: true });
+  const walker = new HTMLWalker(builder);
+  walker.walk(findFirst(root, 'body') || root);
+  walker.flush();
+
+  const title = findFirst(root, 'title');
+  const author = findAll(root, 'meta').find(meta => meta.attributes.name?.toLowerCase() === 'author');
+
+  return builder.build('html', {
+    title: title ? textContent(title) : undefined,
+    author: author?.attributes.content
+  });
+}
@@ -0,0 +1,135 @@
+// =====================================
+// backend/src/agents/archive/extractors/index.ts
+// Format detection and dispatch to the document extractors
+// =====================================
+
+import { extractCSV } from './csv';
+import { extractDocx } from './docx';
+import { extractHTML } from './html';
+import { extractMarkdown } from './markdown';
+import { extractPDF, hasPDFHeader } from './pdf';
+import { extractPlainText } from './text';
+import { readZipEntries } from './zip';
+import { DocumentFormat, ExtractedDocument, ExtractionOptions } from './types';
+
+export * from './types';
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'text/tab-separated-values': 'csv'
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  csv: 'csv',
+  tsv: 'csv'
+};
+
+export const SUPPORTED_MIME_TYPES = Object.keys(MIME_FORMATS);
+
+export const FORMAT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  markdown: 'text/markdown',
+  text: 'text/plain',
+  csv: 'text/csv'
+};
+
+// Share of replacement/control characters above which text is treated as junk
+const MAX_JUNK_RATIO = 0.05;
+
+export function formatFromFileName(fileName?: string): DocumentFormat | undefined {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_FORMATS[extension] : undefined;
+}
+
+/**
+ * Magic bytes win over the declared type, since uploads are often labelled
+ * `application/octet-stream`; text formats fall back to type, then extension
+ */
+export function detectFormat(file: Buffer, options: ExtractionOptions = {}): DocumentFormat {
+  const declared = options.mimeType?.split(';')[0].trim().toLowerCase();
+
+  if (hasPDFHeader(file)) {
+    return 'pdf';
+  }
+  if (file.length >= 4 && file.readUInt32LE(0) === 0x04034b50) {
+    if (readZipEntries(file).has('word/document.xml')) {
+      return 'docx';
+    }
+    throw new Error('Unsupported archive: only Word (.docx) packages can be extracted');
+  }
+
+  if (declared && MIME_FORMATS[declared]) {
+    return MIME_FORMATS[declared];
+  }
+  const byName = formatFromFileName(options.fileName);
+  if (byName) {
+    return byName;
+  }
+  if (declared && !declared.startsWith('text/') && declared !== 'application/octet-stream') {
+    throw new Error(`Unsupported document type: ${declared}`);
+  }
+  return 'text';
+}
+
+/**
+ * Extract indexable text and structure. Throws when the file cannot be read
+ * or yields no usable text, so callers never index binary garbage.
+ */
+export async function extractDocument(file: Buffer, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
+  const format = detectFormat(file, options);
+
+  let document: ExtractedDocument;
+  try {
+    switch (format) {
+      case 'pdf':
+        document = extractPDF(file);
+        break;
+      case 'docx':
+        document = extractDocx(file);
+        break;
+      case 'html':
+        document = extractHTML(file);
+        break;
+      case 'markdown':
+        document = extractMarkdown(file);
+        break;
+      case 'csv':
+        document = extractCSV(file, options.mimeType);
+        break;
+      default:
+        document = extractPlainText(file);
+    }
+  } catch (error) {
+    throw new Error(`Could not extract ${format} document: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!document.text.trim()) {
+    throw new Error(`Could not extract ${format} document: no text found`);
+  }
+
+  const junk = (document.text.match(/[\ufffd\u0000-\u0008\u000e-\u001f]/g) || []).length;
+  if (junk / document.text.length > MAX_JUNK_RATIO) {
+    throw new Error(`Could not extract ${format} document: extracted text looks like binary data`);
+  }
+
+  return document;
+}
@@ -0,0 +1,54 @@
+// =====================================
+// backend/src/agents/archive/extractors/inflate.ts
+// Per-document budget for decompressed stream and part output
+// =====================================
+
+// Total a document may decompress to across all its streams or parts, so a
+// file of many modest bombs cannot add up to exhaust memory
+export const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+export class InflateBudget {
+  private used = 0;
+  private overflowed = false;
+
+  constructor(readonly limit: number = MAX_INFLATED_BYTES) {}
+
+  /** Whether the document tried to decompress past the limit */
+  get exceeded(): boolean {
+    return this.overflowed;
+  }
+
+  /**
+   * Run a zlib call capped at what is left of the budget and count its output.
+   * zlib reports a capped call running over with a RangeError, matched by name
+   * since it may come from another realm (e.g. under a test sandbox).
+   */
+  inflate(run: (maxOutputLength: number) => Buffer): Buffer {
+    const remaining = this.limit - this.used;
+    if (remaining <= 0) {
+      throw this.overflow();
+    }
+
+    try {
+      return this.charge(run(remaining));
+    } catch (error) {
+      throw (error as Error | undefined)?.name === 'RangeError' ? this.overflow() : error;
+    }
+  }
+
+  /**
+   * Count output from a decoder that cannot be capped up front
+   */
+  charge(output: Buffer): Buffer {
+    this.used += output.length;
+    if (this.used > this.limit) {
+      throw this.overflow();
+    }
+    return output;
+  }
+
+  private overflow(): Error {
+    this.overflowed = true;
+    return new Error(`Document decompresses to more than ${this.limit / (1024 * 1024)} MB`);
+  }
+}
@@ -0,0 +1,123 @@
+// =====================================
+// backend/src/agents/archive/extractors/markdown.ts
+// Markdown extraction with front matter, headings and pipe tables
+// =====================================
+
+import { DocumentBuilder } from './document-builder';
+import { decodeText } from './text';
+import { ExtractedDocument } from './types';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Reduce inline markdown to the text a reader sees
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\w)/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}\[\]()#+\-.!|>])/g, '$1');
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => stripInlineMarkdown(cell.trim().replace(/\\\|/g, '|')));
+}
+
+function parseFrontMatter(text: string): { body: string; fields: Record<string, string> } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { body: text, fields: {} };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return { body: text.slice(match[0].length), fields };
+}
+
+export function extractMarkdown(file: Buffer): ExtractedDocument {
+  const builder = new DocumentBuilder();
+  const warnings: string[] = [];
+  const { body, fields } = parseFrontMatter(decodeText(file, warnings));
+  warnings.forEach(warning => builder.warn(warning));
+
+  const lines = body.split(/\r?\n/);
+  let paragraph: string[] = [];
+  const flush = () => {
+    builder.paragraph(stripInlineMarkdown(paragraph.join('\n')));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+      while (++i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      builder.paragraph(code.join('\n'), { preserveWhitespace: true });
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      flush();
+      builder.heading(atx[1].length, stripInlineMarkdown(atx[2] || ''));
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (paragraph.length === 0 && line.trim() && next !== undefined && SETEXT_UNDERLINE.test(next) && !LIST_ITEM.test(line)) {
+      builder.heading(next.trim()[0] === '=' ? 1 : 2, stripInlineMarkdown(line));
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && next !== undefined && TABLE_DELIMITER.test(next) && next.includes('-')) {
+      flush();
+      const rows = [splitTableRow(line)];
+      i++;
+      while (i + 1 < lines.length && lines[i + 1].includes('|') && lines[i + 1].trim()) {
+        rows.push(splitTableRow(lines[++i]));
+      }
+      builder.table(rows, { hasHeader: true });
+      continue;
+    }
+
+    if (!line.trim() || THEMATIC_BREAK.test(line)) {
+      flush();
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flush();
+      builder.line(`- ${stripInlineMarkdown(line.replace(LIST_ITEM, ''))}`);
+      continue;
+    }
+
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  }
+  flush();
+
+  return builder.build('markdown', { title: fields.title, author: fields.author });
+}
@@ -0,0 +1,221 @@
+// =====================================
+// backend/src/agents/archive/extractors/markup.ts
+// Lenient XML/HTML tree parser for the DOCX and HTML extractors
+// =====================================
+
+export interface MarkupElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+// Opening one of these closes an unclosed sibling, as HTML parsers do
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['td', 'th', 'tr'],
+  thead: ['td', 'th', 'tr', 'thead', 'tbody'],
+  tbody: ['td', 'th', 'tr', 'thead', 'tbody'],
+  tfoot: ['td', 'th', 'tr', 'thead', 'tbody'],
+  option: ['option']
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00a0', shy: '',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', sect: '§', para: '¶', deg: '°',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', times: '×', divide: '÷',
+  plusmn: '±', le: '≤', ge: '≥', ne: '≠', rarr: '→', larr: '←'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string, html: boolean): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=\/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = html ? match[1].toLowerCase() : match[1];
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Index of the `>` closing a tag that starts at `start`, skipping quoted values
+ */
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Build an element tree. In HTML mode names are lower-cased, void and raw text
+ * elements are recognised and unclosed elements are closed implicitly; XML
+ * mode keeps namespace prefixes (`w:p`) as written.
+ */
+export function parseMarkup(source: string, options: { html?: boolean } = {}): MarkupElement {
+  const html = options.html === true;
+  const root: MarkupElement = { name: '#document', attributes: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  let pos = 0;
+  let lowerSource: string | undefined;
+
+  const top = () => stack[stack.length - 1];
+  const pushText = (text: string) => {
+    if (text.length > 0) top().children.push(text);
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      pushText(decodeEntities(source.slice(pos)));
+      break;
+    }
+    pushText(decodeEntities(source.slice(pos, lt)));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      pushText(source.slice(lt + 9, end === -1 ? source.length : end));
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const end = source.indexOf('>', lt);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const end = findTagEnd(source, lt + 1);
+    if (end === -1) {
+      pushText(source.slice(lt));
+      break;
+    }
+    pos = end + 1;
+
+    const tag = source.slice(lt + 1, end);
+    const nameMatch = /^\/?\s*([^\s\/>]+)/.exec(tag);
+    if (!nameMatch) {
+      pushText('<');
+      pos = lt + 1;
+      continue;
+    }
+    const name = html ? nameMatch[1].toLowerCase() : nameMatch[1];
+
+    if (tag.startsWith('/')) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (html) {
+      const closes = [...(IMPLIED_END[name] || []), ...(BLOCK_ELEMENTS.has(name) ? ['p'] : [])];
+      while (stack.length > 1 && closes.includes(top().name)) {
+        stack.pop();
+      }
+    }
+
+    const element: MarkupElement = {
+      name,
+      attributes: parseAttributes(tag.slice(nameMatch[0].length).replace(/\/$/, ''), html),
+      children: []
+    };
+    top().children.push(element);
+
+    if (tag.endsWith('/') || (html && VOID_ELEMENTS.has(name))) {
+      continue;
+    }
+
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      lowerSource = lowerSource ?? source.toLowerCase();
+      const close = lowerSource.indexOf(`</${name}`, pos);
+      const raw = source.slice(pos, close === -1 ? source.length : close);
+      element.children.push(name === 'script' || name === 'style' ? raw : decodeEntities(raw));
+      const closeEnd = close === -1 ? -1 : source.indexOf('>', close);
+      pos = closeEnd === -1 ? source.length : closeEnd + 1;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return root;
+}
+
+export function textContent(node: MarkupNode): string {
+  if (typeof node === 'string') return node;
+  return node.children.map(textContent).join('');
+}
+
+export function childElements(element: MarkupElement, name?: string): MarkupElement[] {
+  return element.children.filter((child): child is MarkupElement =>
+    typeof child !== 'string' && (name === undefined || child.name === name));
+}
+
+/**
+ * Depth-first search for descendants named `name`, not descending into matches
+ */
+export function findAll(element: MarkupElement, name: string): MarkupElement[] {
+  const found: MarkupElement[] = [];
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      found.push(child);
+    } else {
+      found.push(...findAll(child, name));
+    }
+  }
+  return found;
+}
+
+export function findFirst(element: MarkupElement, name: string): MarkupElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
@@ -0,0 +1,1110 @@
+// =====================================
+// backend/src/agents/archive/extractors/pdf.ts
+// PDF text extraction: object parsing, stream filters, font decoding
+// and layout-based line, paragraph and heading recovery
+// =====================================
+
+import zlib from 'zlib';
+import { DocumentBuilder } from './document-builder';
+import { InflateBudget } from './inflate';
+import { ExtractedDocument } from './types';
+
+class PDFName {
+  constructor(readonly name: string) {}
+}
+
+class PDFRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+/** Raw string bytes, one char per byte */
+class PDFString {
+  constructor(readonly bytes: string) {}
+}
+
+class PDFOperator {
+  constructor(readonly op: string) {}
+}
+
+class PDFDict {
+  constructor(readonly entries: Map<string, PDFValue> = new Map()) {}
+
+  get(key: string): PDFValue | undefined {
+    return this.entries.get(key);
+  }
+}
+
+class PDFStream {
+  constructor(readonly dict: PDFDict, readonly raw: Buffer) {}
+}
+
+type PDFValue = number | boolean | null | PDFName | PDFRef | PDFString | PDFOperator | PDFDict | PDFStream | PDFValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5]
+  ];
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+}
+
+function isDelimiter(char: string): boolean {
+  return '()<>[]{}/%'.includes(char);
+}
+
+/**
+ * Tokenizer and value parser for both the file body and content streams,
+ * working on a latin1 string so offsets equal byte offsets
+ */
+class PDFLexer {
+  pos: number;
+
+  constructor(readonly src: string, start: number = 0) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos];
+      if (isWhitespace(char)) {
+        this.pos++;
+      } else if (char === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.src.length;
+  }
+
+  /**
+   * Parse the next value; bare keywords come back as PDFOperator
+   */
+  value(): PDFValue {
+    this.skipWhitespace();
+    const char = this.src[this.pos];
+
+    if (char === '/') return this.name();
+    if (char === '(') return this.literalString();
+    if (char === '[') {
+      this.pos++;
+      const items: PDFValue[] = [];
+      while (!this.atEnd() && this.src[this.pos] !== ']') {
+        items.push(this.value());
+      }
+      this.pos++;
+      return items;
+    }
+    if (char === '<') {
+      if (this.src[this.pos + 1] === '<') return this.dict();
+      return this.hexString();
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      // Stray delimiter in damaged content; skip it
+      this.pos++;
+      return new PDFOperator(char);
+    }
+
+    const number = /^[+-]?(?:\d+\.?\d*|\.\d+)/.exec(this.src.substr(this.pos, 32));
+    if (number) {
+      this.pos += number[0].length;
+      const value = parseFloat(number[0]);
+      if (/^\d+$/.test(number[0])) {
+        const reference = /^\s+(\d+)\s+R(?=[\s\/<>\[\]()%]|$)/.exec(this.src.substr(this.pos, 32));
+        if (reference) {
+          this.pos += reference[0].length;
+          return new PDFRef(value, parseInt(reference[1], 10));
+        }
+      }
+      return value;
+    }
+
+    const start = this.pos;
+    while (this.pos < this.src.length && !isWhitespace(this.src[this.pos]) && !isDelimiter(this.src[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      this.pos++;
+      return new PDFOperator(this.src[start]);
+    }
+    const keyword = this.src.slice(start, this.pos);
+    if (keyword === 'true') return true;
+    if (keyword === 'false') return false;
+    if (keyword === 'null') return null;
+    return new PDFOperator(keyword);
+  }
+
+  private name(): PDFName {
+    const start = ++this.pos;
+    while (this.pos < this.src.length && !isWhitespace(this.src[this.pos]) && !isDelimiter(this.src[this.pos])) {
+      this.pos++;
+    }
+    return new PDFName(this.src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private dict(): PDFDict {
+    this.pos += 2;
+    const dict = new PDFDict();
+    while (!this.atEnd()) {
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.value();
+      if (!(key instanceof PDFName)) continue;
+      dict.entries.set(key.name, this.value());
+    }
+    return dict;
+  }
+
+  private hexString(): PDFString {
+    const end = this.src.indexOf('>', this.pos);
+    let hex = this.src.slice(this.pos + 1, end === -1 ? this.src.length : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end === -1 ? this.src.length : end + 1;
+    if (hex.length % 2) hex += '0';
+    return new PDFString(Buffer.from(hex, 'hex').toString('latin1'));
+  }
+
+  private literalString(): PDFString {
+    let depth = 1;
+    let out = '';
+    this.pos++;
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos++];
+      if (char === '\\') {
+        const next = this.src[this.pos++];
+        switch (next) {
+          case 'n': out += '\n'; break;
+          case 'r': out += '\r'; break;
+          case 't': out += '\t'; break;
+          case 'b': out += '\b'; break;
+          case 'f': out += '\f'; break;
+          case '\r':
+            if (this.src[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+                octal += this.src[this.pos++];
+              }
+              out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else if (next !== undefined) {
+              out += next;
+            }
+        }
+      } else if (char === '(') {
+        depth++;
+        out += char;
+      } else if (char === ')') {
+        if (--depth === 0) break;
+        out += char;
+      } else {
+        out += char;
+      }
+    }
+    return new PDFString(out);
+  }
+}
+
+function pngUnpredict(data: Buffer, rowLength: number, bytesPerPixel: number): Buffer {
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const output = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? out[output + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[output - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[output - rowLength + i - bytesPerPixel] : 0;
+      let predicted = 0;
+      switch (filter) {
+        case 1: predicted = left; break;
+        case 2: predicted = up; break;
+        case 3: predicted = Math.floor((left + up) / 2); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      out[output + i] = (data[input + i] + predicted) & 0xff;
+    }
+  }
+  return out;
+}
+
+const MAX_LZW_CODES = 4096;
+
+/**
+ * LZW with the string table kept as prefix/suffix links and the output
+ * written into a buffer that grows up to maxOutputLength. Going past it
+ * throws a RangeError, like a capped zlib call.
+ */
+function lzwDecode(data: Buffer, earlyChange: number, maxOutputLength: number): Buffer {
+  const prefix = new Int16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const length = new Uint16Array(MAX_LZW_CODES);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    length[i] = 1;
+  }
+
+  let out = Buffer.alloc(Math.min(maxOutputLength, Math.max(1024, data.length * 4)));
+  let used = 0;
+  const reserve = (bytes: number) => {
+    const needed = used + bytes;
+    if (needed > maxOutputLength) {
+      throw new RangeError('LZW output exceeds the limit');
+    }
+    if (needed > out.length) {
+      const grown = Buffer.alloc(Math.min(maxOutputLength, Math.max(needed, out.length * 2)));
+      out.copy(grown, 0, 0, used);
+      out = grown;
+    }
+  };
+  const write = (code: number) => {
+    reserve(length[code]);
+    for (let i = used + length[code] - 1, current = code; i >= used; i--) {
+      out[i] = suffix[current];
+      current = prefix[current];
+    }
+    used += length[code];
+  };
+
+  let next = 258;
+  let codeLength = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let previous = -1;
+
+  for (const byte of data) {
+    bitBuffer = (bitBuffer << 8) | byte;
+    bitCount += 8;
+    while (bitCount >= codeLength) {
+      const code = (bitBuffer >> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+      bitCount -= codeLength;
+      bitBuffer &= (1 << bitCount) - 1;
+
+      if (code === 256) {
+        next = 258;
+        codeLength = 9;
+        previous = -1;
+        continue;
+      }
+      if (code === 257) return out.subarray(0, used);
+
+      const start = used;
+      if (code < next) {
+        write(code);
+      } else if (code === next && previous !== -1) {
+        // The code being defined: the previous string plus its own first byte
+        write(previous);
+        reserve(1);
+        out[used++] = out[start];
+      } else {
+        return out.subarray(0, used);
+      }
+
+      // A full table stays as it is until the next clear code
+      if (previous !== -1 && next < MAX_LZW_CODES) {
+        prefix[next] = previous;
+        suffix[next] = out[start];
+        length[next] = length[previous] + 1;
+        next++;
+      }
+      previous = code;
+      if (next + earlyChange >= (1 << codeLength) && codeLength < 12) {
+        codeLength++;
+      }
+    }
+  }
+  return out.subarray(0, used);
+}
+
+function ascii85Decode(data: Buffer): Buffer {
+  const text = data.toString('latin1').replace(/\s/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const length = group.length;
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+    out.push(...[(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].slice(0, length - 1));
+  }
+  return Buffer.from(out);
+}
+
+// Windows-1252 code points for 0x80-0x9f; WinAnsiEncoding is the common case
+// for simple fonts without a ToUnicode map
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: '\'', quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', underscore: '_', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  endash: '–', emdash: '—', bullet: '•', ellipsis: '…', quotedblleft: '“', quotedblright: '”',
+  quotesinglbase: '‚', quotedblbase: '„', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  section: '§', paragraph: '¶', copyright: '©', registered: '®', trademark: '™', degree: '°', Euro: '€',
+  dagger: '†', daggerdbl: '‡', periodcentered: '·', multiply: '×', divide: '÷', nbspace: ' '
+};
+
+function glyphToUnicode(name: string): string | undefined {
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name) || /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (uni) return String.fromCodePoint(parseInt(uni[1], 16));
+  return undefined;
+}
+
+function utf16be(bytes: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+/**
+ * Text strings in the document information dictionary are either UTF-16BE
+ * with a byte order mark or PDFDocEncoding (treated as latin1)
+ */
+function decodeTextString(value: PDFValue | undefined): string | undefined {
+  if (!(value instanceof PDFString)) return undefined;
+  if (value.bytes.startsWith('þÿ')) return utf16be(value.bytes.slice(2));
+  return value.bytes;
+}
+
+interface PDFFont {
+  bytesPerCode: 1 | 2;
+  toUnicode?: Map<number, string>;
+  encoding?: Map<number, string>;
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+interface TextLine {
+  text: string;
+  size: number;
+  y: number;
+  endX: number;
+}
+
+class PDFDocument {
+  private src: string;
+  private offsets: Map<number, number> = new Map();
+  private cache: Map<number, PDFValue> = new Map();
+  private compressed?: Map<number, PDFValue>;
+  private fonts: Map<unknown, PDFFont> = new Map();
+  readonly warnings: string[] = [];
+  /** Shared by every stream; decode failures are often only warned about, so check it after extraction */
+  readonly inflated = new InflateBudget();
+
+  constructor(private buffer: Buffer) {
+    this.src = buffer.toString('latin1');
+    // Later definitions win, which is how incremental updates replace objects
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.src)) !== null) {
+      this.offsets.set(parseInt(match[1], 10), match.index + match[0].length);
+    }
+  }
+
+  /**
+   * Document information dictionary named by the (last) trailer
+   */
+  info(): PDFDict | undefined {
+    const references = [...this.src.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)];
+    const last = references[references.length - 1];
+    return last ? this.dict(new PDFRef(parseInt(last[1], 10), 0)) : undefined;
+  }
+
+  get isEncrypted(): boolean {
+    return /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(this.src);
+  }
+
+  resolve(value: PDFValue | undefined, depth: number = 0): PDFValue | undefined {
+    if (!(value instanceof PDFRef)) return value;
+    if (depth > 32) return undefined;
+    return this.resolve(this.object(value.num), depth + 1);
+  }
+
+  dict(value: PDFValue | undefined): PDFDict | undefined {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PDFDict) return resolved;
+    if (resolved instanceof PDFStream) return resolved.dict;
+    return undefined;
+  }
+
+  number(value: PDFValue | undefined): number | undefined {
+    const resolved = this.resolve(value);
+    return typeof resolved === 'number' ? resolved : undefined;
+  }
+
+  private object(num: number): PDFValue | undefined {
+    if (this.cache.has(num)) return this.cache.get(num);
+
+    const offset = this.offsets.get(num);
+    let value: PDFValue | undefined;
+    if (offset !== undefined) {
+      this.cache.set(num, null);
+      value = this.parseObjectAt(offset);
+    } else {
+      value = this.compressedObjects().get(num);
+    }
+    this.cache.set(num, value ?? null);
+    return value;
+  }
+
+  private parseObjectAt(offset: number): PDFValue {
+    const lexer = new PDFLexer(this.src, offset);
+    const value = lexer.value();
+    lexer.skipWhitespace();
+    if (!(value instanceof PDFDict) || !this.src.startsWith('stream', lexer.pos)) {
+      return value;
+    }
+
+    let start = lexer.pos + 6;
+    if (this.src[start] === '\r') start++;
+    if (this.src[start] === '\n') start++;
+
+    const length = this.number(value.get('Length'));
+    let end = -1;
+    if (length !== undefined && /^\s*endstream/.test(this.src.substr(start + length, 32))) {
+      end = start + length;
+    } else {
+      end = this.src.indexOf('endstream', start);
+      if (end === -1) end = this.src.length;
+      if (this.src[end - 1] === '\n') end--;
+      if (this.src[end - 1] === '\r') end--;
+    }
+    return new PDFStream(value, this.buffer.subarray(start, end));
+  }
+
+  /**
+   * Objects packed into object streams (PDF 1.5+), loaded on first miss
+   */
+  private compressedObjects(): Map<number, PDFValue> {
+    if (this.compressed) return this.compressed;
+    this.compressed = new Map();
+
+    for (const [num, offset] of this.offsets) {
+      if (!this.src.substr(offset, 512).includes('/ObjStm')) continue;
+      const stream = this.object(num);
+      if (!(stream instanceof PDFStream)) continue;
+
+      try {
+        const data = this.decodeStream(stream).toString('latin1');
+        const count = this.number(stream.dict.get('N')) || 0;
+        const first = this.number(stream.dict.get('First')) || 0;
+        const header = new PDFLexer(data);
+        const entries: Array<[number, number]> = [];
+        for (let i = 0; i < count; i++) {
+          entries.push([header.value() as number, header.value() as number]);
+        }
+        for (const [objectNumber, objectOffset] of entries) {
+          if (!this.offsets.has(objectNumber) && !this.compressed.has(objectNumber)) {
+            this.compressed.set(objectNumber, new PDFLexer(data, first + objectOffset).value());
+          }
+        }
+      } catch (error) {
+        this.warn(`Unreadable object stream ${num}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return this.compressed;
+  }
+
+  decodeStream(stream: PDFStream): Buffer {
+    const filterValue = this.resolve(stream.dict.get('Filter'));
+    const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [])
+      .map(filter => this.resolve(filter))
+      .filter((filter): filter is PDFName => filter instanceof PDFName)
+      .map(filter => filter.name);
+    const parmsValue = this.resolve(stream.dict.get('DecodeParms'));
+    const parms = Array.isArray(parmsValue) ? parmsValue : [parmsValue];
+
+    let data = stream.raw;
+    filters.forEach((filter, index) => {
+      const params = this.dict(parms[index] ?? undefined);
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            data = this.inflated.inflate(maxOutputLength => zlib.inflateSync(data, { maxOutputLength }));
+          } catch (error) {
+            if (this.inflated.exceeded) throw error;
+            // Truncated streams are common; keep whatever inflates
+            data = this.inflated.inflate(maxOutputLength =>
+              zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength }));
+          }
+          break;
+        case 'LZWDecode':
+        case 'LZW':
+          data = this.inflated.inflate(maxOutputLength =>
+            lzwDecode(data, this.number(params?.get('EarlyChange')) ?? 1, maxOutputLength));
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = this.inflated.charge(Buffer.from(data.toString('latin1').replace(/>.*$/s, '').replace(/[^0-9a-fA-F]/g, ''), 'hex'));
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = this.inflated.charge(ascii85Decode(data));
+          break;
+        default:
+          throw new Error(`Unsupported stream filter ${filter}`);
+      }
+
+      const predictor = this.number(params?.get('Predictor')) || 1;
+      if (predictor >= 10) {
+        const colors = this.number(params?.get('Colors')) || 1;
+        const bits = this.number(params?.get('BitsPerComponent')) || 8;
+        const columns = this.number(params?.get('Columns')) || 1;
+        data = pngUnpredict(data, Math.ceil((columns * colors * bits) / 8), Math.max(1, Math.ceil((colors * bits) / 8)));
+      } else if (predictor === 2) {
+        throw new Error('TIFF predictor is not supported');
+      }
+    });
+    return data;
+  }
+
+  warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+
+  /**
+   * Page dictionaries in reading order, each with its inherited resources
+   */
+  pages(): Array<{ page: PDFDict; resources?: PDFDict }> {
+    const roots = [...this.src.matchAll(/\/Root\s+(\d+)\s+(\d+)\s+R/g)];
+    const catalog = roots.length > 0
+      ? this.dict(new PDFRef(parseInt(roots[roots.length - 1][1], 10), 0))
+      : undefined;
+    const tree = this.dict(catalog?.get('Pages'));
+    if (!tree) {
+      throw new Error('PDF page tree not found');
+    }
+
+    const pages: Array<{ page: PDFDict; resources?: PDFDict }> = [];
+    const visited = new Set<PDFDict>();
+    const walk = (node: PDFDict, inherited?: PDFDict) => {
+      if (visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.get('Resources')) || inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        kids.forEach(kid => {
+          const child = this.dict(kid);
+          if (child) walk(child, resources);
+        });
+      } else {
+        pages.push({ page: node, resources });
+      }
+    };
+    walk(tree);
+    return pages;
+  }
+
+  font(reference: PDFValue | undefined): PDFFont | undefined {
+    if (reference === undefined) return undefined;
+    const key = reference instanceof PDFRef ? `ref:${reference.num}` : reference;
+    const cached = this.fonts.get(key);
+    if (cached) return cached;
+
+    const dict = this.dict(reference);
+    if (!dict) return undefined;
+
+    const subtype = (this.resolve(dict.get('Subtype')) as PDFName | undefined)?.name;
+    const font: PDFFont = {
+      bytesPerCode: subtype === 'Type0' ? 2 : 1,
+      widths: new Map(),
+      defaultWidth: subtype === 'Type0' ? 1000 : 500
+    };
+
+    const toUnicode = this.resolve(dict.get('ToUnicode'));
+    if (toUnicode instanceof PDFStream) {
+      try {
+        font.toUnicode = this.parseCMap(this.decodeStream(toUnicode).toString('latin1'));
+      } catch (error) {
+        this.warn(`Unreadable ToUnicode map: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (subtype === 'Type0') {
+      const descendants = this.resolve(dict.get('DescendantFonts'));
+      const descendant = this.dict(Array.isArray(descendants) ? descendants[0] : undefined);
+      font.defaultWidth = this.number(descendant?.get('DW')) ?? 1000;
+      const widths = this.resolve(descendant?.get('W'));
+      if (Array.isArray(widths)) {
+        for (let i = 0; i < widths.length;) {
+          const first = this.number(widths[i]);
+          const next = this.resolve(widths[i + 1]);
+          if (first === undefined) break;
+          if (Array.isArray(next)) {
+            next.forEach((width, index) => font.widths.set(first + index, this.number(width) ?? font.defaultWidth));
+            i += 2;
+          } else {
+            const last = this.number(next) ?? first;
+            const width = this.number(widths[i + 2]) ?? font.defaultWidth;
+            for (let code = first; code <= last && code - first < 65536; code++) font.widths.set(code, width);
+            i += 3;
+          }
+        }
+      }
+      if (!font.toUnicode) {
+        this.warn('A composite font has no ToUnicode map; some text could not be decoded');
+      }
+    } else {
+      const firstChar = this.number(dict.get('FirstChar')) ?? 0;
+      const widths = this.resolve(dict.get('Widths'));
+      if (Array.isArray(widths)) {
+        widths.forEach((width, index) => font.widths.set(firstChar + index, this.number(width) ?? 0));
+      }
+
+      const encoding = this.resolve(dict.get('Encoding'));
+      const differences = encoding instanceof PDFDict ? this.resolve(encoding.get('Differences')) : undefined;
+      if (Array.isArray(differences)) {
+        font.encoding = new Map();
+        let code = 0;
+        for (const entry of differences) {
+          if (typeof entry === 'number') {
+            code = entry;
+          } else if (entry instanceof PDFName) {
+            const unicode = glyphToUnicode(entry.name);
+            if (unicode !== undefined) font.encoding.set(code, unicode);
+            code++;
+          }
+        }
+      }
+    }
+
+    this.fonts.set(key, font);
+    return font;
+  }
+
+  private parseCMap(cmap: string): Map<number, string> {
+    const map = new Map<number, string>();
+    const hex = (value: string) => parseInt(value, 16);
+    const unicode = (value: string) => utf16be(Buffer.from(value.length % 2 ? `${value}0` : value, 'hex').toString('latin1'));
+
+    for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        map.set(hex(pair[1]), unicode(pair[2]));
+      }
+    }
+
+    for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const range of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+        const low = hex(range[1]);
+        const high = Math.min(hex(range[2]), low + 65535);
+        if (range[3].startsWith('[')) {
+          const targets = [...range[3].matchAll(/<([0-9a-fA-F]*)>/g)].map(target => unicode(target[1]));
+          targets.forEach((target, index) => {
+            if (low + index <= high) map.set(low + index, target);
+          });
+        } else {
+          const base = unicode(range[3].slice(1, -1));
+          const prefix = base.slice(0, -1);
+          const last = base.charCodeAt(base.length - 1);
+          for (let code = low; code <= high; code++) {
+            map.set(code, prefix + String.fromCharCode(last + code - low));
+          }
+        }
+      }
+    }
+    return map;
+  }
+
+  decodeText(font: PDFFont | undefined, bytes: string): Array<{ text: string; code: number }> {
+    const glyphs: Array<{ text: string; code: number }> = [];
+    const bytesPerCode = font?.bytesPerCode || 1;
+    for (let i = 0; i + bytesPerCode - 1 < bytes.length; i += bytesPerCode) {
+      const code = bytesPerCode === 2 ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1) : bytes.charCodeAt(i);
+      let text = font?.toUnicode?.get(code) ?? font?.encoding?.get(code);
+      if (text === undefined) {
+        if (bytesPerCode === 2) {
+          text = '';
+        } else if (code >= 0x80 && code <= 0x9f) {
+          text = WIN_ANSI_HIGH[code - 0x80];
+        } else {
+          text = String.fromCharCode(code);
+        }
+      }
+      glyphs.push({ text, code });
+    }
+    return glyphs;
+  }
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+}
+
+interface TextState {
+  font?: PDFFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  tm: Matrix;
+  lm: Matrix;
+}
+
+/**
+ * Runs a page's content stream, placing each shown string in device space so
+ * lines can be rebuilt from positions rather than operator order
+ */
+class ContentInterpreter {
+  readonly lines: TextLine[] = [];
+  private current?: TextLine;
+
+  constructor(private pdf: PDFDocument) {}
+
+  run(content: string, resources: PDFDict | undefined, ctm: Matrix = IDENTITY, depth: number = 0): void {
+    const lexer = new PDFLexer(content);
+    const operands: PDFValue[] = [];
+    const graphics: GraphicsState[] = [];
+    let gs: GraphicsState = { ctm };
+    const ts: TextState = {
+      fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, tm: IDENTITY, lm: IDENTITY
+    };
+    const fontResources = this.pdf.dict(resources?.get('Font'));
+
+    const newLine = (tx: number, ty: number) => {
+      ts.lm = multiply([1, 0, 0, 1, tx, ty], ts.lm);
+      ts.tm = ts.lm;
+    };
+
+    while (!lexer.atEnd()) {
+      const token = lexer.value();
+      if (!(token instanceof PDFOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      const args = operands.splice(0);
+      const num = (index: number) => (typeof args[index] === 'number' ? args[index] as number : 0);
+
+      switch (token.op) {
+        case 'q':
+          graphics.push({ ...gs });
+          break;
+        case 'Q':
+          gs = graphics.pop() || gs;
+          break;
+        case 'cm':
+          gs.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], gs.ctm);
+          break;
+        case 'BT':
+          ts.tm = IDENTITY;
+          ts.lm = IDENTITY;
+          break;
+        case 'Tf': {
+          const name = args[0] instanceof PDFName ? args[0].name : undefined;
+          ts.font = name ? this.pdf.font(fontResources?.get(name)) : undefined;
+          ts.fontSize = num(1);
+          break;
+        }
+        case 'Tc': ts.charSpacing = num(0); break;
+        case 'Tw': ts.wordSpacing = num(0); break;
+        case 'Tz': ts.horizontalScale = num(0) / 100; break;
+        case 'TL': ts.leading = num(0); break;
+        case 'Td':
+          newLine(num(0), num(1));
+          break;
+        case 'TD':
+          ts.leading = -num(1);
+          newLine(num(0), num(1));
+          break;
+        case 'Tm':
+          ts.lm = [num(0), num(1), num(2), num(3), num(4), num(5)];
+          ts.tm = ts.lm;
+          break;
+        case 'T*':
+          newLine(0, -ts.leading);
+          break;
+        case 'Tj':
+          this.show(args[0], ts, gs);
+          break;
+        case '\'':
+          newLine(0, -ts.leading);
+          this.show(args[0], ts, gs);
+          break;
+        case '"':
+          ts.wordSpacing = num(0);
+          ts.charSpacing = num(1);
+          newLine(0, -ts.leading);
+          this.show(args[2], ts, gs);
+          break;
+        case 'TJ':
+          if (Array.isArray(args[0])) {
+            for (const item of args[0]) {
+              if (typeof item === 'number') {
+                ts.tm = multiply([1, 0, 0, 1, (-item / 1000) * ts.fontSize * ts.horizontalScale, 0], ts.tm);
+              } else {
+                this.show(item, ts, gs);
+              }
+            }
+          }
+          break;
+        case 'Do':
+          if (args[0] instanceof PDFName && depth < MAX_FORM_DEPTH) {
+            this.form(args[0].name, resources, gs.ctm, depth);
+          }
+          break;
+        case 'BI': {
+          // Inline image data is binary; skip to the EI that ends it
+          const data = content.indexOf('ID', lexer.pos);
+          const end = data === -1 ? -1 : content.slice(data + 3).search(/\sEI(?=[\s]|$)/);
+          lexer.pos = end === -1 ? content.length : data + 3 + end + 3;
+          break;
+        }
+      }
+    }
+  }
+
+  private form(name: string, resources: PDFDict | undefined, ctm: Matrix, depth: number): void {
+    const xobjects = this.pdf.dict(resources?.get('XObject'));
+    const xobject = this.pdf.resolve(xobjects?.get(name));
+    if (!(xobject instanceof PDFStream)) return;
+    if ((this.pdf.resolve(xobject.dict.get('Subtype')) as PDFName | undefined)?.name !== 'Form') return;
+
+    const matrix = this.pdf.resolve(xobject.dict.get('Matrix'));
+    const formMatrix = Array.isArray(matrix) && matrix.length === 6
+      ? matrix.map(value => (typeof value === 'number' ? value : 0)) as Matrix
+      : IDENTITY;
+
+    try {
+      this.run(
+        this.pdf.decodeStream(xobject).toString('latin1'),
+        this.pdf.dict(xobject.dict.get('Resources')) || resources,
+        multiply(formMatrix, ctm),
+        depth + 1
+      );
+    } catch (error) {
+      this.pdf.warn(`Skipped unreadable form XObject: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private show(value: PDFValue | undefined, ts: TextState, gs: GraphicsState): void {
+    if (!(value instanceof PDFString)) return;
+
+    const trm = multiply(multiply([ts.fontSize * ts.horizontalScale, 0, 0, ts.fontSize, 0, 0], ts.tm), gs.ctm);
+    const size = Math.hypot(trm[2], trm[3]);
+    const x = trm[4];
+    const y = trm[5];
+
+    let text = '';
+    let advance = 0;
+    for (const glyph of this.pdf.decodeText(ts.font, value.bytes)) {
+      const width = ts.font?.widths.get(glyph.code) ?? ts.font?.defaultWidth ?? 500;
+      const wordSpace = ts.font?.bytesPerCode === 1 && glyph.code === 32 ? ts.wordSpacing : 0;
+      advance += ((width / 1000) * ts.fontSize + ts.charSpacing + wordSpace) * ts.horizontalScale;
+      text += glyph.text;
+    }
+    ts.tm = multiply([1, 0, 0, 1, advance, 0], ts.tm);
+    const endX = multiply(ts.tm, gs.ctm)[4];
+
+    if (!text) return;
+
+    const line = this.current;
+    if (line && Math.abs(line.y - y) <= Math.max(1, line.size * 0.4)) {
+      const gap = x - line.endX;
+      if ((gap > line.size * 0.15 || gap < -line.size) && !/\s$/.test(line.text) && !/^\s/.test(text)) {
+        line.text += ' ';
+      }
+      line.text += text;
+      line.endX = endX;
+      line.size = Math.max(line.size, size);
+      return;
+    }
+
+    this.current = { text, size, y, endX };
+    this.lines.push(this.current);
+  }
+}
+
+/**
+ * Font size carrying the most characters is taken as body text
+ */
+function bodyFontSize(lines: TextLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    counts.set(size, (counts.get(size) || 0) + line.text.length);
+  }
+  let best = 0;
+  let bestCount = -1;
+  for (const [size, count] of counts) {
+    if (count > bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function isHeadingLine(line: TextLine, bodySize: number): boolean {
+  return bodySize > 0 && line.size >= bodySize * 1.2 && line.text.length <= 150 && /\p{L}/u.test(line.text);
+}
+
+// Some producers write a BOM, whitespace or a few binary bytes before the header
+const PDF_HEADER = /^[^\x21-\x7e]{0,16}%PDF-\d\.\d/;
+
+/**
+ * Whether the file starts with a `%PDF-x.y` header. Only non-printable
+ * leading junk is skipped, so text that mentions the header is not a PDF.
+ */
+export function hasPDFHeader(file: Buffer): boolean {
+  return PDF_HEADER.test(file.subarray(0, 32).toString('latin1'));
+}
+
+/**
+ * Text is extracted from the content streams and fonts; tables are not
+ * reconstructed from layout, and scanned (image-only) PDFs have no text
+ */
+export function extractPDF(file: Buffer): ExtractedDocument {
+  if (!hasPDFHeader(file)) {
+    throw new Error('Not a PDF file (missing %PDF header)');
+  }
+
+  const pdf = new PDFDocument(file);
+  if (pdf.isEncrypted) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  const pageLines: TextLine[][] = pdf.pages().map(({ page, resources }, index) => {
+    const interpreter = new ContentInterpreter(pdf);
+    const contents = pdf.resolve(page.get('Contents'));
+    const streams = (Array.isArray(contents) ? contents : [contents])
+      .map(stream => pdf.resolve(stream))
+      .filter((stream): stream is PDFStream => stream instanceof PDFStream);
+
+    try {
+      const content = streams.map(stream => pdf.decodeStream(stream).toString('latin1')).join('\n');
+      interpreter.run(content, resources);
+    } catch (error) {
+      pdf.warn(`Page ${index + 1} could not be fully read: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return interpreter.lines
+      .map(line => ({ ...line, text: line.text.normalize('NFKC').replace(/\s+/g, ' ').trim() }))
+      .filter(line => line.text.length > 0);
+  });
+
+  if (pdf.inflated.exceeded) {
+    throw new Error(`PDF decompresses to more than ${pdf.inflated.limit / (1024 * 1024)} MB`);
+  }
+
+  const allLines = pageLines.flat();
+  if (allLines.length === 0) {
+    throw new Error('PDF contains no extractable text; it may be a scanned image that needs OCR');
+  }
+
+  const bodySize = bodyFontSize(allLines);
+  const headingSizes = [...new Set(allLines
+    .filter(line => isHeadingLine(line, bodySize))
+    .map(line => Math.round(line.size * 2) / 2))]
+    .sort((a, b) => b - a);
+
+  const builder = new DocumentBuilder();
+  pdf.warnings.forEach(warning => builder.warn(warning));
+
+  pageLines.forEach((lines, index) => {
+    builder.startPage(index + 1);
+
+    let paragraph = '';
+    let heading: { text: string; size: number } | undefined;
+    let previous: TextLine | undefined;
+    const flushParagraph = () => {
+      builder.paragraph(paragraph);
+      paragraph = '';
+    };
+    const flushHeading = () => {
+      if (heading) {
+        const level = headingSizes.indexOf(Math.round(heading.size * 2) / 2) + 1;
+        builder.heading(Math.max(level, 1), heading.text);
+        heading = undefined;
+      }
+    };
+
+    for (const line of lines) {
+      if (isHeadingLine(line, bodySize)) {
+        flushParagraph();
+        // Consecutive lines at the same size form one multi-line heading
+        if (heading && Math.abs(heading.size - line.size) < 0.5 && previous && Math.abs(previous.y - line.y) < line.size * 2) {
+          heading.text += ` ${line.text}`;
+        } else {
+          flushHeading();
+          heading = { text: line.text, size: line.size };
+        }
+      } else {
+        flushHeading();
+        const gap = previous ? Math.abs(previous.y - line.y) : 0;
+        if (paragraph && previous && gap > Math.max(previous.size, line.size) * 1.8) {
+          flushParagraph();
+        }
+        if (!paragraph) {
+          paragraph = line.text;
+        } else if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(line.text)) {
+          // Rejoin a word hyphenated across a line break
+          paragraph = paragraph.slice(0, -1) + line.text;
+        } else {
+          paragraph += ` ${line.text}`;
+        }
+      }
+      previous = line;
+    }
+    flushHeading();
+    flushParagraph();
+  });
+
+  const info = pdf.info();
+
+  return builder.build('pdf', {
+    title: decodeTextString(pdf.resolve(info?.get('Title'))),
+    author: decodeTextString(pdf.resolve(info?.get('Author')))
+  });
+}
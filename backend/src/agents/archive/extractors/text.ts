@@ -0,0 +1,70 @@
+// =====================================
+// backend/src/agents/archive/extractors/text.ts
+// Character set detection and plain text extraction
+// =====================================
+
+import { TextDecoder } from 'util';
+import { DocumentBuilder } from './document-builder';
+import { ExtractedDocument } from './types';
+
+// Share of control characters above which decoded "text" is treated as binary
+const MAX_CONTROL_RATIO = 0.05;
+
+function assertTextual(text: string): string {
+  const sample = text.slice(0, 65536);
+  const controls = (sample.match(/[\u0000-\u0008\u000e-\u001f\u007f-\u009f\ufffd]/g) || []).length;
+  if (sample.length > 0 && controls / sample.length > MAX_CONTROL_RATIO) {
+    throw new Error('File appears to be binary, not text');
+  }
+  return text;
+}
+
+/**
+ * Decode a text file, honouring UTF-8/UTF-16 byte order marks and falling back
+ * to Windows-1252 when the bytes are not valid UTF-8
+ */
+export function decodeText(file: Buffer, warnings: string[] = []): string {
+  if (file.length >= 3 && file[0] === 0xef && file[1] === 0xbb && file[2] === 0xbf) {
+    return assertTextual(file.subarray(3).toString('utf8'));
+  }
+  if (file.length >= 2 && file[0] === 0xff && file[1] === 0xfe) {
+    return assertTextual(file.subarray(2).toString('utf16le'));
+  }
+  if (file.length >= 2 && file[0] === 0xfe && file[1] === 0xff) {
+    const swapped = Buffer.from(file.subarray(2, 2 + ((file.length - 2) & ~1)));
+    return assertTextual(swapped.swap16().toString('utf16le'));
+  }
+
+  if (file.subarray(0, 8192).includes(0)) {
+    throw new Error('File appears to be binary, not text');
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(file);
+  } catch {
+    warnings.push('File is not valid UTF-8; decoded as Windows-1252');
+    text = new TextDecoder('windows-1252').decode(file);
+  }
+  return assertTextual(text);
+}
+
+/**
+ * Plain text: blank lines separate paragraphs and form feeds separate pages
+ */
+export function extractPlainText(file: Buffer): ExtractedDocument {
+  const builder = new DocumentBuilder();
+  const warnings: string[] = [];
+  const text = decodeText(file, warnings);
+  warnings.forEach(warning => builder.warn(warning));
+
+  const pages = text.split('\f');
+  pages.forEach((page, index) => {
+    if (pages.length > 1) {
+      builder.startPage(index + 1);
+    }
+    page.split(/\r?\n[^\S\n]*\r?\n/).forEach(paragraph => builder.paragraph(paragraph));
+  });
+
+  return builder.build('text');
+}
@@ -0,0 +1,57 @@
+// =====================================
+// backend/src/agents/archive/extractors/types.ts
+// Structured output shared by the document extractors
+// =====================================
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text' | 'csv';
+
+export interface DocumentHeading {
+  level: number;
+  text: string;
+  startIndex: number;
+  pageNumber?: number;
+}
+
+export interface DocumentPage {
+  pageNumber: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface DocumentTable {
+  startIndex: number;
+  endIndex: number;
+  pageNumber?: number;
+  caption?: string;
+  headers: string[];
+  /** Body rows, capped at MAX_TABLE_ROWS; the full table is always in the text */
+  rows: string[][];
+  rowCount: number;
+  columnCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Plain text ready for chunking plus the structure recovered from the source
+ * format. All offsets index into `text`.
+ */
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  title?: string;
+  author?: string;
+  headings: DocumentHeading[];
+  pages: DocumentPage[];
+  tables: DocumentTable[];
+  warnings: string[];
+}
+
+/**
+ * Everything but the text, for storing alongside a document's metadata
+ */
+export type DocumentStructure = Omit<ExtractedDocument, 'text'>;
+
+export interface ExtractionOptions {
+  mimeType?: string;
+  fileName?: string;
+}
@@ -0,0 +1,89 @@
+// =====================================
+// backend/src/agents/archive/extractors/zip.ts
+// Minimal ZIP reader for Office Open XML packages
+// =====================================
+
+import zlib from 'zlib';
+import { InflateBudget } from './inflate';
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Read the central directory. ZIP64 and encrypted archives are rejected.
+ */
+export function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive (end of central directory not found)');
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    if (buffer.readUInt16LE(offset + 8) & 0x1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      name,
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Entry contents; deflated entries count against the archive's budget
+ */
+export function readZipEntry(buffer: Buffer, entry: ZipEntry, budget: InflateBudget): Buffer {
+  const header = entry.localHeaderOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return budget.inflate(maxOutputLength => zlib.inflateRawSync(data, { maxOutputLength }));
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+  }
+}
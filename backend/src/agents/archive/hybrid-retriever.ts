@@ -0,0 +1,168 @@
+// =====================================
+// backend/src/agents/archive/hybrid-retriever.ts
+// BM25 + vector retrieval fused by reciprocal rank
+// =====================================
+
+import { retrievalSystem, KeywordSearchResult, SearchFilters, SearchResult } from './retrieval-system';
+import { config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+
+export type RetrievalSource = 'keyword' | 'vector';
+
+export interface HybridWeights {
+  keyword: number;
+  vector: number;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  /** Hits requested from each source before fusion */
+  candidates?: number;
+  weights?: Partial<HybridWeights>;
+  /** RRF damping constant; larger values flatten the advantage of top ranks */
+  rrfK?: number;
+  /** Attach each source's contribution to every result */
+  explain?: boolean;
+}
+
+export interface SourceContribution {
+  /** 1-based rank within the source */
+  rank: number;
+  /** Raw source score: BM25 for keyword, cosine similarity for vector */
+  score: number;
+  weight: number;
+  /** weight / (rrfK + rank) */
+  contribution: number;
+  /** Share of the fused score, 0..1 */
+  share: number;
+}
+
+export interface HybridExplanation {
+  fusedRank: number;
+  fusedScore: number;
+  rrfK: number;
+  keyword?: SourceContribution & { matchedTerms: string[]; phraseMatch: boolean };
+  vector?: SourceContribution;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  /** Weighted reciprocal rank fusion score */
+  fusedScore: number;
+  explanation?: HybridExplanation;
+}
+
+interface FusionEntry {
+  result: SearchResult;
+  fusedScore: number;
+  keyword?: { rank: number; hit: KeywordSearchResult };
+  vector?: { rank: number; hit: SearchResult };
+}
+
+export class HybridRetriever {
+  private readonly DEFAULT_LIMIT = 10;
+  private readonly DEFAULT_CANDIDATES = 50;
+
+  /**
+   * Run keyword and vector search side by side and merge them with weighted
+   * reciprocal rank fusion: score(d) = Σ weight_s / (k + rank_s(d)).
+   * `score` on each result is the fused score scaled to 0..1 by the best
+   * possible value, so it can feed rankResults like a similarity.
+   */
+  async search(
+    query: string,
+    filters: SearchFilters = {},
+    options: HybridSearchOptions = {}
+  ): Promise<HybridSearchResult[]> {
+    const weights: HybridWeights = {
+      keyword: options.weights?.keyword ?? config.hybridSearch.keywordWeight,
+      vector: options.weights?.vector ?? config.hybridSearch.vectorWeight
+    };
+    const rrfK = options.rrfK ?? config.hybridSearch.rrfK;
+    const limit = options.limit ?? this.DEFAULT_LIMIT;
+    const candidates = Math.max(limit, options.candidates ?? this.DEFAULT_CANDIDATES);
+
+    if (![weights.keyword, weights.vector].every(weight => Number.isFinite(weight) && weight >= 0) || weights.keyword + weights.vector === 0) {
+      throw new Error('Hybrid search weights must be non-negative and not both zero');
+    }
+    if (rrfK < 1) {
+      throw new Error('rrfK must be at least 1');
+    }
+
+    const [keywordHits, vectorHits] = await Promise.all([
+      weights.keyword > 0 ? this.searchSource('keyword', () => retrievalSystem.searchFullText(query, filters, candidates)) : [],
+      weights.vector > 0 ? this.searchSource('vector', () => retrievalSystem.searchSimilar(query, filters, candidates)) : []
+    ]);
+    if ((weights.keyword === 0 || keywordHits === undefined) && (weights.vector === 0 || vectorHits === undefined)) {
+      throw new Error('Hybrid search failed: keyword and vector search both unavailable');
+    }
+
+    const entries = new Map<string, FusionEntry>();
+    (keywordHits || []).forEach((hit, index) => {
+      const entry: FusionEntry = entries.get(hit.id) || { result: hit, fusedScore: 0 };
+      entry.keyword = { rank: index + 1, hit: hit as KeywordSearchResult };
+      entry.fusedScore += weights.keyword / (rrfK + index + 1);
+      entries.set(hit.id, entry);
+    });
+    (vectorHits || []).forEach((hit, index) => {
+      // Keep the vector payload when both sources return the chunk
+      const entry: FusionEntry = entries.get(hit.id) || { result: hit, fusedScore: 0 };
+      entry.result = entry.keyword ? { ...hit, document: hit.document || entry.result.document } : hit;
+      entry.vector = { rank: index + 1, hit };
+      entry.fusedScore += weights.vector / (rrfK + index + 1);
+      entries.set(hit.id, entry);
+    });
+
+    const bestPossible = (weights.keyword + weights.vector) / (rrfK + 1);
+    const fused = Array.from(entries.values())
+      .sort((a, b) => b.fusedScore - a.fusedScore)
+      .slice(0, limit);
+
+    logger.info(`Hybrid search for "${query}": ${keywordHits?.length ?? 0} keyword, ${vectorHits?.length ?? 0} vector, ${fused.length} fused`);
+
+    return fused.map((entry, index) => {
+      const result: HybridSearchResult = {
+        ...entry.result,
+        score: entry.fusedScore / bestPossible,
+        fusedScore: entry.fusedScore
+      };
+      if (options.explain) {
+        result.explanation = this.explain(entry, index + 1, weights, rrfK);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * One failing source degrades the search to the other instead of failing it
+   */
+  private async searchSource<T extends SearchResult>(source: RetrievalSource, run: () => Promise<T[]>): Promise<T[] | undefined> {
+    try {
+      return await run();
+    } catch (error) {
+      logger.warn(`Hybrid search: ${source} search unavailable:`, error);
+      return undefined;
+    }
+  }
+
+  private explain(entry: FusionEntry, fusedRank: number, weights: HybridWeights, rrfK: number): HybridExplanation {
+    const contribution = (rank: number, score: number, weight: number): SourceContribution => {
+      const value = weight / (rrfK + rank);
+      return { rank, score, weight, contribution: value, share: value / entry.fusedScore };
+    };
+
+    return {
+      fusedRank,
+      fusedScore: entry.fusedScore,
+      rrfK,
+      keyword: entry.keyword && {
+        ...contribution(entry.keyword.rank, entry.keyword.hit.score, weights.keyword),
+        matchedTerms: entry.keyword.hit.matchedTerms,
+        phraseMatch: entry.keyword.hit.phraseMatch
+      },
+      vector: entry.vector && contribution(entry.vector.rank, entry.vector.hit.score, weights.vector)
+    };
+  }
+}
+
+// Singleton instance
+export const hybridRetriever = new HybridRetriever();
@@ -0,0 +1,148 @@
+// =====================================
+// backend/src/agents/archive/reranker.ts
+// Cross-encoder and LLM reranking of retrieved chunks
+// =====================================
+
+import axios from 'axios';
+import { llmClient } from '../../integrations/llm/llm-client';
+import { config } from '../../utils/config';
+
+export type RerankMethod = 'none' | 'cross-encoder' | 'llm';
+
+export interface RerankCandidate {
+  id: string;
+  content: string;
+}
+
+export interface RerankScore {
+  id: string;
+  /** Relevance of the chunk to the query, 0..1 */
+  score: number;
+}
+
+export class Reranker {
+  // Passages per LLM prompt, and characters kept of each
+  private readonly LLM_BATCH_SIZE = 8;
+  private readonly LLM_PASSAGE_CHARS = 1500;
+  private readonly CROSS_ENCODER_TIMEOUT_MS = 15000;
+
+  get method(): RerankMethod {
+    return config.reranker.method;
+  }
+
+  get isEnabled(): boolean {
+    return this.method !== 'none';
+  }
+
+  /**
+   * Score every (query, candidate) pair. Throws when the configured reranker
+   * fails, so callers can fall back to retrieval order.
+   */
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    switch (this.method) {
+      case 'cross-encoder':
+        return await this.rerankWithCrossEncoder(query, candidates);
+      case 'llm':
+        return await this.rerankWithLLM(query, candidates);
+      default:
+        throw new Error('Reranking is disabled (RERANKER=none)');
+    }
+  }
+
+  /**
+   * A cross-encoder served over HTTP with the text-embeddings-inference
+   * `/rerank` API; scores are sigmoid-normalised by the server
+   */
+  private async rerankWithCrossEncoder(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    if (!config.reranker.url) {
+      throw new Error('RERANKER_URL is required for cross-encoder reranking');
+    }
+
+    const response = await axios.post(`${config.reranker.url.replace(/\/$/, '')}/rerank`, {
+      query,
+      texts: candidates.map(candidate => candidate.content),
+      model: config.reranker.model,
+      truncate: true,
+      raw_scores: false
+    }, { timeout: this.CROSS_ENCODER_TIMEOUT_MS });
+
+    if (!Array.isArray(response.data)) {
+      throw new Error('Cross-encoder returned an unexpected response');
+    }
+
+    const scores = new Map<number, number>();
+    for (const entry of response.data) {
+      if (typeof entry?.index === 'number' && typeof entry?.score === 'number') {
+        scores.set(entry.index, entry.score);
+      }
+    }
+
+    return candidates.map((candidate, index) => {
+      const score = scores.get(index);
+      if (score === undefined) {
+        throw new Error(`Cross-encoder returned no score for candidate ${index}`);
+      }
+      return { id: candidate.id, score: Math.min(1, Math.max(0, score)) };
+    });
+  }
+
+  private async rerankWithLLM(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    const scores: RerankScore[] = [];
+    for (let start = 0; start < candidates.length; start += this.LLM_BATCH_SIZE) {
+      scores.push(...await this.scoreBatch(query, candidates.slice(start, start + this.LLM_BATCH_SIZE)));
+    }
+    return scores;
+  }
+
+  private async scoreBatch(query: string, batch: RerankCandidate[]): Promise<RerankScore[]> {
+    const passages = batch.map((candidate, index) =>
+      `[${index + 1}] ${candidate.content.substring(0, this.LLM_PASSAGE_CHARS)}`).join('\n\n');
+
+    const prompt = `Rate how relevant each passage is to answering the query, from 0 (unrelated) to 10 (directly answers it).
+Judge only the passage text; do not use outside knowledge.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Reply with JSON only, one entry per passage: [{"passage": 1, "score": 7}, ...]`;
+
+    const response = await llmClient.generateResponse(prompt, {
+      model: config.reranker.model,
+      maxTokens: 20 * batch.length + 50,
+      temperature: 0
+    });
+
+    const json = response.content.slice(response.content.indexOf('['), response.content.lastIndexOf(']') + 1);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('LLM reranker did not return JSON scores');
+    }
+
+    const scores = new Map<number, number>();
+    for (const entry of Array.isArray(parsed) ? parsed : []) {
+      const score = Number(entry?.score);
+      if (Number.isInteger(entry?.passage) && Number.isFinite(score)) {
+        scores.set(entry.passage, Math.min(10, Math.max(0, score)) / 10);
+      }
+    }
+
+    return batch.map((candidate, index) => {
+      const score = scores.get(index + 1);
+      if (score === undefined) {
+        throw new Error(`LLM reranker returned no score for passage ${index + 1}`);
+      }
+      return { id: candidate.id, score };
+    });
+  }
+}
+
+// Singleton instance
+export const reranker = new Reranker();
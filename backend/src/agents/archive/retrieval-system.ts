@@ -42,6 +42,13 @@ export interface SearchResult {
   };
 }
 
+export interface KeywordSearchResult extends SearchResult {
+  /** Query lexemes (stemmed) found in the chunk */
+  matchedTerms: string[];
+  /** The query occurs in the chunk as a phrase */
+  phraseMatch: boolean;
+}
+
 export interface RankedResult extends SearchResult {
   relevanceScore: number;
   qualityScore: number;
@@ -66,6 +73,11 @@ export class RetrievalSystem {
   private readonly COLLECTION_NAME = 'bgin_documents';
   private readonly DEFAULT_LIMIT = 10;
   private readonly MAX_LIMIT = 50;
+  // BM25 term-frequency saturation and length normalisation
+  private readonly BM25_K1 = 1.2;
+  private readonly BM25_B = 0.75;
+  // Multiplier for chunks containing the whole query as a phrase
+  private readonly PHRASE_BOOST = 1.5;
 
   async searchSimilar(
     query: string,
@@ -225,15 +237,9 @@ export class RetrievalSystem {
     keywords: string[],
     filters: SearchFilters = {},
     limit: number = this.DEFAULT_LIMIT
-  ): Promise<SearchResult[]> {
+  ): Promise<KeywordSearchResult[]> {
     try {
-      // Build keyword search query
-      const keywordQuery = keywords.join(' ');
-      
-      // Use semantic search with keyword context
-      const query = `Find documents about: ${keywordQuery}`;
-      
-      return await this.searchSimilar(query, filters, limit);
+      return await this.searchFullText(keywords.join(' '), filters, limit);
 
     } catch (error) {
       logger.error('Keyword search failed:', error);
@@ -241,6 +247,91 @@ export class RetrievalSystem {
     }
   }
 
+  /**
+   * BM25 over the Postgres full-text index of archive_document_chunks.
+   * Document frequencies and the average chunk length are taken from the
+   * whole chunk table, so scores are comparable across filters.
+   */
+  async searchFullText(
+    query: string,
+    filters: SearchFilters = {},
+    limit: number = this.DEFAULT_LIMIT
+  ): Promise<KeywordSearchResult[]> {
+    try {
+      const params: any[] = [query, this.BM25_K1, this.BM25_B, this.PHRASE_BOOST, Math.min(limit, this.MAX_LIMIT)];
+      const conditions = this.buildSqlFilter(filters, params);
+
+      const result = await database.query(`
+        WITH query_terms AS (
+          SELECT DISTINCT lexeme FROM unnest(to_tsvector('english', $1))
+        ),
+        corpus AS (
+          SELECT count(*)::float8 AS total, greatest(avg(lexeme_count), 1)::float8 AS average_length
+          FROM archive_document_chunks
+        ),
+        term_stats AS (
+          SELECT t.lexeme, ln(1 + (corpus.total - count(c.id) + 0.5) / (count(c.id) + 0.5)) AS idf
+          FROM query_terms t
+          CROSS JOIN corpus
+          JOIN archive_document_chunks c ON c.content_tsv @@ quote_literal(t.lexeme)::tsquery
+          GROUP BY t.lexeme, corpus.total
+        )
+        SELECT c.id, c.document_id, c.chunk_index, c.content, c.metadata,
+               d.title, d.session_id, d.privacy_level, d.quality_score,
+               c.content_tsv @@ phraseto_tsquery('english', $1) AS phrase_match,
+               array_agg(s.lexeme ORDER BY s.lexeme) AS matched_terms,
+               sum(s.idf * (v.tf * ($2::float8 + 1)) / (v.tf + $2::float8 * (1 - $3::float8 + $3::float8 * c.lexeme_count / corpus.average_length)))
+                 * CASE WHEN c.content_tsv @@ phraseto_tsquery('english', $1) THEN $4::float8 ELSE 1 END AS score
+        FROM archive_document_chunks c
+        JOIN archive_documents d ON d.id = c.document_id
+        CROSS JOIN corpus
+        CROSS JOIN LATERAL (
+          SELECT u.lexeme, coalesce(array_length(u.positions, 1), 1) AS tf FROM unnest(c.content_tsv) u
+        ) v
+        JOIN term_stats s ON s.lexeme = v.lexeme
+        WHERE c.content_tsv @@ (SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery FROM query_terms)
+          ${conditions.map(condition => `AND ${condition}`).join(' ')}
+        GROUP BY c.id, d.id, corpus.average_length
+        ORDER BY score DESC
+        LIMIT $5
+      `, params);
+
+      logger.info(`Full-text search for "${query}" found ${result.rows.length} chunks`);
+
+      return result.rows.map((row: any) => {
+        const metadata = row.metadata || {};
+        return {
+          id: row.id,
+          content: row.content,
+          score: parseFloat(row.score),
+          metadata: {
+            documentId: row.document_id,
+            title: row.title || metadata.title,
+            sessionId: row.session_id || metadata.sessionId || '',
+            privacyLevel: row.privacy_level || metadata.privacyLevel || 'selective',
+            chunkIndex: row.chunk_index,
+            startIndex: metadata.startIndex || 0,
+            endIndex: metadata.endIndex || 0,
+            wordCount: metadata.wordCount || 0
+          },
+          document: {
+            id: row.document_id,
+            title: row.title || 'Untitled',
+            summary: '',
+            keywords: [],
+            qualityScore: parseFloat(row.quality_score) || 0.5
+          },
+          matchedTerms: row.matched_terms || [],
+          phraseMatch: row.phrase_match === true
+        };
+      });
+
+    } catch (error) {
+      logger.error('Full-text search failed:', error);
+      throw error;
+    }
+  }
+
   async searchBySemanticSimilarity(
     referenceText: string,
     filters: SearchFilters = {},
@@ -355,6 +446,46 @@ export class RetrievalSystem {
     };
   }
 
+  /**
+   * SQL equivalent of buildQdrantFilter over archive_documents `d`;
+   * appends values to `params`
+   */
+  private buildSqlFilter(filters: SearchFilters, params: any[]): string[] {
+    const conditions: string[] = [];
+
+    if (filters.sessionId) {
+      params.push(filters.sessionId);
+      conditions.push(`d.session_id = $${params.length}`);
+    }
+
+    if (filters.privacyLevel) {
+      params.push(filters.privacyLevel);
+      conditions.push(`d.privacy_level = $${params.length}`);
+    }
+
+    if (filters.documentType) {
+      params.push(filters.documentType);
+      conditions.push(`d.document_type = $${params.length}`);
+    }
+
+    if (filters.qualityThreshold) {
+      params.push(filters.qualityThreshold);
+      conditions.push(`d.quality_score >= $${params.length}`);
+    }
+
+    if (filters.dateRange) {
+      params.push(filters.dateRange.start, filters.dateRange.end);
+      conditions.push(`d.created_at BETWEEN $${params.length - 1} AND $${params.length}`);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      params.push(filters.tags);
+      conditions.push(`d.metadata->'tags' ?| $${params.length}::text[]`);
+    }
+
+    return conditions;
+  }
+
   private async calculateRecencyScore(documentId: string): Promise<number> {
     try {
       const result = await database.query(`
@@ -0,0 +1,301 @@
+// =====================================
+// backend/src/agents/coordination/agent-handlers.ts
+// Built-in agent handlers registered with the AgentCoordinator
+// =====================================
+
+import { AgentHandler, AgentRequest, AgentStreamEvent } from './agent-router';
+import { synthesisPipeline, AgentCollaboration, SynthesisAgent } from './synthesis-pipeline';
+import { enhancedRAGEngine, RAGQuery, RAGResponse } from '../archive/enhanced-rag-engine';
+import { SearchFilters, UserContext } from '../archive/retrieval-system';
+import { policyAnalyzer, PolicyAnalysis, PolicyFramework } from '../codex/policy-analyzer';
+import { discourseClient } from '../../integrations/discourse-api/discourse-client';
+
+const PRIVACY_LEVELS = ['maximum', 'high', 'selective', 'minimal'];
+const SYNTHESIS_MODES = ['summary', 'detailed', 'analytical'];
+const DISCOURSE_ACTIONS = ['search', 'topics', 'topic', 'posts'];
+const SYNTHESIS_AGENTS = ['archive', 'codex', 'discourse'];
+
+export interface ArchiveAgentPayload {
+  query: string;
+  userContext: UserContext;
+  filters?: SearchFilters;
+  includeCrossSession?: boolean;
+  maxResults?: number;
+  synthesisMode?: 'summary' | 'detailed' | 'analytical';
+}
+
+export interface CodexAgentPayload {
+  frameworkId?: string;
+  framework?: PolicyFramework;
+  privacyLevel?: string;
+}
+
+export interface DiscourseAgentPayload {
+  action: 'search' | 'topics' | 'topic' | 'posts';
+  query?: string;
+  topicId?: number;
+  categoryId?: number;
+  limit?: number;
+}
+
+export interface SynthesisAgentPayload {
+  question: string;
+  agents?: SynthesisAgent[];
+  collaborationType?: string;
+  frameworkId?: string;
+  userContext?: UserContext;
+}
+
+/**
+ * Archive agent: RAG over the knowledge base, identical to POST /api/agents/archive/query
+ */
+export class ArchiveAgentHandler implements AgentHandler<ArchiveAgentPayload, RAGResponse> {
+  type = 'archive' as const;
+  timeoutMs = 60000;
+
+  validatePayload(payload: any): string[] {
+    const errors: string[] = [];
+
+    if (!payload?.query || typeof payload.query !== 'string') {
+      errors.push('query is required');
+    }
+
+    const userContext = payload?.userContext;
+    if (!userContext || typeof userContext !== 'object') {
+      errors.push('userContext is required');
+    } else {
+      if (!userContext.participantHash) {
+        errors.push('userContext.participantHash is required');
+      }
+      if (!PRIVACY_LEVELS.includes(userContext.privacyLevel)) {
+        errors.push(`userContext.privacyLevel must be one of: ${PRIVACY_LEVELS.join(', ')}`);
+      }
+      if (typeof userContext.trustScore !== 'number') {
+        errors.push('userContext.trustScore must be a number');
+      }
+    }
+
+    if (payload?.maxResults !== undefined &&
+        (!Number.isInteger(payload.maxResults) || payload.maxResults < 1)) {
+      errors.push('maxResults must be a positive integer');
+    }
+
+    if (payload?.synthesisMode !== undefined && !SYNTHESIS_MODES.includes(payload.synthesisMode)) {
+      errors.push(`synthesisMode must be one of: ${SYNTHESIS_MODES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  async handle(payload: ArchiveAgentPayload, request: AgentRequest): Promise<RAGResponse> {
+    return enhancedRAGEngine.processQuery(this.buildQuery(payload, request));
+  }
+
+  /**
+   * Forward sources and synthesis tokens as they arrive, then assemble the
+   * same RAGResponse that handle() returns
+   */
+  async *stream(payload: ArchiveAgentPayload, request: AgentRequest): AsyncGenerator<AgentStreamEvent, RAGResponse> {
+    let sources: RAGResponse['sources'] = [];
+
+    for await (const event of enhancedRAGEngine.processQueryStream(this.buildQuery(payload, request))) {
+      if (event.type === 'complete') {
+        return {
+          response: event.response,
+          sources,
+          citations: event.citations,
+          metadata: event.metadata,
+          insights: event.insights,
+          recommendations: event.recommendations
+        };
+      }
+
+      if (event.type === 'sources') {
+        sources = event.sources;
+      }
+      yield event;
+    }
+
+    throw new Error('Archive stream ended without a result');
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return enhancedRAGEngine.healthCheck();
+  }
+
+  private buildQuery(payload: ArchiveAgentPayload, request: AgentRequest): RAGQuery {
+    return {
+      query: payload.query,
+      sessionId: request.sessionId,
+      userContext: {
+        ...payload.userContext,
+        sessionId: request.sessionId,
+        accessRights: payload.userContext.accessRights || []
+      },
+      filters: payload.filters || {},
+      includeCrossSession: payload.includeCrossSession || false,
+      maxResults: payload.maxResults || 10,
+      synthesisMode: payload.synthesisMode || 'summary'
+    };
+  }
+}
+
+/**
+ * Codex agent: policy framework analysis
+ */
+export class CodexAgentHandler implements AgentHandler<CodexAgentPayload, PolicyAnalysis> {
+  type = 'codex' as const;
+  timeoutMs = 120000;
+
+  validatePayload(payload: any): string[] {
+    const errors: string[] = [];
+
+    if (!payload?.frameworkId && !payload?.framework) {
+      errors.push('Either frameworkId or framework is required');
+    }
+
+    if (payload?.frameworkId && !policyAnalyzer.getFramework(payload.frameworkId)) {
+      errors.push(`Unknown frameworkId: ${payload.frameworkId}`);
+    }
+
+    if (payload?.framework) {
+      for (const field of ['id', 'name', 'jurisdiction', 'domain']) {
+        if (!payload.framework[field]) {
+          errors.push(`framework.${field} is required`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  async handle(payload: CodexAgentPayload, request: AgentRequest): Promise<PolicyAnalysis> {
+    const framework = payload.framework
+      ? this.normalizeFramework(payload.framework)
+      : policyAnalyzer.getFramework(payload.frameworkId!)!;
+
+    return policyAnalyzer.analyzePolicyFramework(framework, {
+      sessionId: request.sessionId,
+      privacyLevel: payload.privacyLevel || 'selective'
+    });
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return policyAnalyzer.healthCheck();
+  }
+
+  private normalizeFramework(framework: PolicyFramework): PolicyFramework {
+    return {
+      ...framework,
+      version: framework.version || '1.0',
+      content: framework.content || {},
+      metadata: {
+        ...framework.metadata,
+        created: framework.metadata?.created || new Date(),
+        updated: framework.metadata?.updated || new Date(),
+        status: framework.metadata?.status || 'draft'
+      }
+    };
+  }
+}
+
+/**
+ * Discourse agent: forum search and thread retrieval
+ */
+export class DiscourseAgentHandler implements AgentHandler<DiscourseAgentPayload> {
+  type = 'discourse' as const;
+  timeoutMs = 15000;
+
+  validatePayload(payload: any): string[] {
+    const errors: string[] = [];
+
+    if (!DISCOURSE_ACTIONS.includes(payload?.action)) {
+      errors.push(`action must be one of: ${DISCOURSE_ACTIONS.join(', ')}`);
+      return errors;
+    }
+
+    if (payload.action === 'search' && (!payload.query || typeof payload.query !== 'string')) {
+      errors.push('query is required for search');
+    }
+
+    if ((payload.action === 'topic' || payload.action === 'posts') && !Number.isInteger(payload.topicId)) {
+      errors.push(`topicId must be an integer for ${payload.action}`);
+    }
+
+    if (payload.limit !== undefined && (!Number.isInteger(payload.limit) || payload.limit < 1)) {
+      errors.push('limit must be a positive integer');
+    }
+
+    return errors;
+  }
+
+  async handle(payload: DiscourseAgentPayload): Promise<any> {
+    switch (payload.action) {
+      case 'search': {
+        const topics = await discourseClient.searchTopics(payload.query!, payload.categoryId, payload.limit);
+        return { topics, total: topics.length };
+      }
+      case 'topics': {
+        const topics = await discourseClient.fetchTopics(payload.categoryId, payload.limit);
+        return { topics, total: topics.length };
+      }
+      case 'topic':
+        return { topic: await discourseClient.fetchTopic(payload.topicId!) };
+      case 'posts': {
+        const posts = await discourseClient.fetchPosts(payload.topicId!);
+        return { posts, total: posts.length };
+      }
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return discourseClient.healthCheck();
+  }
+}
+
+/**
+ * Synthesis agent: the multi-agent pipeline behind POST /api/synthesis/collaborate
+ */
+export class SynthesisAgentHandler implements AgentHandler<SynthesisAgentPayload, AgentCollaboration> {
+  type = 'synthesis' as const;
+  timeoutMs = 180000;
+
+  validatePayload(payload: any): string[] {
+    const errors: string[] = [];
+
+    if (!payload?.question || typeof payload.question !== 'string') {
+      errors.push('question is required');
+    }
+
+    if (payload?.agents !== undefined &&
+        (!Array.isArray(payload.agents) || payload.agents.some((agent: string) => !SYNTHESIS_AGENTS.includes(agent)))) {
+      errors.push(`agents must be an array containing only: ${SYNTHESIS_AGENTS.join(', ')}`);
+    }
+
+    if (payload?.frameworkId !== undefined && !policyAnalyzer.getFramework(payload.frameworkId)) {
+      errors.push(`Unknown frameworkId: ${payload.frameworkId}`);
+    }
+
+    return errors;
+  }
+
+  async handle(payload: SynthesisAgentPayload, request: AgentRequest): Promise<AgentCollaboration> {
+    return synthesisPipeline.collaborate({
+      sessionId: request.sessionId,
+      question: payload.question,
+      agents: payload.agents,
+      collaborationType: payload.collaborationType,
+      frameworkId: payload.frameworkId,
+      userContext: payload.userContext
+    });
+  }
+}
+
+export function createDefaultAgentHandlers(): AgentHandler[] {
+  return [
+    new ArchiveAgentHandler(),
+    new CodexAgentHandler(),
+    new DiscourseAgentHandler(),
+    new SynthesisAgentHandler()
+  ];
+}
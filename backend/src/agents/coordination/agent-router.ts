@@ -3,9 +3,12 @@
 // =====================================
 
 import { logger } from '../../utils/logger';
+import { createDefaultAgentHandlers } from './agent-handlers';
+
+export type AgentType = 'archive' | 'codex' | 'discourse' | 'synthesis';
 
 export interface AgentRequest {
-  type: 'archive' | 'codex' | 'discourse' | 'synthesis';
+  type: AgentType;
   sessionId: string;
   payload: any;
   metadata?: any;
@@ -15,52 +18,273 @@ export interface AgentResponse {
   success: boolean;
   data?: any;
   error?: string;
+  validationErrors?: string[];
   agentType: string;
+  processingTime?: number;
   timestamp: Date;
 }
 
+/**
+ * A pluggable agent implementation registered with the coordinator.
+ * validatePayload returns a list of problems; an empty list means the
+ * payload can be safely cast to TPayload and passed to handle().
+ * Handlers that can produce incremental output implement stream(), which
+ * yields events and returns the same result handle() would.
+ */
+export interface AgentHandler<TPayload = any, TResult = any> {
+  type: AgentType;
+  timeoutMs: number;
+  validatePayload(payload: any): string[];
+  handle(payload: TPayload, request: AgentRequest): Promise<TResult>;
+  stream?(payload: TPayload, request: AgentRequest): AsyncGenerator<AgentStreamEvent, TResult>;
+  healthCheck?(): Promise<boolean>;
+}
+
+export interface AgentStreamEvent {
+  type: string;
+  [key: string]: any;
+}
+
+export interface AgentStatus {
+  type: AgentType;
+  status: 'ready' | 'busy' | 'degraded' | 'unavailable';
+  activeRequests: number;
+  totalRequests: number;
+  failedRequests: number;
+  timeouts: number;
+  averageProcessingTime: number;
+  lastError?: string;
+  lastProcessedAt?: Date;
+}
+
 export class AgentCoordinator {
-  private agents: Map<string, any> = new Map();
+  private agents: Map<AgentType, AgentHandler> = new Map();
+  private statuses: Map<AgentType, AgentStatus> = new Map();
 
   async initialize(): Promise<void> {
     logger.info('Initializing agent coordinator...');
-    // Initialize agents here
-    this.agents.set('archive', { status: 'ready' });
-    this.agents.set('codex', { status: 'ready' });
-    this.agents.set('discourse', { status: 'ready' });
-    logger.info('Agent coordinator initialized');
+
+    // Register the built-in agents unless they have been overridden already
+    for (const handler of createDefaultAgentHandlers()) {
+      if (!this.agents.has(handler.type)) {
+        this.registerAgent(handler);
+      }
+    }
+
+    await this.refreshAgentHealth();
+    logger.info(`Agent coordinator initialized with ${this.agents.size} agents`);
+  }
+
+  /**
+   * Register (or replace) the handler for an agent type
+   */
+  registerAgent(handler: AgentHandler): void {
+    this.agents.set(handler.type, handler);
+    this.statuses.set(handler.type, {
+      type: handler.type,
+      status: 'ready',
+      activeRequests: 0,
+      totalRequests: 0,
+      failedRequests: 0,
+      timeouts: 0,
+      averageProcessingTime: 0
+    });
+    logger.info(`Registered ${handler.type} agent (timeout ${handler.timeoutMs}ms)`);
+  }
+
+  unregisterAgent(type: AgentType): void {
+    this.agents.delete(type);
+    this.statuses.delete(type);
   }
 
-  async processRequest(request: AgentRequest): Promise<AgentResponse> {
+  /**
+   * Dispatch a request to its agent. When onEvent is given and the agent
+   * supports streaming, intermediate events are forwarded as they arrive.
+   */
+  async processRequest(
+    request: AgentRequest,
+    onEvent?: (event: AgentStreamEvent) => void
+  ): Promise<AgentResponse> {
+    const startTime = Date.now();
+    const agentType = request?.type || 'unknown';
+
+    const requestErrors = this.validateRequest(request);
+    if (requestErrors.length > 0) {
+      return this.buildErrorResponse(agentType, 'Invalid agent request', startTime, requestErrors);
+    }
+
+    const handler = this.agents.get(request.type);
+    const status = this.statuses.get(request.type);
+    if (!handler || !status) {
+      return this.buildErrorResponse(agentType, `No agent registered for type "${request.type}"`, startTime);
+    }
+
+    if (status.status === 'unavailable') {
+      return this.buildErrorResponse(agentType, `${request.type} agent is unavailable`, startTime);
+    }
+
+    const payloadErrors = handler.validatePayload(request.payload);
+    if (payloadErrors.length > 0) {
+      return this.buildErrorResponse(agentType, 'Invalid payload', startTime, payloadErrors);
+    }
+
+    status.activeRequests++;
+    status.totalRequests++;
+    status.status = 'busy';
+
     try {
       logger.info(`Processing ${request.type} request for session ${request.sessionId}`);
-      
-      // Mock response for MVP
-      const response: AgentResponse = {
-        success: true,
-        data: {
-          message: `${request.type} agent processed request`,
-          sessionId: request.sessionId,
-          timestamp: new Date()
-        },
-        agentType: request.type,
-        timestamp: new Date()
-      };
 
-      return response;
-    } catch (error) {
-      logger.error('Agent processing error:', error);
+      const execution = onEvent && handler.stream
+        ? this.consumeStream(handler.stream(request.payload, request), onEvent)
+        : handler.handle(request.payload, request);
+
+      const data = await this.withTimeout(
+        execution,
+        handler.timeoutMs,
+        request.type
+      );
+
+      const processingTime = Date.now() - startTime;
+      this.recordCompletion(status, processingTime);
+
       return {
-        success: false,
-        error: 'Agent processing failed',
+        success: true,
+        data,
         agentType: request.type,
+        processingTime,
         timestamp: new Date()
       };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Agent processing failed';
+      logger.error(`${request.type} agent processing error:`, error);
+
+      status.failedRequests++;
+      status.lastError = message;
+      if (message.includes('timed out')) {
+        status.timeouts++;
+      }
+      this.recordCompletion(status, Date.now() - startTime);
+
+      return this.buildErrorResponse(agentType, message, startTime);
+    }
+  }
+
+  getAgentStatus(type: AgentType): AgentStatus | undefined {
+    return this.statuses.get(type);
+  }
+
+  getAllAgentStatuses(): AgentStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  getRegisteredAgents(): AgentType[] {
+    return Array.from(this.agents.keys());
+  }
+
+  /**
+   * Re-run handler health checks and update agent availability
+   */
+  async refreshAgentHealth(): Promise<void> {
+    for (const [type, handler] of this.agents) {
+      const status = this.statuses.get(type);
+      if (!status || !handler.healthCheck) continue;
+
+      try {
+        const healthy = await handler.healthCheck();
+        if (status.activeRequests === 0) {
+          status.status = healthy ? 'ready' : 'degraded';
+        }
+      } catch (error) {
+        logger.warn(`${type} agent health check failed:`, error);
+        status.status = 'degraded';
+      }
     }
   }
 
   async shutdown(): Promise<void> {
     logger.info('Shutting down agent coordinator...');
     this.agents.clear();
+    this.statuses.clear();
+  }
+
+  private validateRequest(request: AgentRequest): string[] {
+    const errors: string[] = [];
+
+    if (!request || typeof request !== 'object') {
+      return ['Request must be an object'];
+    }
+
+    if (!request.type || typeof request.type !== 'string') {
+      errors.push('type is required');
+    }
+
+    if (!request.sessionId || typeof request.sessionId !== 'string') {
+      errors.push('sessionId is required');
+    }
+
+    if (request.payload === undefined || request.payload === null || typeof request.payload !== 'object') {
+      errors.push('payload must be an object');
+    }
+
+    return errors;
+  }
+
+  private async consumeStream<TResult>(
+    stream: AsyncGenerator<AgentStreamEvent, TResult>,
+    onEvent: (event: AgentStreamEvent) => void
+  ): Promise<TResult> {
+    let next = await stream.next();
+    while (!next.done) {
+      onEvent(next.value);
+      next = await stream.next();
+    }
+    return next.value;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, agentType: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${agentType} agent timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => {
+      if (timer) clearTimeout(timer);
+    });
+  }
+
+  private recordCompletion(status: AgentStatus, processingTime: number): void {
+    status.activeRequests = Math.max(0, status.activeRequests - 1);
+    status.lastProcessedAt = new Date();
+
+    // Running average over all completed requests
+    const completed = status.totalRequests;
+    status.averageProcessingTime = completed > 0
+      ? status.averageProcessingTime + (processingTime - status.averageProcessingTime) / completed
+      : processingTime;
+
+    if (status.activeRequests === 0 && status.status === 'busy') {
+      status.status = 'ready';
+    }
+  }
+
+  private buildErrorResponse(
+    agentType: string,
+    error: string,
+    startTime: number,
+    validationErrors?: string[]
+  ): AgentResponse {
+    return {
+      success: false,
+      error,
+      ...(validationErrors && { validationErrors }),
+      agentType,
+      processingTime: Date.now() - startTime,
+      timestamp: new Date()
+    };
   }
 }
@@ -0,0 +1,506 @@
+// =====================================
+// backend/src/agents/coordination/synthesis-pipeline.ts
+// Multi-agent synthesis: Archive + Codex + Discourse fan-out with LLM merge
+// =====================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { retrievalSystem, FilteredResult, UserContext } from '../archive/retrieval-system';
+import { policyAnalyzer, PolicyAnalysis, PolicyFramework } from '../codex/policy-analyzer';
+import { discourseClient, DiscourseTopic } from '../../integrations/discourse-api/discourse-client';
+import { llmClient } from '../../integrations/llm/llm-client';
+import { logger } from '../../utils/logger';
+import { database } from '../../utils/database';
+
+export type SynthesisAgent = 'archive' | 'codex' | 'discourse';
+
+export interface SynthesisRequest {
+  sessionId: string;
+  question: string;
+  agents?: SynthesisAgent[];
+  collaborationType?: string;
+  frameworkId?: string;
+  userContext?: UserContext;
+  maxSources?: number;
+}
+
+export interface AgentContribution {
+  agent: SynthesisAgent;
+  success: boolean;
+  confidence: number;
+  processingTime: number;
+  output?: any;
+  error?: string;
+}
+
+export interface SynthesisResult {
+  summary: string;
+  insights: string[];
+  recommendations: string[];
+  contributions: AgentContribution[];
+  sources: {
+    agent: SynthesisAgent;
+    reference: string;
+    title: string;
+    score: number;
+  }[];
+}
+
+export interface AgentCollaboration {
+  id: string;
+  sessionId: string;
+  collaborationType: string;
+  participatingAgents: SynthesisAgent[];
+  inputData: any;
+  synthesisResult: SynthesisResult;
+  confidenceScore: number;
+  participantValidationCount: number;
+  processingTimeMs: number;
+  qualityMetrics: {
+    agentCoverage: number;
+    sourceCount: number;
+    averageSourceScore: number;
+  };
+  createdAt: Date;
+  completedAt: Date;
+}
+
+export class SynthesisPipeline {
+  private readonly DEFAULT_AGENTS: SynthesisAgent[] = ['archive', 'codex', 'discourse'];
+  private readonly DEFAULT_MAX_SOURCES = 5;
+
+  // Relative weight of each agent's confidence in the overall score
+  private readonly AGENT_WEIGHTS: Record<SynthesisAgent, number> = {
+    archive: 0.45,
+    codex: 0.35,
+    discourse: 0.2
+  };
+
+  async collaborate(request: SynthesisRequest): Promise<AgentCollaboration> {
+    const startTime = Date.now();
+    const createdAt = new Date();
+    const agents = request.agents && request.agents.length > 0 ? request.agents : this.DEFAULT_AGENTS;
+
+    // agent_collaborations.session_id references sessions; fail before any agent runs
+    if (!await this.sessionExists(request.sessionId)) {
+      throw new Error(`Session not found: ${request.sessionId}`);
+    }
+
+    logger.info(`Starting ${agents.join('+')} synthesis for session ${request.sessionId}`);
+
+    // Step 1: Fan the question out to each requested agent in parallel
+    const contributions = await Promise.all(
+      agents.map(agent => this.runAgent(agent, request))
+    );
+
+    // Step 2: Collect source references and compute confidence
+    const sources = this.collectSources(contributions);
+    const confidenceScore = this.calculateConfidence(agents, contributions);
+
+    // Step 3: Merge the agent outputs with an LLM synthesis step
+    const merged = await this.mergeContributions(request.question, contributions);
+
+    const synthesisResult: SynthesisResult = {
+      ...merged,
+      contributions,
+      sources
+    };
+
+    const collaboration: AgentCollaboration = {
+      id: uuidv4(),
+      sessionId: request.sessionId,
+      collaborationType: request.collaborationType || 'multi_agent_synthesis',
+      participatingAgents: contributions.filter(c => c.success).map(c => c.agent),
+      inputData: {
+        question: request.question,
+        requestedAgents: agents,
+        frameworkId: request.frameworkId
+      },
+      synthesisResult,
+      confidenceScore,
+      participantValidationCount: 0,
+      processingTimeMs: Date.now() - startTime,
+      qualityMetrics: {
+        agentCoverage: contributions.filter(c => c.success).length / agents.length,
+        sourceCount: sources.length,
+        averageSourceScore: sources.length > 0
+          ? sources.reduce((sum, source) => sum + source.score, 0) / sources.length
+          : 0
+      },
+      createdAt,
+      completedAt: new Date()
+    };
+
+    await this.storeCollaboration(collaboration);
+
+    logger.info(`Synthesis ${collaboration.id} completed in ${collaboration.processingTimeMs}ms (confidence ${confidenceScore.toFixed(2)})`);
+    return collaboration;
+  }
+
+  async sessionExists(sessionId: string): Promise<boolean> {
+    const result = await database.query('SELECT 1 FROM sessions WHERE id = $1', [sessionId]);
+    return result.rows.length > 0;
+  }
+
+  async getCollaborations(filters: { sessionId?: string; limit?: number; offset?: number } = {}): Promise<{
+    collaborations: AgentCollaboration[];
+    total: number;
+  }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.sessionId) {
+      params.push(filters.sessionId);
+      conditions.push(`session_id = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await database.query(`
+      SELECT COUNT(*) AS total FROM agent_collaborations ${where}
+    `, params);
+
+    const result = await database.query(`
+      SELECT * FROM agent_collaborations ${where}
+      ORDER BY created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit || 10, filters.offset || 0]);
+
+    return {
+      collaborations: result.rows.map((row: any) => this.mapCollaborationRow(row)),
+      total: parseInt(countResult.rows[0].total, 10)
+    };
+  }
+
+  async getCollaboration(id: string): Promise<AgentCollaboration | null> {
+    const result = await database.query(`
+      SELECT * FROM agent_collaborations WHERE id = $1
+    `, [id]);
+
+    return result.rows.length > 0 ? this.mapCollaborationRow(result.rows[0]) : null;
+  }
+
+  async getStatistics(): Promise<{
+    totalCollaborations: number;
+    completedToday: number;
+    averageProcessingTime: number;
+    averageConfidence: number;
+  }> {
+    const result = await database.query(`
+      SELECT
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE completed_at >= date_trunc('day', NOW())) AS completed_today,
+        COALESCE(AVG(processing_time_ms), 0) AS avg_processing_time,
+        COALESCE(AVG(confidence_score), 0) AS avg_confidence
+      FROM agent_collaborations
+    `);
+
+    const row = result.rows[0];
+    return {
+      totalCollaborations: parseInt(row.total, 10),
+      completedToday: parseInt(row.completed_today, 10),
+      averageProcessingTime: parseFloat(row.avg_processing_time),
+      averageConfidence: parseFloat(row.avg_confidence)
+    };
+  }
+
+  private async runAgent(agent: SynthesisAgent, request: SynthesisRequest): Promise<AgentContribution> {
+    const startTime = Date.now();
+
+    try {
+      let result: { output: any; confidence: number };
+
+      switch (agent) {
+        case 'archive':
+          result = await this.runArchive(request);
+          break;
+        case 'codex':
+          result = await this.runCodex(request);
+          break;
+        case 'discourse':
+          result = await this.runDiscourse(request);
+          break;
+      }
+
+      return {
+        agent,
+        success: true,
+        confidence: result.confidence,
+        processingTime: Date.now() - startTime,
+        output: result.output
+      };
+    } catch (error) {
+      logger.error(`${agent} agent failed during synthesis:`, error);
+      return {
+        agent,
+        success: false,
+        confidence: 0,
+        processingTime: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Archive: RAG retrieval over the knowledge base
+   */
+  private async runArchive(request: SynthesisRequest): Promise<{ output: FilteredResult[]; confidence: number }> {
+    const userContext: UserContext = request.userContext || {
+      participantHash: 'anonymous',
+      sessionId: request.sessionId,
+      privacyLevel: 'selective',
+      trustScore: 0.5,
+      accessRights: []
+    };
+
+    const results = await retrievalSystem.searchSimilar(
+      request.question,
+      { sessionId: request.sessionId },
+      request.maxSources || this.DEFAULT_MAX_SOURCES
+    );
+    const ranked = await retrievalSystem.rankResults(results);
+    const filtered = await retrievalSystem.applyPrivacyFilters(ranked, userContext);
+
+    const confidence = filtered.length > 0
+      ? filtered.reduce((sum, result) => sum + result.finalScore, 0) / filtered.length
+      : 0;
+
+    return { output: filtered, confidence };
+  }
+
+  /**
+   * Codex: policy framework analysis, either of a known framework or of the question itself
+   */
+  private async runCodex(request: SynthesisRequest): Promise<{ output: PolicyAnalysis; confidence: number }> {
+    let framework: PolicyFramework | undefined;
+
+    if (request.frameworkId) {
+      framework = policyAnalyzer.getFramework(request.frameworkId);
+      if (!framework) {
+        throw new Error(`Unknown policy framework: ${request.frameworkId}`);
+      }
+    } else {
+      framework = {
+        id: `adhoc_${uuidv4()}`,
+        name: request.question.substring(0, 200),
+        jurisdiction: 'Global',
+        domain: 'blockchain-governance',
+        version: '1.0',
+        content: { question: request.question },
+        metadata: {
+          created: new Date(),
+          updated: new Date(),
+          status: 'draft'
+        }
+      };
+    }
+
+    const analysis = await policyAnalyzer.analyzePolicyFramework(framework, {
+      sessionId: request.sessionId,
+      privacyLevel: request.userContext?.privacyLevel || 'selective'
+    });
+
+    return { output: analysis, confidence: analysis.metadata.confidence };
+  }
+
+  /**
+   * Discourse: community discussion relevant to the question
+   */
+  private async runDiscourse(request: SynthesisRequest): Promise<{ output: DiscourseTopic[]; confidence: number }> {
+    const maxSources = request.maxSources || this.DEFAULT_MAX_SOURCES;
+    const topics = (await discourseClient.searchTopics(request.question, undefined, maxSources))
+      .slice(0, maxSources);
+
+    if (topics.length === 0) {
+      return { output: [], confidence: 0 };
+    }
+
+    // Coverage of the requested source count, blended with how active the threads are
+    const coverage = topics.length / maxSources;
+    const activity = topics.reduce((sum, topic) => sum + Math.min((topic.posts_count || 0) / 20, 1), 0) / topics.length;
+
+    return { output: topics, confidence: coverage * 0.5 + activity * 0.5 };
+  }
+
+  private collectSources(contributions: AgentContribution[]): SynthesisResult['sources'] {
+    const sources: SynthesisResult['sources'] = [];
+
+    for (const contribution of contributions) {
+      if (!contribution.success) continue;
+
+      if (contribution.agent === 'archive') {
+        for (const result of contribution.output as FilteredResult[]) {
+          sources.push({
+            agent: 'archive',
+            reference: result.metadata.documentId,
+            title: result.document?.title || result.metadata.title || 'Untitled',
+            score: result.finalScore
+          });
+        }
+      } else if (contribution.agent === 'codex') {
+        const analysis = contribution.output as PolicyAnalysis;
+        sources.push({
+          agent: 'codex',
+          reference: analysis.id,
+          title: analysis.framework.name,
+          score: analysis.metadata.confidence
+        });
+      } else if (contribution.agent === 'discourse') {
+        for (const topic of contribution.output as DiscourseTopic[]) {
+          sources.push({
+            agent: 'discourse',
+            reference: String(topic.id),
+            title: topic.title,
+            score: Math.min((topic.posts_count || 0) / 20, 1)
+          });
+        }
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Weighted average of agent confidences; requested agents that failed count as zero
+   */
+  private calculateConfidence(agents: SynthesisAgent[], contributions: AgentContribution[]): number {
+    const totalWeight = agents.reduce((sum, agent) => sum + this.AGENT_WEIGHTS[agent], 0);
+    if (totalWeight === 0) return 0;
+
+    const weightedScore = contributions.reduce(
+      (sum, contribution) => sum + this.AGENT_WEIGHTS[contribution.agent] * Math.min(Math.max(contribution.confidence, 0), 1),
+      0
+    );
+
+    return Math.round((weightedScore / totalWeight) * 100) / 100;
+  }
+
+  private async mergeContributions(
+    question: string,
+    contributions: AgentContribution[]
+  ): Promise<{ summary: string; insights: string[]; recommendations: string[] }> {
+    const successful = contributions.filter(c => c.success);
+    if (successful.length === 0) {
+      return {
+        summary: 'No agent was able to contribute to this synthesis.',
+        insights: [],
+        recommendations: []
+      };
+    }
+
+    const sections = successful.map(contribution => this.describeContribution(contribution)).join('\n\n');
+
+    const prompt = `You are the Synthesis Agent in the BGIN Multi-Agent Research System. Merge the findings of the Archive (knowledge base), Codex (policy analysis) and Discourse (community discussion) agents into a single answer.
+
+Question: ${question}
+
+Agent findings:
+${sections}
+
+Only use the findings above. Note disagreements between agents explicitly.
+
+Respond only with valid JSON:
+{
+  "summary": "integrated answer to the question",
+  "insights": ["cross-agent insight 1", "cross-agent insight 2"],
+  "recommendations": ["actionable recommendation 1", "actionable recommendation 2"]
+}`;
+
+    try {
+      const response = await llmClient.generateResponse(prompt, {
+        maxTokens: 2000,
+        temperature: 0.3
+      });
+
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response.content);
+
+      return {
+        summary: typeof parsed.summary === 'string' ? parsed.summary : response.content,
+        insights: Array.isArray(parsed.insights) ? parsed.insights : [],
+        recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : []
+      };
+    } catch (error) {
+      logger.error('Synthesis merge failed, returning raw agent findings:', error);
+      return {
+        summary: sections,
+        insights: [],
+        recommendations: []
+      };
+    }
+  }
+
+  private describeContribution(contribution: AgentContribution): string {
+    switch (contribution.agent) {
+      case 'archive': {
+        const results = contribution.output as FilteredResult[];
+        const excerpts = results
+          .map((result, index) => `[A${index + 1}] ${result.document?.title || 'Untitled'}: ${result.content}`)
+          .join('\n');
+        return `ARCHIVE (${results.length} documents):\n${excerpts || 'No relevant documents found.'}`;
+      }
+      case 'codex': {
+        const { analysis, framework } = contribution.output as PolicyAnalysis;
+        return `CODEX (${framework.name}, compliance ${analysis.complianceScore}, risk ${analysis.riskLevel}):
+Strengths: ${analysis.strengths.join('; ')}
+Weaknesses: ${analysis.weaknesses.join('; ')}
+Gaps: ${analysis.gaps.join('; ')}
+Recommendations: ${analysis.recommendations.join('; ')}`;
+      }
+      case 'discourse': {
+        const topics = contribution.output as DiscourseTopic[];
+        const threads = topics
+          .map((topic, index) => `[D${index + 1}] ${topic.title} (${topic.posts_count} posts)`)
+          .join('\n');
+        return `DISCOURSE (${topics.length} threads):\n${threads || 'No related discussions found.'}`;
+      }
+    }
+  }
+
+  private async storeCollaboration(collaboration: AgentCollaboration): Promise<void> {
+    try {
+      await database.query(`
+        INSERT INTO agent_collaborations (
+          id, session_id, collaboration_type, participating_agents, input_data,
+          synthesis_result, confidence_score, participant_validation_count,
+          processing_time_ms, quality_metrics, created_at, completed_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `, [
+        collaboration.id,
+        collaboration.sessionId,
+        collaboration.collaborationType,
+        collaboration.participatingAgents,
+        JSON.stringify(collaboration.inputData),
+        JSON.stringify(collaboration.synthesisResult),
+        collaboration.confidenceScore,
+        collaboration.participantValidationCount,
+        collaboration.processingTimeMs,
+        JSON.stringify(collaboration.qualityMetrics),
+        collaboration.createdAt,
+        collaboration.completedAt
+      ]);
+    } catch (error) {
+      logger.error('Failed to store agent collaboration:', error);
+      throw error;
+    }
+  }
+
+  private mapCollaborationRow(row: any): AgentCollaboration {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      collaborationType: row.collaboration_type,
+      participatingAgents: row.participating_agents || [],
+      inputData: row.input_data,
+      synthesisResult: row.synthesis_result,
+      confidenceScore: parseFloat(row.confidence_score),
+      participantValidationCount: row.participant_validation_count,
+      processingTimeMs: row.processing_time_ms,
+      qualityMetrics: row.quality_metrics,
+      createdAt: row.created_at,
+      completedAt: row.completed_at
+    };
+  }
+}
+
+// Singleton instance
+export const synthesisPipeline = new SynthesisPipeline();
@@ -6,6 +6,14 @@ import { EventEmitter } from 'events';
 import { logger } from '../../utils/logger';
 import { database } from '../../utils/database';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  extractDocument,
+  formatFromFileName,
+  DocumentStructure,
+  FORMAT_MIME_TYPES
+} from '../archive/extractors';
+import { chunkText, ChunkingStrategy } from '../archive/chunking';
+import { llmClient } from '../../integrations/llm/llm-client';
 
 export interface WorkingGroup {
   id: string;
@@ -36,8 +44,9 @@ export interface RAGContainerConfig {
   containerId: string;
   vectorDatabase: 'qdrant' | 'pinecone' | 'weaviate' | 'chroma';
   embeddingModel: string;
-  chunkSize: number;
-  chunkOverlap: number;
+  chunkingStrategy: ChunkingStrategy;
+  chunkSize: number; // tokens of the embedding model
+  chunkOverlap: number; // tokens
   similarityThreshold: number;
   maxResults: number;
   crossGroupSearch: boolean;
@@ -129,6 +138,12 @@ export interface ProcessingResults {
   processingTime: number;
   modelUsed: string;
   processingSteps: ProcessingStep[];
+  extraction: ExtractionResults;
+}
+
+export interface ExtractionResults {
+  structure?: DocumentStructure;
+  errors: string[];
 }
 
 export interface DocumentChunk {
@@ -139,7 +154,10 @@ export interface DocumentChunk {
     startIndex: number;
     endIndex: number;
     wordCount: number;
+    tokenCount: number;
     section?: string;
+    headingPath: string[];
+    clause?: string;
     pageNumber?: number;
   };
   embedding?: number[];
@@ -244,8 +262,9 @@ export class WorkingGroupManager extends EventEmitter {
           containerId,
           vectorDatabase: 'qdrant',
           embeddingModel: 'text-embedding-3-small',
-          chunkSize: 1000,
-          chunkOverlap: 200,
+          chunkingStrategy: 'section',
+          chunkSize: 512,
+          chunkOverlap: 64,
           similarityThreshold: 0.75,
           maxResults: 20,
           crossGroupSearch: false,
@@ -284,7 +303,7 @@ export class WorkingGroupManager extends EventEmitter {
           includeReasoningChain: true
         },
         documentProcessing: {
-          supportedFormats: ['pdf', 'txt', 'md', 'docx', 'html'],
+          supportedFormats: ['pdf', 'txt', 'md', 'docx', 'html', 'csv'],
           maxFileSize: 50 * 1024 * 1024, // 50MB
           autoProcessing: true,
           qualityThreshold: 0.7,
@@ -355,7 +374,21 @@ export class WorkingGroupManager extends EventEmitter {
       }
 
       const uploadId = uuidv4();
-      const content = file.toString('utf-8');
+      const mimeType = this.detectMimeType(fileName);
+
+      // A file that cannot be extracted is recorded as failed instead of
+      // indexing its raw bytes
+      let content = '';
+      let structure: DocumentStructure | undefined;
+      let extractionError: string | undefined;
+      try {
+        const { text, ...rest } = await extractDocument(file, { mimeType, fileName });
+        content = text;
+        structure = rest;
+      } catch (error) {
+        extractionError = error instanceof Error ? error.message : 'Unknown extraction error';
+        logger.warn(`Document extraction failed for ${fileName}: ${extractionError}`);
+      }
 
       // Create document upload record
       const documentUpload: DocumentUpload = {
@@ -364,11 +397,11 @@ export class WorkingGroupManager extends EventEmitter {
         fileName: `${uploadId}_${fileName}`,
         originalName: fileName,
         fileSize: file.length,
-        mimeType: this.detectMimeType(fileName),
+        mimeType,
         content,
         metadata: {
-          title: metadata.title || fileName,
-          author: metadata.author,
+          title: metadata.title || structure?.title || fileName,
+          author: metadata.author || structure?.author,
           source: metadata.source,
           tags: metadata.tags || [],
           language: metadata.language || 'en',
@@ -377,7 +410,7 @@ export class WorkingGroupManager extends EventEmitter {
           license: metadata.license,
           customFields: metadata.customFields || {}
         },
-        processingStatus: 'pending',
+        processingStatus: structure ? 'pending' : 'failed',
         processingResults: {
           chunks: [],
           embeddings: [],
@@ -387,7 +420,11 @@ export class WorkingGroupManager extends EventEmitter {
           qualityScore: 0,
           processingTime: 0,
           modelUsed: '',
-          processingSteps: []
+          processingSteps: [],
+          extraction: {
+            structure,
+            errors: extractionError ? [extractionError] : []
+          }
         },
         intelligenceDisclosure: {
           modelInfo: {
@@ -420,7 +457,7 @@ export class WorkingGroupManager extends EventEmitter {
       };
 
       // Process document if auto-processing is enabled
-      if (workingGroup.configuration.documentProcessing.autoProcessing) {
+      if (structure && workingGroup.configuration.documentProcessing.autoProcessing) {
         await this.processDocument(documentUpload, workingGroup, options);
       }
 
@@ -475,6 +512,7 @@ export class WorkingGroupManager extends EventEmitter {
       // Step 1: Chunk document
       const chunks = await this.chunkDocument(
         documentUpload.content,
+        documentUpload.processingResults.extraction?.structure,
         workingGroup.configuration.ragContainer,
         modelToUse,
         modelProvider
@@ -532,7 +570,8 @@ export class WorkingGroupManager extends EventEmitter {
         qualityScore,
         processingTime: Date.now() - startTime,
         modelUsed: modelToUse,
-        processingSteps: []
+        processingSteps: [],
+        extraction: documentUpload.processingResults.extraction
       };
 
       documentUpload.intelligenceDisclosure = intelligenceDisclosure;
@@ -712,9 +751,42 @@ export class WorkingGroupManager extends EventEmitter {
     logger.info(`Initializing RAG container for working group: ${workingGroup.id}`);
   }
 
-  private async chunkDocument(content: string, config: RAGContainerConfig, model: string, provider: string): Promise<DocumentChunk[]> {
-    // TODO: Implement document chunking
-    return [];
+  private async chunkDocument(
+    content: string,
+    structure: DocumentStructure | undefined,
+    config: RAGContainerConfig,
+    model: string,
+    provider: string
+  ): Promise<DocumentChunk[]> {
+    const { chunks, strategy, warnings } = await chunkText(content, {
+      // Groups created before strategies were configurable
+      strategy: config.chunkingStrategy || 'section',
+      chunkSize: config.chunkSize,
+      chunkOverlap: config.chunkOverlap,
+      embeddingModel: config.embeddingModel,
+      structure,
+      embed: async text => (await llmClient.generateEmbedding(text)).embedding
+    });
+    if (warnings.length > 0) {
+      logger.warn(`Chunking warnings for container ${config.containerId}: ${warnings.join('; ')}`);
+    }
+    logger.info(`Chunked document into ${chunks.length} chunks using ${strategy} strategy`);
+
+    return chunks.map(chunk => ({
+      id: uuidv4(),
+      content: chunk.content,
+      metadata: {
+        chunkIndex: chunk.chunkIndex,
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        wordCount: chunk.wordCount,
+        tokenCount: chunk.tokenCount,
+        section: chunk.section,
+        headingPath: chunk.headingPath,
+        clause: chunk.clause,
+        pageNumber: chunk.pageNumber
+      }
+    }));
   }
 
   private async generateEmbeddings(chunks: DocumentChunk[], model: string, provider: string): Promise<number[][]> {
@@ -787,15 +859,8 @@ export class WorkingGroupManager extends EventEmitter {
   }
 
   private detectMimeType(fileName: string): string {
-    const extension = fileName.split('.').pop()?.toLowerCase();
-    const mimeTypes: { [key: string]: string } = {
-      'pdf': 'application/pdf',
-      'txt': 'text/plain',
-      'md': 'text/markdown',
-      'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'html': 'text/html'
-    };
-    return mimeTypes[extension || ''] || 'application/octet-stream';
+    const format = formatFromFileName(fileName);
+    return format ? FORMAT_MIME_TYPES[format] : 'application/octet-stream';
   }
 
   private async storeWorkingGroup(workingGroup: WorkingGroup): Promise<void> {
@@ -35,6 +35,13 @@ export interface LLMResponse {
   };
 }
 
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  model?: string;
+  finishReason?: string;
+}
+
 export interface EmbeddingResponse {
   embedding: number[];
   model: string;
@@ -65,12 +72,57 @@ export interface Entity {
 export interface LLMProvider {
   name: string;
   generateResponse(prompt: string, options: GenerationOptions): Promise<LLMResponse>;
+  streamResponse?(prompt: string, options: GenerationOptions): AsyncGenerator<LLMStreamChunk>;
   generateEmbedding(text: string): Promise<EmbeddingResponse>;
   analyzeSentiment(text: string): Promise<SentimentAnalysis>;
   extractEntities(text: string): Promise<Entity[]>;
   isAvailable(): Promise<boolean>;
 }
 
+/**
+ * Parse an OpenAI-compatible server-sent event stream (as served by KwaaiNet
+ * nodes) into token chunks
+ */
+async function* parseOpenAICompatibleStream(stream: NodeJS.ReadableStream): AsyncGenerator<LLMStreamChunk> {
+  let buffer = '';
+  let model: string | undefined;
+
+  for await (const data of stream) {
+    buffer += data.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') {
+        yield { content: '', done: true, model };
+        return;
+      }
+
+      try {
+        const event = JSON.parse(payload);
+        const choice = event.choices?.[0];
+        model = event.model || model;
+
+        if (choice?.delta?.content) {
+          yield { content: choice.delta.content, done: false, model };
+        }
+        if (choice?.finish_reason) {
+          yield { content: '', done: true, model, finishReason: choice.finish_reason };
+          return;
+        }
+      } catch (error) {
+        logger.warn('Skipping malformed stream event:', payload);
+      }
+    }
+  }
+
+  yield { content: '', done: true, model };
+}
+
 class AnthropicProvider implements LLMProvider {
   name = 'anthropic';
   private client: Anthropic;
@@ -116,6 +168,42 @@ class AnthropicProvider implements LLMProvider {
     }
   }
 
+  async *streamResponse(prompt: string, options: GenerationOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const {
+      model = 'claude-3-haiku-20240307',
+      maxTokens = 4000,
+      temperature = 0.3,
+      topP = 1,
+      stopSequences = []
+    } = options;
+
+    try {
+      const stream = await this.client.messages.create({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        top_p: topP,
+        stop_sequences: stopSequences,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true
+      });
+
+      let finishReason: string | undefined;
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield { content: event.delta.text, done: false, model };
+        } else if (event.type === 'message_delta') {
+          finishReason = event.delta.stop_reason || undefined;
+        }
+      }
+
+      yield { content: '', done: true, model, finishReason };
+    } catch (error) {
+      logger.error('Anthropic streaming error:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     // Anthropic doesn't have embedding API, fallback to OpenAI
     throw new Error('Anthropic does not support embeddings, use OpenAI provider');
@@ -223,6 +311,44 @@ class OpenAIProvider implements LLMProvider {
     }
   }
 
+  async *streamResponse(prompt: string, options: GenerationOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const {
+      model = 'gpt-3.5-turbo',
+      maxTokens = 4000,
+      temperature = 0.3,
+      topP = 1,
+      stopSequences = []
+    } = options;
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        top_p: topP,
+        stop: stopSequences,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true
+      });
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          yield { content: choice.delta.content, done: false, model: chunk.model };
+        }
+        if (choice?.finish_reason) {
+          yield { content: '', done: true, model: chunk.model, finishReason: choice.finish_reason };
+          return;
+        }
+      }
+
+      yield { content: '', done: true, model };
+    } catch (error) {
+      logger.error('OpenAI streaming error:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     try {
       const response = await this.client.embeddings.create({
@@ -411,7 +537,7 @@ class KwaaiNetProvider implements LLMProvider {
       max_tokens: options.maxTokens || 4000,
       temperature: options.temperature || 0.3,
       top_p: options.topP || 1,
-      stop: options.stopSequences?.length > 0 ? options.stopSequences : undefined,
+      stop: options.stopSequences && options.stopSequences.length > 0 ? options.stopSequences : undefined,
       stream: false
     });
 
@@ -435,6 +561,43 @@ class KwaaiNetProvider implements LLMProvider {
     };
   }
 
+  async *streamResponse(prompt: string, options: GenerationOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const {
+      model = 'kwaainet/llama-3.2-3b-instruct',
+      maxTokens = 4000,
+      temperature = 0.3,
+      topP = 1,
+      stopSequences = []
+    } = options;
+
+    const selectedNode = this.selectOptimalNode();
+    const requestUrl = selectedNode ? `${selectedNode}/v1/chat/completions` : '/chat/completions';
+
+    try {
+      const response = await this.client.post(requestUrl, {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        top_p: topP,
+        stop: stopSequences.length > 0 ? stopSequences : undefined,
+        stream: true,
+        distributed: {
+          enabled: this.distributedNodes.length > 0,
+          nodes: this.distributedNodes,
+          loadBalancing: 'round_robin',
+          redundancy: 1,
+          privacyLevel: 'maximum'
+        }
+      }, { responseType: 'stream' });
+
+      yield* parseOpenAICompatibleStream(response.data);
+    } catch (error) {
+      logger.error('KwaaiNet streaming error:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     try {
       const response = await this.client.post('/embeddings', {
@@ -626,6 +789,54 @@ class KwaaiDistributedProvider implements LLMProvider {
     }
   }
 
+  async *streamResponse(prompt: string, options: GenerationOptions = {}): AsyncGenerator<LLMStreamChunk> {
+    const node = this.selectOptimalNode();
+    if (!node) {
+      throw new Error('No available Kwaai distributed nodes');
+    }
+
+    const {
+      model = 'kwaainet/llama-3.2-3b-instruct',
+      maxTokens = 4000,
+      temperature = 0.3,
+      topP = 1,
+      stopSequences = []
+    } = options;
+
+    try {
+      const response = await axios.post(`${node}/v1/chat/completions`, {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        top_p: topP,
+        stop: stopSequences.length > 0 ? stopSequences : undefined,
+        stream: true,
+        distributed: {
+          enabled: true,
+          nodes: this.nodes,
+          loadBalancing: 'round_robin',
+          redundancy: 1,
+          privacyLevel: 'maximum'
+        }
+      }, {
+        headers: {
+          'Authorization': `Bearer ${config.kwaaiApiKey}`,
+          'Content-Type': 'application/json',
+          'X-Kwaai-Version': '1.0',
+          'X-Kwaai-Distributed': 'true',
+        },
+        responseType: 'stream',
+        timeout: 30000,
+      });
+
+      yield* parseOpenAICompatibleStream(response.data);
+    } catch (error) {
+      logger.error(`Kwaai distributed streaming failed on node ${node}:`, error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     const node = this.selectOptimalNode();
     if (!node) {
@@ -792,6 +1003,59 @@ export class LLMClient {
     }
   }
 
+  /**
+   * Stream a response token by token. Falls back to the fallback provider only
+   * if the primary fails before emitting anything, and to a single-chunk
+   * response for providers without native streaming.
+   */
+  async *streamResponse(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const candidates = [this.primaryProvider, this.fallbackProvider]
+      .filter((name, index, names) => names.indexOf(name) === index)
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is LLMProvider => provider !== undefined);
+
+    if (candidates.length === 0) {
+      throw new Error(`Primary provider ${this.primaryProvider} not available`);
+    }
+
+    let lastError: unknown;
+    for (const provider of candidates) {
+      let emitted = false;
+
+      try {
+        const isAvailable = await provider.isAvailable();
+        if (!isAvailable) {
+          throw new Error(`Provider ${provider.name} is not available`);
+        }
+
+        if (!provider.streamResponse) {
+          const response = await provider.generateResponse(prompt, { ...options, stream: false });
+          emitted = true;
+          yield { content: response.content, done: false, model: response.model };
+          yield { content: '', done: true, model: response.model, finishReason: response.finishReason };
+          return;
+        }
+
+        for await (const chunk of provider.streamResponse(prompt, { ...options, stream: true })) {
+          emitted = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (emitted) {
+          throw error;
+        }
+        lastError = error;
+        logger.warn(`Streaming with ${provider.name} failed, trying next provider: ${error}`);
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('No provider available for streaming');
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     // Use OpenAI for embeddings as Anthropic doesn't support them
     const provider = this.providers.get('openai');
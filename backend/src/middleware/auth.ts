@@ -3,44 +3,98 @@
 // =====================================
 
 import { Request, Response, NextFunction } from 'express';
+import { authService, AuthUser, TokenPayload, UserRole } from '../services/auth-service';
 import { logger } from '../utils/logger';
 
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    name: string;
-    role: string;
-  };
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+  token?: TokenPayload;
 }
 
-export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+export const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      error: 'No token provided'
+    });
+    return;
+  }
+
   try {
-    // Mock authentication for MVP - in production, validate JWT token
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    
-    if (!token) {
-      res.status(401).json({
-        success: false,
-        error: 'No token provided'
-      });
-      return;
-    }
+    const payload = await authService.verifyToken(token, 'access');
 
-    // Mock user for MVP
     req.user = {
-      id: '1',
-      email: 'demo@bgin.org',
-      name: 'Demo User',
-      role: 'participant'
+      id: payload.sub,
+      email: payload.email,
+      did: payload.did,
+      name: payload.name,
+      role: payload.role,
+      workingGroups: payload.workingGroups || []
     };
+    req.token = payload;
 
     next();
   } catch (error) {
-    logger.error('Authentication error:', error);
+    logger.warn('Authentication failed:', error instanceof Error ? error.message : error);
     res.status(401).json({
       success: false,
       error: 'Invalid token'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Allow the request only if the authenticated user holds one of the roles.
+ * Must run after authMiddleware.
+ */
+export const requireRole = (...roles: UserRole[]) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        error: `Requires role: ${roles.join(' or ')}`
+      });
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * Allow admins, and working-group chairs for the group named in the route
+ * parameter. Must run after authMiddleware.
+ */
+export const requireWorkingGroupChair = (paramName: string = 'workingGroupId') =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const workingGroupId = req.params[paramName];
+    const isChair = req.user.role === 'working_group_chair' && req.user.workingGroups.includes(workingGroupId);
+
+    if (req.user.role !== 'admin' && !isChair) {
+      res.status(403).json({
+        success: false,
+        error: `Requires chair of working group ${workingGroupId} or admin`
+      });
+      return;
+    }
+
+    next();
+  };
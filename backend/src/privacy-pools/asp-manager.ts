@@ -4,14 +4,31 @@
 // =====================================
 
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { computeTrustRanking, TrustEdge, TrustRanking } from '../toip/trust-graph';
+import { aspRepository, AssociationSetEvent, AssociationSetRoot, AssociationSetSnapshot, PoolTransition } from './asp-repository';
+import { AssociationSetMerkleTree, MerkleProof, verifyMerkleProof } from './association-merkle-tree';
+import { complianceEngine, ComplianceDecision } from './compliance-engine';
+import { computeCommitment, computeNullifierHash, computePrecommitment } from './commitments';
+import { LedgerReceipt, poolLedger } from './pool-ledger';
+import { RewardBalances, RewardLedgerEntry, rewardLedger, RewardStatement, issuanceKey } from './reward-ledger';
+import type { ReviewSummary } from './peer-review';
+
+/**
+ * Withdrawals may reference any of this many most recent association set roots
+ */
+export const ROOT_HISTORY_SIZE = 30;
 
 export interface ResearchContribution {
   id: string;
   contributorId: string;
   contributionType: 'document' | 'analysis' | 'collaboration' | 'insight';
   qualityScore: number; // 0-1 based on peer review
-  impactScore: number; // 0-1 based on community benefit
-  trustScore: number; // 0-1 based on historical contributions
+  reviewStatus: 'pending_review' | 'accepted' | 'rejected';
+  reviewSummary?: ReviewSummary;
+  impactScore: number; // 0-1 based on community benefit, set from the reviewers' relevance score
+  trustScore: number; // 0-1 based on historical contributions, fixed at submission
   timestamp: Date;
   verifiableCredential: string;
   content: {
@@ -20,6 +37,8 @@ export interface ResearchContribution {
     data: any;
     privacyLevel: 'public' | 'restricted' | 'confidential';
   };
+  retractedAt?: Date;
+  retractionReason?: string;
 }
 
 export interface TrustNetworkNode {
@@ -80,13 +99,76 @@ export interface PrivacyPoolDeposit {
   depositorId: string;
   amount: string;
   assetType: 'ETH' | 'USDC' | 'DAI';
+  depositorAddress?: string;
   trustScore: number;
   contributionScore: number;
   aspApproval: ASPApproval;
   commitment: string;
+  status: DepositStatus;
+  label?: string;
+  precommitment?: string;
+  depositTxHash?: string;
+  exitTxHash?: string;
   timestamp: Date;
 }
 
+/**
+ * pending -> approved | rejected on registration; rejected -> exited on ragequit
+ */
+export type DepositStatus = 'pending' | 'approved' | 'rejected' | 'exited';
+
+export interface DepositRegistration {
+  depositorId: string;
+  /** Funds the deposit on the ledger and is what the sanctions list screens */
+  depositorAddress: string;
+  amount: string;
+  assetType: PrivacyPoolDeposit['assetType'];
+  precommitment: string;
+}
+
+/**
+ * Outcome of a deposit evaluated without locking funds: what the ASP review
+ * would decide, with the scores it used. Nothing is stored.
+ */
+export interface DepositEvaluation {
+  depositorId: string;
+  depositorAddress?: string;
+  amount: string;
+  assetType: PrivacyPoolDeposit['assetType'];
+  trustScore: number;
+  contributionScore: number;
+  aspApproval: ASPApproval;
+}
+
+/**
+ * Stands in for the withdrawal circuit's public and private inputs. A real
+ * deployment receives a zk proof instead of the nullifier and secret.
+ */
+export interface WithdrawalRequest {
+  assetType: PrivacyPoolDeposit['assetType'];
+  amount: string;
+  label: string;
+  nullifier: string;
+  secret: string;
+  recipient: string;
+  associationRoot: string;
+}
+
+export interface PrivacyPoolWithdrawal {
+  withdrawalId: string;
+  nullifierHash: string;
+  recipient: string;
+  assetType: PrivacyPoolDeposit['assetType'];
+  amount: string;
+  associationRoot: string;
+  rootVersion?: number;
+  status: 'completed' | 'rejected';
+  reason: string;
+  txHash?: string;
+  requestedAt: Date;
+  processedAt: Date;
+}
+
 export interface ASPApproval {
   approved: boolean;
   reason: string;
@@ -98,6 +180,7 @@ export interface ASPApproval {
     sanctions: boolean;
     identity: boolean;
   };
+  decision?: ComplianceDecision;
 }
 
 export interface ContributionReward {
@@ -107,6 +190,8 @@ export interface ContributionReward {
   rewardType: 'privacy_pool_access' | 'trust_boost' | 'reputation_increase';
   rewardAmount: number;
   privacyPoolEligibility: PrivacyPoolEligibility;
+  ledgerEntryId?: string;
+  reversalEntryId?: string;
   timestamp: Date;
 }
 
@@ -123,6 +208,50 @@ export class BGINASPManager {
   private privacyPoolDeposits: Map<string, PrivacyPoolDeposit> = new Map();
   private contributionRewards: Map<string, ContributionReward[]> = new Map();
   private associationSet: Set<string> = new Set();
+  private associationEpoch: number = 1;
+  private merkleTree: AssociationSetMerkleTree = new AssociationSetMerkleTree([]);
+  private currentRoot: AssociationSetRoot | null = null;
+  private trustRanking: TrustRanking = computeTrustRanking([], []);
+
+  /**
+   * Restore trust nodes, contributions, deposits, rewards and the live
+   * association set from PostgreSQL
+   */
+  async initialize(): Promise<void> {
+    const state = await aspRepository.loadState();
+
+    this.trustNetwork = new Map(state.nodes.map(node => [node.userId, node]));
+    this.rankTrustNetwork();
+    this.privacyPoolDeposits = new Map(state.deposits.map(deposit => [deposit.depositId, deposit]));
+    this.associationSet = new Set(state.associationSet);
+    this.associationEpoch = state.openEpoch;
+    poolLedger.restore(state.ledgerTransactions);
+    rewardLedger.restore(state.rewardLedgerEntries);
+    this.merkleTree = new AssociationSetMerkleTree(this.associationSet);
+
+    // Publish a root for state that predates root versioning
+    this.currentRoot = state.latestRoot?.root === this.merkleTree.root
+      ? state.latestRoot
+      : await aspRepository.recordRoot(this.associationEpoch, this.merkleTree);
+
+    this.researchContributions.clear();
+    for (const contribution of state.contributions.filter(candidate => !candidate.retractedAt)) {
+      const contributions = this.researchContributions.get(contribution.contributorId) || [];
+      contributions.push(contribution);
+      this.researchContributions.set(contribution.contributorId, contributions);
+    }
+
+    this.contributionRewards.clear();
+    for (const reward of state.rewards) {
+      const rewards = this.contributionRewards.get(reward.contributorId) || [];
+      rewards.push(reward);
+      this.contributionRewards.set(reward.contributorId, rewards);
+    }
+
+    await this.backfillRewardLedger();
+
+    logger.info(`Loaded ASP state: ${state.nodes.length} trust nodes, ${state.deposits.length} deposits, association set of ${this.associationSet.size} at epoch ${this.associationEpoch} (root ${this.merkleTree.root})`);
+  }
 
   // Trust Network Management
   async addUserToTrustNetwork(userId: string, did: string): Promise<void> {
@@ -157,41 +286,206 @@ export class BGINASPManager {
       }
     };
 
+    await aspRepository.saveNode(trustNode);
     this.trustNetwork.set(userId, trustNode);
+    this.rankTrustNetwork();
   }
 
-  async addResearchContribution(contribution: Omit<ResearchContribution, 'id' | 'timestamp'>): Promise<ResearchContribution> {
+  /**
+   * Bind a DID proven via challenge/response login to the user's trust node
+   */
+  async linkAuthenticatedDID(userId: string, did: string): Promise<boolean> {
+    const userNode = this.trustNetwork.get(userId);
+    if (!userNode) return false;
+
+    await aspRepository.saveNode({ ...userNode, did });
+    userNode.did = did;
+    return true;
+  }
+
+  getTrustNetworkNode(userId: string): TrustNetworkNode | undefined {
+    return this.trustNetwork.get(userId);
+  }
+
+  getTrustNetworkNodes(): TrustNetworkNode[] {
+    return Array.from(this.trustNetwork.values());
+  }
+
+  /**
+   * Record a contribution for peer review. It only counts towards trust and
+   * earns rewards once its reviews are in and it is accepted. Impact and trust
+   * are derived here, never taken from the submitter: trust from the
+   * contributor's accepted history, impact once reviewers score relevance.
+   */
+  async addResearchContribution(contribution: Omit<ResearchContribution, 'id' | 'timestamp' | 'qualityScore' | 'reviewStatus' | 'reviewSummary' | 'impactScore' | 'trustScore'>): Promise<ResearchContribution> {
     const fullContribution: ResearchContribution = {
       ...contribution,
       id: uuidv4(),
+      qualityScore: 0,
+      reviewStatus: 'pending_review',
+      reviewSummary: undefined,
+      impactScore: 0,
+      trustScore: this.calculateContributionScore(this.acceptedContributions(contribution.contributorId)),
       timestamp: new Date()
     };
 
     // Store contribution
+    await aspRepository.saveContribution(fullContribution);
     const userContributions = this.researchContributions.get(contribution.contributorId) || [];
     userContributions.push(fullContribution);
     this.researchContributions.set(contribution.contributorId, userContributions);
 
+    return fullContribution;
+  }
+
+  /**
+   * Apply the aggregated peer review: set the quality score and, if accepted,
+   * feed the contribution into the contributor's trust score and rewards.
+   * Returns undefined if the review was already completed.
+   */
+  async completeContributionReview(contributionId: string, summary: ReviewSummary): Promise<ResearchContribution | undefined> {
+    const contribution = this.findContribution(contributionId);
+    if (!contribution) {
+      throw new Error('Contribution not found');
+    }
+    if (contribution.reviewStatus !== 'pending_review') {
+      return undefined;
+    }
+
+    const reviewed: ResearchContribution = {
+      ...contribution,
+      qualityScore: summary.qualityScore,
+      impactScore: summary.criterionScores.relevance,
+      reviewStatus: summary.accepted ? 'accepted' : 'rejected',
+      reviewSummary: summary
+    };
+    if (!(await aspRepository.saveReviewOutcome(reviewed))) {
+      return undefined;
+    }
+    Object.assign(contribution, reviewed);
+
+    if (!summary.accepted) {
+      return contribution;
+    }
+
+    const before = this.trustNetwork.get(contribution.contributorId);
+    const previousReputation = before?.reputationScore || 0;
+    const previousFeeReduction = before?.privacyPoolAccess.feeReduction || 0;
+
     // Update trust network
     await this.updateUserTrustScore(contribution.contributorId);
     
     // Calculate and issue rewards
-    await this.calculateAndIssueRewards(fullContribution);
+    const after = this.trustNetwork.get(contribution.contributorId);
+    await this.calculateAndIssueRewards(contribution, {
+      trust_boost: (after?.reputationScore || 0) - previousReputation,
+      fee_reduction: (after?.privacyPoolAccess.feeReduction || 0) - previousFeeReduction
+    });
 
-    return fullContribution;
+    return contribution;
+  }
+
+  /**
+   * Record (or replace) the trust one member places in another. Relationships
+   * are kept on the trusted member's node.
+   */
+  async recordTrustRelationship(
+    fromUserId: string,
+    toUserId: string,
+    relationshipType: TrustRelationship['relationshipType'],
+    trustScore: number,
+    evidence: TrustEvidence[] = []
+  ): Promise<TrustRelationship> {
+    const toNode = this.trustNetwork.get(toUserId);
+    if (!toNode || !this.trustNetwork.has(fromUserId)) {
+      throw new Error('User not found in trust network');
+    }
+    if (fromUserId === toUserId) {
+      throw new Error('Members cannot trust themselves');
+    }
+
+    const existing = toNode.trustRelationships.find(relationship =>
+      relationship.fromUserId === fromUserId && relationship.relationshipType === relationshipType);
+    const now = new Date();
+    const relationship: TrustRelationship = {
+      fromUserId,
+      toUserId,
+      trustScore: Math.max(0, Math.min(1, trustScore)),
+      relationshipType,
+      evidence: [...(existing?.evidence || []), ...evidence],
+      createdAt: existing?.createdAt || now,
+      lastUpdated: now
+    };
+
+    toNode.trustRelationships = [
+      ...toNode.trustRelationships.filter(candidate => candidate !== existing),
+      relationship
+    ];
+    await this.refreshTrustScores();
+
+    return relationship;
+  }
+
+  /**
+   * Withdraw a contribution: it stops counting towards trust and every ledger
+   * entry booked for it is reversed
+   */
+  async retractContribution(contributionId: string, reason: string, retractedBy?: string): Promise<{ contribution: ResearchContribution; reversals: RewardLedgerEntry[] }> {
+    const contribution = this.findContribution(contributionId);
+    if (!contribution) {
+      throw new Error('Contribution not found');
+    }
+
+    const rewards = (this.contributionRewards.get(contribution.contributorId) || [])
+      .filter(reward => reward.contributionId === contributionId && reward.ledgerEntryId && !reward.reversalEntryId);
+
+    const reversals = rewards.map(reward => {
+      const entry = rewardLedger.getEntry(reward.ledgerEntryId!);
+      if (!entry) {
+        throw new Error(`Ledger entry ${reward.ledgerEntryId} missing for reward ${reward.id}`);
+      }
+      return { reward, entry: rewardLedger.buildReversal(entry, reason, retractedBy) };
+    });
+
+    const retracted: ResearchContribution = { ...contribution, retractedAt: new Date(), retractionReason: reason };
+    await aspRepository.retractContribution(retracted, retractedBy, reversals);
+
+    for (const { reward, entry } of reversals) {
+      rewardLedger.apply(entry);
+      reward.reversalEntryId = entry.id;
+    }
+
+    const remaining = (this.researchContributions.get(contribution.contributorId) || [])
+      .filter(candidate => candidate.id !== contributionId);
+    this.researchContributions.set(contribution.contributorId, remaining);
+    await this.updateUserTrustScore(contribution.contributorId);
+
+    return { contribution: retracted, reversals: reversals.map(({ entry }) => entry) };
+  }
+
+  /**
+   * Contributions that passed peer review; only these count towards trust
+   */
+  private acceptedContributions(userId: string): ResearchContribution[] {
+    return (this.researchContributions.get(userId) || []).filter(contribution => contribution.reviewStatus === 'accepted');
+  }
+
+  findContribution(contributionId: string): ResearchContribution | undefined {
+    for (const contributions of this.researchContributions.values()) {
+      const contribution = contributions.find(candidate => candidate.id === contributionId);
+      if (contribution) return contribution;
+    }
+    return undefined;
   }
 
   async updateUserTrustScore(userId: string): Promise<void> {
     const userNode = this.trustNetwork.get(userId);
     if (!userNode) return;
 
-    const contributions = this.researchContributions.get(userId) || [];
-    const trustRelationships = userNode.trustRelationships;
+    const contributions = this.acceptedContributions(userId);
 
-    // Calculate trust score based on contributions and relationships
-    const contributionScore = this.calculateContributionScore(contributions);
-    const relationshipScore = this.calculateRelationshipScore(trustRelationships);
-    const reputationScore = this.calculateReputationScore(contributions, trustRelationships);
+    // Calculate trust score based on contributions and graph trust
+    const reputationScore = this.calculateReputationScore(contributions, userId);
 
     userNode.reputationScore = reputationScore;
 
@@ -200,6 +494,8 @@ export class BGINASPManager {
 
     // Update privacy pool access
     await this.updatePrivacyPoolAccess(userId);
+
+    await aspRepository.saveNode(userNode);
   }
 
   private calculateContributionScore(contributions: ResearchContribution[]): number {
@@ -212,16 +508,17 @@ export class BGINASPManager {
     return Math.min(totalScore / contributions.length, 1);
   }
 
-  private calculateRelationshipScore(relationships: TrustRelationship[]): number {
-    if (relationships.length === 0) return 0;
-
-    const totalScore = relationships.reduce((sum, rel) => sum + rel.trustScore, 0);
-    return Math.min(totalScore / relationships.length, 1);
+  /**
+   * Graph trust from the latest ranking rather than an average of the
+   * member's endorsements, so mutual endorsement rings gain nothing
+   */
+  private calculateRelationshipScore(userId: string): number {
+    return this.trustRanking.scores.get(userId) || 0;
   }
 
-  private calculateReputationScore(contributions: ResearchContribution[], relationships: TrustRelationship[]): number {
+  private calculateReputationScore(contributions: ResearchContribution[], userId: string): number {
     const contributionScore = this.calculateContributionScore(contributions);
-    const relationshipScore = this.calculateRelationshipScore(relationships);
+    const relationshipScore = this.calculateRelationshipScore(userId);
     
     return (contributionScore * 0.6 + relationshipScore * 0.4);
   }
@@ -230,7 +527,7 @@ export class BGINASPManager {
     const userNode = this.trustNetwork.get(userId);
     if (!userNode) return;
 
-    const contributions = this.researchContributions.get(userId) || [];
+    const contributions = this.acceptedContributions(userId);
     const requirements = userNode.aspEligibility.requirements;
 
     // Check eligibility criteria
@@ -256,7 +553,7 @@ export class BGINASPManager {
     if (!userNode) return;
 
     const reputationScore = userNode.reputationScore;
-    const contributions = this.researchContributions.get(userId) || [];
+    const contributions = this.acceptedContributions(userId);
 
     // Calculate access levels based on reputation and contributions
     userNode.privacyPoolAccess = {
@@ -287,8 +584,167 @@ export class BGINASPManager {
   }
 
   // Privacy Pool Deposit Management
-  async evaluateDeposit(deposit: Omit<PrivacyPoolDeposit, 'depositId' | 'timestamp' | 'aspApproval'>): Promise<PrivacyPoolDeposit> {
-    const userNode = this.trustNetwork.get(deposit.depositorId);
+  /**
+   * Dry run of the ASP review for a deposit the user has not made yet. Only
+   * deposits registered on the pool ledger are stored or added to the
+   * association set.
+   */
+  async evaluateDeposit(request: Omit<DepositRegistration, 'precommitment' | 'depositorAddress'> & { depositorAddress?: string }): Promise<DepositEvaluation> {
+    const userNode = this.requireEligibleNode(request.depositorId);
+
+    return {
+      depositorId: request.depositorId,
+      depositorAddress: request.depositorAddress,
+      amount: request.amount,
+      assetType: request.assetType,
+      trustScore: userNode.reputationScore,
+      contributionScore: this.calculateContributionScore(this.acceptedContributions(request.depositorId)),
+      aspApproval: await this.reviewDeposit(userNode, uuidv4(), request)
+    };
+  }
+
+  /**
+   * Lock the deposit on the pool ledger, which derives its label and
+   * commitment from the depositor's precommitment, then run the ASP review
+   */
+  async registerDeposit(registration: DepositRegistration, actor?: string): Promise<PrivacyPoolDeposit> {
+    const userNode = this.requireEligibleNode(registration.depositorId);
+    const receipt = await poolLedger.deposit({
+      from: registration.depositorAddress,
+      assetType: registration.assetType,
+      amount: registration.amount,
+      precommitment: registration.precommitment
+    });
+
+    return this.recordDeposit(userNode, uuidv4(), {
+      depositorId: registration.depositorId,
+      depositorAddress: registration.depositorAddress,
+      amount: registration.amount,
+      assetType: registration.assetType,
+      trustScore: userNode.reputationScore,
+      contributionScore: this.calculateContributionScore(this.acceptedContributions(registration.depositorId)),
+      commitment: receipt.commitment,
+      label: receipt.label,
+      precommitment: registration.precommitment,
+      depositTxHash: receipt.txHash
+    }, receipt, actor);
+  }
+
+  /**
+   * Return a rejected deposit's funds to its depositor. Knowing the nullifier
+   * and secret behind the precommitment proves ownership.
+   */
+  async ragequitDeposit(depositId: string, preimage: { nullifier: string; secret: string }, actor?: string): Promise<PrivacyPoolDeposit> {
+    const deposit = this.privacyPoolDeposits.get(depositId);
+    if (!deposit) {
+      throw new Error('Deposit not found');
+    }
+    if (!deposit.precommitment || !deposit.label) {
+      throw new Error('Deposit was never registered on the pool ledger');
+    }
+    if (deposit.status !== 'rejected') {
+      throw new Error(`Only rejected deposits can ragequit (status: ${deposit.status})`);
+    }
+    if (computePrecommitment(preimage.nullifier, preimage.secret) !== deposit.precommitment) {
+      throw new Error('Nullifier and secret do not match the deposit precommitment');
+    }
+
+    const receipt = await poolLedger.ragequit({
+      to: deposit.depositorAddress || deposit.depositorId,
+      assetType: deposit.assetType,
+      amount: deposit.amount,
+      commitment: deposit.commitment,
+      nullifierHash: computeNullifierHash(preimage.nullifier)
+    });
+
+    const exited: PrivacyPoolDeposit = { ...deposit, status: 'exited', exitTxHash: receipt.txHash };
+    await aspRepository.saveDepositExit(exited, receipt, {
+      entityType: 'deposit',
+      entityId: depositId,
+      fromStatus: deposit.status,
+      toStatus: 'exited',
+      reason: 'Ragequit by depositor',
+      actor,
+      txHash: receipt.txHash,
+      createdAt: receipt.timestamp
+    });
+
+    this.privacyPoolDeposits.set(depositId, exited);
+    return exited;
+  }
+
+  /**
+   * Pay out a commitment that is in the pool and in the association set
+   * behind a recent published root. Requests that fail validation are
+   * recorded as rejected withdrawals.
+   */
+  async requestWithdrawal(request: WithdrawalRequest, actor?: string): Promise<PrivacyPoolWithdrawal> {
+    const withdrawalId = uuidv4();
+    const requestedAt = new Date();
+    const nullifierHash = computeNullifierHash(request.nullifier);
+    const commitment = computeCommitment(request.amount, request.label, computePrecommitment(request.nullifier, request.secret));
+
+    const root = await aspRepository.findRoot(request.associationRoot);
+    let rejection: string | undefined;
+
+    if (!root) {
+      rejection = 'Association set root was never published by this ASP';
+    } else if (this.currentRoot && this.currentRoot.version - root.version >= ROOT_HISTORY_SIZE) {
+      rejection = `Association set root version ${root.version} is older than the last ${ROOT_HISTORY_SIZE} roots`;
+    } else if (!(await poolLedger.hasCommitment(commitment))) {
+      rejection = 'Commitment not found in the pool';
+    } else if (await poolLedger.isSpent(nullifierHash)) {
+      rejection = 'Nullifier already spent';
+    } else {
+      const membership = await this.getMerkleProof(commitment, root.version);
+      if (membership?.proof.type !== 'inclusion') {
+        rejection = `Commitment is not in the association set at root version ${root.version}`;
+      }
+    }
+
+    let receipt: LedgerReceipt | undefined;
+    if (!rejection) {
+      try {
+        receipt = await poolLedger.withdraw({
+          to: request.recipient,
+          assetType: request.assetType,
+          amount: request.amount,
+          commitment,
+          nullifierHash
+        });
+      } catch (error) {
+        rejection = error instanceof Error ? error.message : 'Ledger rejected the withdrawal';
+      }
+    }
+
+    const withdrawal: PrivacyPoolWithdrawal = {
+      withdrawalId,
+      nullifierHash,
+      recipient: request.recipient,
+      assetType: request.assetType,
+      amount: request.amount,
+      associationRoot: request.associationRoot,
+      rootVersion: root?.version,
+      status: rejection ? 'rejected' : 'completed',
+      reason: rejection || 'Withdrawal completed',
+      txHash: receipt?.txHash,
+      requestedAt,
+      processedAt: new Date()
+    };
+
+    const transition = (fromStatus: string | undefined, toStatus: string, reason: string, txHash?: string): PoolTransition =>
+      ({ entityType: 'withdrawal', entityId: withdrawalId, fromStatus, toStatus, reason, actor, txHash, createdAt: new Date() });
+
+    await aspRepository.saveWithdrawal(withdrawal, receipt, [
+      transition(undefined, 'requested', `Withdrawal against root ${request.associationRoot}`),
+      transition('requested', withdrawal.status, withdrawal.reason, receipt?.txHash)
+    ]);
+
+    return withdrawal;
+  }
+
+  private requireEligibleNode(userId: string): TrustNetworkNode {
+    const userNode = this.trustNetwork.get(userId);
     if (!userNode) {
       throw new Error('User not found in trust network');
     }
@@ -298,64 +754,99 @@ export class BGINASPManager {
       throw new Error('User not eligible for privacy pool deposits');
     }
 
-    // Perform compliance checks
-    const complianceChecks = await this.performComplianceChecks(deposit.depositorId);
+    return userNode;
+  }
+
+  /**
+   * Run the compliance checks for a deposit and turn them into the ASP's decision
+   */
+  private async reviewDeposit(
+    userNode: TrustNetworkNode,
+    depositId: string,
+    deposit: Pick<PrivacyPoolDeposit, 'depositorId' | 'depositorAddress' | 'amount' | 'assetType'>
+  ): Promise<ASPApproval> {
+    const decision = await complianceEngine.evaluate({
+      userId: deposit.depositorId,
+      did: userNode.did,
+      node: userNode,
+      depositId,
+      address: deposit.depositorAddress,
+      amount: deposit.amount,
+      assetType: deposit.assetType
+    });
 
+    return {
+      approved: decision.allPassed,
+      reason: decision.reason,
+      timestamp: new Date(),
+      bginTrustLevel: this.determineTrustLevel(userNode.reputationScore),
+      complianceChecks: {
+        kyc: decision.checks.kyc.passed,
+        aml: decision.checks.aml.passed,
+        sanctions: decision.checks.sanctions.passed,
+        identity: decision.checks.identity.passed
+      },
+      decision
+    };
+  }
+
+  /**
+   * Review a deposit locked on the pool ledger, persist it with its audit
+   * records and add its commitment to the association set if approved
+   */
+  private async recordDeposit(
+    userNode: TrustNetworkNode,
+    depositId: string,
+    deposit: Omit<PrivacyPoolDeposit, 'depositId' | 'timestamp' | 'aspApproval' | 'status'>,
+    receipt: LedgerReceipt,
+    actor?: string
+  ): Promise<PrivacyPoolDeposit> {
+    const aspApproval = await this.reviewDeposit(userNode, depositId, deposit);
     const fullDeposit: PrivacyPoolDeposit = {
       ...deposit,
-      depositId: uuidv4(),
+      depositId,
       timestamp: new Date(),
-      aspApproval: {
-        approved: complianceChecks.allPassed,
-        reason: complianceChecks.reason,
-        timestamp: new Date(),
-        bginTrustLevel: this.determineTrustLevel(userNode.reputationScore),
-        complianceChecks: complianceChecks.checks
-      }
+      status: aspApproval.approved ? 'approved' : 'rejected',
+      aspApproval
     };
 
-    this.privacyPoolDeposits.set(fullDeposit.depositId, fullDeposit);
+    const transition = (fromStatus: DepositStatus | undefined, toStatus: DepositStatus, reason: string, txHash?: string): PoolTransition =>
+      ({ entityType: 'deposit', entityId: depositId, fromStatus, toStatus, reason, actor, txHash, createdAt: fullDeposit.timestamp });
+
+    const transitions = [
+      transition(undefined, 'pending', 'Deposit locked on the pool ledger', receipt.txHash),
+      transition('pending', fullDeposit.status, aspApproval.reason)
+    ];
 
     // Add to association set if approved
-    if (fullDeposit.aspApproval.approved) {
+    const addition: AssociationSetEvent | undefined =
+      fullDeposit.aspApproval.approved && !this.associationSet.has(fullDeposit.commitment)
+        ? {
+            epoch: this.associationEpoch,
+            commitment: fullDeposit.commitment,
+            action: 'add',
+            reason: 'Deposit approved',
+            depositId: fullDeposit.depositId,
+            recordedBy: actor,
+            recordedAt: fullDeposit.timestamp
+          }
+        : undefined;
+
+    const nextTree = addition
+      ? new AssociationSetMerkleTree([...this.associationSet, fullDeposit.commitment])
+      : undefined;
+    const root = await aspRepository.saveDeposit(fullDeposit, { event: addition, tree: nextTree, receipt, transitions });
+
+    this.privacyPoolDeposits.set(fullDeposit.depositId, fullDeposit);
+    if (addition && nextTree) {
       this.associationSet.add(fullDeposit.commitment);
+      this.merkleTree = nextTree;
+      this.currentRoot = root || this.currentRoot;
     }
 
     return fullDeposit;
   }
 
-  private async performComplianceChecks(userId: string): Promise<{
-    allPassed: boolean;
-    reason: string;
-    checks: {
-      kyc: boolean;
-      aml: boolean;
-      sanctions: boolean;
-      identity: boolean;
-    };
-  }> {
-    const userNode = this.trustNetwork.get(userId);
-    if (!userNode) {
-      return {
-        allPassed: false,
-        reason: 'User not found',
-        checks: { kyc: false, aml: false, sanctions: false, identity: false }
-      };
-    }
-
-    const checks = {
-      kyc: userNode.aspEligibility.requirements.kycStatus,
-      aml: userNode.aspEligibility.requirements.regulatoryCompliance,
-      sanctions: userNode.aspEligibility.requirements.noSanctions,
-      identity: userNode.aspEligibility.requirements.identityVerification
-    };
-
-    const allPassed = Object.values(checks).every(check => check);
-    const reason = allPassed ? 'All compliance checks passed' : 'One or more compliance checks failed';
-
-    return { allPassed, reason, checks };
-  }
-
   private determineTrustLevel(reputationScore: number): 'high' | 'medium' | 'low' {
     if (reputationScore >= 0.9) return 'high';
     if (reputationScore >= 0.7) return 'medium';
@@ -363,18 +854,37 @@ export class BGINASPManager {
   }
 
   // Contribution Rewards
-  async calculateAndIssueRewards(contribution: ResearchContribution): Promise<ContributionReward> {
+  /**
+   * Issue the reward for a contribution and book it, together with the trust
+   * boost and fee reduction it earned, as one ledger entry. Issuing twice for
+   * the same contribution returns the original reward.
+   */
+  async calculateAndIssueRewards(contribution: ResearchContribution, effects: Partial<RewardBalances> = {}): Promise<ContributionReward> {
     const userNode = this.trustNetwork.get(contribution.contributorId);
     if (!userNode) {
       throw new Error('User not found in trust network');
     }
 
+    const existing = rewardLedger.findByIdempotencyKey(issuanceKey(contribution.id));
+    if (existing) {
+      const reward = (this.contributionRewards.get(contribution.contributorId) || [])
+        .find(candidate => candidate.ledgerEntryId === existing.id);
+      if (reward) return reward;
+    }
+
     const baseReward = this.calculateBaseReward(contribution);
     const trustMultiplier = userNode.reputationScore;
     const qualityMultiplier = contribution.qualityScore;
     
     const totalReward = baseReward * trustMultiplier * qualityMultiplier;
 
+    const entry = rewardLedger.buildIssuance({
+      contributorId: contribution.contributorId,
+      contributionId: contribution.id,
+      amounts: { ...effects, reward_points: totalReward },
+      description: `Reward for ${contribution.contributionType} contribution ${contribution.id}`
+    });
+
     const reward: ContributionReward = {
       id: uuidv4(),
       contributorId: contribution.contributorId,
@@ -387,10 +897,13 @@ export class BGINASPManager {
         priorityProcessing: userNode.reputationScore >= 0.9,
         feeReduction: this.calculateFeeReduction(userNode.reputationScore)
       },
+      ledgerEntryId: entry.id,
       timestamp: new Date()
     };
 
     // Store reward
+    await aspRepository.saveReward(reward, entry);
+    rewardLedger.apply(entry);
     const userRewards = this.contributionRewards.get(contribution.contributorId) || [];
     userRewards.push(reward);
     this.contributionRewards.set(contribution.contributorId, userRewards);
@@ -398,6 +911,47 @@ export class BGINASPManager {
     return reward;
   }
 
+  /**
+   * Book rewards issued before the ledger existed so balances reconcile with
+   * the reward history
+   */
+  private async backfillRewardLedger(): Promise<void> {
+    const unbooked = Array.from(this.contributionRewards.values()).flat().filter(reward => !reward.ledgerEntryId);
+
+    for (const reward of unbooked) {
+      const entry = rewardLedger.buildIssuance({
+        contributorId: reward.contributorId,
+        contributionId: reward.contributionId,
+        amounts: { reward_points: reward.rewardAmount },
+        description: `Backfilled reward ${reward.id}`,
+        idempotencyKey: `reward:${reward.id}:backfill`
+      });
+
+      await aspRepository.linkRewardToLedger(reward, entry);
+      rewardLedger.apply(entry);
+      reward.ledgerEntryId = entry.id;
+    }
+
+    if (unbooked.length > 0) {
+      logger.info(`Booked ${unbooked.length} rewards issued before the reward ledger`);
+    }
+  }
+
+  /**
+   * Ledger statement for a contributor, newest entries first
+   */
+  getRewardStatement(userId: string, limit?: number, offset?: number): RewardStatement {
+    return rewardLedger.getStatement(userId, limit, offset);
+  }
+
+  getRewardBalances(userId: string): RewardBalances {
+    return rewardLedger.getBalances(userId);
+  }
+
+  getRewardLedgerTrialBalance(): RewardBalances {
+    return rewardLedger.getTrialBalance();
+  }
+
   private calculateBaseReward(contribution: ResearchContribution): number {
     const baseRewards = {
       'document': 10,
@@ -414,18 +968,160 @@ export class BGINASPManager {
     return Array.from(this.associationSet);
   }
 
-  async updateAssociationSet(): Promise<void> {
+  /**
+   * Rebuild the set from approved deposits, record the difference as history
+   * and seal the current epoch with a snapshot of the result
+   */
+  async updateAssociationSet(sealedBy?: string): Promise<AssociationSetSnapshot> {
     // Remove expired or invalid commitments
     const validDeposits = Array.from(this.privacyPoolDeposits.values())
       .filter(deposit => deposit.aspApproval.approved);
 
-    this.associationSet.clear();
-    validDeposits.forEach(deposit => {
-      this.associationSet.add(deposit.commitment);
-    });
+    const nextSet = new Set(validDeposits.map(deposit => deposit.commitment));
+    const recordedAt = new Date();
+    const event = (commitment: string, action: 'add' | 'remove', reason: string): AssociationSetEvent =>
+      ({ epoch: this.associationEpoch, commitment, action, reason, recordedBy: sealedBy, recordedAt });
+
+    const events = [
+      ...Array.from(this.associationSet)
+        .filter(commitment => !nextSet.has(commitment))
+        .map(commitment => event(commitment, 'remove', 'No longer backed by an approved deposit')),
+      ...Array.from(nextSet)
+        .filter(commitment => !this.associationSet.has(commitment))
+        .map(commitment => event(commitment, 'add', 'Approved deposit'))
+    ];
+
+    const nextTree = new AssociationSetMerkleTree(nextSet);
+    const snapshot = await aspRepository.sealEpoch(this.associationEpoch, events, Array.from(nextSet), nextTree, sealedBy);
+
+    this.associationSet = nextSet;
+    this.associationEpoch = snapshot.epoch + 1;
+    this.merkleTree = nextTree;
+    this.currentRoot = snapshot.rootVersion ? await aspRepository.getRoot(snapshot.rootVersion) : this.currentRoot;
+    return snapshot;
+  }
+
+  /**
+   * Published Merkle root: the current one, or a specific version
+   */
+  async getAssociationSetRoot(version?: number): Promise<AssociationSetRoot | null> {
+    if (version === undefined || version === this.currentRoot?.version) {
+      return this.currentRoot;
+    }
+    return aspRepository.getRoot(version);
+  }
+
+  async getAssociationSetRootAtEpoch(epoch: number): Promise<AssociationSetRoot | null> {
+    const snapshot = await aspRepository.getSnapshot(epoch);
+    return snapshot?.rootVersion ? aspRepository.getRoot(snapshot.rootVersion) : null;
+  }
+
+  async getAssociationSetRoots(limit?: number, offset?: number): Promise<AssociationSetRoot[]> {
+    return aspRepository.listRoots(limit, offset);
+  }
+
+  /**
+   * Inclusion proof if the commitment is in the set behind the root version,
+   * exclusion proof otherwise. Historical versions are rebuilt from the event log.
+   */
+  async getMerkleProof(commitment: string, version?: number): Promise<{ root: AssociationSetRoot; proof: MerkleProof } | null> {
+    if (version === undefined || version === this.currentRoot?.version) {
+      return this.currentRoot ? { root: this.currentRoot, proof: this.merkleTree.getProof(commitment) } : null;
+    }
+
+    const root = await aspRepository.getRoot(version);
+    if (!root) return null;
+
+    const tree = new AssociationSetMerkleTree(await aspRepository.getCommitmentsAtSequence(root.lastEventSequence));
+    if (tree.root !== root.root) {
+      throw new Error(`Event log does not reproduce root version ${version}`);
+    }
+
+    return { root, proof: tree.getProof(commitment) };
+  }
+
+  /**
+   * Verify a proof against a root this ASP has published
+   */
+  async verifyMerkleProof(proof: MerkleProof, root?: string): Promise<{ valid: boolean; reason?: string; rootVersion?: number }> {
+    const expectedRoot = root || proof?.root;
+    if (!expectedRoot) {
+      return { valid: false, reason: 'No root to verify against' };
+    }
+
+    const published = await aspRepository.findRoot(expectedRoot);
+    if (!published) {
+      return { valid: false, reason: 'Root was never published by this ASP' };
+    }
+
+    return { ...verifyMerkleProof(proof, published.root), rootVersion: published.version };
+  }
+
+  /**
+   * Epoch that new association set changes are recorded under
+   */
+  getCurrentEpoch(): number {
+    return this.associationEpoch;
+  }
+
+  /**
+   * The association set exactly as sealed at the end of an epoch
+   */
+  async getAssociationSetAtEpoch(epoch: number): Promise<AssociationSetSnapshot | null> {
+    return aspRepository.getSnapshot(epoch);
+  }
+
+  async getAssociationSetEpochs(limit?: number, offset?: number): Promise<Omit<AssociationSetSnapshot, 'commitments'>[]> {
+    return aspRepository.listSnapshots(limit, offset);
+  }
+
+  async getAssociationSetHistory(filter: { fromEpoch?: number; toEpoch?: number; commitment?: string; limit?: number } = {}): Promise<AssociationSetEvent[]> {
+    return aspRepository.getEvents(filter);
+  }
+
+  /**
+   * Rank every member over the relationships on their nodes; relationships are
+   * stored on the trusted member's node
+   */
+  private rankTrustNetwork(): TrustRanking {
+    const edges: TrustEdge[] = [];
+    for (const node of this.trustNetwork.values()) {
+      for (const relationship of node.trustRelationships) {
+        edges.push({
+          from: relationship.fromUserId,
+          to: relationship.toUserId,
+          weight: relationship.trustScore,
+          timestamp: relationship.lastUpdated
+        });
+      }
+    }
+
+    this.trustRanking = computeTrustRanking(Array.from(this.trustNetwork.keys()), edges, config.trustGraph);
+    if (this.trustNetwork.size > 0 && this.trustRanking.seeds.length === 0) {
+      logger.error('Trust network is unseeded: no TRUST_SEEDS are members, so every relationship score is 0');
+    }
+    if (this.trustRanking.collusionClusters.length > 0) {
+      logger.warn(`Trust graph has ${this.trustRanking.collusionClusters.length} suspected collusion clusters`);
+    }
+    return this.trustRanking;
+  }
+
+  /**
+   * A relationship change moves trust across the whole graph, so every
+   * member's score is recomputed
+   */
+  private async refreshTrustScores(): Promise<void> {
+    this.rankTrustNetwork();
+    for (const userId of this.trustNetwork.keys()) {
+      await this.updateUserTrustScore(userId);
+    }
   }
 
   // Getters
+  getTrustRanking(): TrustRanking {
+    return this.trustRanking;
+  }
+
   getUserTrustScore(userId: string): number {
     const userNode = this.trustNetwork.get(userId);
     return userNode?.reputationScore || 0;
@@ -445,6 +1141,34 @@ export class BGINASPManager {
     return userNode?.privacyPoolAccess;
   }
 
+  getDeposit(depositId: string): PrivacyPoolDeposit | undefined {
+    return this.privacyPoolDeposits.get(depositId);
+  }
+
+  async getDepositAuditTrail(depositId: string): Promise<PoolTransition[]> {
+    return aspRepository.getTransitions('deposit', depositId);
+  }
+
+  async getWithdrawal(withdrawalId: string): Promise<PrivacyPoolWithdrawal | null> {
+    return aspRepository.getWithdrawal(withdrawalId);
+  }
+
+  async getWithdrawals(limit?: number, offset?: number): Promise<PrivacyPoolWithdrawal[]> {
+    return aspRepository.listWithdrawals(limit, offset);
+  }
+
+  async getWithdrawalAuditTrail(withdrawalId: string): Promise<PoolTransition[]> {
+    return aspRepository.getTransitions('withdrawal', withdrawalId);
+  }
+
+  async getLedgerStatus(): Promise<{ ledger: string; blockNumber: number; poolBalances: Record<string, string> }> {
+    const poolBalances: Record<string, string> = {};
+    for (const assetType of ['ETH', 'USDC', 'DAI']) {
+      poolBalances[assetType] = await poolLedger.getPoolBalance(assetType);
+    }
+    return { ledger: poolLedger.name, blockNumber: await poolLedger.getBlockNumber(), poolBalances };
+  }
+
   getApprovedDeposits(): PrivacyPoolDeposit[] {
     return Array.from(this.privacyPoolDeposits.values())
       .filter(deposit => deposit.aspApproval.approved);
@@ -0,0 +1,863 @@
+// =====================================
+// backend/src/privacy-pools/asp-repository.ts
+// PostgreSQL persistence for ASP trust nodes, deposits and the association set
+// =====================================
+
+import { database } from '../utils/database';
+import type {
+  ASPApproval,
+  ContributionReward,
+  PrivacyPoolDeposit,
+  PrivacyPoolWithdrawal,
+  ResearchContribution,
+  TrustNetworkNode
+} from './asp-manager';
+import type { AssociationSetMerkleTree } from './association-merkle-tree';
+import type { LedgerReceipt } from './pool-ledger';
+import type { RewardLedgerEntry } from './reward-ledger';
+import type { ContributionReview } from './peer-review';
+
+export type AssociationSetAction = 'add' | 'remove';
+
+export interface AssociationSetEvent {
+  sequence?: number;
+  epoch: number;
+  commitment: string;
+  action: AssociationSetAction;
+  reason?: string;
+  depositId?: string;
+  recordedBy?: string;
+  recordedAt: Date;
+}
+
+export interface AssociationSetSnapshot {
+  epoch: number;
+  commitments: string[];
+  size: number;
+  lastEventSequence?: number;
+  rootVersion?: number;
+  root?: string;
+  sealedBy?: string;
+  sealedAt: Date;
+}
+
+export interface AssociationSetRoot {
+  version: number;
+  epoch: number;
+  root: string;
+  treeRoot: string;
+  size: number;
+  lastEventSequence?: number;
+  createdAt: Date;
+}
+
+/**
+ * One audited state change of a deposit or withdrawal
+ */
+export interface PoolTransition {
+  id?: number;
+  entityType: 'deposit' | 'withdrawal';
+  entityId: string;
+  fromStatus?: string;
+  toStatus: string;
+  reason?: string;
+  actor?: string;
+  txHash?: string;
+  createdAt: Date;
+}
+
+type MerkleRootSummary = Pick<AssociationSetMerkleTree, 'root' | 'treeRoot' | 'size'>;
+
+export interface ASPState {
+  nodes: TrustNetworkNode[];
+  contributions: ResearchContribution[];
+  deposits: PrivacyPoolDeposit[];
+  rewards: ContributionReward[];
+  associationSet: string[];
+  openEpoch: number;
+  latestRoot: AssociationSetRoot | null;
+  ledgerTransactions: LedgerReceipt[];
+  rewardLedgerEntries: RewardLedgerEntry[];
+}
+
+type Queryable = { query(text: string, params?: any[]): Promise<any> };
+
+export class ASPRepository {
+  /**
+   * Load everything the ASP keeps in memory. The live association set is the
+   * latest sealed snapshot replayed forward with the events recorded since.
+   */
+  async loadState(): Promise<ASPState> {
+    const [nodes, contributions, deposits, rewards, ledgerTransactions, rewardLedgerEntries] = await Promise.all([
+      database.query('SELECT * FROM asp_trust_nodes ORDER BY created_at'),
+      database.query('SELECT * FROM asp_research_contributions ORDER BY created_at'),
+      database.query('SELECT * FROM asp_deposits ORDER BY created_at'),
+      database.query('SELECT * FROM asp_contribution_rewards ORDER BY created_at'),
+      database.query('SELECT * FROM privacy_pool_ledger_transactions ORDER BY block_number'),
+      this.getRewardLedgerEntries()
+    ]);
+
+    const latest = await this.getLatestSnapshot();
+    const latestRoot = await this.getLatestRoot();
+    const pending = await database.query(
+      'SELECT * FROM asp_association_set_events WHERE sequence > $1 ORDER BY sequence',
+      [latest?.lastEventSequence || 0]
+    );
+
+    const associationSet = new Set(latest?.commitments || []);
+    for (const event of pending.rows.map((row: any) => this.toEvent(row))) {
+      if (event.action === 'add') {
+        associationSet.add(event.commitment);
+      } else {
+        associationSet.delete(event.commitment);
+      }
+    }
+
+    return {
+      nodes: nodes.rows.map((row: any) => this.toNode(row)),
+      contributions: contributions.rows.map((row: any): ResearchContribution => ({
+        id: row.id,
+        contributorId: row.contributor_id,
+        contributionType: row.contribution_type,
+        qualityScore: row.quality_score,
+        reviewStatus: row.review_status,
+        reviewSummary: row.review_summary
+          ? { ...row.review_summary, completedAt: new Date(row.review_summary.completedAt) }
+          : undefined,
+        impactScore: row.impact_score,
+        trustScore: row.trust_score,
+        timestamp: row.created_at,
+        verifiableCredential: row.verifiable_credential,
+        content: row.content,
+        retractedAt: row.retracted_at || undefined,
+        retractionReason: row.retraction_reason || undefined
+      })),
+      deposits: deposits.rows.map((row: any): PrivacyPoolDeposit => ({
+        depositId: row.deposit_id,
+        depositorId: row.depositor_id,
+        amount: row.amount,
+        assetType: row.asset_type,
+        depositorAddress: row.depositor_address || undefined,
+        trustScore: row.trust_score,
+        contributionScore: row.contribution_score,
+        aspApproval: this.toApproval(row.asp_approval),
+        commitment: row.commitment,
+        status: row.status,
+        label: row.label || undefined,
+        precommitment: row.precommitment || undefined,
+        depositTxHash: row.deposit_tx_hash || undefined,
+        exitTxHash: row.exit_tx_hash || undefined,
+        timestamp: row.created_at
+      })),
+      rewards: rewards.rows.map((row: any): ContributionReward => ({
+        id: row.id,
+        contributorId: row.contributor_id,
+        contributionId: row.contribution_id,
+        rewardType: row.reward_type,
+        rewardAmount: row.reward_amount,
+        privacyPoolEligibility: row.privacy_pool_eligibility,
+        ledgerEntryId: row.ledger_entry_id || undefined,
+        reversalEntryId: row.reversal_entry_id || undefined,
+        timestamp: row.created_at
+      })),
+      associationSet: Array.from(associationSet),
+      openEpoch: (latest?.epoch || 0) + 1,
+      latestRoot,
+      ledgerTransactions: ledgerTransactions.rows.map((row: any): LedgerReceipt => ({
+        txHash: row.tx_hash,
+        blockNumber: Number(row.block_number),
+        type: row.type,
+        assetType: row.asset_type,
+        amount: row.amount,
+        from: row.from_address || undefined,
+        to: row.to_address || undefined,
+        commitment: row.commitment || undefined,
+        label: row.label || undefined,
+        nullifierHash: row.nullifier_hash || undefined,
+        timestamp: row.created_at
+      })),
+      rewardLedgerEntries
+    };
+  }
+
+  /**
+   * Insert or update a trust node; contributions are stored separately
+   */
+  async saveNode(node: TrustNetworkNode): Promise<void> {
+    await database.query(
+      `INSERT INTO asp_trust_nodes
+         (user_id, did, reputation_score, trust_relationships, asp_eligibility, privacy_pool_access)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id) DO UPDATE
+         SET did = EXCLUDED.did,
+             reputation_score = EXCLUDED.reputation_score,
+             trust_relationships = EXCLUDED.trust_relationships,
+             asp_eligibility = EXCLUDED.asp_eligibility,
+             privacy_pool_access = EXCLUDED.privacy_pool_access,
+             updated_at = NOW()`,
+      [
+        node.userId,
+        node.did,
+        node.reputationScore,
+        JSON.stringify(node.trustRelationships),
+        JSON.stringify(node.aspEligibility),
+        JSON.stringify(node.privacyPoolAccess)
+      ]
+    );
+  }
+
+  async saveContribution(contribution: ResearchContribution): Promise<void> {
+    await database.query(
+      `INSERT INTO asp_research_contributions
+         (id, contributor_id, contribution_type, quality_score, review_status, impact_score, trust_score,
+          verifiable_credential, content, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        contribution.id,
+        contribution.contributorId,
+        contribution.contributionType,
+        contribution.qualityScore,
+        contribution.reviewStatus,
+        contribution.impactScore,
+        contribution.trustScore,
+        contribution.verifiableCredential,
+        JSON.stringify(contribution.content || {}),
+        contribution.timestamp
+      ]
+    );
+  }
+
+  /**
+   * Record the outcome of a contribution's review. Returns false if the
+   * review was already completed, so only one caller applies it.
+   */
+  async saveReviewOutcome(contribution: ResearchContribution): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE asp_research_contributions
+          SET quality_score = $2, review_status = $3, review_summary = $4, impact_score = $5
+        WHERE id = $1 AND review_status = 'pending_review'`,
+      [
+        contribution.id,
+        contribution.qualityScore,
+        contribution.reviewStatus,
+        contribution.reviewSummary ? JSON.stringify(contribution.reviewSummary) : null,
+        contribution.impactScore
+      ]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Insert or update review assignments
+   */
+  async saveReviews(reviews: ContributionReview[]): Promise<void> {
+    if (reviews.length === 0) return;
+
+    await database.transaction(async client => {
+      for (const review of reviews) {
+        await client.query(
+          `INSERT INTO asp_contribution_reviews
+             (id, contribution_id, reviewer_id, status, scores, recommendation, comments,
+              decline_reason, conflict_declared, assigned_by, assigned_at, responded_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+           ON CONFLICT (id) DO UPDATE
+             SET status = EXCLUDED.status,
+                 scores = EXCLUDED.scores,
+                 recommendation = EXCLUDED.recommendation,
+                 comments = EXCLUDED.comments,
+                 decline_reason = EXCLUDED.decline_reason,
+                 conflict_declared = EXCLUDED.conflict_declared,
+                 responded_at = EXCLUDED.responded_at`,
+          [
+            review.id,
+            review.contributionId,
+            review.reviewerId,
+            review.status,
+            review.scores ? JSON.stringify(review.scores) : null,
+            review.recommendation || null,
+            review.comments || null,
+            review.declineReason || null,
+            review.conflictDeclared || false,
+            review.assignedBy || null,
+            review.assignedAt,
+            review.respondedAt || null
+          ]
+        );
+      }
+    });
+  }
+
+  async getReviews(): Promise<ContributionReview[]> {
+    const result = await database.query('SELECT * FROM asp_contribution_reviews ORDER BY assigned_at');
+    return result.rows.map((row: any): ContributionReview => ({
+      id: row.id,
+      contributionId: row.contribution_id,
+      reviewerId: row.reviewer_id,
+      status: row.status,
+      scores: row.scores || undefined,
+      recommendation: row.recommendation || undefined,
+      comments: row.comments || undefined,
+      declineReason: row.decline_reason || undefined,
+      conflictDeclared: row.conflict_declared,
+      assignedBy: row.assigned_by || undefined,
+      assignedAt: row.assigned_at,
+      respondedAt: row.responded_at || undefined
+    }));
+  }
+
+  /**
+   * Store a reward together with the ledger entry that books it
+   */
+  async saveReward(reward: ContributionReward, entry: RewardLedgerEntry): Promise<void> {
+    await database.transaction(async client => {
+      await this.insertRewardLedgerEntry(client, entry);
+      await client.query(
+        `INSERT INTO asp_contribution_rewards
+           (id, contributor_id, contribution_id, reward_type, reward_amount, privacy_pool_eligibility,
+            ledger_entry_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          reward.id,
+          reward.contributorId,
+          reward.contributionId,
+          reward.rewardType,
+          reward.rewardAmount,
+          JSON.stringify(reward.privacyPoolEligibility),
+          reward.ledgerEntryId,
+          reward.timestamp
+        ]
+      );
+    });
+  }
+
+  /**
+   * Book a reward that was issued before the ledger existed
+   */
+  async linkRewardToLedger(reward: ContributionReward, entry: RewardLedgerEntry): Promise<void> {
+    await database.transaction(async client => {
+      await this.insertRewardLedgerEntry(client, entry);
+      await client.query('UPDATE asp_contribution_rewards SET ledger_entry_id = $2 WHERE id = $1', [reward.id, entry.id]);
+    });
+  }
+
+  /**
+   * Mark a contribution retracted and book the reversals of its rewards
+   */
+  async retractContribution(contribution: ResearchContribution, retractedBy: string | undefined, reversals: { reward: ContributionReward; entry: RewardLedgerEntry }[]): Promise<void> {
+    await database.transaction(async client => {
+      await client.query(
+        `UPDATE asp_research_contributions
+            SET retracted_at = $2, retraction_reason = $3, retracted_by = $4
+          WHERE id = $1`,
+        [contribution.id, contribution.retractedAt, contribution.retractionReason, retractedBy || null]
+      );
+
+      for (const { reward, entry } of reversals) {
+        await this.insertRewardLedgerEntry(client, entry);
+        await client.query(
+          'UPDATE asp_contribution_rewards SET reversal_entry_id = $2 WHERE id = $1',
+          [reward.id, entry.id]
+        );
+      }
+    });
+  }
+
+  /**
+   * Every reward ledger entry with its lines, in posting order
+   */
+  async getRewardLedgerEntries(): Promise<RewardLedgerEntry[]> {
+    const [entries, lines] = await Promise.all([
+      database.query('SELECT * FROM asp_reward_ledger_entries ORDER BY created_at, id'),
+      database.query('SELECT * FROM asp_reward_ledger_lines ORDER BY id')
+    ]);
+
+    const linesByEntry = new Map<string, RewardLedgerEntry['lines']>();
+    for (const row of lines.rows) {
+      const entryLines = linesByEntry.get(row.entry_id) || [];
+      entryLines.push({
+        account: row.account,
+        unit: row.unit,
+        debit: Number(row.debit),
+        credit: Number(row.credit)
+      });
+      linesByEntry.set(row.entry_id, entryLines);
+    }
+
+    return entries.rows.map((row: any): RewardLedgerEntry => ({
+      id: row.id,
+      idempotencyKey: row.idempotency_key,
+      contributorId: row.contributor_id,
+      contributionId: row.contribution_id || undefined,
+      kind: row.kind,
+      reversesEntryId: row.reverses_entry_id || undefined,
+      description: row.description,
+      lines: linesByEntry.get(row.id) || [],
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Store a deposit with the ledger receipt and audit records of its
+   * registration and, when approved, the association set addition it causes
+   * together with the Merkle root of the resulting set
+   */
+  async saveDeposit(
+    deposit: PrivacyPoolDeposit,
+    options: { event?: AssociationSetEvent; tree?: MerkleRootSummary; receipt?: LedgerReceipt; transitions?: PoolTransition[] } = {}
+  ): Promise<AssociationSetRoot | undefined> {
+    const { event, tree, receipt, transitions = [] } = options;
+
+    return database.transaction(async client => {
+      if (receipt) {
+        await this.insertLedgerTransaction(client, receipt);
+      }
+
+      await client.query(
+        `INSERT INTO asp_deposits
+           (deposit_id, depositor_id, amount, asset_type, depositor_address, trust_score,
+            contribution_score, asp_approval, commitment, status, label, precommitment,
+            deposit_tx_hash, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          deposit.depositId,
+          deposit.depositorId,
+          deposit.amount,
+          deposit.assetType,
+          deposit.depositorAddress || null,
+          deposit.trustScore,
+          deposit.contributionScore,
+          JSON.stringify(deposit.aspApproval),
+          deposit.commitment,
+          deposit.status,
+          deposit.label || null,
+          deposit.precommitment || null,
+          deposit.depositTxHash || null,
+          deposit.timestamp
+        ]
+      );
+      await this.insertTransitions(client, transitions);
+
+      if (!event) return undefined;
+
+      await this.appendEvents(client, [event]);
+      return tree ? this.insertRoot(client, event.epoch, tree) : undefined;
+    });
+  }
+
+  /**
+   * Record a deposit's funds leaving the pool back to its depositor
+   */
+  async saveDepositExit(deposit: PrivacyPoolDeposit, receipt: LedgerReceipt, transition: PoolTransition): Promise<void> {
+    await database.transaction(async client => {
+      await this.insertLedgerTransaction(client, receipt);
+      await client.query(
+        'UPDATE asp_deposits SET status = $2, exit_tx_hash = $3 WHERE deposit_id = $1',
+        [deposit.depositId, deposit.status, deposit.exitTxHash]
+      );
+      await this.insertTransitions(client, [transition]);
+    });
+  }
+
+  async saveWithdrawal(withdrawal: PrivacyPoolWithdrawal, receipt: LedgerReceipt | undefined, transitions: PoolTransition[]): Promise<void> {
+    await database.transaction(async client => {
+      if (receipt) {
+        await this.insertLedgerTransaction(client, receipt);
+      }
+      await client.query(
+        `INSERT INTO privacy_pool_withdrawals
+           (withdrawal_id, nullifier_hash, recipient, asset_type, amount, association_root,
+            root_version, status, reason, tx_hash, requested_at, processed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          withdrawal.withdrawalId,
+          withdrawal.nullifierHash,
+          withdrawal.recipient,
+          withdrawal.assetType,
+          withdrawal.amount,
+          withdrawal.associationRoot,
+          withdrawal.rootVersion || null,
+          withdrawal.status,
+          withdrawal.reason,
+          withdrawal.txHash || null,
+          withdrawal.requestedAt,
+          withdrawal.processedAt
+        ]
+      );
+      await this.insertTransitions(client, transitions);
+    });
+  }
+
+  async getWithdrawal(withdrawalId: string): Promise<PrivacyPoolWithdrawal | null> {
+    const result = await database.query('SELECT * FROM privacy_pool_withdrawals WHERE withdrawal_id = $1', [withdrawalId]);
+    return result.rows[0] ? this.toWithdrawal(result.rows[0]) : null;
+  }
+
+  async listWithdrawals(limit: number = 50, offset: number = 0): Promise<PrivacyPoolWithdrawal[]> {
+    const result = await database.query(
+      'SELECT * FROM privacy_pool_withdrawals ORDER BY requested_at DESC LIMIT $1 OFFSET $2',
+      [limit, offset]
+    );
+    return result.rows.map((row: any) => this.toWithdrawal(row));
+  }
+
+  /**
+   * Audit trail of a deposit or withdrawal, oldest first
+   */
+  async getTransitions(entityType: PoolTransition['entityType'], entityId: string): Promise<PoolTransition[]> {
+    const result = await database.query(
+      'SELECT * FROM privacy_pool_transitions WHERE entity_type = $1 AND entity_id = $2 ORDER BY id',
+      [entityType, entityId]
+    );
+    return result.rows.map((row: any): PoolTransition => ({
+      id: Number(row.id),
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      reason: row.reason || undefined,
+      actor: row.actor || undefined,
+      txHash: row.tx_hash || undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Append the final changes of an epoch and seal it with a full snapshot
+   */
+  async sealEpoch(
+    epoch: number,
+    events: AssociationSetEvent[],
+    commitments: string[],
+    tree: MerkleRootSummary,
+    sealedBy?: string
+  ): Promise<AssociationSetSnapshot> {
+    return database.transaction(async client => {
+      await this.appendEvents(client, events);
+
+      // Only publish a new root version when the set actually changed
+      const latest = await client.query('SELECT * FROM asp_association_set_roots ORDER BY version DESC LIMIT 1');
+      const root = events.length > 0 || latest.rows.length === 0 || latest.rows[0].root !== tree.root
+        ? await this.insertRoot(client, epoch, tree)
+        : this.toRoot(latest.rows[0]);
+
+      const result = await client.query(
+        `INSERT INTO asp_association_set_epochs (epoch, commitments, size, last_event_sequence, root_version, sealed_by)
+         VALUES ($1, $2, $3, (SELECT MAX(sequence) FROM asp_association_set_events), $4, $5)
+         RETURNING *`,
+        [epoch, commitments, commitments.length, root.version, sealedBy || null]
+      );
+
+      return this.toSnapshot({ ...result.rows[0], root: root.root });
+    });
+  }
+
+  /**
+   * Publish a root for the current set outside of a deposit or epoch seal,
+   * e.g. when no root has been recorded for existing state yet
+   */
+  async recordRoot(epoch: number, tree: MerkleRootSummary): Promise<AssociationSetRoot> {
+    return this.insertRoot(database, epoch, tree);
+  }
+
+  async getRoot(version: number): Promise<AssociationSetRoot | null> {
+    const result = await database.query('SELECT * FROM asp_association_set_roots WHERE version = $1', [version]);
+    return result.rows[0] ? this.toRoot(result.rows[0]) : null;
+  }
+
+  async getLatestRoot(): Promise<AssociationSetRoot | null> {
+    const result = await database.query('SELECT * FROM asp_association_set_roots ORDER BY version DESC LIMIT 1');
+    return result.rows[0] ? this.toRoot(result.rows[0]) : null;
+  }
+
+  /**
+   * Most recent version that published the given root value
+   */
+  async findRoot(root: string): Promise<AssociationSetRoot | null> {
+    const result = await database.query(
+      'SELECT * FROM asp_association_set_roots WHERE root = $1 ORDER BY version DESC LIMIT 1',
+      [root.toLowerCase()]
+    );
+    return result.rows[0] ? this.toRoot(result.rows[0]) : null;
+  }
+
+  async listRoots(limit: number = 50, offset: number = 0): Promise<AssociationSetRoot[]> {
+    const result = await database.query(
+      'SELECT * FROM asp_association_set_roots ORDER BY version DESC LIMIT $1 OFFSET $2',
+      [limit, offset]
+    );
+    return result.rows.map((row: any) => this.toRoot(row));
+  }
+
+  /**
+   * Rebuild the set as it stood after a given event by replaying the log
+   */
+  async getCommitmentsAtSequence(sequence: number | undefined): Promise<string[]> {
+    if (!sequence) return [];
+
+    const result = await database.query(
+      'SELECT commitment, action FROM asp_association_set_events WHERE sequence <= $1 ORDER BY sequence',
+      [sequence]
+    );
+
+    const commitments = new Set<string>();
+    for (const row of result.rows) {
+      if (row.action === 'add') {
+        commitments.add(row.commitment);
+      } else {
+        commitments.delete(row.commitment);
+      }
+    }
+    return Array.from(commitments);
+  }
+
+  async getSnapshot(epoch: number): Promise<AssociationSetSnapshot | null> {
+    const result = await database.query(
+      `SELECT e.*, r.root FROM asp_association_set_epochs e
+       LEFT JOIN asp_association_set_roots r ON r.version = e.root_version
+       WHERE e.epoch = $1`,
+      [epoch]
+    );
+    return result.rows[0] ? this.toSnapshot(result.rows[0]) : null;
+  }
+
+  async getLatestSnapshot(): Promise<AssociationSetSnapshot | null> {
+    const result = await database.query('SELECT * FROM asp_association_set_epochs ORDER BY epoch DESC LIMIT 1');
+    return result.rows[0] ? this.toSnapshot(result.rows[0]) : null;
+  }
+
+  /**
+   * Epoch summaries, newest first, without the commitment lists
+   */
+  async listSnapshots(limit: number = 50, offset: number = 0): Promise<Omit<AssociationSetSnapshot, 'commitments'>[]> {
+    const result = await database.query(
+      `SELECT e.epoch, e.size, e.last_event_sequence, e.root_version, e.sealed_by, e.sealed_at, r.root
+       FROM asp_association_set_epochs e
+       LEFT JOIN asp_association_set_roots r ON r.version = e.root_version
+       ORDER BY e.epoch DESC LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    );
+
+    return result.rows.map((row: any) => {
+      const { commitments, ...summary } = this.toSnapshot({ ...row, commitments: [] });
+      return summary;
+    });
+  }
+
+  async getEvents(filter: { fromEpoch?: number; toEpoch?: number; commitment?: string; limit?: number } = {}): Promise<AssociationSetEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.fromEpoch !== undefined) {
+      params.push(filter.fromEpoch);
+      conditions.push(`epoch >= $${params.length}`);
+    }
+    if (filter.toEpoch !== undefined) {
+      params.push(filter.toEpoch);
+      conditions.push(`epoch <= $${params.length}`);
+    }
+    if (filter.commitment) {
+      params.push(filter.commitment);
+      conditions.push(`commitment = $${params.length}`);
+    }
+    params.push(filter.limit || 500);
+
+    const result = await database.query(
+      `SELECT * FROM asp_association_set_events
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY sequence LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.toEvent(row));
+  }
+
+  private async appendEvents(client: Queryable, events: AssociationSetEvent[]): Promise<void> {
+    for (const event of events) {
+      await client.query(
+        `INSERT INTO asp_association_set_events
+           (epoch, commitment, action, reason, deposit_id, recorded_by, recorded_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          event.epoch,
+          event.commitment,
+          event.action,
+          event.reason || null,
+          event.depositId || null,
+          event.recordedBy || null,
+          event.recordedAt
+        ]
+      );
+    }
+  }
+
+  /**
+   * JSONB columns come back with ISO strings; restore the Date fields
+   */
+  private toNode(row: any): TrustNetworkNode {
+    return {
+      userId: row.user_id,
+      did: row.did,
+      reputationScore: row.reputation_score,
+      researchContributions: [],
+      trustRelationships: (row.trust_relationships || []).map((relationship: any) => ({
+        ...relationship,
+        createdAt: new Date(relationship.createdAt),
+        lastUpdated: new Date(relationship.lastUpdated),
+        evidence: (relationship.evidence || []).map((item: any) => ({ ...item, timestamp: new Date(item.timestamp) }))
+      })),
+      aspEligibility: { ...row.asp_eligibility, lastChecked: new Date(row.asp_eligibility.lastChecked) },
+      privacyPoolAccess: { ...row.privacy_pool_access, lastUpdated: new Date(row.privacy_pool_access.lastUpdated) }
+    };
+  }
+
+  private toApproval(approval: any): ASPApproval {
+    return {
+      ...approval,
+      timestamp: new Date(approval.timestamp),
+      decision: approval.decision && {
+        ...approval.decision,
+        decidedAt: new Date(approval.decision.decidedAt),
+        results: approval.decision.results.map((result: any) => ({ ...result, checkedAt: new Date(result.checkedAt) }))
+      }
+    };
+  }
+
+  private async insertLedgerTransaction(client: Queryable, receipt: LedgerReceipt): Promise<void> {
+    await client.query(
+      `INSERT INTO privacy_pool_ledger_transactions
+         (tx_hash, block_number, type, asset_type, amount, from_address, to_address,
+          commitment, label, nullifier_hash, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        receipt.txHash,
+        receipt.blockNumber,
+        receipt.type,
+        receipt.assetType,
+        receipt.amount,
+        receipt.from || null,
+        receipt.to || null,
+        receipt.commitment || null,
+        receipt.label || null,
+        receipt.nullifierHash || null,
+        receipt.timestamp
+      ]
+    );
+  }
+
+  private async insertRewardLedgerEntry(client: Queryable, entry: RewardLedgerEntry): Promise<void> {
+    await client.query(
+      `INSERT INTO asp_reward_ledger_entries
+         (id, idempotency_key, contributor_id, contribution_id, kind, reverses_entry_id,
+          description, created_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        entry.id,
+        entry.idempotencyKey,
+        entry.contributorId,
+        entry.contributionId || null,
+        entry.kind,
+        entry.reversesEntryId || null,
+        entry.description,
+        entry.createdBy || null,
+        entry.createdAt
+      ]
+    );
+
+    for (const line of entry.lines) {
+      await client.query(
+        `INSERT INTO asp_reward_ledger_lines (entry_id, account, unit, debit, credit)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [entry.id, line.account, line.unit, line.debit, line.credit]
+      );
+    }
+  }
+
+  private async insertTransitions(client: Queryable, transitions: PoolTransition[]): Promise<void> {
+    for (const transition of transitions) {
+      await client.query(
+        `INSERT INTO privacy_pool_transitions
+           (entity_type, entity_id, from_status, to_status, reason, actor, tx_hash, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          transition.entityType,
+          transition.entityId,
+          transition.fromStatus || null,
+          transition.toStatus,
+          transition.reason || null,
+          transition.actor || null,
+          transition.txHash || null,
+          transition.createdAt
+        ]
+      );
+    }
+  }
+
+  private toWithdrawal(row: any): PrivacyPoolWithdrawal {
+    return {
+      withdrawalId: row.withdrawal_id,
+      nullifierHash: row.nullifier_hash,
+      recipient: row.recipient,
+      assetType: row.asset_type,
+      amount: row.amount,
+      associationRoot: row.association_root,
+      rootVersion: row.root_version || undefined,
+      status: row.status,
+      reason: row.reason,
+      txHash: row.tx_hash || undefined,
+      requestedAt: row.requested_at,
+      processedAt: row.processed_at
+    };
+  }
+
+  private async insertRoot(client: Queryable, epoch: number, tree: MerkleRootSummary): Promise<AssociationSetRoot> {
+    const result = await client.query(
+      `INSERT INTO asp_association_set_roots (epoch, root, tree_root, size, last_event_sequence)
+       VALUES ($1, $2, $3, $4, (SELECT MAX(sequence) FROM asp_association_set_events))
+       RETURNING *`,
+      [epoch, tree.root, tree.treeRoot, tree.size]
+    );
+    return this.toRoot(result.rows[0]);
+  }
+
+  private toRoot(row: any): AssociationSetRoot {
+    return {
+      version: row.version,
+      epoch: row.epoch,
+      root: row.root,
+      treeRoot: row.tree_root,
+      size: row.size,
+      lastEventSequence: row.last_event_sequence !== null ? Number(row.last_event_sequence) : undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private toEvent(row: any): AssociationSetEvent {
+    return {
+      sequence: Number(row.sequence),
+      epoch: row.epoch,
+      commitment: row.commitment,
+      action: row.action,
+      reason: row.reason || undefined,
+      depositId: row.deposit_id || undefined,
+      recordedBy: row.recorded_by || undefined,
+      recordedAt: row.recorded_at
+    };
+  }
+
+  private toSnapshot(row: any): AssociationSetSnapshot {
+    return {
+      epoch: row.epoch,
+      commitments: row.commitments,
+      size: row.size,
+      lastEventSequence: row.last_event_sequence !== null ? Number(row.last_event_sequence) : undefined,
+      rootVersion: row.root_version ?? undefined,
+      root: row.root || undefined,
+      sealedBy: row.sealed_by || undefined,
+      sealedAt: row.sealed_at
+    };
+  }
+}
+
+// Export singleton instance
+export const aspRepository = new ASPRepository();
@@ -0,0 +1,269 @@
+// =====================================
+// backend/src/privacy-pools/association-merkle-tree.ts
+// Keccak-256 Merkle tree over the association set with inclusion/exclusion proofs
+// =====================================
+
+import { keccak_256 } from '@noble/hashes/sha3';
+
+const ZERO_HASH = Buffer.alloc(32);
+const FIELD_LIMIT = BigInt(2) ** BigInt(256);
+
+export interface MerklePath {
+  value: string;
+  leafIndex: number;
+  siblings: string[];
+}
+
+export interface MerkleInclusionProof extends MerklePath {
+  type: 'inclusion';
+  commitment: string;
+  size: number;
+  treeRoot: string;
+  root: string;
+}
+
+/**
+ * A commitment is absent when its neighbours in sorted order are adjacent
+ * leaves (or it falls before the first / after the last leaf)
+ */
+export interface MerkleExclusionProof {
+  type: 'exclusion';
+  commitment: string;
+  value: string;
+  size: number;
+  treeRoot: string;
+  root: string;
+  lower?: MerklePath;
+  upper?: MerklePath;
+}
+
+export type MerkleProof = MerkleInclusionProof | MerkleExclusionProof;
+
+function keccak(...parts: Buffer[]): Buffer {
+  return Buffer.from(keccak_256(Buffer.concat(parts)));
+}
+
+function hex(buffer: Buffer): string {
+  return `0x${buffer.toString('hex')}`;
+}
+
+function fromHex(value: string): Buffer {
+  return Buffer.from(value.replace(/^0x/, ''), 'hex');
+}
+
+function uint256(value: number): Buffer {
+  const buffer = Buffer.alloc(32);
+  buffer.writeBigUInt64BE(BigInt(value), 24);
+  return buffer;
+}
+
+/**
+ * Map a commitment to the bytes32 value stored in the tree: hex and decimal
+ * field elements are used as-is, anything else is hashed
+ */
+export function normalizeCommitment(commitment: string): Buffer {
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(commitment)) {
+    return Buffer.from(commitment.slice(2).padStart(64, '0'), 'hex');
+  }
+  if (/^\d{1,78}$/.test(commitment) && BigInt(commitment) < FIELD_LIMIT) {
+    return Buffer.from(BigInt(commitment).toString(16).padStart(64, '0'), 'hex');
+  }
+  return keccak(Buffer.from(commitment, 'utf8'));
+}
+
+/**
+ * Leaves are hashed once more so an inner node can never pass as a leaf
+ */
+function leafHash(value: Buffer): Buffer {
+  return keccak(value);
+}
+
+/**
+ * The published root binds the leaf count, which exclusion proofs at either
+ * end of the sorted set depend on
+ */
+function publishedRoot(size: number, treeRoot: Buffer): Buffer {
+  return keccak(uint256(size), treeRoot);
+}
+
+function treeDepth(size: number): number {
+  return size <= 1 ? 0 : Math.ceil(Math.log2(size));
+}
+
+export class AssociationSetMerkleTree {
+  readonly size: number;
+  readonly treeRoot: string;
+  readonly root: string;
+
+  private values: Buffer[];
+  private layers: Buffer[][];
+
+  /**
+   * Leaves are the normalized commitments in ascending order, padded with
+   * zero hashes to a power of two
+   */
+  constructor(commitments: Iterable<string>) {
+    const unique = new Map<string, Buffer>();
+    for (const commitment of commitments) {
+      const value = normalizeCommitment(commitment);
+      unique.set(value.toString('hex'), value);
+    }
+
+    this.values = Array.from(unique.values()).sort(Buffer.compare);
+    this.size = this.values.length;
+    this.layers = this.buildLayers();
+
+    const top = this.layers[this.layers.length - 1][0] || ZERO_HASH;
+    this.treeRoot = hex(top);
+    this.root = hex(publishedRoot(this.size, top));
+  }
+
+  /**
+   * Inclusion proof when the commitment is in the set, exclusion proof otherwise
+   */
+  getProof(commitment: string): MerkleProof {
+    const value = normalizeCommitment(commitment);
+    const index = this.values.findIndex(candidate => candidate.equals(value));
+
+    if (index !== -1) {
+      return {
+        type: 'inclusion',
+        commitment,
+        ...this.getPath(index),
+        size: this.size,
+        treeRoot: this.treeRoot,
+        root: this.root
+      };
+    }
+
+    const upperIndex = this.values.findIndex(candidate => Buffer.compare(candidate, value) > 0);
+    const lowerIndex = upperIndex === -1 ? this.size - 1 : upperIndex - 1;
+
+    return {
+      type: 'exclusion',
+      commitment,
+      value: hex(value),
+      size: this.size,
+      treeRoot: this.treeRoot,
+      root: this.root,
+      lower: lowerIndex >= 0 ? this.getPath(lowerIndex) : undefined,
+      upper: upperIndex !== -1 ? this.getPath(upperIndex) : undefined
+    };
+  }
+
+  private getPath(leafIndex: number): MerklePath {
+    const siblings: string[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      siblings.push(hex(this.layers[level][index ^ 1]));
+      index = Math.floor(index / 2);
+    }
+
+    return { value: hex(this.values[leafIndex]), leafIndex, siblings };
+  }
+
+  private buildLayers(): Buffer[][] {
+    if (this.size === 0) {
+      return [[]];
+    }
+
+    const width = 2 ** treeDepth(this.size);
+    const leaves = this.values.map(leafHash);
+    while (leaves.length < width) {
+      leaves.push(ZERO_HASH);
+    }
+
+    const layers = [leaves];
+    while (layers[layers.length - 1].length > 1) {
+      const previous = layers[layers.length - 1];
+      const next: Buffer[] = [];
+      for (let i = 0; i < previous.length; i += 2) {
+        next.push(keccak(previous[i], previous[i + 1]));
+      }
+      layers.push(next);
+    }
+
+    return layers;
+  }
+}
+
+/**
+ * Recompute the tree root from a path; false when the path is malformed
+ */
+function verifyPath(path: MerklePath, size: number, treeRoot: string): boolean {
+  if (!Number.isInteger(path.leafIndex) || path.leafIndex < 0 || path.leafIndex >= size) return false;
+  if (!Array.isArray(path.siblings) || path.siblings.length !== treeDepth(size)) return false;
+  if (fromHex(path.value).length !== 32) return false;
+
+  let node = leafHash(fromHex(path.value));
+  let index = path.leafIndex;
+  for (const sibling of path.siblings) {
+    node = index % 2 === 0 ? keccak(node, fromHex(sibling)) : keccak(fromHex(sibling), node);
+    index = Math.floor(index / 2);
+  }
+
+  return hex(node) === treeRoot.toLowerCase();
+}
+
+/**
+ * Check a proof the way the Privacy Pools contract simulator does: against
+ * the expected published root, using nothing but the proof itself
+ */
+export function verifyMerkleProof(proof: MerkleProof, expectedRoot: string): { valid: boolean; reason?: string } {
+  const fail = (reason: string) => ({ valid: false, reason });
+
+  try {
+    if (!Number.isInteger(proof.size) || proof.size < 0) {
+      return fail('Invalid size');
+    }
+    if (hex(publishedRoot(proof.size, fromHex(proof.treeRoot))) !== expectedRoot.toLowerCase()) {
+      return fail('Proof does not commit to the expected root');
+    }
+
+    if (proof.type === 'inclusion') {
+      if (!normalizeCommitment(proof.commitment).equals(fromHex(proof.value))) {
+        return fail('Leaf value does not match the commitment');
+      }
+      return verifyPath(proof, proof.size, proof.treeRoot) ? { valid: true } : fail('Merkle path does not lead to the root');
+    }
+
+    if (proof.type !== 'exclusion') {
+      return fail(`Unknown proof type: ${(proof as any).type}`);
+    }
+
+    const value = normalizeCommitment(proof.commitment);
+    if (!value.equals(fromHex(proof.value))) {
+      return fail('Value does not match the commitment');
+    }
+
+    if (proof.size === 0) {
+      return proof.treeRoot.toLowerCase() === hex(ZERO_HASH) ? { valid: true } : fail('Empty set must have a zero tree root');
+    }
+
+    const { lower, upper } = proof;
+    if (!lower && !upper) {
+      return fail('Exclusion proof needs at least one neighbour');
+    }
+    if (lower && (!verifyPath(lower, proof.size, proof.treeRoot) || Buffer.compare(fromHex(lower.value), value) >= 0)) {
+      return fail('Invalid lower neighbour');
+    }
+    if (upper && (!verifyPath(upper, proof.size, proof.treeRoot) || Buffer.compare(fromHex(upper.value), value) <= 0)) {
+      return fail('Invalid upper neighbour');
+    }
+
+    if (lower && upper && upper.leafIndex !== lower.leafIndex + 1) {
+      return fail('Neighbours are not adjacent leaves');
+    }
+    if (!lower && upper!.leafIndex !== 0) {
+      return fail('Upper neighbour must be the first leaf');
+    }
+    if (!upper && lower!.leafIndex !== proof.size - 1) {
+      return fail('Lower neighbour must be the last leaf');
+    }
+
+    return { valid: true };
+  } catch (error) {
+    return fail(`Malformed proof: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,87 @@
+// =====================================
+// backend/src/privacy-pools/commitments.ts
+// Privacy Pools commitment scheme (keccak over the BN254 scalar field)
+// =====================================
+
+import { randomBytes } from 'crypto';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+export const SNARK_SCALAR_FIELD = BigInt('21888242871839275222246405745257275088548364400416459689298358617202470001');
+
+/**
+ * Secrets the depositor keeps; only the precommitment is revealed at deposit time
+ */
+export interface DepositSecrets {
+  nullifier: string;
+  secret: string;
+  precommitment: string;
+  nullifierHash: string;
+}
+
+function toWord(value: string | bigint): Buffer {
+  const number = typeof value === 'bigint' ? value : BigInt(value);
+  if (number < BigInt(0) || number >= SNARK_SCALAR_FIELD) {
+    throw new Error('Value is outside the scalar field');
+  }
+  return Buffer.from(number.toString(16).padStart(64, '0'), 'hex');
+}
+
+function toHex(value: bigint): string {
+  return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+/**
+ * Hash 32-byte words into a field element, the stand-in for Poseidon used by
+ * the on-chain circuits
+ */
+export function hashToField(...values: (string | bigint)[]): string {
+  const digest = Buffer.from(keccak_256(Buffer.concat(values.map(toWord))));
+  return toHex(BigInt(`0x${digest.toString('hex')}`) % SNARK_SCALAR_FIELD);
+}
+
+export function isFieldElement(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^(0x[0-9a-fA-F]{1,64}|\d{1,78})$/.test(value)) return false;
+  return BigInt(value) < SNARK_SCALAR_FIELD;
+}
+
+function randomFieldElement(): string {
+  return toHex(BigInt(`0x${randomBytes(32).toString('hex')}`) % SNARK_SCALAR_FIELD);
+}
+
+export function computePrecommitment(nullifier: string, secret: string): string {
+  return hashToField(nullifier, secret);
+}
+
+export function computeNullifierHash(nullifier: string): string {
+  return hashToField(nullifier);
+}
+
+/**
+ * Pool scope: one pool per asset
+ */
+export function computeScope(assetType: string): string {
+  return toHex(BigInt(`0x${Buffer.from(keccak_256(`bgin-privacy-pool:${assetType}`)).toString('hex')}`) % SNARK_SCALAR_FIELD);
+}
+
+/**
+ * Label assigned by the pool to the nonce-th deposit
+ */
+export function computeLabel(scope: string, nonce: number): string {
+  return hashToField(scope, BigInt(nonce));
+}
+
+export function computeCommitment(value: string, label: string, precommitment: string): string {
+  return hashToField(value, label, precommitment);
+}
+
+export function generateDepositSecrets(): DepositSecrets {
+  const nullifier = randomFieldElement();
+  const secret = randomFieldElement();
+
+  return {
+    nullifier,
+    secret,
+    precommitment: computePrecommitment(nullifier, secret),
+    nullifierHash: computeNullifierHash(nullifier)
+  };
+}
@@ -0,0 +1,221 @@
+// =====================================
+// backend/src/privacy-pools/compliance-engine.ts
+// Runs compliance providers, caches their results and records the decision
+// =====================================
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+import {
+  AttestationComplianceProvider,
+  COMPLIANCE_CHECK_TYPES,
+  ComplianceCheckResult,
+  ComplianceCheckType,
+  ComplianceProvider,
+  ComplianceSubject,
+  DIDIdentityProvider,
+  ProviderCheckResult,
+  SanctionsListProvider,
+  subjectAddresses
+} from './compliance-providers';
+
+const PROVIDER_TIMEOUT_MS = 10000;
+
+export interface ComplianceCheckOutcome {
+  passed: boolean;
+  reason: string;
+  /** Providers whose results decided the outcome */
+  decidedBy: string[];
+}
+
+/**
+ * Why a deposit was approved or rejected: the outcome of each check and every
+ * provider result behind it
+ */
+export interface ComplianceDecision {
+  decisionId: string;
+  subject: {
+    userId: string;
+    did: string;
+    addresses: string[];
+  };
+  allPassed: boolean;
+  reason: string;
+  checks: Record<ComplianceCheckType, ComplianceCheckOutcome>;
+  results: ComplianceCheckResult[];
+  decidedAt: Date;
+}
+
+export class ComplianceEngine {
+  private providers: Map<string, ComplianceProvider> = new Map();
+
+  constructor() {
+    this.registerProvider(new AttestationComplianceProvider());
+    this.registerProvider(new DIDIdentityProvider());
+    if (config.compliance.sanctionsListPath) {
+      this.registerProvider(new SanctionsListProvider(config.compliance.sanctionsListPath));
+    }
+  }
+
+  /**
+   * Register (or replace) a provider, keyed by its name
+   */
+  registerProvider(provider: ComplianceProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  unregisterProvider(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  getProviders(): { name: string; checks: ComplianceCheckType[]; cacheable: boolean }[] {
+    return Array.from(this.providers.values()).map(({ name, checks, cacheable }) => ({ name, checks, cacheable }));
+  }
+
+  /**
+   * Run every provider for every check type. A check passes when at least one
+   * provider passed and none failed or errored; providers with nothing to
+   * check ('unavailable') are ignored.
+   */
+  async evaluate(subject: ComplianceSubject): Promise<ComplianceDecision> {
+    const tasks: Promise<ComplianceCheckResult>[] = [];
+    for (const provider of this.providers.values()) {
+      for (const check of provider.checks) {
+        tasks.push(this.runCheck(provider, check, subject));
+      }
+    }
+    const results = await Promise.all(tasks);
+
+    const checks = {} as Record<ComplianceCheckType, ComplianceCheckOutcome>;
+    for (const check of COMPLIANCE_CHECK_TYPES) {
+      checks[check] = this.decide(check, results.filter(result => result.check === check));
+    }
+
+    const failed = COMPLIANCE_CHECK_TYPES.filter(check => !checks[check].passed);
+    const allPassed = failed.length === 0;
+
+    return {
+      decisionId: uuidv4(),
+      subject: {
+        userId: subject.userId,
+        did: subject.did,
+        addresses: subjectAddresses(subject)
+      },
+      allPassed,
+      reason: allPassed
+        ? 'All compliance checks passed'
+        : `Compliance checks failed: ${failed.map(check => `${check} (${checks[check].reason})`).join('; ')}`,
+      checks,
+      results,
+      decidedAt: new Date()
+    };
+  }
+
+  private decide(check: ComplianceCheckType, results: ComplianceCheckResult[]): ComplianceCheckOutcome {
+    const blocking = results.filter(result => result.status === 'fail' || result.status === 'error');
+    if (blocking.length > 0) {
+      return {
+        passed: false,
+        reason: blocking.map(result => `${result.provider}: ${result.reason}`).join(', '),
+        decidedBy: blocking.map(result => result.provider)
+      };
+    }
+
+    const passing = results.filter(result => result.status === 'pass');
+    if (passing.length === 0) {
+      return { passed: false, reason: `No provider could perform the ${check} check`, decidedBy: [] };
+    }
+
+    return {
+      passed: true,
+      reason: `Passed by ${passing.map(result => result.provider).join(', ')}`,
+      decidedBy: passing.map(result => result.provider)
+    };
+  }
+
+  /**
+   * Run one provider check, serving definitive results from Redis when the
+   * provider allows it. Provider failures become 'error' results.
+   */
+  private async runCheck(provider: ComplianceProvider, check: ComplianceCheckType, subject: ComplianceSubject): Promise<ComplianceCheckResult> {
+    let providerVersion = 'unknown';
+
+    try {
+      providerVersion = await provider.version();
+      const cacheKey = provider.cacheable ? this.cacheKey(provider.name, providerVersion, check, subject) : null;
+
+      if (cacheKey) {
+        const cached = await this.readCache(cacheKey);
+        if (cached) {
+          return { ...cached, checkedAt: new Date(cached.checkedAt), cached: true };
+        }
+      }
+
+      const outcome = await this.withTimeout(provider.check(check, subject), provider.name);
+      const result: ComplianceCheckResult = {
+        ...outcome,
+        check,
+        provider: provider.name,
+        providerVersion,
+        checkedAt: new Date(),
+        cached: false
+      };
+
+      if (cacheKey && (result.status === 'pass' || result.status === 'fail')) {
+        await this.writeCache(cacheKey, result);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error(`Compliance provider ${provider.name} failed on ${check} check:`, error);
+      return {
+        check,
+        provider: provider.name,
+        providerVersion,
+        status: 'error',
+        reason: error instanceof Error ? error.message : 'Provider error',
+        evidence: [],
+        checkedAt: new Date(),
+        cached: false
+      };
+    }
+  }
+
+  private withTimeout(promise: Promise<ProviderCheckResult>, providerName: string): Promise<ProviderCheckResult> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${providerName} timed out`)), PROVIDER_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private cacheKey(providerName: string, providerVersion: string, check: ComplianceCheckType, subject: ComplianceSubject): string {
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify([subject.did, subjectAddresses(subject).sort()]))
+      .digest('hex');
+    return `compliance:${providerName}:${providerVersion}:${check}:${fingerprint}`;
+  }
+
+  private async readCache(key: string): Promise<ComplianceCheckResult | null> {
+    try {
+      const cached = await database.getRedis().get(key);
+      return cached ? JSON.parse(cached) : null;
+    } catch (error) {
+      logger.warn('Compliance cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, result: ComplianceCheckResult): Promise<void> {
+    try {
+      await database.getRedis().set(key, JSON.stringify(result), 'EX', config.compliance.cacheTtl);
+    } catch (error) {
+      logger.warn('Failed to cache compliance result:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const complianceEngine = new ComplianceEngine();
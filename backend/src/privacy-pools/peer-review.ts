@@ -0,0 +1,381 @@
+// =====================================
+// backend/src/privacy-pools/peer-review.ts
+// Peer review of research contributions with rubric scoring and conflict checks
+// =====================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { aspRepository } from './asp-repository';
+import { bginASPManager, TrustNetworkNode } from './asp-manager';
+
+export type ReviewCriterionId = 'methodology' | 'evidence' | 'originality' | 'clarity' | 'relevance';
+
+export interface ReviewCriterion {
+  id: ReviewCriterionId;
+  description: string;
+  weight: number;
+}
+
+/**
+ * Each criterion is scored on an integer scale from RUBRIC_MIN to RUBRIC_MAX
+ */
+export const REVIEW_RUBRIC: ReviewCriterion[] = [
+  { id: 'methodology', description: 'Soundness of the methods and reasoning', weight: 0.3 },
+  { id: 'evidence', description: 'Quality of sources and supporting evidence', weight: 0.25 },
+  { id: 'originality', description: 'Novelty of the findings or synthesis', weight: 0.2 },
+  { id: 'clarity', description: 'Clarity and structure of the write-up', weight: 0.15 },
+  { id: 'relevance', description: 'Relevance to BGIN working group priorities', weight: 0.1 }
+];
+
+export const RUBRIC_MIN = 1;
+export const RUBRIC_MAX = 5;
+
+export type ReviewRecommendation = 'accept' | 'minor_revisions' | 'major_revisions' | 'reject';
+
+const RECOMMENDATION_SCORES: Record<ReviewRecommendation, number> = {
+  accept: 1,
+  minor_revisions: 0.75,
+  major_revisions: 0.35,
+  reject: 0
+};
+
+export const REVIEWERS_PER_CONTRIBUTION = 3;
+export const MIN_REVIEWS = 2;
+
+/**
+ * Weighted recommendation needed for a contribution to be accepted
+ */
+export const ACCEPTANCE_THRESHOLD = 0.5;
+
+export interface ContributionReview {
+  id: string;
+  contributionId: string;
+  reviewerId: string;
+  status: 'assigned' | 'submitted' | 'declined';
+  scores?: Record<ReviewCriterionId, number>;
+  recommendation?: ReviewRecommendation;
+  comments?: string;
+  declineReason?: string;
+  conflictDeclared?: boolean;
+  assignedBy?: string;
+  assignedAt: Date;
+  respondedAt?: Date;
+}
+
+export interface ConflictOfInterest {
+  reviewerId: string;
+  contributorId: string;
+  reason: 'self' | 'trust-relationship';
+  relationshipType?: string;
+  direction?: 'reviewer-to-contributor' | 'contributor-to-reviewer';
+  trustScore?: number;
+}
+
+/**
+ * How the quality score of a contribution was derived from its reviews
+ */
+export interface ReviewSummary {
+  reviewIds: string[];
+  reviewerWeights: Record<string, number>;
+  criterionScores: Record<ReviewCriterionId, number>;
+  qualityScore: number;
+  recommendationScore: number;
+  accepted: boolean;
+  completedAt: Date;
+}
+
+export class PeerReviewManager {
+  private reviews: Map<string, ContributionReview> = new Map();
+
+  /**
+   * Restore review assignments from PostgreSQL
+   */
+  async initialize(): Promise<void> {
+    const reviews = await aspRepository.getReviews();
+    this.reviews = new Map(reviews.map(review => [review.id, review]));
+    logger.info(`Loaded ${reviews.length} contribution reviews`);
+  }
+
+  getRubric(): ReviewCriterion[] {
+    return REVIEW_RUBRIC;
+  }
+
+  getReview(reviewId: string): ContributionReview | undefined {
+    return this.reviews.get(reviewId);
+  }
+
+  getReviewsForContribution(contributionId: string): ContributionReview[] {
+    return Array.from(this.reviews.values()).filter(review => review.contributionId === contributionId);
+  }
+
+  getAssignedReviews(reviewerId: string): ContributionReview[] {
+    return Array.from(this.reviews.values())
+      .filter(review => review.reviewerId === reviewerId && review.status === 'assigned')
+      .filter(review => bginASPManager.findContribution(review.contributionId)?.reviewStatus === 'pending_review');
+  }
+
+  /**
+   * A reviewer is conflicted when they are the contributor or either has a
+   * trust relationship with the other. With submittedAt, relationships
+   * created after the submission are ignored so a contributor cannot steer
+   * assignment by trusting reviewers they want to avoid.
+   */
+  findConflicts(reviewerId: string, contributorId: string, submittedAt?: Date): ConflictOfInterest[] {
+    if (reviewerId === contributorId) {
+      return [{ reviewerId, contributorId, reason: 'self' }];
+    }
+
+    const conflicts: ConflictOfInterest[] = [];
+    const links: [TrustNetworkNode | undefined, string, ConflictOfInterest['direction']][] = [
+      [bginASPManager.getTrustNetworkNode(contributorId), reviewerId, 'reviewer-to-contributor'],
+      [bginASPManager.getTrustNetworkNode(reviewerId), contributorId, 'contributor-to-reviewer']
+    ];
+
+    for (const [node, fromUserId, direction] of links) {
+      for (const relationship of node?.trustRelationships || []) {
+        if (relationship.fromUserId !== fromUserId) continue;
+        if (submittedAt && relationship.createdAt.getTime() > submittedAt.getTime()) continue;
+        conflicts.push({
+          reviewerId,
+          contributorId,
+          reason: 'trust-relationship',
+          relationshipType: relationship.relationshipType,
+          direction,
+          trustScore: relationship.trustScore
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Pending contributions with fewer than MIN_REVIEWS open or submitted
+   * reviews. They need reviewers assigned by an admin before they can complete.
+   */
+  getContributionsAwaitingReviewers(): { contributionId: string; activeReviews: number }[] {
+    const active = new Map<string, number>();
+    for (const review of this.reviews.values()) {
+      active.set(review.contributionId, (active.get(review.contributionId) || 0) + (review.status === 'declined' ? 0 : 1));
+    }
+
+    return Array.from(active.keys(), contributionId => ({ contributionId, activeReviews: active.get(contributionId)! }))
+      .filter(({ contributionId, activeReviews }) =>
+        activeReviews < MIN_REVIEWS && bginASPManager.findContribution(contributionId)?.reviewStatus === 'pending_review');
+  }
+
+  /**
+   * Assign reviewers to a pending contribution. Without explicit reviewers
+   * the unconflicted members with the fewest open reviews are picked, and
+   * assignment fails if that leaves fewer than MIN_REVIEWS. Returns the new
+   * assignments.
+   */
+  async assignReviewers(
+    contributionId: string,
+    options: { reviewerIds?: string[]; count?: number; assignedBy?: string } = {}
+  ): Promise<ContributionReview[]> {
+    const contribution = bginASPManager.findContribution(contributionId);
+    if (!contribution) {
+      throw new Error('Contribution not found');
+    }
+    if (contribution.reviewStatus !== 'pending_review') {
+      throw new Error(`Contribution is not awaiting review (status: ${contribution.reviewStatus})`);
+    }
+
+    const existing = this.getReviewsForContribution(contributionId);
+    const alreadyAsked = new Set(existing.map(review => review.reviewerId));
+
+    let reviewerIds: string[];
+    if (options.reviewerIds) {
+      for (const reviewerId of options.reviewerIds) {
+        if (!bginASPManager.getTrustNetworkNode(reviewerId)) {
+          throw new Error(`Reviewer ${reviewerId} is not in the trust network`);
+        }
+        if (alreadyAsked.has(reviewerId)) {
+          throw new Error(`Reviewer ${reviewerId} was already assigned`);
+        }
+        const conflicts = this.findConflicts(reviewerId, contribution.contributorId, contribution.timestamp);
+        if (conflicts.length > 0) {
+          throw new Error(`Reviewer ${reviewerId} has a conflict of interest: ${conflicts.map(conflict => conflict.relationshipType || conflict.reason).join(', ')}`);
+        }
+      }
+      reviewerIds = options.reviewerIds;
+    } else {
+      const active = existing.filter(review => review.status !== 'declined').length;
+      const count = options.count ?? Math.max(REVIEWERS_PER_CONTRIBUTION - active, 0);
+      reviewerIds = this.selectReviewers(contribution.contributorId, contribution.timestamp, alreadyAsked, count);
+      if (active + reviewerIds.length < MIN_REVIEWS) {
+        throw new Error(`Not enough reviewers: ${active + reviewerIds.length} unconflicted members available, ${MIN_REVIEWS} needed`);
+      }
+    }
+
+    const assignments = reviewerIds.map((reviewerId): ContributionReview => ({
+      id: uuidv4(),
+      contributionId,
+      reviewerId,
+      status: 'assigned',
+      assignedBy: options.assignedBy,
+      assignedAt: new Date()
+    }));
+
+    await aspRepository.saveReviews(assignments);
+    assignments.forEach(review => this.reviews.set(review.id, review));
+
+    return assignments;
+  }
+
+  /**
+   * Record a reviewer's rubric scores and recommendation, completing the
+   * review once enough reviews are in
+   */
+  async submitReview(
+    reviewId: string,
+    submission: { scores: Record<ReviewCriterionId, number>; recommendation: ReviewRecommendation; comments?: string }
+  ): Promise<{ review: ContributionReview; summary?: ReviewSummary }> {
+    const review = this.requireOpenReview(reviewId);
+
+    for (const criterion of REVIEW_RUBRIC) {
+      const score = submission.scores?.[criterion.id];
+      if (!Number.isInteger(score) || score < RUBRIC_MIN || score > RUBRIC_MAX) {
+        throw new Error(`Score for ${criterion.id} must be an integer from ${RUBRIC_MIN} to ${RUBRIC_MAX}`);
+      }
+    }
+    if (!(submission.recommendation in RECOMMENDATION_SCORES)) {
+      throw new Error(`Unknown recommendation: ${submission.recommendation}`);
+    }
+
+    const submitted: ContributionReview = {
+      ...review,
+      status: 'submitted',
+      scores: Object.fromEntries(REVIEW_RUBRIC.map(criterion => [criterion.id, submission.scores[criterion.id]])) as Record<ReviewCriterionId, number>,
+      recommendation: submission.recommendation,
+      comments: submission.comments,
+      respondedAt: new Date()
+    };
+
+    await aspRepository.saveReviews([submitted]);
+    this.reviews.set(reviewId, submitted);
+
+    return { review: submitted, summary: await this.completeIfReady(review.contributionId) };
+  }
+
+  /**
+   * Decline an assignment; a replacement reviewer is assigned automatically.
+   * Without one the contribution may drop below MIN_REVIEWS, in which case it
+   * is escalated to admins through getContributionsAwaitingReviewers.
+   */
+  async declineReview(reviewId: string, reason: string, conflictDeclared: boolean = false): Promise<{ review: ContributionReview; replacement?: ContributionReview; summary?: ReviewSummary }> {
+    const review = this.requireOpenReview(reviewId);
+
+    const declined: ContributionReview = {
+      ...review,
+      status: 'declined',
+      declineReason: reason,
+      conflictDeclared,
+      respondedAt: new Date()
+    };
+
+    await aspRepository.saveReviews([declined]);
+    this.reviews.set(reviewId, declined);
+
+    const contribution = bginASPManager.findContribution(review.contributionId)!;
+    const alreadyAsked = new Set(this.getReviewsForContribution(review.contributionId).map(candidate => candidate.reviewerId));
+    const [replacementId] = this.selectReviewers(contribution.contributorId, contribution.timestamp, alreadyAsked, 1);
+    const [replacement] = replacementId
+      ? await this.assignReviewers(review.contributionId, { reviewerIds: [replacementId], assignedBy: 'system' })
+      : [];
+    const summary = replacement ? undefined : await this.completeIfReady(review.contributionId);
+
+    if (!replacement && !summary && this.getContributionsAwaitingReviewers().some(entry => entry.contributionId === review.contributionId)) {
+      logger.error(`Contribution ${review.contributionId} has fewer than ${MIN_REVIEWS} reviewers and no replacement is available; an admin must assign reviewers`);
+    }
+
+    return { review: declined, replacement, summary };
+  }
+
+  /**
+   * Aggregate once no assignment is outstanding and at least MIN_REVIEWS are
+   * in. Each review is weighted by its reviewer's reputation. When concurrent
+   * submissions both get here, only the one that records the outcome returns
+   * a summary.
+   */
+  private async completeIfReady(contributionId: string): Promise<ReviewSummary | undefined> {
+    const reviews = this.getReviewsForContribution(contributionId);
+    const submitted = reviews.filter(review => review.status === 'submitted');
+
+    if (reviews.some(review => review.status === 'assigned') || submitted.length < MIN_REVIEWS) {
+      return undefined;
+    }
+
+    const reviewerWeights: Record<string, number> = {};
+    for (const review of submitted) {
+      reviewerWeights[review.reviewerId] = 0.5 + 0.5 * bginASPManager.getUserTrustScore(review.reviewerId);
+    }
+    const totalWeight = submitted.reduce((sum, review) => sum + reviewerWeights[review.reviewerId], 0);
+    const weighted = (value: (review: ContributionReview) => number) =>
+      submitted.reduce((sum, review) => sum + value(review) * reviewerWeights[review.reviewerId], 0) / totalWeight;
+
+    const criterionScores = {} as Record<ReviewCriterionId, number>;
+    for (const criterion of REVIEW_RUBRIC) {
+      criterionScores[criterion.id] = weighted(review => (review.scores![criterion.id] - RUBRIC_MIN) / (RUBRIC_MAX - RUBRIC_MIN));
+    }
+
+    const qualityScore = REVIEW_RUBRIC.reduce((sum, criterion) => sum + criterionScores[criterion.id] * criterion.weight, 0);
+    const recommendationScore = weighted(review => RECOMMENDATION_SCORES[review.recommendation!]);
+
+    const summary: ReviewSummary = {
+      reviewIds: submitted.map(review => review.id),
+      reviewerWeights,
+      criterionScores,
+      qualityScore,
+      recommendationScore,
+      accepted: recommendationScore >= ACCEPTANCE_THRESHOLD,
+      completedAt: new Date()
+    };
+
+    const completed = await bginASPManager.completeContributionReview(contributionId, summary);
+    return completed ? summary : undefined;
+  }
+
+  /**
+   * Spread reviews over the unconflicted members with the fewest open
+   * assignments; reputation only breaks ties
+   */
+  private selectReviewers(contributorId: string, submittedAt: Date, exclude: Set<string>, count: number): string[] {
+    if (count <= 0) return [];
+
+    const openLoad = new Map<string, number>();
+    for (const review of this.reviews.values()) {
+      if (review.status === 'assigned') {
+        openLoad.set(review.reviewerId, (openLoad.get(review.reviewerId) || 0) + 1);
+      }
+    }
+
+    return bginASPManager.getTrustNetworkNodes()
+      .filter(node => !exclude.has(node.userId))
+      .filter(node => this.findConflicts(node.userId, contributorId, submittedAt).length === 0)
+      .sort((a, b) =>
+        (openLoad.get(a.userId) || 0) - (openLoad.get(b.userId) || 0) ||
+        b.reputationScore - a.reputationScore ||
+        a.userId.localeCompare(b.userId))
+      .slice(0, count)
+      .map(node => node.userId);
+  }
+
+  private requireOpenReview(reviewId: string): ContributionReview {
+    const review = this.reviews.get(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (review.status !== 'assigned') {
+      throw new Error(`Review has already been ${review.status}`);
+    }
+    if (bginASPManager.findContribution(review.contributionId)?.reviewStatus !== 'pending_review') {
+      throw new Error('Contribution is no longer awaiting review');
+    }
+    return review;
+  }
+}
+
+// Export singleton instance
+export const peerReviewManager = new PeerReviewManager();
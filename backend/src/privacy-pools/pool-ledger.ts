@@ -0,0 +1,195 @@
+// =====================================
+// backend/src/privacy-pools/pool-ledger.ts
+// Chain stand-in for the Privacy Pools contracts
+// =====================================
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { computeCommitment, computeLabel, computeScope } from './commitments';
+
+export type LedgerTransactionType = 'deposit' | 'ragequit' | 'withdrawal';
+
+export interface LedgerReceipt {
+  txHash: string;
+  blockNumber: number;
+  type: LedgerTransactionType;
+  assetType: string;
+  amount: string;
+  from?: string;
+  to?: string;
+  commitment?: string;
+  label?: string;
+  nullifierHash?: string;
+  timestamp: Date;
+}
+
+/**
+ * What the ASP needs from the pool contracts. Implementations backed by a
+ * local node (anvil/hardhat) or a live chain can replace the mock.
+ */
+export interface PoolLedger {
+  readonly name: string;
+  /** Lock funds and insert the commitment the pool derives from the precommitment */
+  deposit(params: { from: string; assetType: string; amount: string; precommitment: string }): Promise<LedgerReceipt & { commitment: string; label: string }>;
+  /** Return a deposit's funds to its original depositor, spending its nullifier; asset and amount must be the deposit's */
+  ragequit(params: { to: string; assetType: string; amount: string; commitment: string; nullifierHash: string }): Promise<LedgerReceipt>;
+  /** Pay out a commitment to an unlinked recipient, spending its nullifier; asset and amount must be the deposit's */
+  withdraw(params: { to: string; assetType: string; amount: string; commitment: string; nullifierHash: string }): Promise<LedgerReceipt>;
+  hasCommitment(commitment: string): Promise<boolean>;
+  isSpent(nullifierHash: string): Promise<boolean>;
+  getPoolBalance(assetType: string): Promise<string>;
+  getBalance(address: string, assetType: string): Promise<string>;
+  getBlockNumber(): Promise<number>;
+  /** Rebuild state from previously recorded receipts, oldest first */
+  restore(receipts: LedgerReceipt[]): void;
+}
+
+/**
+ * In-process ledger that enforces the same invariants as the pool contracts:
+ * commitments are unique, nullifiers are spent once and a commitment pays
+ * out exactly the asset and amount it was deposited with. Every call mines
+ * one block.
+ */
+export class MockPoolLedger implements PoolLedger {
+  readonly name = 'mock';
+
+  private blockNumber = 0;
+  private nonces: Map<string, number> = new Map();
+  /** Asset and amount locked behind each commitment */
+  private commitments: Map<string, { assetType: string; amount: bigint }> = new Map();
+  private nullifiers: Set<string> = new Set();
+  private poolBalances: Map<string, bigint> = new Map();
+  private balances: Map<string, bigint> = new Map();
+
+  async deposit(params: { from: string; assetType: string; amount: string; precommitment: string }): Promise<LedgerReceipt & { commitment: string; label: string }> {
+    const amount = this.parseAmount(params.amount);
+    const nonce = (this.nonces.get(params.assetType) || 0) + 1;
+    const label = computeLabel(computeScope(params.assetType), nonce);
+    const commitment = computeCommitment(params.amount, label, params.precommitment);
+
+    if (this.commitments.has(commitment)) {
+      throw new Error('Commitment already exists');
+    }
+
+    const receipt = this.mine({
+      type: 'deposit',
+      assetType: params.assetType,
+      amount: params.amount,
+      from: params.from,
+      commitment,
+      label
+    });
+    this.apply(receipt, amount);
+
+    return { ...receipt, commitment, label };
+  }
+
+  async ragequit(params: { to: string; assetType: string; amount: string; commitment: string; nullifierHash: string }): Promise<LedgerReceipt> {
+    return this.payOut('ragequit', params);
+  }
+
+  async withdraw(params: { to: string; assetType: string; amount: string; commitment: string; nullifierHash: string }): Promise<LedgerReceipt> {
+    return this.payOut('withdrawal', params);
+  }
+
+  async hasCommitment(commitment: string): Promise<boolean> {
+    return this.commitments.has(commitment);
+  }
+
+  async isSpent(nullifierHash: string): Promise<boolean> {
+    return this.nullifiers.has(nullifierHash);
+  }
+
+  async getPoolBalance(assetType: string): Promise<string> {
+    return (this.poolBalances.get(assetType) || BigInt(0)).toString();
+  }
+
+  async getBalance(address: string, assetType: string): Promise<string> {
+    return (this.balances.get(this.balanceKey(address, assetType)) || BigInt(0)).toString();
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  restore(receipts: LedgerReceipt[]): void {
+    this.blockNumber = 0;
+    this.nonces.clear();
+    this.commitments.clear();
+    this.nullifiers.clear();
+    this.poolBalances.clear();
+    this.balances.clear();
+
+    for (const receipt of receipts) {
+      this.apply(receipt, BigInt(receipt.amount));
+      this.blockNumber = Math.max(this.blockNumber, receipt.blockNumber);
+    }
+  }
+
+  private async payOut(type: 'ragequit' | 'withdrawal', params: { to: string; assetType: string; amount: string; commitment: string; nullifierHash: string }): Promise<LedgerReceipt> {
+    const amount = this.parseAmount(params.amount);
+
+    const deposited = this.commitments.get(params.commitment);
+    if (!deposited) {
+      throw new Error('Unknown commitment');
+    }
+    if (deposited.assetType !== params.assetType || deposited.amount !== amount) {
+      throw new Error('Asset or amount does not match the deposit');
+    }
+    if (this.nullifiers.has(params.nullifierHash)) {
+      throw new Error('Nullifier already spent');
+    }
+    if ((this.poolBalances.get(params.assetType) || BigInt(0)) < amount) {
+      throw new Error('Insufficient pool balance');
+    }
+
+    const receipt = this.mine({
+      type,
+      assetType: params.assetType,
+      amount: params.amount,
+      to: params.to,
+      nullifierHash: params.nullifierHash
+    });
+    this.apply(receipt, amount);
+
+    return receipt;
+  }
+
+  private apply(receipt: LedgerReceipt, amount: bigint): void {
+    const pool = this.poolBalances.get(receipt.assetType) || BigInt(0);
+
+    if (receipt.type === 'deposit') {
+      this.nonces.set(receipt.assetType, (this.nonces.get(receipt.assetType) || 0) + 1);
+      this.commitments.set(receipt.commitment!, { assetType: receipt.assetType, amount });
+      this.poolBalances.set(receipt.assetType, pool + amount);
+      return;
+    }
+
+    const key = this.balanceKey(receipt.to!, receipt.assetType);
+    this.nullifiers.add(receipt.nullifierHash!);
+    this.poolBalances.set(receipt.assetType, pool - amount);
+    this.balances.set(key, (this.balances.get(key) || BigInt(0)) + amount);
+  }
+
+  private mine(transaction: Omit<LedgerReceipt, 'txHash' | 'blockNumber' | 'timestamp'>): LedgerReceipt {
+    const blockNumber = this.blockNumber + 1;
+    const timestamp = new Date();
+    const txHash = `0x${Buffer.from(keccak_256(JSON.stringify({ ...transaction, blockNumber, timestamp }))).toString('hex')}`;
+
+    this.blockNumber = blockNumber;
+    return { ...transaction, txHash, blockNumber, timestamp };
+  }
+
+  private parseAmount(amount: string): bigint {
+    if (!/^\d+$/.test(amount) || BigInt(amount) === BigInt(0)) {
+      throw new Error('Amount must be a positive integer in base units');
+    }
+    return BigInt(amount);
+  }
+
+  private balanceKey(address: string, assetType: string): string {
+    return `${assetType}:${address.toLowerCase()}`;
+  }
+}
+
+// Export singleton instance
+export const poolLedger: PoolLedger = new MockPoolLedger();
@@ -0,0 +1,271 @@
+// =====================================
+// backend/src/privacy-pools/reward-ledger.ts
+// Double-entry ledger for contribution rewards, trust boosts and fee reductions
+// =====================================
+
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Each unit is booked separately and must balance on its own
+ */
+export type RewardUnit = 'reward_points' | 'trust_boost' | 'fee_reduction';
+
+export const REWARD_UNITS: RewardUnit[] = ['reward_points', 'trust_boost', 'fee_reduction'];
+
+/**
+ * Issuing accounts on the ASP side of every entry
+ */
+export const SYSTEM_ACCOUNTS: Record<RewardUnit, string> = {
+  reward_points: 'system:reward-pool',
+  trust_boost: 'system:trust-issuance',
+  fee_reduction: 'system:fee-reduction-issuance'
+};
+
+export interface RewardLedgerLine {
+  account: string;
+  unit: RewardUnit;
+  debit: number;
+  credit: number;
+}
+
+export interface RewardLedgerEntry {
+  id: string;
+  idempotencyKey: string;
+  contributorId: string;
+  contributionId?: string;
+  kind: 'issuance' | 'reversal';
+  reversesEntryId?: string;
+  description: string;
+  lines: RewardLedgerLine[];
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export type RewardBalances = Record<RewardUnit, number>;
+
+export interface RewardStatementLine {
+  entryId: string;
+  kind: RewardLedgerEntry['kind'];
+  contributionId?: string;
+  reversesEntryId?: string;
+  description: string;
+  changes: Partial<RewardBalances>;
+  balances: RewardBalances;
+  createdAt: Date;
+}
+
+export interface RewardStatement {
+  contributorId: string;
+  balances: RewardBalances;
+  total: number;
+  entries: RewardStatementLine[];
+}
+
+const PRECISION = 1e6;
+
+function round(amount: number): number {
+  return Math.round(amount * PRECISION) / PRECISION;
+}
+
+function emptyBalances(): RewardBalances {
+  return { reward_points: 0, trust_boost: 0, fee_reduction: 0 };
+}
+
+export function contributorAccount(contributorId: string, unit: RewardUnit): string {
+  return `contributor:${contributorId}:${unit}`;
+}
+
+export function issuanceKey(contributionId: string): string {
+  return `contribution:${contributionId}:issuance`;
+}
+
+export function reversalKey(entryId: string): string {
+  return `entry:${entryId}:reversal`;
+}
+
+/**
+ * In-memory journal. Entries are persisted by the ASP manager before they are
+ * applied here, so this only ever holds committed entries.
+ */
+export class RewardLedger {
+  private entries: RewardLedgerEntry[] = [];
+  private byKey: Map<string, RewardLedgerEntry> = new Map();
+  private reversals: Map<string, RewardLedgerEntry> = new Map();
+  private accountBalances: Map<string, number> = new Map();
+
+  /**
+   * Build a balanced issuance crediting the contributor with each non-zero
+   * amount; negative amounts debit the contributor instead
+   */
+  buildIssuance(params: {
+    contributorId: string;
+    contributionId: string;
+    amounts: Partial<RewardBalances>;
+    description: string;
+    createdBy?: string;
+    idempotencyKey?: string;
+  }): RewardLedgerEntry {
+    const lines: RewardLedgerLine[] = [];
+
+    for (const unit of REWARD_UNITS) {
+      const amount = round(params.amounts[unit] || 0);
+      if (amount === 0) continue;
+
+      const magnitude = Math.abs(amount);
+      const [debitAccount, creditAccount] = amount > 0
+        ? [SYSTEM_ACCOUNTS[unit], contributorAccount(params.contributorId, unit)]
+        : [contributorAccount(params.contributorId, unit), SYSTEM_ACCOUNTS[unit]];
+
+      lines.push(
+        { account: debitAccount, unit, debit: magnitude, credit: 0 },
+        { account: creditAccount, unit, debit: 0, credit: magnitude }
+      );
+    }
+
+    return this.validate({
+      id: uuidv4(),
+      idempotencyKey: params.idempotencyKey || issuanceKey(params.contributionId),
+      contributorId: params.contributorId,
+      contributionId: params.contributionId,
+      kind: 'issuance',
+      description: params.description,
+      lines,
+      createdBy: params.createdBy,
+      createdAt: new Date()
+    });
+  }
+
+  /**
+   * Build the entry that exactly undoes another by swapping its debits and credits
+   */
+  buildReversal(entry: RewardLedgerEntry, reason: string, createdBy?: string): RewardLedgerEntry {
+    if (entry.kind === 'reversal') {
+      throw new Error('A reversal cannot itself be reversed');
+    }
+    if (this.reversals.has(entry.id)) {
+      throw new Error(`Entry ${entry.id} has already been reversed`);
+    }
+
+    return this.validate({
+      id: uuidv4(),
+      idempotencyKey: reversalKey(entry.id),
+      contributorId: entry.contributorId,
+      contributionId: entry.contributionId,
+      kind: 'reversal',
+      reversesEntryId: entry.id,
+      description: `Reversal: ${reason}`,
+      lines: entry.lines.map(line => ({ ...line, debit: line.credit, credit: line.debit })),
+      createdBy,
+      createdAt: new Date()
+    });
+  }
+
+  findByIdempotencyKey(idempotencyKey: string): RewardLedgerEntry | undefined {
+    return this.byKey.get(idempotencyKey);
+  }
+
+  getEntry(entryId: string): RewardLedgerEntry | undefined {
+    return this.entries.find(entry => entry.id === entryId);
+  }
+
+  getReversal(entryId: string): RewardLedgerEntry | undefined {
+    return this.reversals.get(entryId);
+  }
+
+  apply(entry: RewardLedgerEntry): void {
+    if (this.byKey.has(entry.idempotencyKey)) return;
+
+    this.entries.push(entry);
+    this.byKey.set(entry.idempotencyKey, entry);
+    if (entry.reversesEntryId) {
+      this.reversals.set(entry.reversesEntryId, entry);
+    }
+
+    for (const line of entry.lines) {
+      // Balances are credit-normal: what the ASP owes the account holder
+      const balance = this.accountBalances.get(line.account) || 0;
+      this.accountBalances.set(line.account, round(balance + line.credit - line.debit));
+    }
+  }
+
+  restore(entries: RewardLedgerEntry[]): void {
+    this.entries = [];
+    this.byKey.clear();
+    this.reversals.clear();
+    this.accountBalances.clear();
+    entries.forEach(entry => this.apply(entry));
+  }
+
+  getBalances(contributorId: string): RewardBalances {
+    const balances = emptyBalances();
+    for (const unit of REWARD_UNITS) {
+      balances[unit] = this.accountBalances.get(contributorAccount(contributorId, unit)) || 0;
+    }
+    return balances;
+  }
+
+  /**
+   * Contributor entries, newest first, each with the balances after it posted
+   */
+  getStatement(contributorId: string, limit: number = 50, offset: number = 0): RewardStatement {
+    const running = emptyBalances();
+    const lines: RewardStatementLine[] = [];
+
+    for (const entry of this.entries.filter(candidate => candidate.contributorId === contributorId)) {
+      const changes: Partial<RewardBalances> = {};
+      for (const line of entry.lines) {
+        if (line.account !== contributorAccount(contributorId, line.unit)) continue;
+        const change = round(line.credit - line.debit);
+        changes[line.unit] = round((changes[line.unit] || 0) + change);
+        running[line.unit] = round(running[line.unit] + change);
+      }
+
+      lines.push({
+        entryId: entry.id,
+        kind: entry.kind,
+        contributionId: entry.contributionId,
+        reversesEntryId: entry.reversesEntryId,
+        description: entry.description,
+        changes,
+        balances: { ...running },
+        createdAt: entry.createdAt
+      });
+    }
+
+    return {
+      contributorId,
+      balances: this.getBalances(contributorId),
+      total: lines.length,
+      entries: lines.reverse().slice(offset, offset + limit)
+    };
+  }
+
+  /**
+   * Sum of all account balances per unit; anything but zero means the journal
+   * is corrupt
+   */
+  getTrialBalance(): RewardBalances {
+    const totals = emptyBalances();
+    for (const entry of this.entries) {
+      for (const line of entry.lines) {
+        totals[line.unit] = round(totals[line.unit] + line.credit - line.debit);
+      }
+    }
+    return totals;
+  }
+
+  private validate(entry: RewardLedgerEntry): RewardLedgerEntry {
+    for (const unit of REWARD_UNITS) {
+      const lines = entry.lines.filter(line => line.unit === unit);
+      const debits = lines.reduce((sum, line) => sum + Math.round(line.debit * PRECISION), 0);
+      const credits = lines.reduce((sum, line) => sum + Math.round(line.credit * PRECISION), 0);
+      if (debits !== credits) {
+        throw new Error(`Unbalanced ${unit} lines in ledger entry ${entry.idempotencyKey}`);
+      }
+    }
+    return entry;
+  }
+}
+
+// Export singleton instance
+export const rewardLedger = new RewardLedger();
@@ -1,8 +1,9 @@
-import { Router } from 'express'
+import { Router, Request, Response } from 'express'
 import { asyncHandler } from '../../middleware/errorHandler'
-import { enhancedRAGEngine } from '../../agents/archive/enhanced-rag-engine'
+import { enhancedRAGEngine, RAGQuery } from '../../agents/archive/enhanced-rag-engine'
 import { documentProcessor } from '../../agents/archive/document-processor'
-import { retrievalSystem } from '../../agents/archive/retrieval-system'
+import { retrievalSystem, SearchResult } from '../../agents/archive/retrieval-system'
+import { hybridRetriever, HybridExplanation } from '../../agents/archive/hybrid-retriever'
 import { dataValidator } from '../../utils/data-validator'
 import { logger } from '../../utils/logger'
 
@@ -76,7 +77,7 @@ router.post('/process', asyncHandler(async (req, res) => {
 
     // Process document
     const processedDocument = await documentProcessor.processDocument(
-      content,
+      Buffer.from(content, 'utf-8'),
       metadata || {}
     )
     
@@ -113,7 +114,9 @@ router.post('/query', asyncHandler(async (req, res) => {
       filters = {}, 
       includeCrossSession = false,
       maxResults = 10,
-      synthesisMode = 'summary'
+      synthesisMode = 'summary',
+      rerank,
+      stream = false
     } = req.body
 
     if (!query || !sessionId || !userContext) {
@@ -130,7 +133,12 @@ router.post('/query', asyncHandler(async (req, res) => {
       filters,
       includeCrossSession,
       maxResults,
-      synthesisMode
+      synthesisMode,
+      rerank: rerank === undefined ? undefined : rerank !== false
+    }
+
+    if (stream === true || req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream') {
+      return streamQuery(req, res, ragQuery)
     }
 
     const response = await enhancedRAGEngine.processQuery(ragQuery)
@@ -150,6 +158,69 @@ router.post('/query', asyncHandler(async (req, res) => {
   }
 }))
 
+/**
+ * Server-sent events mode for /query: `sources`, then `chunk` per token batch,
+ * then `complete` (or `error`). Flushes after every frame because the app
+ * runs behind compression().
+ */
+async function streamQuery(req: Request, res: Response, ragQuery: RAGQuery) {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  let clientClosed = false
+  req.on('close', () => {
+    clientClosed = true
+  })
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    // Typed by @types/compression; absent when compression() is not mounted
+    res.flush?.()
+  }
+
+  try {
+    for await (const event of enhancedRAGEngine.processQueryStream(ragQuery)) {
+      if (clientClosed) {
+        logger.info(`Client closed archive stream for session ${ragQuery.sessionId}`)
+        return
+      }
+
+      switch (event.type) {
+        case 'sources':
+          send('sources', { sources: event.sources })
+          break
+        case 'chunk':
+          send('chunk', { content: event.content })
+          break
+        case 'complete':
+          send('complete', {
+            response: event.response,
+            citations: event.citations,
+            metadata: event.metadata,
+            insights: event.insights,
+            recommendations: event.recommendations,
+            timestamp: new Date().toISOString()
+          })
+          break
+      }
+    }
+  } catch (error) {
+    logger.error('Streaming RAG query failed:', error)
+    if (!clientClosed) {
+      send('error', {
+        error: 'Query processing failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  } finally {
+    res.end()
+  }
+}
+
 router.get('/search', asyncHandler(async (req, res) => {
   try {
     const { 
@@ -158,7 +229,11 @@ router.get('/search', asyncHandler(async (req, res) => {
       privacyLevel = 'selective',
       limit = 10,
       documentType,
-      qualityThreshold
+      qualityThreshold,
+      mode = 'hybrid',
+      explain,
+      keywordWeight,
+      vectorWeight
     } = req.query
 
     if (!query || !sessionId) {
@@ -168,6 +243,13 @@ router.get('/search', asyncHandler(async (req, res) => {
       })
     }
 
+    if (!['hybrid', 'vector', 'keyword'].includes(mode as string)) {
+      return res.status(400).json({
+        success: false,
+        error: 'mode must be one of hybrid, vector, keyword'
+      })
+    }
+
     const filters = {
       sessionId: sessionId as string,
       privacyLevel: privacyLevel as any,
@@ -183,11 +265,26 @@ router.get('/search', asyncHandler(async (req, res) => {
       accessRights: []
     }
 
-    const results = await retrievalSystem.searchSimilar(
-      query as string,
-      filters,
-      parseInt(limit as string)
-    )
+    let results: SearchResult[]
+    const explanations = new Map<string, HybridExplanation>()
+    if (mode === 'vector') {
+      results = await retrievalSystem.searchSimilar(query as string, filters, parseInt(limit as string))
+    } else if (mode === 'keyword') {
+      results = await retrievalSystem.searchFullText(query as string, filters, parseInt(limit as string))
+    } else {
+      const hybridResults = await hybridRetriever.search(query as string, filters, {
+        limit: parseInt(limit as string),
+        explain: explain === 'true',
+        weights: {
+          keyword: keywordWeight !== undefined ? parseFloat(keywordWeight as string) : undefined,
+          vector: vectorWeight !== undefined ? parseFloat(vectorWeight as string) : undefined
+        }
+      })
+      hybridResults.forEach(result => {
+        if (result.explanation) explanations.set(result.id, result.explanation)
+      })
+      results = hybridResults
+    }
 
     const rankedResults = await retrievalSystem.rankResults(results)
     const filteredResults = await retrievalSystem.applyPrivacyFilters(rankedResults, userContext)
@@ -195,13 +292,15 @@ router.get('/search', asyncHandler(async (req, res) => {
     return res.json({
       success: true,
       query: query as string,
+      mode,
       results: filteredResults.map(result => ({
         id: result.id,
         title: result.document?.title || 'Untitled',
         content: result.content,
         score: result.finalScore,
         accessLevel: result.accessLevel,
-        metadata: result.metadata
+        metadata: result.metadata,
+        ...(explanations.has(result.id) ? { explanation: explanations.get(result.id) } : {})
       })),
       total: filteredResults.length,
       timestamp: new Date().toISOString()
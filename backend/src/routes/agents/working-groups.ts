@@ -5,7 +5,9 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { authMiddleware, requireWorkingGroupChair } from '../../middleware/auth';
 import { workingGroupManager, WorkingGroup, DocumentUpload } from '../../agents/working-groups/working-group-manager';
+import { formatFromFileName, SUPPORTED_MIME_TYPES } from '../../agents/archive/extractors';
 import { logger } from '../../utils/logger';
 
 const router = Router();
@@ -17,13 +19,12 @@ const upload = multer({
     fileSize: 100 * 1024 * 1024, // 100MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['application/pdf', 'text/plain', 'text/markdown', 
-                         'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-                         'text/html'];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Browsers often send .md and .csv as application/octet-stream, so a
+    // supported extension is accepted too; the extractor checks the bytes
+    if (SUPPORTED_MIME_TYPES.includes(file.mimetype) || formatFromFileName(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF, TXT, MD, DOCX, and HTML files are allowed.'));
+      cb(new Error('Invalid file type. Only PDF, TXT, MD, DOCX, HTML and CSV files are allowed.'));
     }
   }
 });
@@ -176,6 +177,15 @@ router.post('/:workingGroupId/upload', upload.single('document'), asyncHandler(a
       }
     );
 
+    const extractionErrors = documentUpload.processingResults.extraction.errors;
+    if (extractionErrors.length > 0) {
+      return res.status(422).json({
+        error: 'Document text extraction failed',
+        details: extractionErrors.join('; '),
+        documentUpload
+      });
+    }
+
     return res.json({
       success: true,
       documentUpload,
@@ -313,7 +323,7 @@ router.post('/:workingGroupId/query', asyncHandler(async (req, res) => {
 /**
  * Update working group configuration
  */
-router.put('/:workingGroupId/config', asyncHandler(async (req, res) => {
+router.put('/:workingGroupId/config', authMiddleware, requireWorkingGroupChair(), asyncHandler(async (req, res) => {
   const { workingGroupId } = req.params;
   const { config } = req.body;
 
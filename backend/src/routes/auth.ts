@@ -3,77 +3,251 @@
 // =====================================
 
 import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { authService, UserRole, USER_ROLES } from '../services/auth-service';
+import { agentDIDManager } from '../toip/agent-did-manager';
+import { bginASPManager } from '../privacy-pools/asp-manager';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
-// Mock authentication for MVP
+// Challenge issuance is unauthenticated and each one is held until it expires
+const challengeLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  message: 'Too many DID login challenges from this IP'
+});
+
+// Each attempt resolves the DID, which for did:web is an outbound fetch
+const didVerifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many DID login attempts from this IP'
+});
+
 router.post('/login', asyncHandler(async (req, res) => {
   const { email, password } = req.body;
-  
-  // Mock authentication - in production, validate against database
-  if (email && password) {
-    const token = 'mock-jwt-token-' + Date.now();
-    
-    res.json({
-      success: true,
-      token,
-      user: {
-        id: '1',
-        email,
-        name: 'Demo User',
-        role: 'participant'
-      }
-    });
-  } else {
-    res.status(400).json({
+
+  if (!email || !password) {
+    return res.status(400).json({
       success: false,
       error: 'Email and password are required'
     });
   }
+
+  const user = await authService.authenticate(email, password);
+  if (!user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid email or password'
+    });
+  }
+
+  return res.json({
+    success: true,
+    ...authService.issueTokens(user),
+    user
+  });
 }));
 
 router.post('/register', asyncHandler(async (req, res) => {
   const { email, password, name } = req.body;
-  
-  // Mock registration - in production, create user in database
-  if (email && password && name) {
-    res.json({
+
+  if (!email || !password || !name) {
+    return res.status(400).json({
+      success: false,
+      error: 'Email, password, and name are required'
+    });
+  }
+
+  try {
+    const user = await authService.register(email, password, name);
+
+    return res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      user: {
-        id: '1',
-        email,
-        name,
-        role: 'participant'
-      }
+      ...authService.issueTokens(user),
+      user
     });
-  } else {
-    res.status(400).json({
+  } catch (error) {
+    return res.status(400).json({
       success: false,
-      error: 'Email, password, and name are required'
+      error: error instanceof Error ? error.message : 'Registration failed'
+    });
+  }
+}));
+
+/**
+ * DID login, step 1: issue a login message for the DID to sign
+ */
+router.post('/did/challenge', challengeLimiter, asyncHandler(async (req, res) => {
+  const { did } = req.body;
+
+  if (!did || typeof did !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'did is required'
+    });
+  }
+
+  try {
+    const challenge = agentDIDManager.createAuthChallenge(did);
+
+    return res.json({
+      success: true,
+      did: challenge.did,
+      nonce: challenge.nonce,
+      domain: challenge.domain,
+      issuedAt: challenge.issuedAt.toISOString(),
+      expiresAt: challenge.expiresAt.toISOString(),
+      message: challenge.message,
+      instructions: 'Sign the UTF-8 bytes of message with the DID\'s Ed25519 key and POST the nonce and base64url signature to /api/auth/did/verify'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create challenge'
     });
   }
 }));
 
-router.post('/logout', asyncHandler(async (req, res) => {
+/**
+ * DID login, step 2: verify the signed challenge message and issue DID-bound tokens
+ */
+router.post('/did/verify', didVerifyLimiter, asyncHandler(async (req, res) => {
+  const { did, nonce, signature } = req.body;
+
+  if (!did || !nonce || !signature) {
+    return res.status(400).json({
+      success: false,
+      error: 'did, nonce, and signature are required'
+    });
+  }
+
+  const result = await agentDIDManager.verifyAuthChallenge(did, nonce, signature);
+  if (!result.verified) {
+    logger.warn(`DID login failed for ${did}: ${result.reason}`);
+    return res.status(401).json({
+      success: false,
+      error: 'DID authentication failed',
+      reason: result.reason
+    });
+  }
+
+  const user = await authService.loginWithDID(did);
+  if (!user) {
+    return res.status(409).json({
+      success: false,
+      error: 'This DID is bound to an account that signs in with a password'
+    });
+  }
+  await bginASPManager.linkAuthenticatedDID(user.id, did);
+
+  return res.json({
+    success: true,
+    ...authService.issueTokens(user),
+    user
+  });
+}));
+
+router.post('/refresh', asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(400).json({
+      success: false,
+      error: 'refreshToken is required'
+    });
+  }
+
+  try {
+    const { user, tokens } = await authService.refresh(refreshToken);
+
+    return res.json({
+      success: true,
+      ...tokens,
+      user
+    });
+  } catch (error) {
+    logger.warn('Token refresh failed:', error instanceof Error ? error.message : error);
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid refresh token'
+    });
+  }
+}));
+
+router.post('/logout', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { refreshToken } = req.body;
+
+  await authService.revokeToken(req.token!);
+
+  // Revoke the paired refresh token too, but only if it belongs to this user
+  if (refreshToken) {
+    try {
+      const payload = await authService.verifyToken(refreshToken, 'refresh');
+      if (payload.sub === req.user!.id) {
+        await authService.revokeToken(payload);
+      }
+    } catch (error) {
+      // Already expired or revoked
+    }
+  }
+
   res.json({
     success: true,
     message: 'Logged out successfully'
   });
 }));
 
-router.get('/me', asyncHandler(async (req, res) => {
-  // Mock user info - in production, validate JWT token
-  res.json({
+router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await authService.getUser(req.user!.id, { email: req.user!.email, did: req.user!.did });
+
+  if (!user) {
+    return res.status(404).json({
+      success: false,
+      error: 'User not found'
+    });
+  }
+
+  return res.json({
     success: true,
-    user: {
-      id: '1',
-      email: 'demo@bgin.org',
-      name: 'Demo User',
-      role: 'participant'
-    }
+    user
+  });
+}));
+
+router.put('/users/:participantHash/role', authMiddleware, requireRole('admin'), asyncHandler(async (req, res) => {
+  const { role, workingGroups = [] } = req.body;
+
+  if (!USER_ROLES.includes(role)) {
+    return res.status(400).json({
+      success: false,
+      error: `role must be one of: ${USER_ROLES.join(', ')}`
+    });
+  }
+
+  if (!Array.isArray(workingGroups)) {
+    return res.status(400).json({
+      success: false,
+      error: 'workingGroups must be an array'
+    });
+  }
+
+  const updated = await authService.updateRole(req.params.participantHash, role as UserRole, workingGroups);
+  if (!updated) {
+    return res.status(404).json({
+      success: false,
+      error: 'User not found'
+    });
+  }
+
+  // Existing tokens keep the old role until they are refreshed
+  return res.json({
+    success: true,
+    message: 'Role updated; it takes effect on the next token refresh'
   });
 }));
 
-export default router;
\ No newline at end of file
+export default router;
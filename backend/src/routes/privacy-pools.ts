@@ -4,27 +4,59 @@
 // =====================================
 
 import { Router, Request, Response } from 'express';
-import { bginASPManager, ResearchContribution, PrivacyPoolDeposit } from '../privacy-pools/asp-manager';
+import { bginASPManager, ResearchContribution, TrustEvidence } from '../privacy-pools/asp-manager';
+import { generateDepositSecrets, isFieldElement } from '../privacy-pools/commitments';
+import { peerReviewManager, REVIEW_RUBRIC, RUBRIC_MIN, RUBRIC_MAX } from '../privacy-pools/peer-review';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../middleware/auth';
 
 const router = Router();
 
+const CONTRIBUTION_TYPES: ResearchContribution['contributionType'][] = ['document', 'analysis', 'collaboration', 'insight'];
+const ASSET_TYPES = ['ETH', 'USDC', 'DAI'];
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const AMOUNT_PATTERN = /^[1-9]\d*$/;
+const EVIDENCE_TYPES: TrustEvidence['type'][] = ['successful-collaboration', 'verified-claim', 'peer-endorsement'];
+
+function isTrustEvidence(item: any): boolean {
+  return !!item && typeof item === 'object' &&
+    EVIDENCE_TYPES.includes(item.type) &&
+    typeof item.description === 'string' && item.description.length <= 1000 &&
+    typeof item.confidence === 'number' && item.confidence >= 0 && item.confidence <= 1 &&
+    (item.verifiableCredential === undefined || typeof item.verifiableCredential === 'string');
+}
+
 /**
  * Add user to trust network
  */
-router.post('/trust-network/users', async (req: Request, res: Response) => {
+router.post('/trust-network/users', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { userId, did } = req.body;
-    
-    if (!userId || !did) {
-      return res.status(400).json({
-        error: 'Missing required fields: userId, did'
+    const { did } = req.body;
+    const user = req.user!;
+
+    // The node's DID must be one the caller has proven control of via DID login
+    if (!user.did) {
+      return res.status(403).json({
+        error: 'Log in with a DID (/api/auth/did/challenge) before joining the trust network'
+      });
+    }
+
+    if (did && did !== user.did) {
+      return res.status(403).json({
+        error: 'did does not match the authenticated DID'
       });
     }
 
-    await bginASPManager.addUserToTrustNetwork(userId, did);
+    if (bginASPManager.getTrustNetworkNode(user.id)) {
+      return res.status(409).json({
+        error: 'User is already in the trust network'
+      });
+    }
+
+    await bginASPManager.addUserToTrustNetwork(user.id, user.did);
     
     return res.status(201).json({
       success: true,
+      data: { userId: user.id, did: user.did },
       message: 'User added to trust network successfully'
     });
   } catch (error) {
@@ -38,21 +70,49 @@ router.post('/trust-network/users', async (req: Request, res: Response) => {
 /**
  * Add research contribution
  */
-router.post('/contributions', async (req: Request, res: Response) => {
+router.post('/contributions', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const contributionData = req.body;
-    
-    if (!contributionData.contributorId || !contributionData.contributionType) {
+    const { contributionType, verifiableCredential, content } = req.body;
+
+    if (!contributionType) {
+      return res.status(400).json({
+        error: 'Missing required field: contributionType'
+      });
+    }
+
+    if (!CONTRIBUTION_TYPES.includes(contributionType)) {
       return res.status(400).json({
-        error: 'Missing required fields: contributorId, contributionType'
+        error: `contributionType must be one of: ${CONTRIBUTION_TYPES.join(', ')}`
       });
     }
 
+    // Contributions are always filed as the caller; scores are derived server-side
+    const contributionData = {
+      contributorId: req.user!.id,
+      contributionType,
+      verifiableCredential,
+      content
+    };
     const contribution = await bginASPManager.addResearchContribution(contributionData);
+    // Reviews are blind, so only the number of reviewers is disclosed
+    let assignments;
+    try {
+      assignments = await peerReviewManager.assignReviewers(contribution.id, { assignedBy: 'system' });
+    } catch (error) {
+      // A contribution that cannot be reviewed would stay pending forever
+      const reason = error instanceof Error ? error.message : 'Reviewers could not be assigned';
+      await bginASPManager.retractContribution(contribution.id, reason, 'system');
+      return res.status(409).json({
+        error: reason
+      });
+    }
     
     return res.status(201).json({
       success: true,
-      data: contribution
+      data: {
+        ...contribution,
+        reviewersAssigned: assignments.length
+      }
     });
   } catch (error) {
     console.error('Error adding research contribution:', error);
@@ -162,23 +222,57 @@ router.get('/trust-network/users/:userId/privacy-pool-access', async (req: Reque
 });
 
 /**
- * Evaluate privacy pool deposit
+ * Preview the ASP review of a deposit by the authenticated user. Nothing is
+ * stored; only deposits registered through POST /deposits enter the
+ * association set.
  */
-router.post('/deposits/evaluate', async (req: Request, res: Response) => {
+router.post('/deposits/evaluate', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const depositData = req.body;
-    
-    if (!depositData.depositorId || !depositData.amount || !depositData.assetType) {
+    const { amount, assetType, depositorAddress } = req.body;
+    const depositorId = req.user!.id;
+
+    if (!amount || !assetType) {
       return res.status(400).json({
-        error: 'Missing required fields: depositorId, amount, assetType'
+        error: 'Missing required fields: amount, assetType'
       });
     }
 
-    const deposit = await bginASPManager.evaluateDeposit(depositData);
-    
-    return res.status(201).json({
+    if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount)) {
+      return res.status(400).json({
+        error: 'amount must be a positive integer string in base units'
+      });
+    }
+
+    if (!ASSET_TYPES.includes(assetType)) {
+      return res.status(400).json({
+        error: `assetType must be one of: ${ASSET_TYPES.join(', ')}`
+      });
+    }
+
+    if (depositorAddress !== undefined && (typeof depositorAddress !== 'string' || !ADDRESS_PATTERN.test(depositorAddress))) {
+      return res.status(400).json({
+        error: 'depositorAddress must be a 0x-prefixed 20-byte hex address'
+      });
+    }
+
+    const node = bginASPManager.getTrustNetworkNode(depositorId);
+    if (!node) {
+      return res.status(404).json({
+        error: 'User not found in trust network'
+      });
+    }
+
+    if (!node.aspEligibility.eligible) {
+      return res.status(403).json({
+        error: 'User not eligible for privacy pool deposits'
+      });
+    }
+
+    const evaluation = await bginASPManager.evaluateDeposit({ depositorId, depositorAddress, amount, assetType });
+
+    return res.json({
       success: true,
-      data: deposit
+      data: evaluation
     });
   } catch (error) {
     console.error('Error evaluating deposit:', error);
@@ -199,7 +293,9 @@ router.get('/association-set', async (req: Request, res: Response) => {
       success: true,
       data: {
         commitments: associationSet,
-        count: associationSet.length
+        count: associationSet.length,
+        epoch: bginASPManager.getCurrentEpoch(),
+        root: (await bginASPManager.getAssociationSetRoot())?.root
       }
     });
   } catch (error) {
@@ -213,18 +309,17 @@ router.get('/association-set', async (req: Request, res: Response) => {
 /**
  * Update association set
  */
-router.post('/association-set/update', async (req: Request, res: Response) => {
+router.post('/association-set/update', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    await bginASPManager.updateAssociationSet();
-    
-    const associationSet = await bginASPManager.getAssociationSet();
+    const snapshot = await bginASPManager.updateAssociationSet(req.user!.id);
     
     return res.json({
       success: true,
       data: {
-        commitments: associationSet,
-        count: associationSet.length,
-        message: 'Association set updated successfully'
+        commitments: snapshot.commitments,
+        count: snapshot.size,
+        epoch: snapshot.epoch,
+        message: `Association set updated and epoch ${snapshot.epoch} sealed`
       }
     });
   } catch (error) {
@@ -235,6 +330,232 @@ router.post('/association-set/update', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * List sealed association set epochs, newest first
+ */
+router.get('/association-set/epochs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const epochs = await bginASPManager.getAssociationSetEpochs(limit, offset);
+
+    return res.json({
+      success: true,
+      data: {
+        currentEpoch: bginASPManager.getCurrentEpoch(),
+        epochs
+      }
+    });
+  } catch (error) {
+    console.error('Error listing association set epochs:', error);
+    return res.status(500).json({
+      error: 'Failed to list association set epochs'
+    });
+  }
+});
+
+/**
+ * Get the association set as sealed at the end of an epoch
+ */
+router.get('/association-set/epochs/:epoch', async (req: Request, res: Response) => {
+  try {
+    const epoch = Number(req.params.epoch);
+    if (!Number.isInteger(epoch) || epoch < 1) {
+      return res.status(400).json({
+        error: 'epoch must be a positive integer'
+      });
+    }
+
+    const snapshot = await bginASPManager.getAssociationSetAtEpoch(epoch);
+    if (!snapshot) {
+      return res.status(404).json({
+        error: epoch >= bginASPManager.getCurrentEpoch()
+          ? `Epoch ${epoch} has not been sealed yet`
+          : 'Epoch not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        epoch: snapshot.epoch,
+        commitments: snapshot.commitments,
+        count: snapshot.size,
+        sealedAt: snapshot.sealedAt
+      }
+    });
+  } catch (error) {
+    console.error('Error getting association set epoch:', error);
+    return res.status(500).json({
+      error: 'Failed to get association set epoch'
+    });
+  }
+});
+
+/**
+ * Get the append-only history of association set additions and removals
+ */
+router.get('/association-set/history', async (req: Request, res: Response) => {
+  try {
+    const parseEpoch = (value: unknown) => value !== undefined ? Number(value) : undefined;
+    const fromEpoch = parseEpoch(req.query.fromEpoch);
+    const toEpoch = parseEpoch(req.query.toEpoch);
+
+    if ((fromEpoch !== undefined && !Number.isInteger(fromEpoch)) || (toEpoch !== undefined && !Number.isInteger(toEpoch))) {
+      return res.status(400).json({
+        error: 'fromEpoch and toEpoch must be integers'
+      });
+    }
+
+    const events = await bginASPManager.getAssociationSetHistory({
+      fromEpoch,
+      toEpoch,
+      commitment: req.query.commitment as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 500, 5000)
+    });
+
+    return res.json({
+      success: true,
+      data: events
+    });
+  } catch (error) {
+    console.error('Error getting association set history:', error);
+    return res.status(500).json({
+      error: 'Failed to get association set history'
+    });
+  }
+});
+
+/**
+ * Get the published Merkle root of the association set (current, or by version/epoch)
+ */
+router.get('/association-set/root', async (req: Request, res: Response) => {
+  try {
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+    const epoch = req.query.epoch !== undefined ? Number(req.query.epoch) : undefined;
+
+    if ((version !== undefined && !Number.isInteger(version)) || (epoch !== undefined && !Number.isInteger(epoch))) {
+      return res.status(400).json({
+        error: 'version and epoch must be integers'
+      });
+    }
+
+    const root = epoch !== undefined
+      ? await bginASPManager.getAssociationSetRootAtEpoch(epoch)
+      : await bginASPManager.getAssociationSetRoot(version);
+
+    if (!root) {
+      return res.status(404).json({
+        error: 'Root not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...root,
+        hashFunction: 'keccak256'
+      }
+    });
+  } catch (error) {
+    console.error('Error getting association set root:', error);
+    return res.status(500).json({
+      error: 'Failed to get association set root'
+    });
+  }
+});
+
+/**
+ * List published root versions, newest first
+ */
+router.get('/association-set/roots', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const roots = await bginASPManager.getAssociationSetRoots(limit, offset);
+
+    return res.json({
+      success: true,
+      data: roots
+    });
+  } catch (error) {
+    console.error('Error listing association set roots:', error);
+    return res.status(500).json({
+      error: 'Failed to list association set roots'
+    });
+  }
+});
+
+/**
+ * Get an inclusion proof (or exclusion proof if absent) for a commitment
+ */
+router.get('/association-set/proof/:commitment', async (req: Request, res: Response) => {
+  try {
+    const { commitment } = req.params;
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({
+        error: 'version must be an integer'
+      });
+    }
+
+    const result = await bginASPManager.getMerkleProof(commitment, version);
+    if (!result) {
+      return res.status(404).json({
+        error: 'Root version not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        rootVersion: result.root.version,
+        epoch: result.root.epoch,
+        included: result.proof.type === 'inclusion',
+        proof: result.proof
+      }
+    });
+  } catch (error) {
+    console.error('Error building association set proof:', error);
+    return res.status(500).json({
+      error: 'Failed to build association set proof'
+    });
+  }
+});
+
+/**
+ * Verify an inclusion or exclusion proof against a published root
+ */
+router.post('/association-set/proof/verify', async (req: Request, res: Response) => {
+  try {
+    const { proof, root } = req.body;
+
+    if (!proof || typeof proof !== 'object') {
+      return res.status(400).json({
+        error: 'Missing required field: proof'
+      });
+    }
+
+    const result = await bginASPManager.verifyMerkleProof(proof, root);
+
+    return res.json({
+      success: true,
+      data: {
+        ...result,
+        type: proof.type
+      }
+    });
+  } catch (error) {
+    console.error('Error verifying association set proof:', error);
+    return res.status(500).json({
+      error: 'Failed to verify association set proof'
+    });
+  }
+});
+
 /**
  * Get approved deposits
  */
@@ -255,22 +576,736 @@ router.get('/deposits/approved', async (req: Request, res: Response) => {
 });
 
 /**
- * Get user rewards
+ * Generate a nullifier, secret and the precommitment to deposit with. Nothing
+ * is stored; the caller must keep the secrets to ragequit or withdraw.
  */
-router.get('/trust-network/users/:userId/rewards', async (req: Request, res: Response) => {
+router.post('/commitments', async (req: Request, res: Response) => {
   try {
-    const { userId } = req.params;
-    
-    const rewards = bginASPManager.getUserRewards(userId);
-    
-    return res.json({
+    return res.status(201).json({
       success: true,
-      data: rewards
+      data: generateDepositSecrets()
     });
   } catch (error) {
-    console.error('Error getting user rewards:', error);
+    console.error('Error generating commitment secrets:', error);
     return res.status(500).json({
-      error: 'Failed to get user rewards'
+      error: 'Failed to generate commitment secrets'
+    });
+  }
+});
+
+/**
+ * Register a deposit on the pool ledger and run the ASP review
+ */
+router.post('/deposits', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { amount, assetType, precommitment, depositorAddress } = req.body;
+    const depositorId = req.user!.id;
+
+    if (!amount || !assetType || !precommitment || !depositorAddress) {
+      return res.status(400).json({
+        error: 'Missing required fields: amount, assetType, precommitment, depositorAddress'
+      });
+    }
+
+    if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount)) {
+      return res.status(400).json({
+        error: 'amount must be a positive integer string in base units'
+      });
+    }
+
+    if (!ASSET_TYPES.includes(assetType)) {
+      return res.status(400).json({
+        error: `assetType must be one of: ${ASSET_TYPES.join(', ')}`
+      });
+    }
+
+    if (!isFieldElement(precommitment)) {
+      return res.status(400).json({
+        error: 'precommitment must be a field element'
+      });
+    }
+
+    if (typeof depositorAddress !== 'string' || !ADDRESS_PATTERN.test(depositorAddress)) {
+      return res.status(400).json({
+        error: 'depositorAddress must be a 0x-prefixed 20-byte hex address'
+      });
+    }
+
+    const node = bginASPManager.getTrustNetworkNode(depositorId);
+    if (!node) {
+      return res.status(404).json({
+        error: 'User not found in trust network'
+      });
+    }
+
+    if (!node.aspEligibility.eligible) {
+      return res.status(403).json({
+        error: 'User not eligible for privacy pool deposits'
+      });
+    }
+
+    const deposit = await bginASPManager.registerDeposit(
+      { depositorId, depositorAddress, amount, assetType, precommitment },
+      depositorId
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: deposit
+    });
+  } catch (error) {
+    console.error('Error registering deposit:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to register deposit'
+    });
+  }
+});
+
+/**
+ * Get a deposit (depositor or admin only)
+ */
+router.get('/deposits/:depositId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deposit = bginASPManager.getDeposit(req.params.depositId);
+
+    if (!deposit || (deposit.depositorId !== req.user!.id && req.user!.role !== 'admin')) {
+      return res.status(404).json({
+        error: 'Deposit not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: deposit
+    });
+  } catch (error) {
+    console.error('Error getting deposit:', error);
+    return res.status(500).json({
+      error: 'Failed to get deposit'
+    });
+  }
+});
+
+/**
+ * Get the state transitions of a deposit (depositor or admin only)
+ */
+router.get('/deposits/:depositId/audit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deposit = bginASPManager.getDeposit(req.params.depositId);
+
+    if (!deposit || (deposit.depositorId !== req.user!.id && req.user!.role !== 'admin')) {
+      return res.status(404).json({
+        error: 'Deposit not found'
+      });
+    }
+
+    const transitions = await bginASPManager.getDepositAuditTrail(deposit.depositId);
+
+    return res.json({
+      success: true,
+      data: {
+        depositId: deposit.depositId,
+        status: deposit.status,
+        transitions
+      }
+    });
+  } catch (error) {
+    console.error('Error getting deposit audit trail:', error);
+    return res.status(500).json({
+      error: 'Failed to get deposit audit trail'
+    });
+  }
+});
+
+/**
+ * Exit a rejected deposit, returning the funds to the depositor
+ */
+router.post('/deposits/:depositId/ragequit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { nullifier, secret } = req.body;
+    const deposit = bginASPManager.getDeposit(req.params.depositId);
+
+    if (!isFieldElement(nullifier) || !isFieldElement(secret)) {
+      return res.status(400).json({
+        error: 'nullifier and secret must be field elements'
+      });
+    }
+
+    if (!deposit || deposit.depositorId !== req.user!.id) {
+      return res.status(404).json({
+        error: 'Deposit not found'
+      });
+    }
+
+    if (!deposit.precommitment) {
+      return res.status(409).json({
+        error: 'Deposit was never registered on the pool ledger'
+      });
+    }
+
+    if (deposit.status !== 'rejected') {
+      return res.status(409).json({
+        error: `Only rejected deposits can ragequit (status: ${deposit.status})`
+      });
+    }
+
+    const exited = await bginASPManager.ragequitDeposit(deposit.depositId, { nullifier, secret }, req.user!.id);
+
+    return res.json({
+      success: true,
+      data: exited
+    });
+  } catch (error) {
+    console.error('Error processing ragequit:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to process ragequit'
+    });
+  }
+});
+
+/**
+ * Request a withdrawal against a published association set root. Rejected
+ * requests are recorded and returned with status 'rejected'.
+ */
+router.post('/withdrawals', async (req: Request, res: Response) => {
+  try {
+    const { assetType, amount, label, nullifier, secret, recipient, associationRoot } = req.body;
+
+    if (!assetType || !amount || !label || !nullifier || !secret || !recipient || !associationRoot) {
+      return res.status(400).json({
+        error: 'Missing required fields: assetType, amount, label, nullifier, secret, recipient, associationRoot'
+      });
+    }
+
+    if (!ASSET_TYPES.includes(assetType)) {
+      return res.status(400).json({
+        error: `assetType must be one of: ${ASSET_TYPES.join(', ')}`
+      });
+    }
+
+    if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount)) {
+      return res.status(400).json({
+        error: 'amount must be a positive integer string in base units'
+      });
+    }
+
+    if (![label, nullifier, secret].every(isFieldElement)) {
+      return res.status(400).json({
+        error: 'label, nullifier and secret must be field elements'
+      });
+    }
+
+    if (!ADDRESS_PATTERN.test(recipient)) {
+      return res.status(400).json({
+        error: 'recipient must be a 0x-prefixed 20-byte hex address'
+      });
+    }
+
+    if (typeof associationRoot !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(associationRoot)) {
+      return res.status(400).json({
+        error: 'associationRoot must be a 0x-prefixed 32-byte hex root'
+      });
+    }
+
+    const withdrawal = await bginASPManager.requestWithdrawal({
+      assetType,
+      amount,
+      label,
+      nullifier,
+      secret,
+      recipient,
+      associationRoot: associationRoot.toLowerCase()
+    });
+
+    return res.status(withdrawal.status === 'completed' ? 201 : 422).json({
+      success: withdrawal.status === 'completed',
+      data: withdrawal
+    });
+  } catch (error) {
+    console.error('Error processing withdrawal:', error);
+    return res.status(500).json({
+      error: 'Failed to process withdrawal'
+    });
+  }
+});
+
+/**
+ * List withdrawals, newest first
+ */
+router.get('/withdrawals', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const withdrawals = await bginASPManager.getWithdrawals(limit, offset);
+
+    return res.json({
+      success: true,
+      data: withdrawals
+    });
+  } catch (error) {
+    console.error('Error listing withdrawals:', error);
+    return res.status(500).json({
+      error: 'Failed to list withdrawals'
+    });
+  }
+});
+
+/**
+ * Get a withdrawal with its state transitions
+ */
+router.get('/withdrawals/:withdrawalId', async (req: Request, res: Response) => {
+  try {
+    const withdrawal = await bginASPManager.getWithdrawal(req.params.withdrawalId);
+
+    if (!withdrawal) {
+      return res.status(404).json({
+        error: 'Withdrawal not found'
+      });
+    }
+
+    const transitions = await bginASPManager.getWithdrawalAuditTrail(withdrawal.withdrawalId);
+
+    return res.json({
+      success: true,
+      data: { ...withdrawal, transitions }
+    });
+  } catch (error) {
+    console.error('Error getting withdrawal:', error);
+    return res.status(500).json({
+      error: 'Failed to get withdrawal'
+    });
+  }
+});
+
+/**
+ * Get pool ledger status
+ */
+router.get('/ledger', async (req: Request, res: Response) => {
+  try {
+    const status = await bginASPManager.getLedgerStatus();
+
+    return res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Error getting ledger status:', error);
+    return res.status(500).json({
+      error: 'Failed to get ledger status'
+    });
+  }
+});
+
+/**
+ * Get user rewards
+ */
+router.get('/trust-network/users/:userId/rewards', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    
+    const rewards = bginASPManager.getUserRewards(userId);
+    
+    return res.json({
+      success: true,
+      data: rewards
+    });
+  } catch (error) {
+    console.error('Error getting user rewards:', error);
+    return res.status(500).json({
+      error: 'Failed to get user rewards'
+    });
+  }
+});
+
+/**
+ * Get a contributor's reward ledger statement: balances per unit and the
+ * entries behind them, newest first
+ */
+router.get('/trust-network/users/:userId/ledger', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    if (!bginASPManager.getTrustNetworkNode(userId)) {
+      return res.status(404).json({
+        error: 'User not found in trust network'
+      });
+    }
+
+    const statement = bginASPManager.getRewardStatement(userId, limit, offset);
+
+    return res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Error getting reward ledger statement:', error);
+    return res.status(500).json({
+      error: 'Failed to get reward ledger statement'
+    });
+  }
+});
+
+/**
+ * Retract a contribution (contributor or admin only), reversing its rewards
+ */
+router.post('/contributions/:contributionId/retract', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reason } = req.body;
+    const contribution = bginASPManager.findContribution(req.params.contributionId);
+
+    if (!reason || typeof reason !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required field: reason'
+      });
+    }
+
+    if (!contribution) {
+      return res.status(404).json({
+        error: 'Contribution not found'
+      });
+    }
+
+    if (contribution.contributorId !== req.user!.id && req.user!.role !== 'admin') {
+      return res.status(403).json({
+        error: 'Only the contributor or an admin can retract a contribution'
+      });
+    }
+
+    const result = await bginASPManager.retractContribution(contribution.id, reason, req.user!.id);
+
+    return res.json({
+      success: true,
+      data: {
+        contribution: result.contribution,
+        reversals: result.reversals,
+        balances: bginASPManager.getRewardBalances(contribution.contributorId)
+      }
+    });
+  } catch (error) {
+    console.error('Error retracting contribution:', error);
+    return res.status(500).json({
+      error: 'Failed to retract contribution'
+    });
+  }
+});
+
+/**
+ * Get the peer review rubric
+ */
+router.get('/reviews/rubric', async (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      criteria: REVIEW_RUBRIC,
+      scale: { min: RUBRIC_MIN, max: RUBRIC_MAX },
+      recommendations: ['accept', 'minor_revisions', 'major_revisions', 'reject']
+    }
+  });
+});
+
+/**
+ * Get reviews assigned to the authenticated user
+ */
+router.get('/reviews/assigned', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const reviews = peerReviewManager.getAssignedReviews(req.user!.id).map(review => ({
+      ...review,
+      contribution: bginASPManager.findContribution(review.contributionId)
+    }));
+
+    return res.json({
+      success: true,
+      data: reviews
+    });
+  } catch (error) {
+    console.error('Error getting assigned reviews:', error);
+    return res.status(500).json({
+      error: 'Failed to get assigned reviews'
+    });
+  }
+});
+
+/**
+ * Get pending contributions that have too few reviewers to complete (admin only)
+ */
+router.get('/reviews/escalations', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      data: peerReviewManager.getContributionsAwaitingReviewers()
+    });
+  } catch (error) {
+    console.error('Error getting review escalations:', error);
+    return res.status(500).json({
+      error: 'Failed to get review escalations'
+    });
+  }
+});
+
+/**
+ * Submit a review (assigned reviewer only)
+ */
+router.post('/reviews/:reviewId/submit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { scores, recommendation, comments } = req.body;
+    const review = peerReviewManager.getReview(req.params.reviewId);
+
+    if (!review) {
+      return res.status(404).json({
+        error: 'Review not found'
+      });
+    }
+
+    if (review.reviewerId !== req.user!.id) {
+      return res.status(403).json({
+        error: 'Only the assigned reviewer can submit this review'
+      });
+    }
+
+    if (!scores || typeof scores !== 'object' || !recommendation) {
+      return res.status(400).json({
+        error: 'Missing required fields: scores, recommendation'
+      });
+    }
+
+    try {
+      const result = await peerReviewManager.submitReview(review.id, { scores, recommendation, comments });
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return res.status(409).json({
+        error: error instanceof Error ? error.message : 'Review could not be submitted'
+      });
+    }
+  } catch (error) {
+    console.error('Error submitting review:', error);
+    return res.status(500).json({
+      error: 'Failed to submit review'
+    });
+  }
+});
+
+/**
+ * Decline a review assignment (assigned reviewer only)
+ */
+router.post('/reviews/:reviewId/decline', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reason, conflictOfInterest } = req.body;
+    const review = peerReviewManager.getReview(req.params.reviewId);
+
+    if (!review) {
+      return res.status(404).json({
+        error: 'Review not found'
+      });
+    }
+
+    if (review.reviewerId !== req.user!.id) {
+      return res.status(403).json({
+        error: 'Only the assigned reviewer can decline this review'
+      });
+    }
+
+    if (!reason || typeof reason !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required field: reason'
+      });
+    }
+
+    try {
+      const result = await peerReviewManager.declineReview(review.id, reason, conflictOfInterest === true);
+      return res.json({
+        success: true,
+        data: {
+          review: result.review,
+          replacementAssigned: !!result.replacement,
+          summary: result.summary
+        }
+      });
+    } catch (error) {
+      return res.status(409).json({
+        error: error instanceof Error ? error.message : 'Review could not be declined'
+      });
+    }
+  } catch (error) {
+    console.error('Error declining review:', error);
+    return res.status(500).json({
+      error: 'Failed to decline review'
+    });
+  }
+});
+
+/**
+ * Assign reviewers to a contribution (admin only)
+ */
+router.post('/contributions/:contributionId/reviewers', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reviewerIds, count } = req.body;
+
+    if (reviewerIds !== undefined && (!Array.isArray(reviewerIds) || reviewerIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({
+        error: 'reviewerIds must be an array of user IDs'
+      });
+    }
+
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      return res.status(400).json({
+        error: 'count must be a positive integer'
+      });
+    }
+
+    if (!bginASPManager.findContribution(req.params.contributionId)) {
+      return res.status(404).json({
+        error: 'Contribution not found'
+      });
+    }
+
+    try {
+      const assignments = await peerReviewManager.assignReviewers(req.params.contributionId, {
+        reviewerIds,
+        count,
+        assignedBy: req.user!.id
+      });
+      return res.status(201).json({
+        success: true,
+        data: assignments
+      });
+    } catch (error) {
+      return res.status(409).json({
+        error: error instanceof Error ? error.message : 'Reviewers could not be assigned'
+      });
+    }
+  } catch (error) {
+    console.error('Error assigning reviewers:', error);
+    return res.status(500).json({
+      error: 'Failed to assign reviewers'
+    });
+  }
+});
+
+/**
+ * Get the reviews of a contribution (contributor or admin only). Reviewer
+ * identities are only shown to admins.
+ */
+router.get('/contributions/:contributionId/reviews', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const contribution = bginASPManager.findContribution(req.params.contributionId);
+
+    if (!contribution) {
+      return res.status(404).json({
+        error: 'Contribution not found'
+      });
+    }
+
+    const isAdmin = req.user!.role === 'admin';
+    if (contribution.contributorId !== req.user!.id && !isAdmin) {
+      return res.status(403).json({
+        error: 'Only the contributor or an admin can view reviews'
+      });
+    }
+
+    const reviews = peerReviewManager.getReviewsForContribution(contribution.id)
+      .filter(review => isAdmin || review.status === 'submitted')
+      .map(review => isAdmin ? review : {
+        id: review.id,
+        status: review.status,
+        scores: review.scores,
+        recommendation: review.recommendation,
+        comments: review.comments,
+        respondedAt: review.respondedAt
+      });
+
+    return res.json({
+      success: true,
+      data: {
+        contributionId: contribution.id,
+        reviewStatus: contribution.reviewStatus,
+        qualityScore: contribution.qualityScore,
+        summary: contribution.reviewSummary && {
+          ...contribution.reviewSummary,
+          reviewerWeights: isAdmin ? contribution.reviewSummary.reviewerWeights : undefined
+        },
+        reviews
+      }
+    });
+  } catch (error) {
+    console.error('Error getting contribution reviews:', error);
+    return res.status(500).json({
+      error: 'Failed to get contribution reviews'
+    });
+  }
+});
+
+/**
+ * Record the authenticated member's trust in another member
+ */
+router.post('/trust-network/relationships', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { toUserId, relationshipType, trustScore, evidence } = req.body;
+
+    if (!toUserId || !relationshipType || trustScore === undefined) {
+      return res.status(400).json({
+        error: 'Missing required fields: toUserId, relationshipType, trustScore'
+      });
+    }
+
+    if (!['collaboration', 'verification', 'endorsement'].includes(relationshipType)) {
+      return res.status(400).json({
+        error: 'relationshipType must be one of: collaboration, verification, endorsement'
+      });
+    }
+
+    if (typeof trustScore !== 'number' || trustScore < 0 || trustScore > 1) {
+      return res.status(400).json({
+        error: 'trustScore must be a number between 0 and 1'
+      });
+    }
+
+    if (!bginASPManager.getTrustNetworkNode(req.user!.id) || !bginASPManager.getTrustNetworkNode(toUserId)) {
+      return res.status(404).json({
+        error: 'Both members must be in the trust network'
+      });
+    }
+
+    if (toUserId === req.user!.id) {
+      return res.status(400).json({
+        error: 'Members cannot trust themselves'
+      });
+    }
+
+    if (evidence !== undefined && (!Array.isArray(evidence) || !evidence.every(isTrustEvidence))) {
+      return res.status(400).json({
+        error: `evidence must be an array of { type (${EVIDENCE_TYPES.join(', ')}), description, confidence (0-1), verifiableCredential? }`
+      });
+    }
+
+    // Only the known evidence fields are stored; the timestamp is the server's
+    const relationship = await bginASPManager.recordTrustRelationship(
+      req.user!.id,
+      toUserId,
+      relationshipType,
+      trustScore,
+      (evidence || []).map((item: any): TrustEvidence => ({
+        type: item.type,
+        description: item.description,
+        confidence: item.confidence,
+        timestamp: new Date(),
+        ...(item.verifiableCredential !== undefined && { verifiableCredential: item.verifiableCredential })
+      }))
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: relationship
+    });
+  } catch (error) {
+    console.error('Error recording trust relationship:', error);
+    return res.status(500).json({
+      error: 'Failed to record trust relationship'
     });
   }
 });
@@ -288,6 +1323,7 @@ router.get('/status', async (req: Request, res: Response) => {
       data: {
         associationSetSize: associationSet.length,
         approvedDepositsCount: approvedDeposits.length,
+        rewardLedgerBalanced: Object.values(bginASPManager.getRewardLedgerTrialBalance()).every(total => total === 0),
         integrationStatus: 'active',
         lastUpdated: new Date().toISOString()
       }
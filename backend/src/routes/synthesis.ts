@@ -4,100 +4,150 @@
 
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
+import { synthesisPipeline, SynthesisAgent } from '../agents/coordination/synthesis-pipeline';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
+const VALID_AGENTS: SynthesisAgent[] = ['archive', 'codex', 'discourse'];
+
 // Multi-agent synthesis endpoints
 router.post('/collaborate', asyncHandler(async (req, res) => {
-  const { sessionId, agents, input, type } = req.body;
-  
-  // Simulate multi-agent collaboration
-  const collaboration = {
-    id: `collab_${Date.now()}`,
-    sessionId: sessionId || 'keynote',
-    participatingAgents: agents || ['archive', 'codex', 'discourse'],
-    inputData: input || {},
-    synthesisResult: {
-      summary: 'Multi-agent synthesis completed successfully',
-      insights: [
-        'Cross-referenced knowledge from archive',
-        'Applied policy framework from codex',
-        'Incorporated community consensus from discourse'
-      ],
-      confidence: 0.85,
-      quality: 'high'
-    },
-    confidenceScore: 0.85,
-    participantValidationCount: 0,
-    processingTimeMs: 1250,
-    qualityMetrics: {
-      accuracy: 0.92,
-      completeness: 0.88,
-      relevance: 0.91
-    },
-    createdAt: new Date().toISOString(),
-    completedAt: new Date().toISOString()
-  };
-  
-  res.json({
-    success: true,
-    collaboration,
-    message: 'Multi-agent collaboration completed successfully'
-  });
+  const { sessionId, agents, input, type, frameworkId, userContext } = req.body;
+  const question = req.body.question || (typeof input === 'string' ? input : input?.question);
+
+  if (!sessionId || !question) {
+    return res.status(400).json({
+      success: false,
+      error: 'sessionId and question are required'
+    });
+  }
+
+  if (agents !== undefined &&
+      (!Array.isArray(agents) || agents.some((agent: string) => !VALID_AGENTS.includes(agent as SynthesisAgent)))) {
+    return res.status(400).json({
+      success: false,
+      error: `agents must be an array containing only: ${VALID_AGENTS.join(', ')}`
+    });
+  }
+
+  if (!await synthesisPipeline.sessionExists(sessionId)) {
+    return res.status(404).json({
+      success: false,
+      error: `Session not found: ${sessionId}`
+    });
+  }
+
+  try {
+    const collaboration = await synthesisPipeline.collaborate({
+      sessionId,
+      question,
+      agents,
+      collaborationType: type,
+      frameworkId: frameworkId || input?.frameworkId,
+      userContext
+    });
+
+    return res.json({
+      success: true,
+      collaboration,
+      message: 'Multi-agent collaboration completed successfully'
+    });
+  } catch (error) {
+    logger.error('Multi-agent collaboration failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Multi-agent collaboration failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
 }));
 
 router.get('/results', asyncHandler(async (req, res) => {
-  const { sessionId, limit = 10 } = req.query;
-  
-  // Simulate synthesis results retrieval
-  const results = [
-    {
-      id: 'result_1',
-      sessionId: 'keynote',
-      type: 'policy_analysis',
-      title: 'AI Governance Framework Synthesis',
-      summary: 'Comprehensive analysis combining technical standards, regulatory requirements, and community input',
-      confidence: 0.89,
-      agents: ['archive', 'codex', 'discourse'],
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: 'result_2',
-      sessionId: 'privacy',
-      type: 'privacy_assessment',
-      title: 'Privacy Impact Assessment',
-      summary: 'Multi-faceted privacy analysis incorporating legal frameworks and technical implementations',
-      confidence: 0.92,
-      agents: ['archive', 'codex'],
-      createdAt: new Date().toISOString()
+  const { sessionId, limit = '10', offset = '0' } = req.query;
+
+  try {
+    const { collaborations, total } = await synthesisPipeline.getCollaborations({
+      sessionId: sessionId as string | undefined,
+      limit: Math.min(parseInt(limit as string) || 10, 100),
+      offset: parseInt(offset as string) || 0
+    });
+
+    return res.json({
+      results: collaborations.map(collaboration => ({
+        id: collaboration.id,
+        sessionId: collaboration.sessionId,
+        type: collaboration.collaborationType,
+        title: collaboration.inputData?.question,
+        summary: collaboration.synthesisResult?.summary,
+        confidence: collaboration.confidenceScore,
+        agents: collaboration.participatingAgents,
+        processingTimeMs: collaboration.processingTimeMs,
+        createdAt: collaboration.createdAt,
+        completedAt: collaboration.completedAt
+      })),
+      total,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Failed to retrieve synthesis results:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve synthesis results'
+    });
+  }
+}));
+
+router.get('/results/:collaborationId', asyncHandler(async (req, res) => {
+  try {
+    const collaboration = await synthesisPipeline.getCollaboration(req.params.collaborationId);
+
+    if (!collaboration) {
+      return res.status(404).json({
+        success: false,
+        error: 'Collaboration not found'
+      });
     }
-  ];
-  
-  res.json({
-    results: results.filter(result => 
-      !sessionId || result.sessionId === sessionId
-    ).slice(0, parseInt(limit as string)),
-    total: results.length,
-    timestamp: new Date().toISOString()
-  });
+
+    return res.json({
+      success: true,
+      collaboration
+    });
+  } catch (error) {
+    logger.error('Failed to retrieve collaboration:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve collaboration'
+    });
+  }
 }));
 
 router.get('/status', asyncHandler(async (req, res) => {
-  res.json({
-    synthesis: {
-      status: 'active',
-      activeCollaborations: 3,
-      completedToday: 12,
-      averageProcessingTime: 1.2,
-      successRate: 0.94
-    },
-    agents: {
-      archive: 'ready',
-      codex: 'ready',
-      discourse: 'ready'
-    },
-    timestamp: new Date().toISOString()
-  });
+  try {
+    const stats = await synthesisPipeline.getStatistics();
+
+    return res.json({
+      synthesis: {
+        status: 'active',
+        totalCollaborations: stats.totalCollaborations,
+        completedToday: stats.completedToday,
+        averageProcessingTime: stats.averageProcessingTime / 1000,
+        averageConfidence: stats.averageConfidence
+      },
+      agents: {
+        archive: 'ready',
+        codex: 'ready',
+        discourse: 'ready'
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Failed to get synthesis status:', error);
+    return res.status(500).json({
+      synthesis: { status: 'error' },
+      error: 'Failed to get synthesis status'
+    });
+  }
 }));
 
-export default router;
\ No newline at end of file
+export default router;
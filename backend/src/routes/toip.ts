@@ -4,14 +4,27 @@
 // =====================================
 
 import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
 import { agentDIDManager, AgentDID, AgentCredential, TrustRelationship } from '../toip/agent-did-manager';
+import { vcConverter } from '../toip/vc-converter';
+import { didResolver, DIDResolutionError } from '../toip/did-resolver';
+import { reputationCredentialService } from '../toip/reputation-credentials';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { config } from '../utils/config';
 
 const router = Router();
 
+// Reputation challenges are issued without authentication and held until they expire
+const challengeLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  message: 'Too many reputation challenges from this IP'
+});
+
 /**
  * Create a new agent DID
  */
-router.post('/agents/did', async (req: Request, res: Response) => {
+router.post('/agents/did', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { agentType, capabilities } = req.body;
     
@@ -45,7 +58,7 @@ router.post('/agents/did', async (req: Request, res: Response) => {
 /**
  * Issue a capability credential for an agent
  */
-router.post('/agents/credentials', async (req: Request, res: Response) => {
+router.post('/agents/credentials', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { issuerDID, subjectDID, agentType, capabilities, trustLevel } = req.body;
     
@@ -55,6 +68,12 @@ router.post('/agents/credentials', async (req: Request, res: Response) => {
       });
     }
 
+    if (!agentDIDManager.hasSigningKey(issuerDID)) {
+      return res.status(400).json({
+        error: `Issuer ${issuerDID} is not an agent DID managed by this node`
+      });
+    }
+
     const credential = await agentDIDManager.issueCapabilityCredential(
       issuerDID,
       subjectDID,
@@ -78,7 +97,7 @@ router.post('/agents/credentials', async (req: Request, res: Response) => {
 /**
  * Establish a trust relationship between agents
  */
-router.post('/agents/trust', async (req: Request, res: Response) => {
+router.post('/agents/trust', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { fromAgent, toAgent, relationshipType, initialTrustScore, evidence } = req.body;
     
@@ -88,11 +107,24 @@ router.post('/agents/trust', async (req: Request, res: Response) => {
       });
     }
 
+    const validRelationshipTypes = ['collaboration', 'verification', 'endorsement'];
+    if (!validRelationshipTypes.includes(relationshipType)) {
+      return res.status(400).json({
+        error: 'Invalid relationship type. Must be one of: collaboration, verification, endorsement'
+      });
+    }
+
+    if (initialTrustScore !== undefined && (typeof initialTrustScore !== 'number' || !(initialTrustScore >= 0 && initialTrustScore <= 1))) {
+      return res.status(400).json({
+        error: 'initialTrustScore must be a number between 0 and 1'
+      });
+    }
+
     const relationship = await agentDIDManager.establishTrustRelationship(
       fromAgent,
       toAgent,
       relationshipType,
-      initialTrustScore || 0.5,
+      initialTrustScore ?? 0.5,
       evidence || []
     );
     
@@ -111,7 +143,7 @@ router.post('/agents/trust', async (req: Request, res: Response) => {
 /**
  * Update trust score with new evidence
  */
-router.put('/agents/trust/:fromAgent/:toAgent', async (req: Request, res: Response) => {
+router.put('/agents/trust/:fromAgent/:toAgent', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { fromAgent, toAgent } = req.params;
     const { evidence } = req.body;
@@ -163,6 +195,34 @@ router.get('/agents/:agentDID/reputation', async (req: Request, res: Response) =
   }
 });
 
+/**
+ * Get the reputation history of an agent, newest first
+ */
+router.get('/agents/:agentDID/reputation/history', async (req: Request, res: Response) => {
+  try {
+    const { agentDID } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    if (!agentDIDManager.getAgentReputation(agentDID)) {
+      return res.status(404).json({
+        error: 'Agent reputation not found'
+      });
+    }
+
+    const history = await agentDIDManager.getReputationHistory(agentDID, limit);
+
+    return res.json({
+      success: true,
+      data: history
+    });
+  } catch (error) {
+    console.error('Error getting reputation history:', error);
+    return res.status(500).json({
+      error: 'Failed to get reputation history'
+    });
+  }
+});
+
 /**
  * Get trust relationships for an agent
  */
@@ -218,12 +278,25 @@ router.post('/credentials/verify', async (req: Request, res: Response) => {
       });
     }
 
-    const isValid = await agentDIDManager.verifyCredential(credential);
+    const result = await agentDIDManager.verifyCredential(credential);
+
+    if (!result.verified) {
+      return res.status(422).json({
+        success: false,
+        error: 'Credential verification failed',
+        data: {
+          valid: false,
+          reason: result.reason,
+          checks: result.checks
+        }
+      });
+    }
     
     return res.json({
       success: true,
       data: {
-        valid: isValid
+        valid: true,
+        checks: result.checks
       }
     });
   } catch (error) {
@@ -234,6 +307,572 @@ router.post('/credentials/verify', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Export an issued credential as W3C VC Data Model 2.0 JSON-LD or VC-JWT
+ */
+router.get('/credentials/:credentialId/export', async (req: Request, res: Response) => {
+  try {
+    const { credentialId } = req.params;
+    const format = (req.query.format as string) || 'jsonld';
+
+    if (format !== 'jsonld' && format !== 'jwt') {
+      return res.status(400).json({
+        error: 'Invalid format. Must be one of: jsonld, jwt'
+      });
+    }
+
+    const credential = agentDIDManager.getCredential(credentialId);
+    if (!credential) {
+      return res.status(404).json({
+        error: 'Credential not found'
+      });
+    }
+
+    // Never re-sign a credential that no longer verifies (revoked, expired)
+    const verification = await agentDIDManager.verifyCredential(credential);
+    if (!verification.verified) {
+      return res.status(409).json({
+        error: `Credential cannot be exported: ${verification.reason}`
+      });
+    }
+
+    if (format === 'jwt') {
+      return res.type('application/vc+jwt').send(vcConverter.exportJwt(credential));
+    }
+
+    return res.type('application/vc+ld+json').send(JSON.stringify(vcConverter.exportJsonLd(credential)));
+  } catch (error) {
+    console.error('Error exporting credential:', error);
+    return res.status(500).json({
+      error: 'Failed to export credential'
+    });
+  }
+});
+
+/**
+ * Get the revocation/suspension status of an issued credential
+ */
+router.get('/credentials/:credentialId/status', async (req: Request, res: Response) => {
+  try {
+    const status = agentDIDManager.getCredentialStatus(req.params.credentialId);
+    if (!status) {
+      return res.status(404).json({
+        error: 'Credential not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: status
+    });
+  } catch (error) {
+    console.error('Error getting credential status:', error);
+    return res.status(500).json({
+      error: 'Failed to get credential status'
+    });
+  }
+});
+
+/**
+ * Revoke an issued credential (admin only, cannot be undone)
+ */
+router.post('/credentials/:credentialId/revoke', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { credentialId } = req.params;
+    const { reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        error: 'Missing required field: reason'
+      });
+    }
+
+    const status = agentDIDManager.getCredentialStatus(credentialId);
+    if (!status) {
+      return res.status(404).json({
+        error: 'Credential not found'
+      });
+    }
+    if (status.revoked) {
+      return res.status(409).json({
+        error: 'Credential is already revoked'
+      });
+    }
+
+    const change = await agentDIDManager.revokeCredential(credentialId, reason, req.user!.id);
+
+    return res.json({
+      success: true,
+      data: change
+    });
+  } catch (error) {
+    console.error('Error revoking credential:', error);
+    return res.status(500).json({
+      error: 'Failed to revoke credential'
+    });
+  }
+});
+
+/**
+ * Suspend an issued credential (admin only)
+ */
+router.post('/credentials/:credentialId/suspend', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { credentialId } = req.params;
+    const { reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        error: 'Missing required field: reason'
+      });
+    }
+
+    const status = agentDIDManager.getCredentialStatus(credentialId);
+    if (!status) {
+      return res.status(404).json({
+        error: 'Credential not found'
+      });
+    }
+    if (status.revoked || status.suspended) {
+      return res.status(409).json({
+        error: `Credential is already ${status.revoked ? 'revoked' : 'suspended'}`
+      });
+    }
+
+    const change = await agentDIDManager.suspendCredential(credentialId, reason, req.user!.id);
+
+    return res.json({
+      success: true,
+      data: change
+    });
+  } catch (error) {
+    console.error('Error suspending credential:', error);
+    return res.status(500).json({
+      error: 'Failed to suspend credential'
+    });
+  }
+});
+
+/**
+ * Lift the suspension of a credential (admin only)
+ */
+router.post('/credentials/:credentialId/reinstate', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { credentialId } = req.params;
+    const { reason } = req.body;
+
+    const status = agentDIDManager.getCredentialStatus(credentialId);
+    if (!status) {
+      return res.status(404).json({
+        error: 'Credential not found'
+      });
+    }
+    if (status.revoked) {
+      return res.status(409).json({
+        error: 'Credential is revoked; revocation cannot be undone'
+      });
+    }
+    if (!status.suspended) {
+      return res.status(409).json({
+        error: 'Credential is not suspended'
+      });
+    }
+
+    const change = await agentDIDManager.reinstateCredential(credentialId, reason || 'Suspension lifted', req.user!.id);
+
+    return res.json({
+      success: true,
+      data: change
+    });
+  } catch (error) {
+    console.error('Error reinstating credential:', error);
+    return res.status(500).json({
+      error: 'Failed to reinstate credential'
+    });
+  }
+});
+
+/**
+ * Publish a Bitstring Status List as a signed BitstringStatusListCredential
+ */
+router.get('/status-lists/:listId', async (req: Request, res: Response) => {
+  try {
+    const statusListCredential = vcConverter.exportStatusListCredential(req.params.listId);
+    if (!statusListCredential) {
+      return res.status(404).json({
+        error: 'Status list not found'
+      });
+    }
+
+    return res.type('application/vc+ld+json').send(JSON.stringify(statusListCredential));
+  } catch (error) {
+    console.error('Error publishing status list:', error);
+    return res.status(500).json({
+      error: 'Failed to publish status list'
+    });
+  }
+});
+
+/**
+ * Verify a W3C credential (JSON-LD object or VC-JWT string) and convert it to an AgentCredential
+ */
+router.post('/credentials/import', async (req: Request, res: Response) => {
+  try {
+    const { credential } = req.body;
+
+    if (!credential || (typeof credential !== 'string' && typeof credential !== 'object')) {
+      return res.status(400).json({
+        error: 'Missing required field: credential (JSON-LD object or VC-JWT string)'
+      });
+    }
+
+    const result = await vcConverter.importCredential(credential);
+
+    if (!result.verification.verified) {
+      return res.status(422).json({
+        success: false,
+        error: 'Credential verification failed',
+        data: {
+          format: result.format,
+          valid: false,
+          reason: result.verification.reason
+        }
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        format: result.format,
+        valid: true,
+        credential: result.credential
+      }
+    });
+  } catch (error) {
+    console.error('Error importing credential:', error);
+    return res.status(500).json({
+      error: 'Failed to import credential'
+    });
+  }
+});
+
+/**
+ * Create a Verifiable Presentation on behalf of an agent of this node (admin
+ * only). The node signs with the agent's key, so the holder must be an agent
+ * DID it manages and every credential must have been issued to that holder.
+ * Participants holding their own keys sign presentations themselves and
+ * submit them to POST /presentations/verify.
+ */
+router.post('/presentations', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { holderDID, credentialIds, format = 'jsonld', challenge, domain } = req.body;
+
+    if (!holderDID || !Array.isArray(credentialIds) || credentialIds.length === 0 || !challenge || !domain) {
+      return res.status(400).json({
+        error: 'Missing required fields: holderDID, credentialIds, challenge, domain'
+      });
+    }
+
+    if (format !== 'jsonld' && format !== 'jwt') {
+      return res.status(400).json({
+        error: 'Invalid format. Must be one of: jsonld, jwt'
+      });
+    }
+
+    if (!agentDIDManager.hasSigningKey(holderDID)) {
+      return res.status(400).json({
+        error: `Holder ${holderDID} is not an agent DID managed by this node`
+      });
+    }
+
+    const credentials: AgentCredential[] = [];
+    for (const credentialId of credentialIds) {
+      const credential = agentDIDManager.getCredential(credentialId);
+      if (!credential) {
+        return res.status(404).json({
+          error: `Credential not found: ${credentialId}`
+        });
+      }
+      if (credential.subject !== holderDID) {
+        return res.status(400).json({
+          error: `Credential ${credentialId} was not issued to ${holderDID}`
+        });
+      }
+      credentials.push(credential);
+    }
+
+    const presentation = vcConverter.createPresentation(
+      holderDID,
+      credentials.map(credential => format === 'jwt'
+        ? vcConverter.exportJwt(credential)
+        : vcConverter.exportJsonLd(credential)),
+      { challenge, domain }
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: presentation
+    });
+  } catch (error) {
+    console.error('Error creating presentation:', error);
+    return res.status(500).json({
+      error: 'Failed to create presentation'
+    });
+  }
+});
+
+/**
+ * Verify a Verifiable Presentation and every credential it contains
+ */
+router.post('/presentations/verify', async (req: Request, res: Response) => {
+  try {
+    const { presentation, challenge, domain } = req.body;
+
+    if (!presentation || !challenge || !domain) {
+      return res.status(400).json({
+        error: 'Missing required fields: presentation, challenge, domain'
+      });
+    }
+
+    const result = await vcConverter.verifyPresentation(presentation, { challenge, domain });
+
+    return res.status(result.verified ? 200 : 422).json({
+      success: result.verified,
+      data: {
+        valid: result.verified,
+        reason: result.reason,
+        credentials: result.credentials
+      }
+    });
+  } catch (error) {
+    console.error('Error verifying presentation:', error);
+    return res.status(500).json({
+      error: 'Failed to verify presentation'
+    });
+  }
+});
+
+/**
+ * Issue the caller a selective-disclosure reputation credential (SD-JWT)
+ * bound to the DID linked to their trust network node
+ */
+router.post('/reputation-credentials', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!config.reputationCredentials.issuerDID) {
+      return res.status(503).json({
+        error: 'Reputation credentials are not enabled on this node'
+      });
+    }
+
+    const credential = await reputationCredentialService.issueParticipantCredential(req.user!.id);
+
+    return res.status(201).json({
+      success: true,
+      data: credential
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found in trust network')) {
+      return res.status(404).json({
+        error: error.message
+      });
+    }
+    if (error instanceof Error && error.message.includes('no DID')) {
+      return res.status(409).json({
+        error: error.message
+      });
+    }
+    console.error('Error issuing reputation credential:', error);
+    return res.status(500).json({
+      error: 'Failed to issue reputation credential'
+    });
+  }
+});
+
+/**
+ * Issue an agent a selective-disclosure reputation credential (admin only)
+ */
+router.post('/agents/:agentDID/reputation-credentials', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!config.reputationCredentials.issuerDID) {
+      return res.status(503).json({
+        error: 'Reputation credentials are not enabled on this node'
+      });
+    }
+
+    if (!agentDIDManager.getAgentReputation(req.params.agentDID)) {
+      return res.status(404).json({
+        error: 'Agent not found'
+      });
+    }
+
+    const credential = await reputationCredentialService.issueAgentCredential(req.params.agentDID);
+
+    return res.status(201).json({
+      success: true,
+      data: credential
+    });
+  } catch (error) {
+    console.error('Error issuing agent reputation credential:', error);
+    return res.status(500).json({
+      error: 'Failed to issue agent reputation credential'
+    });
+  }
+});
+
+/**
+ * Present an agent's reputation credential to a verifier, disclosing only the
+ * listed claim paths (admin only, the agent key is held by this node)
+ */
+router.post('/agents/:agentDID/reputation-credentials/present', authMiddleware, requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sdJwt, disclose, audience, nonce } = req.body;
+
+    if (!sdJwt || !Array.isArray(disclose) || !audience || !nonce) {
+      return res.status(400).json({
+        error: 'Missing required fields: sdJwt, disclose, audience, nonce'
+      });
+    }
+
+    if (!agentDIDManager.hasSigningKey(req.params.agentDID)) {
+      return res.status(400).json({
+        error: `Holder ${req.params.agentDID} is not an agent DID managed by this node`
+      });
+    }
+
+    const presentation = reputationCredentialService.presentAgentCredential(req.params.agentDID, sdJwt, disclose, { audience, nonce });
+
+    return res.json({
+      success: true,
+      data: { presentation }
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('does not match the holder')) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error presenting reputation credential:', error);
+    return res.status(500).json({
+      error: 'Failed to present reputation credential'
+    });
+  }
+});
+
+/**
+ * Issue a single-use nonce for a holder to bind a reputation presentation to
+ */
+router.post('/reputation-credentials/challenges', challengeLimiter, async (req: Request, res: Response) => {
+  try {
+    const { audience } = req.body;
+
+    if (!audience || typeof audience !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required field: audience'
+      });
+    }
+
+    if (audience.length > 512) {
+      return res.status(400).json({
+        error: 'audience must be at most 512 characters'
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: reputationCredentialService.createChallenge(audience)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Too many pending challenges')) {
+      return res.status(429).json({
+        error: error.message
+      });
+    }
+    console.error('Error creating reputation challenge:', error);
+    return res.status(500).json({
+      error: 'Failed to create challenge'
+    });
+  }
+});
+
+/**
+ * Verify that a key-bound reputation presentation proves a score of at least
+ * `threshold`, without requiring the exact score to be disclosed
+ */
+router.post('/reputation-credentials/verify', async (req: Request, res: Response) => {
+  try {
+    const { presentation, threshold, nonce } = req.body;
+
+    if (!presentation || !nonce) {
+      return res.status(400).json({
+        error: 'Missing required fields: presentation, nonce'
+      });
+    }
+
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      return res.status(400).json({
+        error: 'threshold must be a number between 0 and 1'
+      });
+    }
+
+    if (!config.reputationCredentials.issuerDID) {
+      return res.status(503).json({
+        error: 'Reputation credentials are not enabled on this node'
+      });
+    }
+
+    const result = await reputationCredentialService.verifyThreshold(presentation, threshold, nonce);
+
+    return res.status(result.verified ? 200 : 422).json({
+      success: result.verified && result.satisfied === true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error verifying reputation presentation:', error);
+    return res.status(500).json({
+      error: 'Failed to verify reputation presentation'
+    });
+  }
+});
+
+/**
+ * Resolve a DID (did:bgin, did:key, did:web) per the DID Resolution HTTP(S)
+ * binding: `Accept: application/did+ld+json` returns the bare DID document,
+ * anything else returns the full resolution result
+ */
+router.get('/dids/:did', async (req: Request, res: Response) => {
+  const errorStatus: Record<DIDResolutionError, number> = {
+    invalidDid: 400,
+    notFound: 404,
+    methodNotSupported: 501,
+    internalError: 500
+  };
+
+  try {
+    const result = await didResolver.resolve(req.params.did);
+    const { error } = result.didResolutionMetadata;
+    const wantsDocument = req.accepts(['application/ld+json', 'application/did+ld+json']) === 'application/did+ld+json';
+
+    let status = error ? errorStatus[error] : 200;
+    if (!error && result.didDocumentMetadata.deactivated) {
+      status = 410;
+    }
+
+    if (wantsDocument && result.didDocument) {
+      return res.status(status).type('application/did+ld+json').send(JSON.stringify(result.didDocument));
+    }
+
+    return res
+      .status(status)
+      .type('application/ld+json;profile="https://w3id.org/did-resolution"')
+      .send(JSON.stringify(result));
+  } catch (error) {
+    console.error('Error resolving DID:', error);
+    return res.status(500).json({
+      error: 'Failed to resolve DID'
+    });
+  }
+});
+
 /**
  * Get all agents in the trust network
  */
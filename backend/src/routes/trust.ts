@@ -3,98 +3,152 @@
 // =====================================
 
 import { Router } from 'express';
+import { validate as isUuid } from 'uuid';
 import { asyncHandler } from '../middleware/errorHandler';
+import { AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { trustService, HistoryInterval, HISTORY_INTERVALS } from '../services/trust-service';
+import {
+  trustExportService,
+  ExportPrivacyLevel,
+  EXPORT_PRIVACY_LEVELS,
+  TrustExportFormat,
+  TRUST_EXPORT_CONTENT_TYPES,
+  TRUST_EXPORT_FORMATS
+} from '../services/trust-export';
 
 const router = Router();
 
 // Trust network endpoints
-router.get('/network', asyncHandler(async (req, res) => {
-  const { participantId } = req.query;
-  
-  // Simulate trust network retrieval
-  const network = {
-    participantId: participantId || 'demo_participant',
-    trustScore: 0.85,
-    networkSize: 23,
-    relationships: [
-      {
-        id: 'rel_1',
-        participantB: 'anon_hash_1',
-        relationshipType: 'research_collaboration',
-        strength: 0.92,
-        totalInteractions: 45,
-        lastInteraction: new Date().toISOString()
-      },
-      {
-        id: 'rel_2',
-        participantB: 'anon_hash_2',
-        relationshipType: 'peer_review',
-        strength: 0.78,
-        totalInteractions: 23,
-        lastInteraction: new Date().toISOString()
-      }
-    ],
-    reputation: {
-      score: 85,
-      level: 'high',
-      contributions: 127,
-      validations: 89
-    },
+router.get('/network', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const participantId = (req.query.participantId as string) || req.user!.id;
+
+  // Relationships are only visible to the participants in them (mirrors the
+  // trust_relationships row-level security policy)
+  if (participantId !== req.user!.id && req.user!.role !== 'admin') {
+    return res.status(403).json({
+      error: 'Only admins can view another participant\'s trust network'
+    });
+  }
+
+  const network = await trustService.getNetwork(participantId, {
+    contextDomain: req.query.contextDomain as string | undefined,
+    relationshipType: req.query.relationshipType as string | undefined,
+    limit: Math.min(parseInt(req.query.limit as string) || 50, 500),
+    offset: Math.max(parseInt(req.query.offset as string) || 0, 0)
+  });
+
+  return res.json({
+    ...network,
     timestamp: new Date().toISOString()
-  };
-  
-  res.json(network);
+  });
 }));
 
-router.post('/verify', asyncHandler(async (req, res) => {
-  const { contributionId, participantId, verificationType } = req.body;
-  
-  // Simulate trust verification
-  const verification = {
-    id: `verify_${Date.now()}`,
-    contributionId: contributionId || 'contrib_1',
-    participantId: participantId || 'demo_participant',
-    verificationType: verificationType || 'peer_review',
-    status: 'verified',
-    confidence: 0.91,
-    verifiedAt: new Date().toISOString(),
-    verifier: 'anon_hash_1'
-  };
-  
-  res.json({
-    success: true,
-    verification,
-    message: 'Contribution verified successfully'
-  });
+router.post('/verify', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { contributionId, verificationType, confidence, contextDomain } = req.body;
+
+  if (!contributionId || !isUuid(contributionId)) {
+    return res.status(400).json({
+      error: 'contributionId must be a UUID'
+    });
+  }
+
+  if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+    return res.status(400).json({
+      error: 'confidence must be a number between 0 and 1'
+    });
+  }
+
+  const contribution = await trustService.getContribution(contributionId);
+  if (!contribution) {
+    return res.status(404).json({
+      error: 'Contribution not found'
+    });
+  }
+
+  if (contribution.participantHash === req.user!.id) {
+    return res.status(403).json({
+      error: 'Participants cannot verify their own contributions'
+    });
+  }
+
+  try {
+    const result = await trustService.verifyContribution(req.user!.id, contribution, {
+      verificationType: verificationType || 'peer_review',
+      confidence: confidence ?? 1,
+      contextDomain
+    });
+
+    return res.json({
+      success: true,
+      verification: result.verification,
+      reputation: result.reputation,
+      message: 'Contribution verified successfully'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already been verified')) {
+      return res.status(409).json({
+        error: error.message
+      });
+    }
+    throw error;
+  }
 }));
 
-router.get('/reputation', asyncHandler(async (req, res) => {
-  const { participantId } = req.query;
-  
-  // Simulate reputation data
-  const reputation = {
-    participantId: participantId || 'demo_participant',
-    overallScore: 85,
-    breakdown: {
-      quality: 0.88,
-      consistency: 0.82,
-      collaboration: 0.91,
-      innovation: 0.79
-    },
-    history: [
-      { date: '2024-01-01', score: 80 },
-      { date: '2024-01-15', score: 82 },
-      { date: '2024-02-01', score: 85 }
-    ],
-    achievements: [
-      'High Quality Contributor',
-      'Collaboration Champion',
-      'Privacy Advocate'
-    ],
+router.get('/reputation', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const participantId = (req.query.participantId as string) || req.user!.id;
+  const interval = (req.query.interval as HistoryInterval) || 'day';
+
+  // Same rule as /network: the history dates every verification the participant received
+  if (participantId !== req.user!.id && req.user!.role !== 'admin') {
+    return res.status(403).json({
+      error: 'Only admins can view another participant\'s reputation'
+    });
+  }
+
+  if (!HISTORY_INTERVALS.includes(interval)) {
+    return res.status(400).json({
+      error: `interval must be one of: ${HISTORY_INTERVALS.join(', ')}`
+    });
+  }
+
+  const reputation = await trustService.getReputation(participantId, {
+    interval,
+    limit: Math.min(parseInt(req.query.limit as string) || 90, 366)
+  });
+
+  return res.json({
+    ...reputation,
     timestamp: new Date().toISOString()
-  };
-  
-  res.json(reputation);
+  });
+}));
+
+// Trust graph export for Gephi (GEXF, GraphML), NetworkX (GraphML) and linked data tools (JSON-LD).
+// The export holds every relationship, which /network only shows to the two participants
+// in it, so it is admin-only at any privacy level.
+router.get('/export', requireRole('admin'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const format = ((req.query.format as string) || 'graphml') as TrustExportFormat;
+  const privacyLevel = ((req.query.privacyLevel as string) || 'selective') as ExportPrivacyLevel;
+
+  if (!TRUST_EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      error: `format must be one of: ${TRUST_EXPORT_FORMATS.join(', ')}`
+    });
+  }
+
+  if (!EXPORT_PRIVACY_LEVELS.includes(privacyLevel)) {
+    return res.status(400).json({
+      error: `privacyLevel must be one of: ${EXPORT_PRIVACY_LEVELS.join(', ')}`
+    });
+  }
+
+  const graph = await trustExportService.buildGraph({
+    privacyLevel,
+    contextDomain: req.query.contextDomain as string | undefined
+  });
+
+  res.setHeader('Content-Type', `${TRUST_EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="bgin-trust-graph-${graph.generatedAt.toISOString().substring(0, 10)}.${format}"`);
+  return res.send(trustExportService.serialize(graph, format));
 }));
 
-export default router;
\ No newline at end of file
+export default router;
@@ -43,6 +43,11 @@ import { kwaaiClient } from './integrations/kwaai/kwaai-client';
 // Monitoring imports
 import { dataMonitor } from './monitoring/data-monitor';
 
+// ToIP and Privacy Pools imports
+import { agentDIDManager } from './toip/agent-did-manager';
+import { bginASPManager } from './privacy-pools/asp-manager';
+import { peerReviewManager } from './privacy-pools/peer-review';
+
 class BGINServer {
   private app: express.Application;
   private server: any;
@@ -135,6 +140,11 @@ class BGINServer {
       await database.initialize();
       logger.info('Database connected successfully');
 
+      // Restore persisted ToIP trust network and ASP state
+      await agentDIDManager.initialize();
+      await bginASPManager.initialize();
+      await peerReviewManager.initialize();
+
       // Initialize integrations
       await this.initializeIntegrations();
 
@@ -0,0 +1,314 @@
+// =====================================
+// backend/src/services/auth-service.ts
+// Participant accounts, password hashing and JWT issuance/revocation
+// =====================================
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type UserRole = 'participant' | 'working_group_chair' | 'admin';
+export type TokenType = 'access' | 'refresh';
+
+export const USER_ROLES: UserRole[] = ['participant', 'working_group_chair', 'admin'];
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  did?: string;
+  name: string;
+  role: UserRole;
+  workingGroups: string[];
+}
+
+export interface TokenPayload {
+  sub: string;
+  jti: string;
+  type: TokenType;
+  email?: string;
+  did?: string;
+  name: string;
+  role: UserRole;
+  workingGroups: string[];
+  iat: number;
+  exp: number;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+interface ParticipantRow {
+  participant_hash: string;
+  anonymous_handle: string;
+  password_hash: string | null;
+  did: string | null;
+  role: UserRole;
+  chaired_working_groups: string[] | null;
+}
+
+const BCRYPT_ROUNDS = 12;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@:\/]+@[^\s@:\/]+\.[^\s@:\/]+$/;
+const JWT_ISSUER = 'bgin-ai';
+
+export class AuthService {
+  /**
+   * Participants are keyed by an HMAC of their normalized email so the address
+   * itself never reaches the database. Email and DID inputs are prefixed so
+   * one kind of identifier can never hash to the other's account.
+   */
+  hashEmail(email: string): string {
+    return this.hashIdentifier(`email:${email.trim().toLowerCase()}`);
+  }
+
+  hashDID(did: string): string {
+    return this.hashIdentifier(`did:${did}`);
+  }
+
+  async register(email: string, password: string, name: string): Promise<AuthUser> {
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      throw new Error('A valid email address is required');
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const participantHash = this.hashEmail(email);
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+    const result = await database.query(
+      `INSERT INTO participant_profiles (participant_hash, anonymous_handle, password_hash, role)
+       VALUES ($1, $2, $3, 'participant')
+       ON CONFLICT (participant_hash) DO NOTHING
+       RETURNING participant_hash, anonymous_handle, password_hash, did, role, chaired_working_groups`,
+      [participantHash, name, passwordHash]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('An account with this email already exists');
+    }
+
+    logger.info(`Registered participant ${participantHash.substring(0, 12)}`);
+    return this.toAuthUser(result.rows[0], { email });
+  }
+
+  /**
+   * Find or create the participant bound to a DID whose control has already
+   * been proven via AgentDIDManager.verifyAuthChallenge. Returns null rather
+   * than signing in to a row that has a password, so DID login can never
+   * share an account with password login.
+   */
+  async loginWithDID(did: string): Promise<AuthUser | null> {
+    const participantHash = this.hashDID(did);
+
+    const result = await database.query(
+      `INSERT INTO participant_profiles (participant_hash, anonymous_handle, did, role, last_login_at)
+       VALUES ($1, $2, $3, 'participant', NOW())
+       ON CONFLICT (participant_hash) DO UPDATE
+         SET last_login_at = NOW(), last_active_at = NOW()
+         WHERE participant_profiles.password_hash IS NULL AND participant_profiles.did = EXCLUDED.did
+       RETURNING participant_hash, anonymous_handle, password_hash, did, role, chaired_working_groups`,
+      [participantHash, `did-${participantHash.substring(0, 8)}`, did]
+    );
+
+    if (result.rows.length === 0) {
+      logger.warn(`DID login refused: participant ${participantHash.substring(0, 12)} is not a DID-only account`);
+      return null;
+    }
+    return this.toAuthUser(result.rows[0], { did });
+  }
+
+  /**
+   * Verify credentials; returns null for unknown accounts and wrong passwords alike
+   */
+  async authenticate(email: string, password: string): Promise<AuthUser | null> {
+    const row = await this.findParticipant(this.hashEmail(email));
+    if (!row?.password_hash) {
+      return null;
+    }
+
+    const valid = await bcrypt.compare(password, row.password_hash);
+    if (!valid) {
+      return null;
+    }
+
+    await database.query(
+      'UPDATE participant_profiles SET last_login_at = NOW(), last_active_at = NOW() WHERE participant_hash = $1',
+      [row.participant_hash]
+    );
+
+    return this.toAuthUser(row, { email });
+  }
+
+  async getUser(participantHash: string, identity: { email?: string; did?: string } = {}): Promise<AuthUser | null> {
+    const row = await this.findParticipant(participantHash);
+    return row ? this.toAuthUser(row, identity) : null;
+  }
+
+  issueTokens(user: AuthUser): AuthTokens {
+    return {
+      accessToken: this.signToken(user, 'access', config.jwtAccessTokenTtl),
+      refreshToken: this.signToken(user, 'refresh', config.jwtRefreshTokenTtl),
+      tokenType: 'Bearer',
+      expiresIn: config.jwtAccessTokenTtl
+    };
+  }
+
+  /**
+   * Verify signature, expiry, token type and revocation status
+   */
+  async verifyToken(token: string, expectedType: TokenType): Promise<TokenPayload> {
+    const payload = jwt.verify(token, config.jwtSecret, {
+      algorithms: ['HS256'],
+      issuer: JWT_ISSUER
+    }) as TokenPayload;
+
+    if (payload.type !== expectedType) {
+      throw new Error(`Expected ${expectedType} token`);
+    }
+
+    if (await this.isRevoked(payload.jti)) {
+      throw new Error('Token has been revoked');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The presented refresh token
+   * is revoked before the new pair is issued; of concurrent refreshes with the
+   * same token only the one that revokes it succeeds.
+   */
+  async refresh(refreshToken: string): Promise<{ user: AuthUser; tokens: AuthTokens }> {
+    const payload = await this.verifyToken(refreshToken, 'refresh');
+
+    // Re-read the profile so role changes take effect on refresh
+    const user = await this.getUser(payload.sub, { email: payload.email, did: payload.did });
+    if (!user) {
+      throw new Error('Account no longer exists');
+    }
+
+    if (!(await this.revokeToken(payload))) {
+      throw new Error('Token has been revoked');
+    }
+    return { user, tokens: this.issueTokens(user) };
+  }
+
+  /**
+   * Returns true if this call revoked the token, false if it had already
+   * been revoked or expired
+   */
+  async revokeToken(payload: TokenPayload): Promise<boolean> {
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) {
+      return false;
+    }
+
+    const inserted = await database.query(
+      `INSERT INTO revoked_tokens (jti, participant_hash, token_type, expires_at)
+       VALUES ($1, $2, $3, to_timestamp($4))
+       ON CONFLICT (jti) DO NOTHING
+       RETURNING jti`,
+      [payload.jti, payload.sub, payload.type, payload.exp]
+    );
+    if (inserted.rows.length === 0) {
+      return false;
+    }
+
+    try {
+      await database.getRedis().set(this.revocationKey(payload.jti), '1', 'EX', ttl);
+    } catch (error) {
+      logger.warn('Failed to cache token revocation in Redis:', error);
+    }
+    return true;
+  }
+
+  async updateRole(participantHash: string, role: UserRole, chairedWorkingGroups: string[] = []): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE participant_profiles SET role = $2, chaired_working_groups = $3
+       WHERE participant_hash = $1`,
+      [participantHash, role, role === 'working_group_chair' ? chairedWorkingGroups : []]
+    );
+    return result.rowCount > 0;
+  }
+
+  private async isRevoked(jti: string): Promise<boolean> {
+    try {
+      const cached = await database.getRedis().exists(this.revocationKey(jti));
+      if (cached) {
+        return true;
+      }
+    } catch (error) {
+      logger.warn('Redis revocation lookup failed, falling back to PostgreSQL:', error);
+    }
+
+    const result = await database.query(
+      'SELECT 1 FROM revoked_tokens WHERE jti = $1 AND expires_at > NOW()',
+      [jti]
+    );
+    return result.rows.length > 0;
+  }
+
+  private signToken(user: AuthUser, type: TokenType, expiresIn: number): string {
+    return jwt.sign(
+      {
+        type,
+        email: user.email,
+        did: user.did,
+        name: user.name,
+        role: user.role,
+        workingGroups: user.workingGroups
+      },
+      config.jwtSecret,
+      {
+        algorithm: 'HS256',
+        subject: user.id,
+        jwtid: uuidv4(),
+        issuer: JWT_ISSUER,
+        expiresIn
+      }
+    );
+  }
+
+  private async findParticipant(participantHash: string): Promise<ParticipantRow | null> {
+    const result = await database.query(
+      `SELECT participant_hash, anonymous_handle, password_hash, did, role, chaired_working_groups
+       FROM participant_profiles WHERE participant_hash = $1`,
+      [participantHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  private toAuthUser(row: ParticipantRow, identity: { email?: string; did?: string }): AuthUser {
+    return {
+      id: row.participant_hash,
+      email: identity.email,
+      did: row.did || identity.did,
+      name: row.anonymous_handle,
+      role: row.role || 'participant',
+      workingGroups: row.chaired_working_groups || []
+    };
+  }
+
+  private hashIdentifier(identifier: string): string {
+    return crypto
+      .createHmac('sha256', config.anonymizationSalt)
+      .update(identifier)
+      .digest('hex');
+  }
+
+  private revocationKey(jti: string): string {
+    return `auth:revoked:${jti}`;
+  }
+}
+
+// Singleton instance
+export const authService = new AuthService();
@@ -2,10 +2,23 @@
 // backend/src/services/socket-manager.ts
 // =====================================
 
-import { Server as SocketIOServer } from 'socket.io';
-import { AgentCoordinator } from '../agents/coordination/agent-router';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentCoordinator, AgentRequest } from '../agents/coordination/agent-router';
+import { UserContext } from '../agents/archive/retrieval-system';
+import { authService, AuthUser, UserRole } from './auth-service';
+import { trustService } from './trust-service';
 import { logger } from '../utils/logger';
 
+/**
+ * Most private archive material each role may retrieve
+ */
+const ROLE_PRIVACY_LEVELS: Record<UserRole, UserContext['privacyLevel']> = {
+  participant: 'selective',
+  working_group_chair: 'high',
+  admin: 'maximum'
+};
+
 export class SocketManager {
   private io: SocketIOServer;
   private agentCoordinator: AgentCoordinator;
@@ -13,9 +26,54 @@ export class SocketManager {
   constructor(io: SocketIOServer, agentCoordinator: AgentCoordinator) {
     this.io = io;
     this.agentCoordinator = agentCoordinator;
+    this.io.use((socket, next) => {
+      this.authenticate(socket).then(() => next(), (error) => {
+        logger.warn('Socket authentication failed:', error instanceof Error ? error.message : error);
+        next(new Error('Authentication required'));
+      });
+    });
     this.setupSocketHandlers();
   }
 
+  /**
+   * Same access token the REST API takes, sent as `auth.token` in the
+   * handshake or as a Bearer Authorization header
+   */
+  private async authenticate(socket: Socket): Promise<void> {
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.slice(7).trim() : undefined);
+    if (!token || typeof token !== 'string') {
+      throw new Error('No token provided');
+    }
+
+    const payload = await authService.verifyToken(token, 'access');
+    const user: AuthUser = {
+      id: payload.sub,
+      email: payload.email,
+      did: payload.did,
+      name: payload.name,
+      role: payload.role,
+      workingGroups: payload.workingGroups || []
+    };
+    socket.data.user = user;
+  }
+
+  /**
+   * The user context is built from the verified token and the participant's
+   * recorded reputation; whatever the payload claims is replaced
+   */
+  private async bindUser(socket: Socket, data: any): Promise<AgentRequest> {
+    const user: AuthUser = socket.data.user;
+    const userContext: UserContext = {
+      participantHash: user.id,
+      sessionId: data?.sessionId,
+      privacyLevel: ROLE_PRIVACY_LEVELS[user.role] || 'minimal',
+      trustScore: await trustService.getReputationScore(user.id),
+      accessRights: user.workingGroups.map(workingGroup => `working-group:${workingGroup}`)
+    };
+    return { ...data, payload: { ...data?.payload, userContext } };
+  }
+
   private setupSocketHandlers() {
     this.io.on('connection', (socket) => {
       logger.info(`Client connected: ${socket.id}`);
@@ -23,7 +81,13 @@ export class SocketManager {
       // Agent coordination events
       socket.on('agent:request', async (data) => {
         try {
-          const result = await this.agentCoordinator.processRequest(data);
+          const request = await this.bindUser(socket, data);
+          if (request?.payload?.stream) {
+            await this.streamAgentRequest(socket, request);
+            return;
+          }
+
+          const result = await this.agentCoordinator.processRequest(request);
           socket.emit('agent:response', result);
         } catch (error) {
           logger.error('Agent request error:', error);
@@ -31,6 +95,13 @@ export class SocketManager {
         }
       });
 
+      socket.on('agent:status', () => {
+        socket.emit('agent:status', {
+          agents: this.agentCoordinator.getAllAgentStatuses(),
+          timestamp: new Date()
+        });
+      });
+
       // Real-time collaboration
       socket.on('collaboration:join', (sessionId) => {
         socket.join(`session:${sessionId}`);
@@ -48,6 +119,42 @@ export class SocketManager {
     });
   }
 
+  /**
+   * Run an agent request in streaming mode. Sources, token chunks and the final
+   * metadata go to the requester only, as agent:sources, agent:chunk and
+   * agent:complete: results are filtered for the requester's access, and
+   * session rooms are open to anyone who joins them.
+   */
+  private async streamAgentRequest(socket: Socket, request: AgentRequest) {
+    const requestId = request.metadata?.requestId || uuidv4();
+
+    const result = await this.agentCoordinator.processRequest(request, (event) => {
+      switch (event.type) {
+        case 'sources':
+          socket.emit('agent:sources', { requestId, agentType: request.type, sources: event.sources });
+          break;
+        case 'chunk':
+          socket.emit('agent:chunk', { requestId, agentType: request.type, content: event.content });
+          break;
+        default:
+          socket.emit(`agent:${event.type}`, { requestId, agentType: request.type, ...event });
+      }
+    });
+
+    if (result.success) {
+      socket.emit('agent:complete', {
+        requestId,
+        agentType: request.type,
+        metadata: result.data?.metadata,
+        insights: result.data?.insights,
+        recommendations: result.data?.recommendations,
+        processingTime: result.processingTime
+      });
+    }
+
+    socket.emit('agent:response', { ...result, requestId });
+  }
+
   public broadcastToSession(sessionId: string, event: string, data: any) {
     this.io.to(`session:${sessionId}`).emit(event, data);
   }
@@ -0,0 +1,354 @@
+// =====================================
+// backend/src/services/trust-export.ts
+// Trust graph export to GraphML, GEXF and JSON-LD for Gephi / NetworkX
+// =====================================
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { bginASPManager } from '../privacy-pools/asp-manager';
+import { agentDIDManager } from '../toip/agent-did-manager';
+import { trustService } from './trust-service';
+
+export type TrustExportFormat = 'graphml' | 'gexf' | 'jsonld';
+export type ExportPrivacyLevel = 'maximum' | 'high' | 'selective' | 'minimal';
+
+export const TRUST_EXPORT_FORMATS: TrustExportFormat[] = ['graphml', 'gexf', 'jsonld'];
+export const EXPORT_PRIVACY_LEVELS: ExportPrivacyLevel[] = ['maximum', 'high', 'selective', 'minimal'];
+
+export const TRUST_EXPORT_CONTENT_TYPES: Record<TrustExportFormat, string> = {
+  graphml: 'application/graphml+xml',
+  gexf: 'application/gexf+xml',
+  jsonld: 'application/ld+json'
+};
+
+export interface TrustGraphNode {
+  id: string;
+  kind: 'participant' | 'agent';
+  agentType?: string;
+  did?: string;
+  reputation?: number;
+  /** Score in the ASP trust network (participants) or agent trust graph (agents) */
+  graphTrust?: number;
+  /** Score in the participant collaboration network */
+  collaborationTrust?: number;
+}
+
+export interface TrustGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  network: 'asp' | 'toip' | 'collaboration';
+  relationshipType: string;
+  trustScore: number;
+  evidenceCount: number;
+  /** Collaboration relationships are mutual and exported as one edge each way */
+  mutual: boolean;
+  contextDomain?: string;
+  lastUpdated?: string;
+}
+
+export interface TrustGraph {
+  id: string;
+  generatedAt: Date;
+  privacyLevel: ExportPrivacyLevel;
+  contextDomain?: string;
+  nodes: TrustGraphNode[];
+  edges: TrustGraphEdge[];
+}
+
+type AttributeType = 'string' | 'double' | 'int' | 'boolean';
+
+const NODE_ATTRIBUTES: { name: keyof TrustGraphNode; type: AttributeType }[] = [
+  { name: 'kind', type: 'string' },
+  { name: 'agentType', type: 'string' },
+  { name: 'did', type: 'string' },
+  { name: 'reputation', type: 'double' },
+  { name: 'graphTrust', type: 'double' },
+  { name: 'collaborationTrust', type: 'double' }
+];
+
+const EDGE_ATTRIBUTES: { name: keyof TrustGraphEdge; type: AttributeType }[] = [
+  { name: 'network', type: 'string' },
+  { name: 'relationshipType', type: 'string' },
+  { name: 'trustScore', type: 'double' },
+  { name: 'evidenceCount', type: 'int' },
+  { name: 'mutual', type: 'boolean' },
+  { name: 'contextDomain', type: 'string' },
+  { name: 'lastUpdated', type: 'string' }
+];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * How participant identities and detail are reduced at each privacy level.
+ * Agent DIDs are public and always exported as-is.
+ *
+ * - minimal: raw participant hashes and DIDs (admins only)
+ * - selective: the same pseudonyms the trust API returns
+ * - high: pseudonyms keyed per export, so two exports cannot be joined;
+ *   timestamps cut to the day
+ * - maximum: as high, with scores rounded to one decimal and no timestamps
+ *   or context domains
+ */
+class ExportPrivacy {
+  private exportKey = crypto.randomBytes(32);
+
+  constructor(readonly level: ExportPrivacyLevel) {}
+
+  participant(participantHash: string): string {
+    switch (this.level) {
+      case 'minimal':
+        return participantHash;
+      case 'selective':
+        return trustService.anonymize(participantHash);
+      default:
+        return `anon_${crypto.createHmac('sha256', this.exportKey).update(participantHash).digest('hex').substring(0, 16)}`;
+    }
+  }
+
+  score(value: number | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    return this.level === 'maximum' ? Math.round(value * 10) / 10 : value;
+  }
+
+  timestamp(value: Date | null | undefined): string | undefined {
+    if (!value || this.level === 'maximum') return undefined;
+    const iso = new Date(value).toISOString();
+    return this.level === 'high' ? iso.substring(0, 10) : iso;
+  }
+
+  contextDomain(value: string | null | undefined): string | undefined {
+    return this.level === 'maximum' ? undefined : value || undefined;
+  }
+}
+
+export class TrustExportService {
+  /**
+   * Participants (ASP trust network members and collaboration partners) and
+   * agent DIDs as nodes; ASP, agent and collaboration relationships as edges.
+   * A context domain limits the export to collaboration relationships in it.
+   */
+  async buildGraph(options: { privacyLevel: ExportPrivacyLevel; contextDomain?: string }): Promise<TrustGraph> {
+    const privacy = new ExportPrivacy(options.privacyLevel);
+    const nodes = new Map<string, TrustGraphNode>();
+    const edges: TrustGraphEdge[] = [];
+
+    const participantNode = (participantHash: string): TrustGraphNode => {
+      const id = privacy.participant(participantHash);
+      const node = nodes.get(id) || { id, kind: 'participant' as const };
+      nodes.set(id, node);
+      return node;
+    };
+
+    if (!options.contextDomain) {
+      const aspRanking = bginASPManager.getTrustRanking();
+      for (const member of bginASPManager.getTrustNetworkNodes()) {
+        const node = participantNode(member.userId);
+        node.did = privacy.level === 'minimal' ? member.did : undefined;
+        node.reputation = privacy.score(member.reputationScore);
+        node.graphTrust = privacy.score(aspRanking.scores.get(member.userId) || 0);
+
+        // Relationships are stored on the trusted member's node
+        member.trustRelationships.forEach((relationship, index) => {
+          edges.push({
+            id: `asp:${node.id}:${index}`,
+            source: participantNode(relationship.fromUserId).id,
+            target: node.id,
+            network: 'asp',
+            relationshipType: relationship.relationshipType,
+            trustScore: privacy.score(relationship.trustScore)!,
+            evidenceCount: relationship.evidence.length,
+            mutual: false,
+            lastUpdated: privacy.timestamp(relationship.lastUpdated)
+          });
+        });
+      }
+
+      const agentRanking = agentDIDManager.getTrustRanking();
+      for (const agent of agentDIDManager.getAllAgents()) {
+        nodes.set(agent.did, {
+          id: agent.did,
+          kind: 'agent',
+          agentType: agent.did.split(':')[3],
+          reputation: privacy.score(agentDIDManager.getAgentReputation(agent.did)?.overallScore),
+          graphTrust: privacy.score(agentRanking.scores.get(agent.did) || 0)
+        });
+      }
+
+      for (const relationship of agentDIDManager.getAllTrustRelationships()) {
+        for (const did of [relationship.fromAgent, relationship.toAgent]) {
+          if (!nodes.has(did)) nodes.set(did, { id: did, kind: 'agent' });
+        }
+        edges.push({
+          id: `toip:${relationship.id}`,
+          source: relationship.fromAgent,
+          target: relationship.toAgent,
+          network: 'toip',
+          relationshipType: relationship.relationshipType,
+          trustScore: privacy.score(relationship.trustScore)!,
+          evidenceCount: relationship.evidence.length,
+          mutual: false,
+          lastUpdated: privacy.timestamp(relationship.lastUpdated)
+        });
+      }
+    }
+
+    const [relationships, collaborationRanking] = await Promise.all([
+      trustService.listRelationships(options.contextDomain),
+      trustService.getRanking(options.contextDomain)
+    ]);
+
+    for (const relationship of relationships) {
+      const a = participantNode(relationship.participantA);
+      const b = participantNode(relationship.participantB);
+      a.collaborationTrust = privacy.score(collaborationRanking.scores.get(relationship.participantA) || 0);
+      b.collaborationTrust = privacy.score(collaborationRanking.scores.get(relationship.participantB) || 0);
+
+      const edge = {
+        network: 'collaboration' as const,
+        relationshipType: relationship.relationshipType,
+        trustScore: privacy.score(relationship.strength)!,
+        evidenceCount: relationship.totalInteractions,
+        mutual: true,
+        contextDomain: privacy.contextDomain(relationship.contextDomain),
+        lastUpdated: privacy.timestamp(relationship.lastInteraction || relationship.establishedAt)
+      };
+      edges.push(
+        { id: `collaboration:${relationship.id}:ab`, source: a.id, target: b.id, ...edge },
+        { id: `collaboration:${relationship.id}:ba`, source: b.id, target: a.id, ...edge }
+      );
+    }
+
+    return {
+      id: uuidv4(),
+      generatedAt: new Date(),
+      privacyLevel: options.privacyLevel,
+      contextDomain: options.contextDomain,
+      nodes: Array.from(nodes.values()),
+      edges
+    };
+  }
+
+  serialize(graph: TrustGraph, format: TrustExportFormat): string {
+    switch (format) {
+      case 'graphml':
+        return this.toGraphML(graph);
+      case 'gexf':
+        return this.toGEXF(graph);
+      case 'jsonld':
+        return JSON.stringify(this.toJSONLD(graph), null, 2);
+    }
+  }
+
+  toGraphML(graph: TrustGraph): string {
+    const data = <T>(item: T, attributes: { name: keyof T }[], prefix: string) => attributes
+      .filter(attribute => item[attribute.name] !== undefined)
+      .map(attribute => `<data key="${prefix}_${String(attribute.name)}">${escapeXml(String(item[attribute.name]))}</data>`)
+      .join('');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+      ...NODE_ATTRIBUTES.map(attribute =>
+        `  <key id="n_${attribute.name}" for="node" attr.name="${attribute.name}" attr.type="${attribute.type}"/>`),
+      ...EDGE_ATTRIBUTES.map(attribute =>
+        `  <key id="e_${attribute.name}" for="edge" attr.name="${attribute.name}" attr.type="${attribute.type}"/>`),
+      `  <graph id="${graph.id}" edgedefault="directed">`,
+      ...graph.nodes.map(node => `    <node id="${escapeXml(node.id)}">${data(node, NODE_ATTRIBUTES, 'n')}</node>`),
+      ...graph.edges.map(edge =>
+        `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${data(edge, EDGE_ATTRIBUTES, 'e')}</edge>`),
+      '  </graph>',
+      '</graphml>',
+      ''
+    ].join('\n');
+  }
+
+  toGEXF(graph: TrustGraph): string {
+    const gexfType = (type: AttributeType) => type === 'int' ? 'integer' : type;
+    const attvalues = <T>(item: T, attributes: { name: keyof T }[]) => {
+      const values = attributes
+        .filter(attribute => item[attribute.name] !== undefined)
+        .map(attribute => `<attvalue for="${String(attribute.name)}" value="${escapeXml(String(item[attribute.name]))}"/>`);
+      return values.length > 0 ? `<attvalues>${values.join('')}</attvalues>` : '';
+    };
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+      `  <meta lastmodifieddate="${graph.generatedAt.toISOString().substring(0, 10)}">`,
+      '    <creator>BGIN AI</creator>',
+      `    <description>BGIN trust graph (privacy level: ${graph.privacyLevel})</description>`,
+      '  </meta>',
+      '  <graph defaultedgetype="directed" mode="static">',
+      '    <attributes class="node">',
+      ...NODE_ATTRIBUTES.map(attribute =>
+        `      <attribute id="${attribute.name}" title="${attribute.name}" type="${gexfType(attribute.type)}"/>`),
+      '    </attributes>',
+      '    <attributes class="edge">',
+      ...EDGE_ATTRIBUTES.map(attribute =>
+        `      <attribute id="${attribute.name}" title="${attribute.name}" type="${gexfType(attribute.type)}"/>`),
+      '    </attributes>',
+      '    <nodes>',
+      ...graph.nodes.map(node =>
+        `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.id)}">${attvalues(node, NODE_ATTRIBUTES)}</node>`),
+      '    </nodes>',
+      '    <edges>',
+      ...graph.edges.map(edge =>
+        `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.trustScore}">${attvalues(edge, EDGE_ATTRIBUTES)}</edge>`),
+      '    </edges>',
+      '  </graph>',
+      '</gexf>',
+      ''
+    ].join('\n');
+  }
+
+  toJSONLD(graph: TrustGraph): Record<string, any> {
+    const iri = (node: string) => node.startsWith('did:') ? node : `urn:bgin:participant:${node}`;
+
+    return {
+      '@context': {
+        '@vocab': `${config.publicUrl}/ns/trust#`,
+        xsd: 'http://www.w3.org/2001/XMLSchema#',
+        source: { '@type': '@id' },
+        target: { '@type': '@id' },
+        generatedAt: { '@type': 'xsd:dateTime' },
+        reputation: { '@type': 'xsd:double' },
+        graphTrust: { '@type': 'xsd:double' },
+        collaborationTrust: { '@type': 'xsd:double' },
+        trustScore: { '@type': 'xsd:double' },
+        evidenceCount: { '@type': 'xsd:integer' },
+        mutual: { '@type': 'xsd:boolean' },
+        nodes: { '@container': '@set' },
+        edges: { '@container': '@set' }
+      },
+      '@id': `urn:bgin:trust-graph:${graph.id}`,
+      '@type': 'TrustGraph',
+      generatedAt: graph.generatedAt.toISOString(),
+      privacyLevel: graph.privacyLevel,
+      contextDomain: graph.contextDomain,
+      nodes: graph.nodes.map(({ id, kind, ...attributes }) => ({
+        '@id': iri(id),
+        '@type': kind === 'agent' ? 'Agent' : 'Participant',
+        ...attributes
+      })),
+      edges: graph.edges.map(({ id, source, target, ...attributes }) => ({
+        '@id': `urn:bgin:trust-relationship:${encodeURIComponent(id)}`,
+        '@type': 'TrustRelationship',
+        source: iri(source),
+        target: iri(target),
+        ...attributes
+      }))
+    };
+  }
+}
+
+// Export singleton instance
+export const trustExportService = new TrustExportService();
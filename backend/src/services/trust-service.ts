@@ -0,0 +1,462 @@
+// =====================================
+// backend/src/services/trust-service.ts
+// Participant trust network, peer verification and reputation over the
+// trust_relationships / participant_* tables
+// =====================================
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+import { computeTrustRanking, TrustEdge, TrustRanking } from '../toip/trust-graph';
+
+type Queryable = { query(text: string, params?: any[]): Promise<any> };
+
+export type HistoryInterval = 'day' | 'week' | 'month';
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['day', 'week', 'month'];
+
+export interface ParticipantRelationship {
+  id: string;
+  participant: string;
+  relationshipType: string;
+  contextDomain: string | null;
+  strength: number;
+  totalInteractions: number;
+  verificationMethod: string;
+  lastInteraction: Date | null;
+  establishedAt: Date;
+}
+
+export interface ParticipantNetwork {
+  participant: string;
+  trustScore: number;
+  rank: number;
+  networkSize: number;
+  collusionSuspected: boolean;
+  contextDomain: string | null;
+  relationships: ParticipantRelationship[];
+  pagination: { limit: number; offset: number; total: number };
+  rankedAt: Date;
+}
+
+export interface ParticipantContribution {
+  id: string;
+  participantHash: string;
+  contributionId: string | null;
+  sessionId: string | null;
+  qualityScore: number;
+}
+
+export interface ContributionVerification {
+  id: string;
+  contributionId: string;
+  participant: string;
+  verifier: string;
+  verificationType: string;
+  confidence: number;
+  /** The verifier's graph trust when they verified; a zero-trust verifier counts for nothing */
+  verifierWeight: number;
+  status: 'verified';
+  verifiedAt: Date;
+}
+
+export interface ReputationBreakdown {
+  /** 0-1, like every other reputation in the system */
+  reputationScore: number;
+  quality: number;
+  validation: number;
+  graphTrust: number;
+  contributionCount: number;
+  peerValidations: number;
+  /** Sum of confidence times verifier weight over all peer validations */
+  weightedValidations: number;
+  trustNetworkSize: number;
+}
+
+export interface ReputationHistoryPoint {
+  period: Date;
+  reputationScore: number;
+  quality: number;
+  validation: number;
+  graphTrust: number;
+}
+
+export interface ParticipantReputation extends ReputationBreakdown {
+  participant: string;
+  verificationStatus: string;
+  interval: HistoryInterval;
+  history: ReputationHistoryPoint[];
+}
+
+const RANKING_TTL_MS = 60 * 1000;
+
+/**
+ * Fully trusted peer validations per contribution at which the validation
+ * component is full
+ */
+const VALIDATIONS_FOR_FULL_SCORE = 3;
+
+export class TrustService {
+  private rankings: Map<string, { ranking: TrustRanking; expiresAt: number }> = new Map();
+
+  /**
+   * Stable pseudonym for a participant hash. Keyed and domain-separated from
+   * the hash itself so counterparties cannot be looked up in
+   * participant_profiles.
+   */
+  anonymize(participantHash: string): string {
+    const digest = crypto
+      .createHmac('sha256', config.anonymizationSalt)
+      .update(`participant:${participantHash}`)
+      .digest('hex');
+    return `anon_${digest.substring(0, 16)}`;
+  }
+
+  async getNetwork(
+    participantHash: string,
+    filter: { contextDomain?: string; relationshipType?: string; limit?: number; offset?: number } = {}
+  ): Promise<ParticipantNetwork> {
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+    const params = [participantHash, filter.contextDomain || null, filter.relationshipType || null];
+    const where = `(participant_a_hash = $1 OR participant_b_hash = $1)
+        AND ($2::text IS NULL OR context_domain = $2)
+        AND ($3::text IS NULL OR relationship_type = $3)`;
+
+    const [page, count, ranking] = await Promise.all([
+      database.query(
+        `SELECT * FROM trust_relationships WHERE ${where}
+          ORDER BY strength DESC, last_interaction_at DESC NULLS LAST, id
+          LIMIT $4 OFFSET $5`,
+        [...params, limit, offset]
+      ),
+      database.query(`SELECT COUNT(*)::int AS total FROM trust_relationships WHERE ${where}`, params),
+      this.getRanking(filter.contextDomain)
+    ]);
+
+    const globalTrust = ranking.globalTrust.get(participantHash) || 0;
+
+    return {
+      participant: this.anonymize(participantHash),
+      trustScore: ranking.scores.get(participantHash) || 0,
+      rank: Array.from(ranking.globalTrust.values()).filter(trust => trust > globalTrust).length + 1,
+      networkSize: count.rows[0].total,
+      collusionSuspected: ranking.collusionClusters.some(cluster => cluster.members.includes(participantHash)),
+      contextDomain: filter.contextDomain || null,
+      relationships: page.rows.map((row: any) =>
+        this.toRelationship(row, row.participant_a_hash === participantHash ? row.participant_b_hash : row.participant_a_hash)),
+      pagination: { limit, offset, total: count.rows[0].total },
+      rankedAt: ranking.computedAt
+    };
+  }
+
+  /**
+   * Look up a contribution by its own id or the id of what it refers to
+   */
+  async getContribution(contributionId: string): Promise<ParticipantContribution | null> {
+    const result = await database.query(
+      `SELECT * FROM participant_contributions WHERE id = $1 OR contribution_id = $1
+        ORDER BY created_at LIMIT 1`,
+      [contributionId]
+    );
+    const row = result.rows[0];
+    return row
+      ? {
+          id: row.id,
+          participantHash: row.participant_hash,
+          contributionId: row.contribution_id,
+          sessionId: row.session_id,
+          qualityScore: parseFloat(row.quality_score)
+        }
+      : null;
+  }
+
+  /**
+   * Record a peer verification: count it on the contribution, strengthen the
+   * verifier's relationship with the contributor and append the contributor's
+   * new reputation to its history, all in one transaction. The verification
+   * is weighted by the verifier's graph trust, so fresh or Sybil accounts
+   * cannot validate each other into reputation.
+   */
+  async verifyContribution(
+    verifierHash: string,
+    contribution: ParticipantContribution,
+    verification: { verificationType: string; confidence: number; contextDomain?: string }
+  ): Promise<{ verification: ContributionVerification; reputation: ReputationBreakdown }> {
+    if (verifierHash === contribution.participantHash) {
+      throw new Error('Participants cannot verify their own contributions');
+    }
+
+    const verifiedAt = new Date();
+    const verifierWeight = (await this.getRanking()).scores.get(verifierHash) || 0;
+
+    const result = await database.transaction(async client => {
+      const inserted = await client.query(
+        `INSERT INTO contribution_verifications
+           (id, contribution_id, verifier_hash, verification_type, confidence, verifier_weight, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (contribution_id, verifier_hash) DO NOTHING
+         RETURNING id`,
+        [uuidv4(), contribution.id, verifierHash, verification.verificationType, verification.confidence, verifierWeight, verifiedAt]
+      );
+      if (inserted.rowCount === 0) {
+        throw new Error('Contribution has already been verified by this participant');
+      }
+
+      await client.query(
+        'UPDATE participant_contributions SET peer_validations = peer_validations + 1 WHERE id = $1',
+        [contribution.id]
+      );
+
+      // One relationship per pair, whichever of the two established it
+      const evolution = JSON.stringify([{
+        at: verifiedAt,
+        reason: 'verification',
+        contributionId: contribution.id,
+        verificationType: verification.verificationType
+      }]);
+      const updated = await client.query(
+        `UPDATE trust_relationships
+            SET total_interactions = total_interactions + 1,
+                strength = calculate_trust_strength(total_interactions + 1, $3),
+                context_domain = COALESCE(context_domain, $4),
+                last_interaction_at = $5,
+                trust_evolution = trust_evolution || $6::jsonb
+          WHERE (participant_a_hash = $1 AND participant_b_hash = $2)
+             OR (participant_a_hash = $2 AND participant_b_hash = $1)`,
+        [verifierHash, contribution.participantHash, contribution.qualityScore * verification.confidence,
+          verification.contextDomain || contribution.sessionId, verifiedAt, evolution]
+      );
+      if (updated.rowCount === 0) {
+        await client.query(
+          `INSERT INTO trust_relationships
+             (participant_a_hash, participant_b_hash, relationship_type, context_domain, strength,
+              total_interactions, last_interaction_at, trust_evolution, verification_method)
+           VALUES ($1, $2, $3, $4, calculate_trust_strength(1, $5), 1, $6, $7::jsonb, 'peer_verification')`,
+          [verifierHash, contribution.participantHash, verification.verificationType,
+            verification.contextDomain || contribution.sessionId, contribution.qualityScore * verification.confidence,
+            verifiedAt, evolution]
+        );
+      }
+
+      const ranking = await this.rank(client);
+      const reputation = await this.computeReputation(client, contribution.participantHash, ranking);
+      await this.recordReputation(client, contribution.participantHash, reputation, 'verification');
+
+      return { id: inserted.rows[0].id, reputation };
+    });
+    this.rankings.clear();
+
+    return {
+      verification: {
+        id: result.id,
+        contributionId: contribution.id,
+        participant: this.anonymize(contribution.participantHash),
+        verifier: this.anonymize(verifierHash),
+        verificationType: verification.verificationType,
+        confidence: verification.confidence,
+        verifierWeight,
+        status: 'verified',
+        verifiedAt
+      },
+      reputation: result.reputation
+    };
+  }
+
+  /**
+   * Current reputation with its history, one point per interval (the last
+   * recorded value in each), oldest first
+   */
+  async getReputation(
+    participantHash: string,
+    options: { interval?: HistoryInterval; limit?: number } = {}
+  ): Promise<ParticipantReputation> {
+    const interval = options.interval || 'day';
+    const ranking = await this.getRanking();
+
+    const [breakdown, profile, history] = await Promise.all([
+      this.computeReputation(database, participantHash, ranking),
+      database.query('SELECT verification_status FROM participant_profiles WHERE participant_hash = $1', [participantHash]),
+      database.query(
+        `SELECT DISTINCT ON (date_trunc($2, recorded_at)) date_trunc($2, recorded_at) AS period, *
+           FROM participant_reputation_history
+          WHERE participant_hash = $1
+          ORDER BY date_trunc($2, recorded_at) DESC, recorded_at DESC
+          LIMIT $3`,
+        [participantHash, interval, options.limit ?? 90]
+      )
+    ]);
+
+    return {
+      participant: this.anonymize(participantHash),
+      ...breakdown,
+      verificationStatus: profile.rows[0]?.verification_status || 'unverified',
+      interval,
+      history: history.rows.reverse().map((row: any): ReputationHistoryPoint => ({
+        period: row.period,
+        reputationScore: row.reputation_score,
+        quality: row.quality_score,
+        validation: row.validation_score,
+        graphTrust: row.graph_trust
+      }))
+    };
+  }
+
+  /**
+   * Last recorded reputation (0-1) without recomputing it; 0 for participants
+   * who have none yet
+   */
+  async getReputationScore(participantHash: string): Promise<number> {
+    const result = await database.query(
+      'SELECT reputation_score FROM participant_profiles WHERE participant_hash = $1',
+      [participantHash]
+    );
+    return Number(result.rows[0]?.reputation_score ?? 0);
+  }
+
+  /**
+   * Every participant relationship, optionally in one context domain
+   */
+  async listRelationships(contextDomain?: string): Promise<(ParticipantRelationship & { participantA: string; participantB: string })[]> {
+    const result = await database.query(
+      `SELECT * FROM trust_relationships
+        WHERE $1::text IS NULL OR context_domain = $1
+        ORDER BY established_at, id`,
+      [contextDomain || null]
+    );
+    return result.rows.map((row: any) => ({
+      ...this.toRelationship(row, row.participant_b_hash),
+      participantA: row.participant_a_hash,
+      participantB: row.participant_b_hash
+    }));
+  }
+
+  /**
+   * Ranking over all relationships, or only those in one context domain;
+   * cached briefly since every edge is read
+   */
+  async getRanking(contextDomain?: string): Promise<TrustRanking> {
+    const key = contextDomain || '*';
+    const cached = this.rankings.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.ranking;
+    }
+
+    const ranking = await this.rank(database, contextDomain);
+    this.rankings.set(key, { ranking, expiresAt: Date.now() + RANKING_TTL_MS });
+    return ranking;
+  }
+
+  /**
+   * Relationships are mutual, so each row is an edge in both directions
+   */
+  private async rank(client: Queryable, contextDomain?: string): Promise<TrustRanking> {
+    const result = await client.query(
+      `SELECT participant_a_hash, participant_b_hash, strength, last_interaction_at, updated_at
+         FROM trust_relationships
+        WHERE $1::text IS NULL OR context_domain = $1`,
+      [contextDomain || null]
+    );
+
+    const members = new Set<string>();
+    const edges: TrustEdge[] = [];
+    for (const row of result.rows) {
+      const weight = parseFloat(row.strength);
+      const timestamp = row.last_interaction_at || row.updated_at;
+      members.add(row.participant_a_hash).add(row.participant_b_hash);
+      edges.push(
+        { from: row.participant_a_hash, to: row.participant_b_hash, weight, timestamp },
+        { from: row.participant_b_hash, to: row.participant_a_hash, weight, timestamp }
+      );
+    }
+    config.trustGraph.seeds.forEach((seed: string) => members.add(seed));
+
+    const ranking = computeTrustRanking(Array.from(members), edges, config.trustGraph);
+    if (ranking.seeds.length === 0 && edges.length > 0) {
+      logger.error('Participant trust graph is unseeded: set TRUST_SEEDS, until then nobody has graph trust');
+    }
+    return ranking;
+  }
+
+  private toRelationship(row: any, counterparty: string): ParticipantRelationship {
+    return {
+      id: row.id,
+      participant: this.anonymize(counterparty),
+      relationshipType: row.relationship_type,
+      contextDomain: row.context_domain,
+      strength: parseFloat(row.strength),
+      totalInteractions: row.total_interactions,
+      verificationMethod: row.verification_method,
+      lastInteraction: row.last_interaction_at,
+      establishedAt: row.established_at
+    };
+  }
+
+  private async computeReputation(client: Queryable, participantHash: string, ranking: TrustRanking): Promise<ReputationBreakdown> {
+    const [contributions, validations, network] = await Promise.all([
+      client.query(
+        `SELECT COUNT(*)::int AS contribution_count,
+                COALESCE(AVG(quality_score), 0) AS quality,
+                COALESCE(SUM(peer_validations), 0)::int AS peer_validations
+           FROM participant_contributions WHERE participant_hash = $1`,
+        [participantHash]
+      ),
+      client.query(
+        `SELECT COALESCE(SUM(v.confidence * v.verifier_weight), 0) AS weighted
+           FROM contribution_verifications v
+           JOIN participant_contributions c ON c.id = v.contribution_id
+          WHERE c.participant_hash = $1`,
+        [participantHash]
+      ),
+      client.query(
+        `SELECT COUNT(*)::int AS size FROM trust_relationships
+          WHERE participant_a_hash = $1 OR participant_b_hash = $1`,
+        [participantHash]
+      )
+    ]);
+
+    const { contribution_count: contributionCount, peer_validations: peerValidations } = contributions.rows[0];
+    const quality = parseFloat(contributions.rows[0].quality);
+    const weightedValidations = parseFloat(validations.rows[0].weighted);
+    const validation = contributionCount > 0
+      ? Math.min(weightedValidations / (contributionCount * VALIDATIONS_FOR_FULL_SCORE), 1)
+      : 0;
+    const graphTrust = ranking.scores.get(participantHash) || 0;
+
+    return {
+      reputationScore: quality * 0.4 + validation * 0.2 + graphTrust * 0.4,
+      quality,
+      validation,
+      graphTrust,
+      contributionCount,
+      peerValidations,
+      weightedValidations,
+      trustNetworkSize: network.rows[0].size
+    };
+  }
+
+  private async recordReputation(client: Queryable, participantHash: string, reputation: ReputationBreakdown, reason: string): Promise<void> {
+    await client.query(
+      `INSERT INTO participant_profiles (participant_hash, reputation_score, trust_network_size, contribution_count, last_active_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (participant_hash) DO UPDATE
+         SET reputation_score = EXCLUDED.reputation_score,
+             trust_network_size = EXCLUDED.trust_network_size,
+             contribution_count = EXCLUDED.contribution_count`,
+      [participantHash, reputation.reputationScore, reputation.trustNetworkSize, reputation.contributionCount]
+    );
+    await client.query(
+      `INSERT INTO participant_reputation_history
+         (participant_hash, reputation_score, quality_score, validation_score, graph_trust,
+          contribution_count, trust_network_size, reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [participantHash, reputation.reputationScore, reputation.quality, reputation.validation, reputation.graphTrust,
+        reputation.contributionCount, reputation.trustNetworkSize, reason]
+    );
+  }
+}
+
+// Export singleton instance
+export const trustService = new TrustService();
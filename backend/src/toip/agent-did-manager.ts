@@ -3,11 +3,21 @@
 // Trust over IP (ToIP) Agent DID Management
 // =====================================
 
+import crypto, { KeyObject } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { publicKeyToMultibase, verifyEd25519 } from './did-keys';
+import { canonicalize, signDetachedJWS, verifyDetachedJWS } from './jws';
+import { didResolver, DIDDocument, DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT, VerificationRelationship } from './did-resolver';
+import { statusListRegistry, BitstringStatusListEntry, CredentialStatus, StatusChange, StatusPurpose } from './status-list';
+import { toipRepository, ReputationHistoryEntry } from './toip-repository';
+import { computeTrustRanking, decayFactor, TrustRanking } from './trust-graph';
 
 export interface AgentDID {
   did: string;
   verificationMethod: string;
+  publicKeyMultibase: string;
   serviceEndpoint: string;
   capabilityInvocation: string[];
   createdAt: Date;
@@ -15,6 +25,7 @@ export interface AgentDID {
 }
 
 export interface AgentCredential {
+  id: string;
   type: string;
   issuer: string;
   subject: string;
@@ -26,6 +37,7 @@ export interface AgentCredential {
   };
   issuanceDate: Date;
   expirationDate?: Date;
+  credentialStatus?: BitstringStatusListEntry[];
   proof: {
     type: string;
     created: Date;
@@ -36,6 +48,7 @@ export interface AgentCredential {
 }
 
 export interface TrustRelationship {
+  id: string;
   fromAgent: string;
   toAgent: string;
   trustScore: number;
@@ -67,11 +80,108 @@ export interface AgentReputation {
   lastUpdated: Date;
 }
 
+export interface CredentialVerificationResult {
+  verified: boolean;
+  reason?: string;
+  checks: {
+    structure: boolean;
+    /** Issuer is a did:bgin agent registered on this node */
+    issuer: boolean;
+    signature: boolean;
+    issuanceDate: boolean;
+    expiration: boolean;
+    revocation: boolean;
+  };
+}
+
+export interface DIDAuthChallenge {
+  did: string;
+  nonce: string;
+  /** Host of this node; the signed message is only valid for it */
+  domain: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  /** What the holder signs, built by formatAuthMessage */
+  message: string;
+}
+
+const AUTH_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// Challenges are issued without authentication, so pending ones are bounded
+const MAX_AUTH_CHALLENGES = 10000;
+const MAX_AUTH_CHALLENGES_PER_DID = 5;
+
+/**
+ * The login message binds the signature to this node, the DID, the nonce and
+ * the challenge's lifetime, so it cannot be replayed to another service that
+ * happens to ask the same key to sign a bare nonce
+ */
+export function formatAuthMessage(challenge: Omit<DIDAuthChallenge, 'message'>): string {
+  return [
+    `${challenge.domain} wants you to sign in with your DID:`,
+    challenge.did,
+    '',
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${challenge.issuedAt.toISOString()}`,
+    `Expiration Time: ${challenge.expiresAt.toISOString()}`
+  ].join('\n');
+}
+
 export class AgentDIDManager {
   private agentDIDs: Map<string, AgentDID> = new Map();
   private agentCredentials: Map<string, AgentCredential[]> = new Map();
   private trustRelationships: Map<string, TrustRelationship[]> = new Map();
   private agentReputations: Map<string, AgentReputation> = new Map();
+  private authChallenges: Map<string, DIDAuthChallenge> = new Map();
+  private signingKeys: Map<string, KeyObject> = new Map();
+
+  constructor() {
+    // did:bgin documents are served from the agents registered on this node
+    didResolver.registerDriver('bgin', async did => {
+      const agentDID = this.agentDIDs.get(did);
+      return agentDID
+        ? {
+            didDocument: this.buildDIDDocument(agentDID),
+            didDocumentMetadata: {
+              created: agentDID.createdAt.toISOString(),
+              updated: agentDID.updatedAt.toISOString()
+            }
+          }
+        : null;
+    });
+  }
+
+  /**
+   * Rebuild the in-memory trust network from PostgreSQL
+   */
+  async initialize(): Promise<void> {
+    const state = await toipRepository.loadState();
+
+    this.agentDIDs = new Map(state.agentDIDs.map(agentDID => [agentDID.did, agentDID]));
+    this.signingKeys = state.signingKeys;
+    this.agentReputations = new Map(state.reputations.map(reputation => [reputation.agentDID, reputation]));
+
+    this.agentCredentials.clear();
+    for (const credential of state.credentials) {
+      const credentials = this.agentCredentials.get(credential.subject) || [];
+      credentials.push(credential);
+      this.agentCredentials.set(credential.subject, credentials);
+    }
+
+    this.trustRelationships.clear();
+    for (const relationship of state.trustRelationships) {
+      const relationships = this.trustRelationships.get(relationship.fromAgent) || [];
+      relationships.push(relationship);
+      this.trustRelationships.set(relationship.fromAgent, relationships);
+    }
+
+    statusListRegistry.restore(
+      state.statusLists,
+      state.credentials.flatMap(credential => credential.credentialStatus || []),
+      state.statusChanges
+    );
+
+    logger.info(`Loaded ToIP state: ${state.agentDIDs.length} agent DIDs, ${state.credentials.length} credentials, ${state.trustRelationships.length} trust relationships`);
+  }
 
   /**
    * Create a new DID for an agent
@@ -79,21 +189,21 @@ export class AgentDIDManager {
   async createAgentDID(agentType: 'archive' | 'codex' | 'discourse', capabilities: string[]): Promise<AgentDID> {
     const did = `did:bgin:agent:${agentType}:${uuidv4()}`;
     const verificationMethod = `${did}#key-1`;
-    const serviceEndpoint = `https://bgin-${agentType}-agent.example.com/api`;
+    const serviceEndpoint = `${config.publicUrl}/api/agents/${agentType}`;
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
     
     const agentDID: AgentDID = {
       did,
       verificationMethod,
+      publicKeyMultibase: publicKeyToMultibase(publicKey),
       serviceEndpoint,
       capabilityInvocation: capabilities,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
-    this.agentDIDs.set(did, agentDID);
-    
     // Initialize reputation
-    this.agentReputations.set(did, {
+    const reputation: AgentReputation = {
       agentDID: did,
       overallScore: 0,
       categoryScores: {
@@ -105,7 +215,13 @@ export class AgentDIDManager {
       totalInteractions: 0,
       successfulCollaborations: 0,
       lastUpdated: new Date()
-    });
+    };
+
+    await toipRepository.createAgentDID(agentDID, privateKey, reputation);
+
+    this.agentDIDs.set(did, agentDID);
+    this.signingKeys.set(did, privateKey);
+    this.agentReputations.set(did, reputation);
 
     return agentDID;
   }
@@ -120,7 +236,14 @@ export class AgentDIDManager {
     capabilities: string[],
     trustLevel: number
   ): Promise<AgentCredential> {
-    const credential: AgentCredential = {
+    const signingKey = this.signingKeys.get(issuerDID);
+    if (!signingKey) {
+      throw new Error(`No signing key held for issuer ${issuerDID}`);
+    }
+
+    const issuanceDate = new Date();
+    const body: Omit<AgentCredential, 'proof'> = {
+      id: `urn:uuid:${uuidv4()}`,
       type: 'AgentCapabilityCredential',
       issuer: issuerDID,
       subject: subjectDID,
@@ -130,18 +253,28 @@ export class AgentDIDManager {
         trustLevel,
         permissions: this.getPermissionsForAgentType(agentType)
       },
-      issuanceDate: new Date(),
-      expirationDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
+      issuanceDate,
+      expirationDate: new Date(issuanceDate.getTime() + 365 * 24 * 60 * 60 * 1000), // 1 year
+      credentialStatus: await statusListRegistry.allocate(issuerDID)
+    };
+
+    const proofOptions = {
+      type: 'JsonWebSignature2020',
+      created: issuanceDate,
+      verificationMethod: `${issuerDID}#key-1`,
+      proofPurpose: 'assertionMethod'
+    };
+
+    const credential: AgentCredential = {
+      ...body,
       proof: {
-        type: 'Ed25519Signature2020',
-        created: new Date(),
-        verificationMethod: `${issuerDID}#key-1`,
-        proofPurpose: 'assertionMethod',
-        jws: await this.generateJWSSignature(issuerDID, subjectDID, capabilities)
+        ...proofOptions,
+        jws: signDetachedJWS(this.getSigningPayload(body, proofOptions), signingKey, proofOptions.verificationMethod)
       }
     };
 
     // Store credential
+    await toipRepository.saveCredential(credential);
     const existingCredentials = this.agentCredentials.get(subjectDID) || [];
     existingCredentials.push(credential);
     this.agentCredentials.set(subjectDID, existingCredentials);
@@ -159,7 +292,12 @@ export class AgentDIDManager {
     initialTrustScore: number,
     evidence: TrustEvidence[]
   ): Promise<TrustRelationship> {
+    if (!(initialTrustScore >= 0 && initialTrustScore <= 1)) {
+      throw new Error('Initial trust score must be between 0 and 1');
+    }
+
     const relationship: TrustRelationship = {
+      id: uuidv4(),
       fromAgent,
       toAgent,
       trustScore: initialTrustScore,
@@ -169,37 +307,48 @@ export class AgentDIDManager {
       lastUpdated: new Date()
     };
 
-    // Store relationship
+    // Persist relationship and reputation change together before touching memory
+    const reputation = await toipRepository.addTrustRelationship(relationship, changed => this.computeReputation(changed));
+
     const existingRelationships = this.trustRelationships.get(fromAgent) || [];
     existingRelationships.push(relationship);
     this.trustRelationships.set(fromAgent, existingRelationships);
-
-    // Update reputation scores
-    await this.updateReputationScores(fromAgent, toAgent, relationshipType, initialTrustScore);
+    if (reputation) {
+      this.agentReputations.set(toAgent, reputation);
+    }
 
     return relationship;
   }
 
   /**
-   * Update trust score based on collaboration evidence
+   * Update trust score based on collaboration evidence. The evidence is
+   * appended to the stored relationship under a row lock and memory is
+   * refreshed from what was committed.
    */
   async updateTrustScore(
     fromAgent: string,
     toAgent: string,
     newEvidence: TrustEvidence
   ): Promise<void> {
+    const result = await toipRepository.addTrustEvidence(
+      fromAgent,
+      toAgent,
+      newEvidence,
+      evidence => this.calculateTrustScore(evidence),
+      changed => this.computeReputation(changed)
+    );
+    if (!result) return;
+
     const relationships = this.trustRelationships.get(fromAgent) || [];
-    const relationship = relationships.find(rel => rel.toAgent === toAgent);
-    
+    const relationship = relationships.find(rel => rel.id === result.relationship.id);
     if (relationship) {
-      relationship.evidence.push(newEvidence);
-      relationship.lastUpdated = new Date();
-      
-      // Recalculate trust score based on evidence
-      relationship.trustScore = this.calculateTrustScore(relationship.evidence);
-      
-      // Update reputation
-      await this.updateReputationScores(fromAgent, toAgent, relationship.relationshipType, relationship.trustScore);
+      Object.assign(relationship, result.relationship);
+    } else {
+      relationships.push(result.relationship);
+      this.trustRelationships.set(fromAgent, relationships);
+    }
+    if (result.reputation) {
+      this.agentReputations.set(toAgent, result.reputation);
     }
   }
 
@@ -210,6 +359,20 @@ export class AgentDIDManager {
     return this.agentReputations.get(agentDID);
   }
 
+  /**
+   * Reputation snapshots recorded after each trust change, newest first
+   */
+  async getReputationHistory(agentDID: string, limit?: number): Promise<ReputationHistoryEntry[]> {
+    return toipRepository.getReputationHistory(agentDID, limit);
+  }
+
+  /**
+   * Graph trust of every agent over the current trust relationships
+   */
+  getTrustRanking(): TrustRanking {
+    return this.rankAgents(this.getAllTrustRelationships());
+  }
+
   /**
    * Get trust relationships for an agent
    */
@@ -225,15 +388,153 @@ export class AgentDIDManager {
   }
 
   /**
-   * Verify agent credential
+   * Verify agent credential: structure, detached JWS over the canonicalized
+   * body, validity period and status list bits. The first failing check is reported
+   * as the reason.
+   */
+  async verifyCredential(credential: AgentCredential): Promise<CredentialVerificationResult> {
+    const checks = {
+      structure: false,
+      issuer: false,
+      signature: false,
+      issuanceDate: false,
+      expiration: false,
+      revocation: false
+    };
+    const fail = (reason: string): CredentialVerificationResult => ({ verified: false, reason, checks });
+
+    if (!credential || typeof credential !== 'object') {
+      return fail('Credential must be an object');
+    }
+    for (const field of ['id', 'type', 'issuer', 'subject', 'credentialSubject', 'issuanceDate', 'proof'] as const) {
+      if (!credential[field]) {
+        return fail(`Missing required field: ${field}`);
+      }
+    }
+    if (credential.proof.type !== 'JsonWebSignature2020') {
+      return fail(`Unsupported proof type: ${credential.proof.type}`);
+    }
+    if (!credential.proof.jws) {
+      return fail('Missing proof.jws');
+    }
+    if (credential.proof.proofPurpose !== 'assertionMethod') {
+      return fail(`Unexpected proof purpose: ${credential.proof.proofPurpose}`);
+    }
+
+    const [methodDID] = String(credential.proof.verificationMethod || '').split('#');
+    if (methodDID !== credential.issuer) {
+      return fail('proof.verificationMethod does not belong to the issuer');
+    }
+    checks.structure = true;
+
+    // Capability credentials only mean something when this node's agents
+    // issued them; a self-signed did:key or did:web issuer proves nothing
+    if (!this.isTrustedIssuer(credential.issuer)) {
+      return fail(`Issuer ${credential.issuer} is not a trusted agent DID on this node`);
+    }
+    checks.issuer = true;
+
+    let publicKey: KeyObject;
+    try {
+      publicKey = await this.resolveVerificationKey(credential.issuer);
+    } catch (error) {
+      return fail(`Cannot resolve issuer key: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const { proof, ...body } = credential;
+    const { jws, ...proofOptions } = proof;
+    const signature = verifyDetachedJWS(jws, this.getSigningPayload(body, proofOptions), publicKey);
+    if (!signature.valid) {
+      return fail(signature.reason!);
+    }
+    checks.signature = true;
+
+    const now = Date.now();
+    const issuanceDate = new Date(credential.issuanceDate).getTime();
+    if (Number.isNaN(issuanceDate) || issuanceDate > now) {
+      return fail('Credential is not yet valid (issuanceDate is in the future)');
+    }
+    checks.issuanceDate = true;
+
+    if (credential.expirationDate) {
+      const expirationDate = new Date(credential.expirationDate);
+      if (Number.isNaN(expirationDate.getTime()) || expirationDate.getTime() <= now) {
+        return fail(`Credential expired at ${new Date(credential.expirationDate).toISOString()}`);
+      }
+    }
+    checks.expiration = true;
+
+    for (const entry of credential.credentialStatus || []) {
+      const isSet = statusListRegistry.isSet(entry);
+      if (isSet === undefined) {
+        return fail(`Unknown status list: ${entry.statusListCredential}`);
+      }
+      if (isSet) {
+        const change = statusListRegistry.getLastChange(credential.id, entry.statusPurpose);
+        const label = entry.statusPurpose === 'revocation' ? 'revoked' : 'suspended';
+        return fail(change
+          ? `Credential ${label} at ${change.changedAt.toISOString()}: ${change.reason}`
+          : `Credential ${label}`);
+      }
+    }
+    checks.revocation = true;
+
+    return { verified: true, checks };
+  }
+
+  /**
+   * Permanently revoke an issued credential by setting its revocation bit
+   */
+  async revokeCredential(credentialId: string, reason: string, changedBy?: string): Promise<StatusChange | undefined> {
+    return this.setCredentialStatus(credentialId, 'revocation', true, reason, changedBy);
+  }
+
+  /**
+   * Temporarily suspend an issued credential; reinstateCredential lifts it
+   */
+  async suspendCredential(credentialId: string, reason: string, changedBy?: string): Promise<StatusChange | undefined> {
+    return this.setCredentialStatus(credentialId, 'suspension', true, reason, changedBy);
+  }
+
+  async reinstateCredential(credentialId: string, reason: string, changedBy?: string): Promise<StatusChange | undefined> {
+    return this.setCredentialStatus(credentialId, 'suspension', false, reason, changedBy);
+  }
+
+  /**
+   * Current revocation/suspension bits and change history for a credential
+   */
+  getCredentialStatus(credentialId: string): CredentialStatus | undefined {
+    const credential = this.getCredential(credentialId);
+    if (!credential) return undefined;
+
+    return statusListRegistry.getStatus(credentialId, credential.credentialStatus || []);
+  }
+
+  isTrustedIssuer(did: string): boolean {
+    return did.startsWith('did:bgin:') && this.agentDIDs.has(did);
+  }
+
+  hasSigningKey(did: string): boolean {
+    return this.signingKeys.has(did);
+  }
+
+  /**
+   * Private key for an agent DID managed by this node, for other ToIP modules
+   * that produce proofs on the agent's behalf
    */
-  async verifyCredential(credential: AgentCredential): Promise<boolean> {
-    // In a real implementation, this would verify the JWS signature
-    // For now, we'll do basic validation
-    return credential.type === 'AgentCapabilityCredential' &&
-           credential.issuer.startsWith('did:bgin:') &&
-           credential.subject.startsWith('did:bgin:') &&
-           credential.proof.type === 'Ed25519Signature2020';
+  getSigningKey(did: string): KeyObject | undefined {
+    return this.signingKeys.get(did);
+  }
+
+  /**
+   * Look up an issued credential by id
+   */
+  getCredential(credentialId: string): AgentCredential | undefined {
+    for (const credentials of this.agentCredentials.values()) {
+      const credential = credentials.find(candidate => candidate.id === credentialId);
+      if (credential) return credential;
+    }
+    return undefined;
   }
 
   /**
@@ -243,6 +544,109 @@ export class AgentDIDManager {
     return Array.from(this.agentDIDs.values());
   }
 
+  /**
+   * Issue a single-use login challenge whose message the holder of a
+   * did:key/did:web must sign
+   */
+  createAuthChallenge(did: string): DIDAuthChallenge {
+    if (!did.startsWith('did:key:') && !did.startsWith('did:web:')) {
+      throw new Error('Only did:key and did:web identifiers can be used to log in');
+    }
+
+    this.pruneAuthChallenges();
+
+    // A newer challenge for the same DID replaces its oldest pending ones
+    const pending = Array.from(this.authChallenges.values()).filter(entry => entry.did === did);
+    for (const stale of pending.slice(0, Math.max(0, pending.length - MAX_AUTH_CHALLENGES_PER_DID + 1))) {
+      this.authChallenges.delete(stale.nonce);
+    }
+    if (this.authChallenges.size >= MAX_AUTH_CHALLENGES) {
+      throw new Error('Too many pending login challenges; try again later');
+    }
+
+    const issuedAt = new Date();
+    const fields = {
+      did,
+      nonce: crypto.randomBytes(32).toString('base64url'),
+      domain: new URL(config.publicUrl).host,
+      issuedAt,
+      expiresAt: new Date(issuedAt.getTime() + AUTH_CHALLENGE_TTL_MS)
+    };
+    const challenge: DIDAuthChallenge = { ...fields, message: formatAuthMessage(fields) };
+
+    this.authChallenges.set(challenge.nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Check an Ed25519 signature over the message of a previously issued
+   * challenge. The challenge is consumed whether or not verification succeeds.
+   */
+  async verifyAuthChallenge(did: string, nonce: string, signature: string): Promise<{ verified: boolean; reason?: string }> {
+    const challenge = this.authChallenges.get(nonce);
+    this.authChallenges.delete(nonce);
+
+    if (!challenge || challenge.did !== did) {
+      return { verified: false, reason: 'Unknown or already used challenge' };
+    }
+
+    if (challenge.expiresAt.getTime() < Date.now()) {
+      return { verified: false, reason: 'Challenge expired' };
+    }
+
+    let publicKey: KeyObject;
+    try {
+      publicKey = await this.resolveVerificationKey(did, 'authentication');
+    } catch (error) {
+      return { verified: false, reason: `Could not resolve DID key: ${error instanceof Error ? error.message : error}` };
+    }
+
+    if (!verifyEd25519(publicKey, challenge.message, signature)) {
+      return { verified: false, reason: 'Signature does not match DID key' };
+    }
+
+    return { verified: true };
+  }
+
+  /**
+   * Resolve the Ed25519 key for a did:bgin agent, did:key or did:web identifier
+   */
+  async resolveVerificationKey(did: string, relationship: VerificationRelationship = 'assertionMethod'): Promise<KeyObject> {
+    return didResolver.resolveVerificationKey(did, relationship);
+  }
+
+  getAgentDID(did: string): AgentDID | undefined {
+    return this.agentDIDs.get(did);
+  }
+
+  /**
+   * Build the W3C DID document for a did:bgin agent
+   */
+  buildDIDDocument(agentDID: AgentDID): DIDDocument {
+    const agentType = agentDID.did.split(':')[3];
+
+    return {
+      '@context': [DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT],
+      id: agentDID.did,
+      verificationMethod: [{
+        id: agentDID.verificationMethod,
+        type: 'Multikey',
+        controller: agentDID.did,
+        publicKeyMultibase: agentDID.publicKeyMultibase
+      }],
+      authentication: [agentDID.verificationMethod],
+      assertionMethod: [agentDID.verificationMethod],
+      capabilityInvocation: [agentDID.verificationMethod],
+      service: [{
+        id: `${agentDID.did}#agent-api`,
+        type: 'BGINAgentService',
+        serviceEndpoint: agentDID.serviceEndpoint,
+        agentType,
+        capabilities: agentDID.capabilityInvocation
+      }]
+    };
+  }
+
   /**
    * Calculate trust score based on evidence
    */
@@ -259,7 +663,8 @@ export class AgentDIDManager {
     let totalWeight = 0;
 
     for (const evidenceItem of evidence) {
-      const weight = weights[evidenceItem.type] || 0.1;
+      // Old evidence fades so trust has to be reaffirmed
+      const weight = (weights[evidenceItem.type] || 0.1) * decayFactor(evidenceItem.timestamp, config.trustGraph.halfLifeDays);
       totalScore += evidenceItem.confidence * weight;
       totalWeight += weight;
     }
@@ -268,45 +673,90 @@ export class AgentDIDManager {
   }
 
   /**
-   * Update reputation scores based on trust relationship
+   * Next scores for the trusted agent after a relationship change; the
+   * repository stores them and increments the interaction counts. Each
+   * category averages the incoming trust of that type weighted by the
+   * truster's graph trust, so endorsements from agents nobody trusts count
+   * for nothing.
    */
-  private async updateReputationScores(
-    fromAgent: string,
-    toAgent: string,
-    relationshipType: string,
-    trustScore: number
-  ): Promise<void> {
-    const reputation = this.agentReputations.get(toAgent);
-    if (!reputation) return;
-
-    // Update category scores based on relationship type
-    switch (relationshipType) {
-      case 'collaboration':
-        reputation.categoryScores.collaboration = Math.max(
-          reputation.categoryScores.collaboration,
-          trustScore
-        );
-        reputation.successfulCollaborations++;
-        break;
-      case 'verification':
-        reputation.categoryScores.accuracy = Math.max(
-          reputation.categoryScores.accuracy,
-          trustScore
-        );
-        break;
-      case 'endorsement':
-        reputation.categoryScores.reliability = Math.max(
-          reputation.categoryScores.reliability,
-          trustScore
-        );
-        break;
+  private computeReputation(changed: TrustRelationship): Pick<AgentReputation, 'overallScore' | 'categoryScores'> | undefined {
+    const current = this.agentReputations.get(changed.toAgent);
+    if (!current) return undefined;
+
+    const relationships = [
+      ...this.getAllTrustRelationships().filter(relationship => relationship.id !== changed.id),
+      changed
+    ];
+    const ranking = this.rankAgents(relationships);
+    const incoming = relationships.filter(relationship => relationship.toAgent === changed.toAgent);
+
+    const categories: Record<TrustRelationship['relationshipType'], keyof AgentReputation['categoryScores']> = {
+      collaboration: 'collaboration',
+      verification: 'accuracy',
+      endorsement: 'reliability'
+    };
+
+    const categoryScores = { ...current.categoryScores };
+
+    for (const [relationshipType, category] of Object.entries(categories)) {
+      let weightedScore = 0;
+      let totalWeight = 0;
+      for (const relationship of incoming.filter(candidate => candidate.relationshipType === relationshipType)) {
+        const weight = ranking.scores.get(relationship.fromAgent) || 0;
+        weightedScore += weight * relationship.trustScore * decayFactor(relationship.lastUpdated, config.trustGraph.halfLifeDays);
+        totalWeight += weight;
+      }
+      categoryScores[category] = totalWeight > 0 ? weightedScore / totalWeight : 0;
     }
 
     // Update overall score
-    const categoryScores = Object.values(reputation.categoryScores);
-    reputation.overallScore = categoryScores.reduce((sum, score) => sum + score, 0) / categoryScores.length;
-    reputation.totalInteractions++;
-    reputation.lastUpdated = new Date();
+    const scores = Object.values(categoryScores);
+    return {
+      categoryScores,
+      overallScore: scores.reduce((sum, score) => sum + score, 0) / scores.length
+    };
+  }
+
+  /**
+   * Every trust relationship between agents
+   */
+  getAllTrustRelationships(): TrustRelationship[] {
+    return Array.from(this.trustRelationships.values()).flat();
+  }
+
+  /**
+   * Rank agents from the configured seeds, or failing that from the agents
+   * this node created itself (only admins can create them)
+   */
+  private rankAgents(relationships: TrustRelationship[]): TrustRanking {
+    const agents = new Set(this.agentDIDs.keys());
+    relationships.forEach(relationship => agents.add(relationship.fromAgent).add(relationship.toAgent));
+
+    let seeds = config.trustGraph.seeds.filter((seed: string) => agents.has(seed));
+    if (seeds.length === 0) {
+      seeds = Array.from(this.agentDIDs.keys());
+      logger.warn(`No TRUST_SEEDS among agents; seeding agent trust with the ${seeds.length} local agent DIDs`);
+    }
+
+    return computeTrustRanking(
+      Array.from(agents),
+      relationships.map(relationship => ({
+        from: relationship.fromAgent,
+        to: relationship.toAgent,
+        weight: relationship.trustScore,
+        timestamp: relationship.lastUpdated
+      })),
+      { ...config.trustGraph, seeds }
+    );
+  }
+
+  private pruneAuthChallenges(): void {
+    const now = Date.now();
+    for (const [nonce, challenge] of this.authChallenges) {
+      if (challenge.expiresAt.getTime() < now) {
+        this.authChallenges.delete(nonce);
+      }
+    }
   }
 
   /**
@@ -322,20 +772,25 @@ export class AgentDIDManager {
     return permissions[agentType as keyof typeof permissions] || [];
   }
 
+  private async setCredentialStatus(
+    credentialId: string,
+    statusPurpose: StatusPurpose,
+    value: boolean,
+    reason: string,
+    changedBy?: string
+  ): Promise<StatusChange | undefined> {
+    const credential = this.getCredential(credentialId);
+    if (!credential) return undefined;
+
+    return statusListRegistry.setStatus(credentialId, credential.credentialStatus || [], statusPurpose, value, reason, changedBy);
+  }
+
   /**
-   * Generate JWS signature (mock implementation)
+   * The bytes a credential proof signs: the canonicalized credential body
+   * together with the proof options (everything except the jws itself)
    */
-  private async generateJWSSignature(issuer: string, subject: string, capabilities: string[]): Promise<string> {
-    // In a real implementation, this would generate a proper JWS signature
-    // For now, we'll return a mock signature
-    const payload = {
-      issuer,
-      subject,
-      capabilities,
-      timestamp: Date.now()
-    };
-    
-    return Buffer.from(JSON.stringify(payload)).toString('base64');
+  private getSigningPayload(body: Omit<AgentCredential, 'proof'>, proofOptions: Omit<AgentCredential['proof'], 'jws'>): string {
+    return canonicalize({ ...body, proof: proofOptions });
   }
 }
 
@@ -0,0 +1,142 @@
+// =====================================
+// backend/src/toip/did-keys.ts
+// Ed25519 key encoding helpers for did:key and DID documents
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Multicodec varint prefix for an Ed25519 public key
+const ED25519_PUB_MULTICODEC = Buffer.from([0xed, 0x01]);
+
+export function base58btcEncode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let leadingZeros = '';
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    leadingZeros += BASE58_ALPHABET[0];
+  }
+
+  return leadingZeros + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+export function base58btcDecode(value: string): Buffer {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+
+    let carry = index;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let leadingZeros = 0;
+  for (const char of value) {
+    if (char !== BASE58_ALPHABET[0]) break;
+    leadingZeros++;
+  }
+
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(bytes.reverse())]);
+}
+
+/**
+ * Build a KeyObject from raw 32-byte Ed25519 public key material
+ */
+export function ed25519PublicKeyFromRaw(raw: Buffer): KeyObject {
+  if (raw.length !== 32) {
+    throw new Error(`Ed25519 public key must be 32 bytes, got ${raw.length}`);
+  }
+
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: raw.toString('base64url') },
+    format: 'jwk'
+  });
+}
+
+export function ed25519PublicKeyToRaw(publicKey: KeyObject): Buffer {
+  const jwk = publicKey.export({ format: 'jwk' });
+  if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.x) {
+    throw new Error('Not an Ed25519 public key');
+  }
+  return Buffer.from(jwk.x, 'base64url');
+}
+
+/**
+ * Decode a multibase (base58btc, "z"-prefixed) multicodec Ed25519 public key,
+ * as used by did:key and publicKeyMultibase
+ */
+export function publicKeyFromMultibase(multibase: string): KeyObject {
+  if (!multibase.startsWith('z')) {
+    throw new Error('Only base58btc multibase keys are supported');
+  }
+
+  const decoded = base58btcDecode(multibase.slice(1));
+  if (!decoded.subarray(0, 2).equals(ED25519_PUB_MULTICODEC)) {
+    throw new Error('Only Ed25519 multicodec keys are supported');
+  }
+
+  return ed25519PublicKeyFromRaw(decoded.subarray(2));
+}
+
+export function publicKeyToMultibase(publicKey: KeyObject): string {
+  return 'z' + base58btcEncode(Buffer.concat([ED25519_PUB_MULTICODEC, ed25519PublicKeyToRaw(publicKey)]));
+}
+
+export function publicKeyFromJwk(jwk: { kty?: string; crv?: string; x?: string }): KeyObject {
+  if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.x) {
+    throw new Error('Only Ed25519 OKP JWKs are supported');
+  }
+  return ed25519PublicKeyFromRaw(Buffer.from(jwk.x, 'base64url'));
+}
+
+/**
+ * Extract the public key embedded in a did:key identifier
+ */
+export function publicKeyFromDidKey(did: string): KeyObject {
+  const match = /^did:key:(z[1-9A-HJ-NP-Za-km-z]+)(#.*)?$/.exec(did);
+  if (!match) {
+    throw new Error(`Malformed did:key: ${did}`);
+  }
+  return publicKeyFromMultibase(match[1]);
+}
+
+export function didKeyFromPublicKey(publicKey: KeyObject): string {
+  return `did:key:${publicKeyToMultibase(publicKey)}`;
+}
+
+/**
+ * Verify a raw Ed25519 signature; signature may be base64 or base64url
+ */
+export function verifyEd25519(publicKey: KeyObject, data: Buffer | string, signature: string): boolean {
+  const signatureBytes = Buffer.from(signature, 'base64');
+  if (signatureBytes.length !== 64) {
+    return false;
+  }
+  return crypto.verify(null, Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8'), publicKey, signatureBytes);
+}
@@ -0,0 +1,315 @@
+// =====================================
+// backend/src/toip/did-resolver.ts
+// DID resolution for did:bgin, did:key and did:web
+// =====================================
+
+import { KeyObject } from 'crypto';
+import { promises as dns } from 'dns';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { base58btcDecode, ed25519PublicKeyFromRaw, publicKeyFromDidKey, publicKeyFromJwk, publicKeyFromMultibase } from './did-keys';
+
+export const DID_V1_CONTEXT = 'https://www.w3.org/ns/did/v1';
+export const MULTIKEY_V1_CONTEXT = 'https://w3id.org/security/multikey/v1';
+export const DID_RESOLUTION_CONTEXT = 'https://w3id.org/did-resolution/v1';
+
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyJwk?: { kty: string; crv: string; x: string };
+  publicKeyBase58?: string;
+}
+
+export interface DIDService {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+  [key: string]: any;
+}
+
+export interface DIDDocument {
+  '@context': string | string[];
+  id: string;
+  controller?: string;
+  verificationMethod?: VerificationMethod[];
+  authentication?: (string | VerificationMethod)[];
+  assertionMethod?: (string | VerificationMethod)[];
+  capabilityInvocation?: (string | VerificationMethod)[];
+  capabilityDelegation?: (string | VerificationMethod)[];
+  service?: DIDService[];
+}
+
+export interface DIDDocumentMetadata {
+  created?: string;
+  updated?: string;
+  deactivated?: boolean;
+}
+
+export type DIDResolutionError = 'invalidDid' | 'notFound' | 'methodNotSupported' | 'internalError';
+
+export interface DIDResolutionResult {
+  '@context': string;
+  didDocument: DIDDocument | null;
+  didResolutionMetadata: {
+    contentType?: string;
+    error?: DIDResolutionError;
+    errorMessage?: string;
+    retrieved?: string;
+  };
+  didDocumentMetadata: DIDDocumentMetadata;
+}
+
+export type VerificationRelationship = 'authentication' | 'assertionMethod' | 'capabilityInvocation';
+
+/**
+ * A method driver returns the document and its metadata, or null when the DID
+ * is well-formed but unknown
+ */
+export type DIDMethodDriver = (did: string) => Promise<{ didDocument: DIDDocument; didDocumentMetadata?: DIDDocumentMetadata } | null>;
+
+const DID_SYNTAX = /^did:[a-z0-9]+:[A-Za-z0-9._:%-]+$/;
+
+// did:web host (optionally with a %3A-encoded port) and path segments
+const DID_WEB_HOST = /^((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9])(?::([0-9]{1,5}))?$/i;
+const DID_WEB_PATH_SEGMENT = /^[A-Za-z0-9._~-]+$/;
+
+const DID_WEB_TIMEOUT_MS = 5000;
+const DID_WEB_MAX_BYTES = 64 * 1024;
+
+// did:web hosts must resolve to public unicast addresses only
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as [string, number][]) {
+  NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as [string, number][]) {
+  NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isPublicAddress(address: string, family: number): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return !NON_PUBLIC_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+export class DIDResolver {
+  private drivers: Map<string, DIDMethodDriver> = new Map();
+
+  constructor() {
+    this.registerDriver('key', async did => ({ didDocument: this.buildDidKeyDocument(did) }));
+    this.registerDriver('web', async did => this.fetchDidWebDocument(did));
+  }
+
+  /**
+   * Register (or replace) the driver for a DID method, e.g. 'bgin'
+   */
+  registerDriver(method: string, driver: DIDMethodDriver): void {
+    this.drivers.set(method, driver);
+  }
+
+  getSupportedMethods(): string[] {
+    return Array.from(this.drivers.keys());
+  }
+
+  /**
+   * Resolve a DID to its document following the DID Resolution result shape.
+   * Failures are reported in didResolutionMetadata.error rather than thrown.
+   */
+  async resolve(did: string): Promise<DIDResolutionResult> {
+    const result = (error: DIDResolutionError, errorMessage: string): DIDResolutionResult => ({
+      '@context': DID_RESOLUTION_CONTEXT,
+      didDocument: null,
+      didResolutionMetadata: { error, errorMessage },
+      didDocumentMetadata: {}
+    });
+
+    if (!DID_SYNTAX.test(did)) {
+      return result('invalidDid', `Not a valid DID: ${did}`);
+    }
+
+    const method = did.split(':')[1];
+    const driver = this.drivers.get(method);
+    if (!driver) {
+      return result('methodNotSupported', `DID method not supported: ${method}`);
+    }
+
+    try {
+      const resolved = await driver(did);
+      if (!resolved) {
+        return result('notFound', `DID not found: ${did}`);
+      }
+
+      return {
+        '@context': DID_RESOLUTION_CONTEXT,
+        didDocument: resolved.didDocument,
+        didResolutionMetadata: {
+          contentType: 'application/did+ld+json',
+          retrieved: new Date().toISOString()
+        },
+        didDocumentMetadata: resolved.didDocumentMetadata || {}
+      };
+    } catch (error) {
+      logger.warn(`DID resolution failed for ${did}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      return /malformed|invalid|only .* supported/i.test(message)
+        ? result('invalidDid', message)
+        : result('notFound', message);
+    }
+  }
+
+  /**
+   * Resolve a DID and return the Ed25519 key of its first verification method
+   * for the given relationship
+   */
+  async resolveVerificationKey(did: string, relationship: VerificationRelationship = 'assertionMethod'): Promise<KeyObject> {
+    const { didDocument, didResolutionMetadata, didDocumentMetadata } = await this.resolve(did);
+    if (!didDocument) {
+      throw new Error(didResolutionMetadata.errorMessage || `Cannot resolve ${did}`);
+    }
+    if (didDocumentMetadata.deactivated) {
+      throw new Error(`DID is deactivated: ${did}`);
+    }
+
+    const methods = didDocument.verificationMethod || [];
+    const references = didDocument[relationship] || [];
+    const candidates = references.length > 0
+      ? references.map(ref => typeof ref === 'string'
+          ? methods.find(method => method.id === ref || `${did}${method.id}` === ref)
+          : ref)
+      : methods;
+
+    for (const method of candidates) {
+      if (!method) continue;
+      if (method.publicKeyJwk) return publicKeyFromJwk(method.publicKeyJwk);
+      if (method.publicKeyMultibase) return publicKeyFromMultibase(method.publicKeyMultibase);
+      if (method.publicKeyBase58) return ed25519PublicKeyFromRaw(base58btcDecode(method.publicKeyBase58));
+    }
+
+    throw new Error(`No Ed25519 ${relationship} key in DID document for ${did}`);
+  }
+
+  /**
+   * did:key documents are derived entirely from the identifier
+   */
+  private buildDidKeyDocument(did: string): DIDDocument {
+    // Validates the encoding and key type before anything is built
+    publicKeyFromDidKey(did);
+
+    const multibase = did.slice('did:key:'.length);
+    const keyId = `${did}#${multibase}`;
+
+    return {
+      '@context': [DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT],
+      id: did,
+      verificationMethod: [{
+        id: keyId,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: multibase
+      }],
+      authentication: [keyId],
+      assertionMethod: [keyId],
+      capabilityInvocation: [keyId],
+      capabilityDelegation: [keyId]
+    };
+  }
+
+  /**
+   * Fetch a did:web document. The host is resolved once, must be public, and
+   * the connection is pinned to that address so DNS cannot be rebound between
+   * the check and the request. Network failures are reported generically so
+   * resolution cannot be used to probe internal hosts.
+   */
+  private async fetchDidWebDocument(did: string): Promise<{ didDocument: DIDDocument } | null> {
+    const { url, host } = this.didWebUrl(did);
+
+    let response;
+    try {
+      const addresses = await dns.lookup(host, { all: true });
+      if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address, entry.family))) {
+        throw new Error(`${host} does not resolve to a public address`);
+      }
+      const pinned = addresses[0];
+
+      response = await axios.get(url, {
+        timeout: DID_WEB_TIMEOUT_MS,
+        maxRedirects: 0,
+        maxContentLength: DID_WEB_MAX_BYTES,
+        proxy: false,
+        httpsAgent: new https.Agent({
+          lookup: (_hostname, options, callback: (...args: any[]) => void) => {
+            if (options.all) {
+              callback(null, [{ address: pinned.address, family: pinned.family }]);
+            } else {
+              callback(null, pinned.address, pinned.family);
+            }
+          }
+        }),
+        validateStatus: status => status === 200 || status === 404
+      });
+    } catch (error) {
+      logger.warn(`did:web fetch failed for ${did}: ${error instanceof Error ? error.message : error}`);
+      throw new Error('Could not retrieve the did:web document');
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const didDocument: DIDDocument = response.data;
+    if (didDocument?.id !== did) {
+      throw new Error('Invalid did:web document: id does not match the DID');
+    }
+
+    return { didDocument };
+  }
+
+  /**
+   * Map a did:web identifier to its DID document URL. Only DNS hostnames are
+   * accepted: no IP literals, credentials, or characters that would change
+   * the URL's authority or path.
+   */
+  private didWebUrl(did: string): { url: string; host: string } {
+    const [encodedDomain, ...encodedPath] = did.slice('did:web:'.length).split(':');
+    const domain = encodedDomain.replace(/%3A/gi, ':');
+    const match = DID_WEB_HOST.exec(domain);
+    if (!match || net.isIP(match[1]) !== 0 || (match[2] !== undefined && (Number(match[2]) < 1 || Number(match[2]) > 65535))) {
+      throw new Error('Invalid did:web identifier: the domain must be a DNS hostname');
+    }
+
+    const path = encodedPath.map(segment => {
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {
+        throw new Error('Invalid did:web identifier: malformed path encoding');
+      }
+      if (!DID_WEB_PATH_SEGMENT.test(decoded) || decoded === '.' || decoded === '..') {
+        throw new Error('Invalid did:web identifier: unsupported path segment');
+      }
+      return decoded;
+    });
+
+    const authority = domain.toLowerCase();
+    return {
+      host: match[1].toLowerCase(),
+      url: path.length > 0
+        ? `https://${authority}/${path.join('/')}/did.json`
+        : `https://${authority}/.well-known/did.json`
+    };
+  }
+}
+
+// Export singleton instance
+export const didResolver = new DIDResolver();
@@ -0,0 +1,154 @@
+// =====================================
+// backend/src/toip/jws.ts
+// JSON canonicalization (RFC 8785) and detached EdDSA JWS (RFC 7797)
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+
+export interface JWSHeader {
+  alg: string;
+  b64?: boolean;
+  crit?: string[];
+  kid?: string;
+  typ?: string;
+  cty?: string;
+}
+
+/**
+ * JSON Canonicalization Scheme: sorted object keys, no insignificant
+ * whitespace. Dates and other toJSON-able values are normalized first so a
+ * credential canonicalizes the same before and after a JSON round trip.
+ */
+export function canonicalize(value: any): string {
+  const normalized = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  return serialize(normalized);
+}
+
+function serialize(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => serialize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const keys = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort();
+
+  return `{${keys.map(key => `${JSON.stringify(key)}:${serialize(value[key])}`).join(',')}}`;
+}
+
+export function decodeJWSHeader(jws: string): JWSHeader {
+  const [encodedHeader] = jws.split('.');
+  return JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+}
+
+/**
+ * Sign an unencoded payload and return a detached JWS (`header..signature`)
+ */
+export function signDetachedJWS(payload: string, privateKey: KeyObject, kid: string): string {
+  const header: JWSHeader = { alg: 'EdDSA', b64: false, crit: ['b64'], kid };
+  const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+  const signingInput = Buffer.concat([Buffer.from(`${encodedHeader}.`, 'ascii'), Buffer.from(payload, 'utf8')]);
+  const signature = crypto.sign(null, signingInput, privateKey).toString('base64url');
+
+  return `${encodedHeader}..${signature}`;
+}
+
+/**
+ * Verify a detached JWS against the payload it was produced over. Returns a
+ * reason string when verification fails.
+ */
+export function verifyDetachedJWS(jws: string, payload: string, publicKey: KeyObject): { valid: boolean; reason?: string } {
+  const parts = jws.split('.');
+  if (parts.length !== 3 || parts[1] !== '') {
+    return { valid: false, reason: 'Malformed detached JWS: expected header..signature' };
+  }
+
+  let header: JWSHeader;
+  try {
+    header = decodeJWSHeader(jws);
+  } catch (error) {
+    return { valid: false, reason: 'Malformed detached JWS: header is not valid base64url JSON' };
+  }
+
+  if (header.alg !== 'EdDSA') {
+    return { valid: false, reason: `Unsupported JWS algorithm: ${header.alg}` };
+  }
+
+  if (header.b64 !== false || !header.crit?.includes('b64')) {
+    return { valid: false, reason: 'JWS must use an unencoded payload (b64: false, crit: ["b64"])' };
+  }
+
+  const signingInput = Buffer.concat([Buffer.from(`${parts[0]}.`, 'ascii'), Buffer.from(payload, 'utf8')]);
+  const signature = Buffer.from(parts[2], 'base64url');
+
+  let verified = false;
+  try {
+    verified = crypto.verify(null, signingInput, publicKey, signature);
+  } catch (error) {
+    verified = false;
+  }
+
+  if (!verified) {
+    return { valid: false, reason: 'Signature does not match the credential body (modified after signing or signed with another key)' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Sign a JSON payload as a compact EdDSA JWS (`header.payload.signature`)
+ */
+export function signCompactJWS(payload: object, privateKey: KeyObject, header: Omit<JWSHeader, 'alg'>): string {
+  const encodedHeader = Buffer.from(JSON.stringify({ alg: 'EdDSA', ...header })).toString('base64url');
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(`${encodedHeader}.${encodedPayload}`, 'ascii'), privateKey);
+
+  return `${encodedHeader}.${encodedPayload}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Split a compact JWS without verifying it
+ */
+export function decodeCompactJWS(jws: string): { header: JWSHeader; payload: any } {
+  const parts = jws.split('.');
+  if (parts.length !== 3 || !parts[1]) {
+    throw new Error('Malformed compact JWS: expected header.payload.signature');
+  }
+
+  return {
+    header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+    payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'))
+  };
+}
+
+export function verifyCompactJWS(jws: string, publicKey: KeyObject): { valid: boolean; reason?: string } {
+  let header: JWSHeader;
+  try {
+    header = decodeCompactJWS(jws).header;
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : 'Malformed compact JWS' };
+  }
+
+  if (header.alg !== 'EdDSA') {
+    return { valid: false, reason: `Unsupported JWS algorithm: ${header.alg}` };
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = jws.split('.');
+  let verified = false;
+  try {
+    verified = crypto.verify(
+      null,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`, 'ascii'),
+      publicKey,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+  } catch (error) {
+    verified = false;
+  }
+
+  return verified ? { valid: true } : { valid: false, reason: 'JWS signature is invalid' };
+}
@@ -0,0 +1,277 @@
+// =====================================
+// backend/src/toip/reputation-credentials.ts
+// Selective-disclosure reputation credentials and threshold verification
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+import { config } from '../utils/config';
+import { bginASPManager } from '../privacy-pools/asp-manager';
+import { agentDIDManager } from './agent-did-manager';
+import { didResolver } from './did-resolver';
+import { decodeCompactJWS } from './jws';
+import { issueSDJWT, presentSDJWT, verifySDJWT, SDClaims } from './sd-jwt';
+
+export type ReputationCredentialKind = 'participant' | 'agent';
+
+export const REPUTATION_CREDENTIAL_TYPES: Record<ReputationCredentialKind, string> = {
+  participant: 'BGINParticipantReputationCredential',
+  agent: 'BGINAgentReputationCredential'
+};
+
+/**
+ * Each threshold the subject meets becomes its own disclosable
+ * `reputationAtLeast` member, so "at least 0.8" can be shown without the score
+ */
+export const REPUTATION_THRESHOLDS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// Verifiers request challenges without authentication, so pending ones are bounded
+const MAX_CHALLENGES = 10000;
+
+export interface IssuedReputationCredential {
+  sdJwt: string;
+  kind: ReputationCredentialKind;
+  issuer: string;
+  subject: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  /** Claim paths the holder can choose to present */
+  disclosable: string[];
+}
+
+export interface PresentationChallenge {
+  nonce: string;
+  audience: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ThresholdVerificationResult {
+  verified: boolean;
+  reason?: string;
+  satisfied?: boolean;
+  threshold: number;
+  /** The disclosed claim that met the threshold */
+  provenBy?: string;
+  kind?: ReputationCredentialKind;
+  issuer?: string;
+  subject?: string;
+  disclosed?: string[];
+}
+
+export class ReputationCredentialService {
+  private challenges: Map<string, PresentationChallenge> = new Map();
+
+  /**
+   * Credential for a trust network member, bound to the DID they logged in with
+   */
+  async issueParticipantCredential(userId: string): Promise<IssuedReputationCredential> {
+    const node = bginASPManager.getTrustNetworkNode(userId);
+    if (!node) {
+      throw new Error('User not found in trust network');
+    }
+    if (!node.did) {
+      throw new Error('Trust network member has no DID to bind the credential to');
+    }
+
+    const acceptedContributions = bginASPManager.getUserContributions(userId)
+      .filter(contribution => contribution.reviewStatus === 'accepted').length;
+
+    return this.issue('participant', node.did, node.reputationScore, {
+      reputationScore: node.reputationScore,
+      graphTrust: bginASPManager.getTrustRanking().scores.get(userId) || 0,
+      acceptedContributions,
+      aspEligible: node.aspEligibility.eligible
+    });
+  }
+
+  async issueAgentCredential(agentDID: string): Promise<IssuedReputationCredential> {
+    const reputation = agentDIDManager.getAgentReputation(agentDID);
+    if (!reputation) {
+      throw new Error('Agent not found');
+    }
+
+    return this.issue('agent', agentDID, reputation.overallScore, {
+      reputationScore: reputation.overallScore,
+      graphTrust: agentDIDManager.getTrustRanking().scores.get(agentDID) || 0,
+      ...reputation.categoryScores,
+      totalInteractions: reputation.totalInteractions,
+      successfulCollaborations: reputation.successfulCollaborations
+    });
+  }
+
+  /**
+   * Present an agent's credential with the agent key this node holds. The
+   * credential must be about holderDID, so one agent cannot be made to sign
+   * another's presentation.
+   */
+  presentAgentCredential(holderDID: string, sdJwt: string, disclose: string[], challenge: { audience: string; nonce: string }): string {
+    const { payload } = decodeCompactJWS(sdJwt.split('~')[0]);
+    if (payload.sub !== holderDID) {
+      throw new Error(`Credential subject does not match the holder ${holderDID}`);
+    }
+    const holderKey = agentDIDManager.getSigningKey(payload.sub);
+    if (!holderKey) {
+      throw new Error(`No signing key held for ${payload.sub}`);
+    }
+    return presentSDJWT(sdJwt, disclose, holderKey, { ...challenge, kid: payload.cnf?.kid });
+  }
+
+  /**
+   * Single-use nonce a holder must bind their presentation to
+   */
+  createChallenge(audience: string): PresentationChallenge {
+    this.pruneChallenges();
+    if (this.challenges.size >= MAX_CHALLENGES) {
+      throw new Error('Too many pending challenges; try again later');
+    }
+
+    const issuedAt = new Date();
+    const challenge: PresentationChallenge = {
+      nonce: crypto.randomBytes(32).toString('base64url'),
+      audience,
+      issuedAt,
+      expiresAt: new Date(issuedAt.getTime() + CHALLENGE_TTL_MS)
+    };
+    this.challenges.set(challenge.nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Check a key-bound presentation against "reputation is at least threshold".
+   * The challenge is consumed whether or not verification succeeds.
+   */
+  async verifyThreshold(presentation: string, threshold: number, nonce: string): Promise<ThresholdVerificationResult> {
+    const challenge = this.challenges.get(nonce);
+    this.challenges.delete(nonce);
+
+    if (!challenge) {
+      return { verified: false, reason: 'Unknown or already used challenge', threshold };
+    }
+    if (challenge.expiresAt.getTime() < Date.now()) {
+      return { verified: false, reason: 'Challenge expired', threshold };
+    }
+
+    const issuer = this.getIssuer();
+    const result = await verifySDJWT(presentation, {
+      resolveIssuerKey: async candidate => {
+        if (candidate !== issuer) {
+          throw new Error(`${candidate} is not a trusted reputation credential issuer`);
+        }
+        return didResolver.resolveVerificationKey(candidate, 'assertionMethod');
+      },
+      resolveHolderKey: async cnf => didResolver.resolveVerificationKey(String(cnf.kid).split('#')[0], 'authentication'),
+      keyBinding: { audience: challenge.audience, nonce }
+    });
+
+    if (!result.verified) {
+      return { verified: false, reason: result.reason, threshold };
+    }
+
+    const claims = result.claims!;
+    const kind = (Object.keys(REPUTATION_CREDENTIAL_TYPES) as ReputationCredentialKind[])
+      .find(candidate => REPUTATION_CREDENTIAL_TYPES[candidate] === claims.vct);
+    if (!kind) {
+      return { verified: false, reason: `Not a reputation credential: ${claims.vct}`, threshold };
+    }
+
+    // The weakest disclosed bound that still meets the threshold
+    const bound = Object.entries(claims.reputationAtLeast || {})
+      .filter(([, met]) => met === true)
+      .map(([value]) => Number(value))
+      .filter(value => value >= threshold)
+      .sort((a, b) => a - b)[0];
+
+    let provenBy: string | undefined;
+    if (bound !== undefined) {
+      provenBy = `reputationAtLeast.${bound.toFixed(1)}`;
+    } else if (typeof claims.reputationScore === 'number' && claims.reputationScore >= threshold) {
+      provenBy = 'reputationScore';
+    }
+
+    return {
+      verified: true,
+      satisfied: provenBy !== undefined,
+      threshold,
+      provenBy,
+      kind,
+      issuer: claims.iss,
+      subject: claims.sub,
+      disclosed: result.disclosed
+    };
+  }
+
+  /**
+   * The agent DID whose key signs reputation credentials on this node
+   */
+  getIssuer(): string {
+    const issuer = config.reputationCredentials.issuerDID;
+    if (!issuer) {
+      throw new Error('REPUTATION_ISSUER_DID is not configured');
+    }
+    return issuer;
+  }
+
+  private issue(
+    kind: ReputationCredentialKind,
+    subject: string,
+    score: number,
+    disclose: Record<string, any>
+  ): IssuedReputationCredential {
+    const issuer = this.getIssuer();
+    const signingKey: KeyObject | undefined = agentDIDManager.getSigningKey(issuer);
+    if (!signingKey) {
+      throw new Error(`Issuer ${issuer} is not an agent DID managed by this node`);
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + config.reputationCredentials.ttlDays * 24 * 60 * 60 * 1000);
+    const thresholds = Object.fromEntries(REPUTATION_THRESHOLDS
+      .filter(threshold => score >= threshold)
+      .map(threshold => [threshold.toFixed(1), true]));
+
+    // Reputation moves with every contribution and relationship, so these are
+    // short-lived rather than revocable
+    const claims: SDClaims = {
+      always: {
+        iss: issuer,
+        sub: subject,
+        vct: REPUTATION_CREDENTIAL_TYPES[kind],
+        iat: Math.floor(issuedAt.getTime() / 1000),
+        exp: Math.floor(expiresAt.getTime() / 1000),
+        cnf: { kid: subject.startsWith('did:key:') ? `${subject}#${subject.slice('did:key:'.length)}` : `${subject}#key-1` }
+      },
+      disclose,
+      discloseNested: {
+        reputationAtLeast: { members: thresholds, decoys: REPUTATION_THRESHOLDS.length }
+      }
+    };
+
+    const { sdJwt } = issueSDJWT(claims, signingKey, `${issuer}#key-1`);
+
+    return {
+      sdJwt,
+      kind,
+      issuer,
+      subject,
+      issuedAt,
+      expiresAt,
+      disclosable: [
+        ...Object.keys(disclose),
+        ...Object.keys(thresholds).map(threshold => `reputationAtLeast.${threshold}`)
+      ]
+    };
+  }
+
+  private pruneChallenges(): void {
+    const now = Date.now();
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt.getTime() < now) {
+        this.challenges.delete(nonce);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const reputationCredentialService = new ReputationCredentialService();
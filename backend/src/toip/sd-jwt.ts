@@ -0,0 +1,277 @@
+// =====================================
+// backend/src/toip/sd-jwt.ts
+// Selective Disclosure JWTs (RFC 9901) with EdDSA and key binding
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+import { decodeCompactJWS, signCompactJWS, verifyCompactJWS } from './jws';
+
+export const SD_ALG = 'sha-256';
+const SD_JWT_TYP = 'dc+sd-jwt';
+const KB_JWT_TYP = 'kb+jwt';
+const KB_JWT_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Claim layout for issuance: `disclose` values become selectively disclosable
+ * object properties, `discloseNested` objects keep their key always visible
+ * with each member disclosable on its own. `decoys` pads a nested object's
+ * digests to a fixed count so their number reveals nothing.
+ */
+export interface SDClaims {
+  always: Record<string, any>;
+  disclose: Record<string, any>;
+  discloseNested?: Record<string, { members: Record<string, any>; decoys?: number }>;
+}
+
+export interface Disclosure {
+  encoded: string;
+  digest: string;
+  salt: string;
+  name: string;
+  value: any;
+}
+
+export interface SDJWTVerification {
+  verified: boolean;
+  reason?: string;
+  /** Issuer-signed claims with the presented disclosures applied */
+  claims?: Record<string, any>;
+  /** Paths of the disclosed claims, e.g. `reputationScore` or `reputationAtLeast.0.8` */
+  disclosed?: string[];
+  keyBound?: boolean;
+}
+
+function digestOf(encoded: string): string {
+  return crypto.createHash('sha256').update(encoded, 'ascii').digest('base64url');
+}
+
+export function createDisclosure(name: string, value: any): Disclosure {
+  const salt = crypto.randomBytes(16).toString('base64url');
+  const encoded = Buffer.from(JSON.stringify([salt, name, value])).toString('base64url');
+  return { encoded, digest: digestOf(encoded), salt, name, value };
+}
+
+export function decodeDisclosure(encoded: string): Disclosure {
+  const decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[0] !== 'string' || typeof decoded[1] !== 'string') {
+    throw new Error('Disclosure must be a [salt, name, value] array');
+  }
+  return { encoded, digest: digestOf(encoded), salt: decoded[0], name: decoded[1], value: decoded[2] };
+}
+
+function decoyDigest(): string {
+  return digestOf(crypto.randomBytes(16).toString('base64url'));
+}
+
+/**
+ * Issue an SD-JWT (`jwt~disclosure~...~`). All disclosures are returned to the
+ * holder, who chooses which to present.
+ */
+export function issueSDJWT(claims: SDClaims, privateKey: KeyObject, kid: string): { sdJwt: string; disclosures: Disclosure[] } {
+  const disclosures: Disclosure[] = [];
+  const payload: Record<string, any> = { ...claims.always, _sd_alg: SD_ALG };
+  const topLevel: string[] = [];
+
+  for (const [name, value] of Object.entries(claims.disclose)) {
+    const disclosure = createDisclosure(name, value);
+    disclosures.push(disclosure);
+    topLevel.push(disclosure.digest);
+  }
+
+  for (const [name, nested] of Object.entries(claims.discloseNested || {})) {
+    const digests: string[] = [];
+    for (const [member, value] of Object.entries(nested.members)) {
+      const disclosure = createDisclosure(member, value);
+      disclosures.push(disclosure);
+      digests.push(disclosure.digest);
+    }
+    while (digests.length < (nested.decoys || 0)) {
+      digests.push(decoyDigest());
+    }
+    payload[name] = { _sd: digests.sort() };
+  }
+
+  payload._sd = topLevel.sort();
+
+  const jwt = signCompactJWS(payload, privateKey, { kid, typ: SD_JWT_TYP });
+  return { sdJwt: `${jwt}~${disclosures.map(disclosure => `${disclosure.encoded}~`).join('')}`, disclosures };
+}
+
+function splitSDJWT(presentation: string): { jwt: string; disclosures: string[]; kbJwt?: string } {
+  const parts = presentation.split('~');
+  if (parts.length < 2) {
+    throw new Error('Malformed SD-JWT: expected jwt~[disclosure~]*[kb-jwt]');
+  }
+  const kbJwt = parts[parts.length - 1];
+  return {
+    jwt: parts[0],
+    disclosures: parts.slice(1, -1),
+    kbJwt: kbJwt || undefined
+  };
+}
+
+/**
+ * Build a presentation with only the disclosures whose paths are listed,
+ * bound to the verifier's audience and nonce with a KB-JWT signed by the
+ * holder key named in the credential's cnf claim
+ */
+export function presentSDJWT(
+  sdJwt: string,
+  disclose: string[],
+  holderKey: KeyObject,
+  binding: { audience: string; nonce: string; kid?: string }
+): string {
+  const { jwt, disclosures } = splitSDJWT(sdJwt);
+  const { payload } = decodeCompactJWS(jwt);
+  const wanted = new Set(disclose);
+
+  const selected = disclosures.filter(encoded => {
+    const disclosure = decodeDisclosure(encoded);
+    if ((payload._sd || []).includes(disclosure.digest)) {
+      return wanted.has(disclosure.name);
+    }
+    return Object.entries(payload).some(([name, value]: [string, any]) =>
+      Array.isArray(value?._sd) && value._sd.includes(disclosure.digest) && wanted.has(`${name}.${disclosure.name}`));
+  });
+
+  const presented = `${jwt}~${selected.map(encoded => `${encoded}~`).join('')}`;
+  const kbJwt = signCompactJWS({
+    iat: Math.floor(Date.now() / 1000),
+    aud: binding.audience,
+    nonce: binding.nonce,
+    sd_hash: digestOf(presented)
+  }, holderKey, { typ: KB_JWT_TYP, kid: binding.kid });
+
+  return `${presented}${kbJwt}`;
+}
+
+/**
+ * Verify the issuer signature, expiry, disclosures and (when expected) the
+ * holder's key binding, and return the reconstructed claims
+ */
+export async function verifySDJWT(
+  presentation: string,
+  options: {
+    resolveIssuerKey: (issuer: string, kid?: string) => Promise<KeyObject>;
+    resolveHolderKey?: (cnf: any) => Promise<KeyObject>;
+    keyBinding?: { audience: string; nonce: string };
+  }
+): Promise<SDJWTVerification> {
+  let parts: ReturnType<typeof splitSDJWT>;
+  let header: any;
+  let payload: Record<string, any>;
+  try {
+    parts = splitSDJWT(presentation);
+    ({ header, payload } = decodeCompactJWS(parts.jwt));
+  } catch (error) {
+    return { verified: false, reason: error instanceof Error ? error.message : 'Malformed SD-JWT' };
+  }
+
+  if (header.typ !== SD_JWT_TYP) {
+    return { verified: false, reason: `Unexpected SD-JWT typ: ${header.typ}` };
+  }
+  if (payload._sd_alg !== SD_ALG) {
+    return { verified: false, reason: `Unsupported _sd_alg: ${payload._sd_alg}` };
+  }
+  if (typeof payload.iss !== 'string' || (header.kid && header.kid.split('#')[0] !== payload.iss)) {
+    return { verified: false, reason: 'SD-JWT kid does not belong to the issuer' };
+  }
+
+  let issuerKey: KeyObject;
+  try {
+    issuerKey = await options.resolveIssuerKey(payload.iss, header.kid);
+  } catch (error) {
+    return { verified: false, reason: `Cannot resolve issuer key: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const signature = verifyCompactJWS(parts.jwt, issuerKey);
+  if (!signature.valid) {
+    return { verified: false, reason: signature.reason };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp === 'number' && payload.exp < now) {
+    return { verified: false, reason: 'Credential has expired' };
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > now) {
+    return { verified: false, reason: 'Credential is not yet valid' };
+  }
+
+  // Apply disclosures; each must match a digest the issuer signed, once
+  const claims: Record<string, any> = {};
+  for (const [name, value] of Object.entries(payload)) {
+    if (name === '_sd' || name === '_sd_alg') continue;
+    claims[name] = Array.isArray(value?._sd) ? {} : value;
+  }
+
+  const disclosed: string[] = [];
+  const seen = new Set<string>();
+  for (const encoded of parts.disclosures) {
+    let disclosure: Disclosure;
+    try {
+      disclosure = decodeDisclosure(encoded);
+    } catch (error) {
+      return { verified: false, reason: `Malformed disclosure: ${error instanceof Error ? error.message : error}` };
+    }
+    if (seen.has(disclosure.digest)) {
+      return { verified: false, reason: 'Disclosure presented more than once' };
+    }
+    seen.add(disclosure.digest);
+
+    if ((payload._sd || []).includes(disclosure.digest)) {
+      if (disclosure.name in claims || disclosure.name === '_sd' || disclosure.name === '_sd_alg') {
+        return { verified: false, reason: `Disclosure overwrites claim ${disclosure.name}` };
+      }
+      claims[disclosure.name] = disclosure.value;
+      disclosed.push(disclosure.name);
+      continue;
+    }
+
+    const parent = Object.keys(payload).find(name => Array.isArray(payload[name]?._sd) && payload[name]._sd.includes(disclosure.digest));
+    if (!parent) {
+      return { verified: false, reason: 'Disclosure does not match any digest in the credential' };
+    }
+    claims[parent][disclosure.name] = disclosure.value;
+    disclosed.push(`${parent}.${disclosure.name}`);
+  }
+
+  if (!options.keyBinding) {
+    return { verified: true, claims, disclosed, keyBound: false };
+  }
+
+  if (!parts.kbJwt) {
+    return { verified: false, reason: 'Key binding JWT is required' };
+  }
+  if (!payload.cnf || !options.resolveHolderKey) {
+    return { verified: false, reason: 'Credential has no holder key confirmation (cnf)' };
+  }
+
+  let kb: { header: any; payload: any };
+  let holderKey: KeyObject;
+  try {
+    kb = decodeCompactJWS(parts.kbJwt);
+    holderKey = await options.resolveHolderKey(payload.cnf);
+  } catch (error) {
+    return { verified: false, reason: `Invalid key binding: ${error instanceof Error ? error.message : error}` };
+  }
+
+  if (kb.header.typ !== KB_JWT_TYP) {
+    return { verified: false, reason: `Unexpected key binding typ: ${kb.header.typ}` };
+  }
+  const kbSignature = verifyCompactJWS(parts.kbJwt, holderKey);
+  if (!kbSignature.valid) {
+    return { verified: false, reason: `Key binding ${kbSignature.reason}` };
+  }
+  if (kb.payload.aud !== options.keyBinding.audience || kb.payload.nonce !== options.keyBinding.nonce) {
+    return { verified: false, reason: 'Key binding audience or nonce does not match' };
+  }
+  if (typeof kb.payload.iat !== 'number' || Math.abs(now - kb.payload.iat) > KB_JWT_MAX_AGE_SECONDS) {
+    return { verified: false, reason: 'Key binding JWT is stale' };
+  }
+  const presented = presentation.substring(0, presentation.length - parts.kbJwt.length);
+  if (kb.payload.sd_hash !== digestOf(presented)) {
+    return { verified: false, reason: 'Key binding sd_hash does not match the presentation' };
+  }
+
+  return { verified: true, claims, disclosed, keyBound: true };
+}
@@ -0,0 +1,271 @@
+// =====================================
+// backend/src/toip/status-list.ts
+// Bitstring Status List registry for credential revocation and suspension
+// =====================================
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config';
+import { toipRepository } from './toip-repository';
+
+export type StatusPurpose = 'revocation' | 'suspension';
+
+export const STATUS_PURPOSES: StatusPurpose[] = ['revocation', 'suspension'];
+
+// Spec minimum (16KB uncompressed) so a single set bit does not identify its holder
+export const STATUS_LIST_LENGTH = 131072;
+
+export interface BitstringStatusListEntry {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface StatusList {
+  id: string;
+  url: string;
+  issuer: string;
+  statusPurpose: StatusPurpose;
+  bits: Buffer;
+  allocated: Set<number>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StatusChange {
+  credentialId: string;
+  statusPurpose: StatusPurpose;
+  value: boolean;
+  reason: string;
+  changedBy?: string;
+  changedAt: Date;
+}
+
+export interface CredentialStatus {
+  revoked: boolean;
+  suspended: boolean;
+  history: StatusChange[];
+}
+
+/**
+ * GZIP the bitstring and encode it as multibase base64url ("u"-prefixed)
+ */
+export function encodeStatusList(bits: Buffer): string {
+  return 'u' + zlib.gzipSync(bits).toString('base64url');
+}
+
+/**
+ * Inflation stops at `maxBytes` (the size of a list this node issues by
+ * default), so a small compressed list cannot expand without bound. zlib's
+ * RangeError is matched by name as it may come from another realm.
+ */
+export function decodeStatusList(encodedList: string, maxBytes: number = STATUS_LIST_LENGTH / 8): Buffer {
+  if (typeof encodedList !== 'string' || !encodedList.startsWith('u')) {
+    throw new Error('encodedList must be multibase base64url');
+  }
+  try {
+    return zlib.gunzipSync(Buffer.from(encodedList.slice(1), 'base64url'), { maxOutputLength: maxBytes });
+  } catch (error) {
+    if ((error as Error | undefined)?.name === 'RangeError') {
+      throw new Error(`encodedList expands beyond ${maxBytes} bytes`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Index 0 is the most significant bit of the first byte
+ */
+export function getStatusBit(bits: Buffer, index: number): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= bits.length * 8) {
+    throw new Error(`statusListIndex out of range: ${index}`);
+  }
+  return (bits[Math.floor(index / 8)] & (0x80 >> (index % 8))) !== 0;
+}
+
+function setStatusBit(bits: Buffer, index: number, value: boolean): void {
+  const mask = 0x80 >> (index % 8);
+  const byte = Math.floor(index / 8);
+  bits[byte] = value ? bits[byte] | mask : bits[byte] & ~mask;
+}
+
+export class StatusListRegistry {
+  private lists: Map<string, StatusList> = new Map();
+  private activeLists: Map<string, string> = new Map();
+  private history: Map<string, StatusChange[]> = new Map();
+
+  /**
+   * Reserve a status index for a new credential in the issuer's current list
+   * for each purpose. Indexes are drawn at random so list position does not
+   * reveal issuance order.
+   */
+  async allocate(issuer: string): Promise<BitstringStatusListEntry[]> {
+    const entries: BitstringStatusListEntry[] = [];
+
+    for (const statusPurpose of STATUS_PURPOSES) {
+      const list = await this.getActiveList(issuer, statusPurpose);
+
+      let index: number;
+      do {
+        index = crypto.randomInt(STATUS_LIST_LENGTH);
+      } while (list.allocated.has(index));
+      list.allocated.add(index);
+
+      entries.push({
+        id: `${list.url}#${index}`,
+        type: 'BitstringStatusListEntry',
+        statusPurpose,
+        statusListIndex: String(index),
+        statusListCredential: list.url
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Rebuild the registry from persisted lists, the status entries of stored
+   * credentials (to mark indexes as taken) and the change log
+   */
+  restore(lists: StatusList[], entries: BitstringStatusListEntry[], changes: StatusChange[]): void {
+    this.lists.clear();
+    this.activeLists.clear();
+    this.history.clear();
+
+    for (const list of lists) {
+      this.lists.set(list.id, list);
+      this.activeLists.set(`${list.issuer}|${list.statusPurpose}`, list.id);
+    }
+
+    for (const entry of entries) {
+      this.getListByUrl(entry.statusListCredential)?.allocated.add(Number(entry.statusListIndex));
+    }
+
+    for (const change of changes) {
+      const credentialChanges = this.history.get(change.credentialId) || [];
+      credentialChanges.push(change);
+      this.history.set(change.credentialId, credentialChanges);
+    }
+  }
+
+  getList(listId: string): StatusList | undefined {
+    return this.lists.get(listId);
+  }
+
+  /**
+   * Find a list hosted by this node from its statusListCredential URL
+   */
+  getListByUrl(url: string): StatusList | undefined {
+    for (const list of this.lists.values()) {
+      if (list.url === url) return list;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the bit an entry points at; undefined when the list is not hosted here
+   */
+  isSet(entry: BitstringStatusListEntry): boolean | undefined {
+    const list = this.getListByUrl(entry.statusListCredential);
+    if (!list || list.statusPurpose !== entry.statusPurpose) {
+      return undefined;
+    }
+    return getStatusBit(list.bits, Number(entry.statusListIndex));
+  }
+
+  /**
+   * Flip the bit for a credential's entry with the given purpose and record why
+   */
+  async setStatus(
+    credentialId: string,
+    entries: BitstringStatusListEntry[],
+    statusPurpose: StatusPurpose,
+    value: boolean,
+    reason: string,
+    changedBy?: string
+  ): Promise<StatusChange> {
+    const entry = entries.find(candidate => candidate.statusPurpose === statusPurpose);
+    const list = entry && this.getListByUrl(entry.statusListCredential);
+    if (!entry || !list) {
+      throw new Error(`Credential ${credentialId} has no ${statusPurpose} status entry on this node`);
+    }
+
+    const bits = Buffer.from(list.bits);
+    setStatusBit(bits, Number(entry.statusListIndex), value);
+
+    const change: StatusChange = {
+      credentialId,
+      statusPurpose,
+      value,
+      reason,
+      changedBy,
+      changedAt: new Date()
+    };
+
+    await toipRepository.saveStatusChange({ ...list, bits, updatedAt: change.changedAt }, change);
+    list.bits = bits;
+    list.updatedAt = change.changedAt;
+
+    const changes = this.history.get(credentialId) || [];
+    changes.push(change);
+    this.history.set(credentialId, changes);
+
+    return change;
+  }
+
+  getStatus(credentialId: string, entries: BitstringStatusListEntry[]): CredentialStatus {
+    const read = (statusPurpose: StatusPurpose) => {
+      const entry = entries.find(candidate => candidate.statusPurpose === statusPurpose);
+      return entry ? this.isSet(entry) === true : false;
+    };
+
+    return {
+      revoked: read('revocation'),
+      suspended: read('suspension'),
+      history: this.history.get(credentialId) || []
+    };
+  }
+
+  /**
+   * Most recent reason recorded for a credential's current status
+   */
+  getLastChange(credentialId: string, statusPurpose: StatusPurpose): StatusChange | undefined {
+    const changes = this.history.get(credentialId) || [];
+    return [...changes].reverse().find(change => change.statusPurpose === statusPurpose);
+  }
+
+  /**
+   * The issuer's open list for a purpose, rolling over to a fresh list once
+   * half the indexes are taken so random allocation stays cheap
+   */
+  private async getActiveList(issuer: string, statusPurpose: StatusPurpose): Promise<StatusList> {
+    const key = `${issuer}|${statusPurpose}`;
+    const current = this.lists.get(this.activeLists.get(key) || '');
+    if (current && current.allocated.size < STATUS_LIST_LENGTH / 2) {
+      return current;
+    }
+
+    const id = uuidv4();
+    const list: StatusList = {
+      id,
+      url: `${config.publicUrl}/api/toip/status-lists/${id}`,
+      issuer,
+      statusPurpose,
+      bits: Buffer.alloc(STATUS_LIST_LENGTH / 8),
+      allocated: new Set(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await toipRepository.createStatusList(list);
+    this.lists.set(id, list);
+    this.activeLists.set(key, id);
+    return list;
+  }
+}
+
+// Export singleton instance
+export const statusListRegistry = new StatusListRegistry();
@@ -0,0 +1,384 @@
+// =====================================
+// backend/src/toip/toip-repository.ts
+// PostgreSQL persistence for agent DIDs, credentials, trust and status lists
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+import { PoolClient } from 'pg';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import type { AgentDID, AgentCredential, AgentReputation, TrustEvidence, TrustRelationship } from './agent-did-manager';
+import type { StatusChange, StatusList } from './status-list';
+
+export interface ReputationHistoryEntry {
+  agentDID: string;
+  sourceAgent?: string;
+  relationshipType?: string;
+  trustScore?: number;
+  overallScore: number;
+  categoryScores: AgentReputation['categoryScores'];
+  recordedAt: Date;
+}
+
+export interface ToIPState {
+  agentDIDs: AgentDID[];
+  signingKeys: Map<string, KeyObject>;
+  credentials: AgentCredential[];
+  trustRelationships: TrustRelationship[];
+  reputations: AgentReputation[];
+  statusLists: StatusList[];
+  statusChanges: StatusChange[];
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Rescores the target of a changed relationship; undefined when it has no
+ * reputation to update
+ */
+export type ReputationScorer = (changed: TrustRelationship) => Pick<AgentReputation, 'overallScore' | 'categoryScores'> | undefined;
+
+export class ToIPRepository {
+  /**
+   * Read the whole trust network so the in-memory maps can be rebuilt on start
+   */
+  async loadState(): Promise<ToIPState> {
+    const [dids, credentials, relationships, reputations, statusLists, statusChanges] = await Promise.all([
+      database.query('SELECT * FROM toip_agent_dids ORDER BY created_at'),
+      database.query('SELECT credential FROM toip_agent_credentials ORDER BY issued_at'),
+      database.query('SELECT * FROM toip_trust_relationships ORDER BY created_at'),
+      database.query('SELECT * FROM toip_agent_reputations'),
+      database.query('SELECT * FROM toip_status_lists ORDER BY created_at'),
+      database.query('SELECT * FROM toip_credential_status_changes ORDER BY changed_at, id')
+    ]);
+
+    const signingKeys = new Map<string, KeyObject>();
+    for (const row of dids.rows) {
+      if (row.encrypted_private_key) {
+        signingKeys.set(row.did, this.decryptPrivateKey(row.encrypted_private_key));
+      }
+    }
+
+    return {
+      agentDIDs: dids.rows.map((row: any): AgentDID => ({
+        did: row.did,
+        verificationMethod: row.verification_method,
+        publicKeyMultibase: row.public_key_multibase,
+        serviceEndpoint: row.service_endpoint,
+        capabilityInvocation: row.capability_invocation || [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      })),
+      signingKeys,
+      credentials: credentials.rows.map((row: any) => this.toCredential(row.credential)),
+      trustRelationships: relationships.rows.map((row: any) => this.toTrustRelationship(row)),
+      reputations: reputations.rows.map((row: any) => this.toReputation(row)),
+      statusLists: statusLists.rows.map((row: any): StatusList => ({
+        id: row.id,
+        url: row.url,
+        issuer: row.issuer_did,
+        statusPurpose: row.status_purpose,
+        bits: row.bits,
+        allocated: new Set(),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      })),
+      statusChanges: statusChanges.rows.map((row: any): StatusChange => ({
+        credentialId: row.credential_id,
+        statusPurpose: row.status_purpose,
+        value: row.value,
+        reason: row.reason,
+        changedBy: row.changed_by || undefined,
+        changedAt: row.changed_at
+      }))
+    };
+  }
+
+  /**
+   * Store a new agent DID, its encrypted signing key and its initial reputation
+   */
+  async createAgentDID(agentDID: AgentDID, privateKey: KeyObject, reputation: AgentReputation): Promise<void> {
+    await database.transaction(async client => {
+      await client.query(
+        `INSERT INTO toip_agent_dids
+           (did, agent_type, verification_method, public_key_multibase, encrypted_private_key,
+            service_endpoint, capability_invocation, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          agentDID.did,
+          agentDID.did.split(':')[3],
+          agentDID.verificationMethod,
+          agentDID.publicKeyMultibase,
+          this.encryptPrivateKey(privateKey),
+          agentDID.serviceEndpoint,
+          agentDID.capabilityInvocation,
+          agentDID.createdAt,
+          agentDID.updatedAt
+        ]
+      );
+      await this.upsertReputation(client, reputation);
+    });
+  }
+
+  async saveCredential(credential: AgentCredential): Promise<void> {
+    await database.query(
+      `INSERT INTO toip_agent_credentials (id, issuer_did, subject_did, credential, issued_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        credential.id,
+        credential.issuer,
+        credential.subject,
+        JSON.stringify(credential),
+        credential.issuanceDate,
+        credential.expirationDate || null
+      ]
+    );
+  }
+
+  /**
+   * Insert a new relationship and record the reputation change it causes, in
+   * one transaction. Returns the reputation as stored.
+   */
+  async addTrustRelationship(relationship: TrustRelationship, score: ReputationScorer): Promise<AgentReputation | undefined> {
+    return database.transaction(async client => {
+      await client.query(
+        `INSERT INTO toip_trust_relationships
+           (id, from_agent, to_agent, relationship_type, trust_score, evidence, created_at, last_updated)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          relationship.id,
+          relationship.fromAgent,
+          relationship.toAgent,
+          relationship.relationshipType,
+          relationship.trustScore,
+          JSON.stringify(relationship.evidence),
+          relationship.createdAt,
+          relationship.lastUpdated
+        ]
+      );
+
+      return this.recordReputationChange(client, relationship, score);
+    });
+  }
+
+  /**
+   * Append evidence to the oldest relationship from one agent to another.
+   * The row is locked and re-read, so concurrent updates each see the evidence
+   * the others committed; null when no such relationship exists.
+   */
+  async addTrustEvidence(
+    fromAgent: string,
+    toAgent: string,
+    evidence: TrustEvidence,
+    trustScore: (evidence: TrustEvidence[]) => number,
+    score: ReputationScorer
+  ): Promise<{ relationship: TrustRelationship; reputation?: AgentReputation } | null> {
+    return database.transaction(async client => {
+      const locked = await client.query(
+        `SELECT * FROM toip_trust_relationships WHERE from_agent = $1 AND to_agent = $2
+         ORDER BY created_at LIMIT 1 FOR UPDATE`,
+        [fromAgent, toAgent]
+      );
+      if (locked.rows.length === 0) return null;
+
+      const current = this.toTrustRelationship(locked.rows[0]);
+      const allEvidence = [...current.evidence, evidence];
+      const updated = await client.query(
+        `UPDATE toip_trust_relationships
+           SET evidence = evidence || $2::jsonb,
+               trust_score = $3,
+               last_updated = $4
+         WHERE id = $1
+         RETURNING *`,
+        [current.id, JSON.stringify([evidence]), trustScore(allEvidence), new Date()]
+      );
+
+      const relationship = this.toTrustRelationship(updated.rows[0]);
+      const reputation = await this.recordReputationChange(client, relationship, score);
+      return { relationship, reputation };
+    });
+  }
+
+  async getReputationHistory(agentDID: string, limit: number = 100): Promise<ReputationHistoryEntry[]> {
+    const result = await database.query(
+      `SELECT * FROM toip_reputation_history WHERE agent_did = $1
+       ORDER BY recorded_at DESC, id DESC LIMIT $2`,
+      [agentDID, limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      agentDID: row.agent_did,
+      sourceAgent: row.source_agent || undefined,
+      relationshipType: row.relationship_type || undefined,
+      trustScore: row.trust_score ?? undefined,
+      overallScore: row.overall_score,
+      categoryScores: row.category_scores,
+      recordedAt: row.recorded_at
+    }));
+  }
+
+  async createStatusList(list: StatusList): Promise<void> {
+    await database.query(
+      `INSERT INTO toip_status_lists (id, url, issuer_did, status_purpose, bits, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [list.id, list.url, list.issuer, list.statusPurpose, list.bits, list.createdAt, list.updatedAt]
+    );
+  }
+
+  /**
+   * Persist the flipped bitstring and the change record that explains it
+   */
+  async saveStatusChange(list: StatusList, change: StatusChange): Promise<void> {
+    await database.transaction(async client => {
+      await client.query(
+        'UPDATE toip_status_lists SET bits = $2, updated_at = $3 WHERE id = $1',
+        [list.id, list.bits, list.updatedAt]
+      );
+      await client.query(
+        `INSERT INTO toip_credential_status_changes
+           (credential_id, status_purpose, value, reason, changed_by, changed_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [change.credentialId, change.statusPurpose, change.value, change.reason, change.changedBy || null, change.changedAt]
+      );
+    });
+  }
+
+  private async upsertReputation(client: Queryable, reputation: AgentReputation): Promise<void> {
+    await client.query(
+      `INSERT INTO toip_agent_reputations
+         (agent_did, overall_score, category_scores, total_interactions, successful_collaborations, last_updated)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (agent_did) DO UPDATE
+         SET overall_score = EXCLUDED.overall_score,
+             category_scores = EXCLUDED.category_scores,
+             total_interactions = EXCLUDED.total_interactions,
+             successful_collaborations = EXCLUDED.successful_collaborations,
+             last_updated = EXCLUDED.last_updated`,
+      [
+        reputation.agentDID,
+        reputation.overallScore,
+        JSON.stringify(reputation.categoryScores),
+        reputation.totalInteractions,
+        reputation.successfulCollaborations,
+        reputation.lastUpdated
+      ]
+    );
+  }
+
+  /**
+   * Store the rescored reputation of the relationship's target and append it
+   * to the history. Interaction counts are incremented in SQL on the locked
+   * row rather than copied from memory, so concurrent changes all count.
+   */
+  private async recordReputationChange(
+    client: Queryable,
+    relationship: TrustRelationship,
+    score: ReputationScorer
+  ): Promise<AgentReputation | undefined> {
+    const scores = score(relationship);
+    if (!scores) return undefined;
+
+    const result = await client.query(
+      `UPDATE toip_agent_reputations
+         SET overall_score = $2,
+             category_scores = $3,
+             total_interactions = total_interactions + 1,
+             successful_collaborations = successful_collaborations + $4,
+             last_updated = $5
+       WHERE agent_did = $1
+       RETURNING *`,
+      [
+        relationship.toAgent,
+        scores.overallScore,
+        JSON.stringify(scores.categoryScores),
+        relationship.relationshipType === 'collaboration' ? 1 : 0,
+        new Date()
+      ]
+    );
+    if (result.rows.length === 0) return undefined;
+
+    const reputation = this.toReputation(result.rows[0]);
+    await client.query(
+      `INSERT INTO toip_reputation_history
+         (agent_did, source_agent, relationship_type, trust_score, overall_score, category_scores, recorded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        reputation.agentDID,
+        relationship.fromAgent,
+        relationship.relationshipType,
+        relationship.trustScore,
+        reputation.overallScore,
+        JSON.stringify(reputation.categoryScores),
+        reputation.lastUpdated
+      ]
+    );
+
+    return reputation;
+  }
+
+  private toTrustRelationship(row: any): TrustRelationship {
+    return {
+      id: row.id,
+      fromAgent: row.from_agent,
+      toAgent: row.to_agent,
+      trustScore: row.trust_score,
+      relationshipType: row.relationship_type,
+      evidence: (row.evidence || []).map((item: any) => ({ ...item, timestamp: new Date(item.timestamp) })),
+      createdAt: row.created_at,
+      lastUpdated: row.last_updated
+    };
+  }
+
+  private toReputation(row: any): AgentReputation {
+    return {
+      agentDID: row.agent_did,
+      overallScore: row.overall_score,
+      categoryScores: row.category_scores,
+      totalInteractions: row.total_interactions,
+      successfulCollaborations: row.successful_collaborations,
+      lastUpdated: row.last_updated
+    };
+  }
+
+  /**
+   * JSONB gives back ISO strings; restore the Date fields of a credential
+   */
+  private toCredential(stored: any): AgentCredential {
+    return {
+      ...stored,
+      issuanceDate: new Date(stored.issuanceDate),
+      expirationDate: stored.expirationDate ? new Date(stored.expirationDate) : undefined,
+      proof: { ...stored.proof, created: new Date(stored.proof.created) }
+    };
+  }
+
+  /**
+   * AES-256-GCM over the PKCS#8 DER key, stored as iv.tag.ciphertext (base64url)
+   */
+  private encryptPrivateKey(privateKey: KeyObject): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(privateKey.export({ format: 'der', type: 'pkcs8' })),
+      cipher.final()
+    ]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  private decryptPrivateKey(encrypted: string): KeyObject {
+    const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    const der = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+    return crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+  }
+
+  private encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.encryptionKey).digest();
+  }
+}
+
+// Export singleton instance
+export const toipRepository = new ToIPRepository();
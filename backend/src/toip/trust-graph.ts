@@ -0,0 +1,313 @@
+// =====================================
+// backend/src/toip/trust-graph.ts
+// EigenTrust-style trust ranking with seed sets, time decay and collusion detection
+// =====================================
+
+export interface TrustEdge {
+  from: string;
+  to: string;
+  /** Local trust in [0, 1] */
+  weight: number;
+  /** When the trust was last reaffirmed; older edges count for less */
+  timestamp: Date;
+}
+
+export interface TrustGraphOptions {
+  /**
+   * Pre-trusted members; random walks restart here. With no seed among the
+   * members nobody is ranked, since a uniform restart lets Sybils mint trust.
+   */
+  seeds: string[];
+  /** Probability of jumping back to the seed set at each step */
+  restartProbability: number;
+  /** Days after which an edge carries half its weight */
+  halfLifeDays: number;
+  /** Share of a cluster's inbound trust that must come from inside it to flag it */
+  collusionThreshold: number;
+  maxIterations: number;
+  tolerance: number;
+  now?: Date;
+}
+
+export const DEFAULT_TRUST_GRAPH_OPTIONS: TrustGraphOptions = {
+  seeds: [],
+  restartProbability: 0.15,
+  halfLifeDays: 180,
+  collusionThreshold: 0.8,
+  maxIterations: 100,
+  tolerance: 1e-9
+};
+
+/**
+ * A strongly connected group that mostly vouches for itself
+ */
+export interface CollusionCluster {
+  members: string[];
+  internalWeight: number;
+  externalInboundWeight: number;
+  /** internal / (internal + external inbound) */
+  insularity: number;
+  /** Share of internal edges that are reciprocated */
+  reciprocity: number;
+}
+
+export interface TrustRanking {
+  /** Stationary trust; sums to 1 over all members */
+  globalTrust: Map<string, number>;
+  /** globalTrust scaled so the most trusted member has 1 */
+  scores: Map<string, number>;
+  seeds: string[];
+  collusionClusters: CollusionCluster[];
+  iterations: number;
+  converged: boolean;
+  computedAt: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Exponential decay factor for trust last reaffirmed at timestamp
+ */
+export function decayFactor(timestamp: Date, halfLifeDays: number, now: Date = new Date()): number {
+  if (halfLifeDays <= 0) return 1;
+  const ageDays = Math.max(0, now.getTime() - timestamp.getTime()) / MS_PER_DAY;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Rank members by personalized PageRank over decayed local trust. Trust only
+ * enters the graph through the seeds, so members that are reachable from no
+ * seed (a Sybil region) end up with none however much they endorse each
+ * other. Clusters flagged as collusive lose their internal edges and the
+ * ranking is recomputed without them. Without seeds every member gets zero;
+ * callers can tell from an empty `seeds` in the result.
+ */
+export function computeTrustRanking(
+  members: string[],
+  edges: TrustEdge[],
+  overrides: Partial<TrustGraphOptions> = {}
+): TrustRanking {
+  const options = { ...DEFAULT_TRUST_GRAPH_OPTIONS, ...overrides };
+  const now = options.now || new Date();
+  const memberSet = new Set(members);
+
+  // Merge parallel edges and drop self-trust, unknown members and non-positive weights
+  const merged = new Map<string, TrustEdge>();
+  for (const edge of edges) {
+    if (edge.from === edge.to || !memberSet.has(edge.from) || !memberSet.has(edge.to)) continue;
+    const weight = Math.max(0, Math.min(1, edge.weight)) * decayFactor(edge.timestamp, options.halfLifeDays, now);
+    if (weight <= 0) continue;
+
+    const key = `${edge.from}\u0000${edge.to}`;
+    const existing = merged.get(key);
+    merged.set(key, {
+      from: edge.from,
+      to: edge.to,
+      weight: (existing?.weight || 0) + weight,
+      timestamp: existing && existing.timestamp > edge.timestamp ? existing.timestamp : edge.timestamp
+    });
+  }
+
+  const seeds = options.seeds.filter(seed => memberSet.has(seed));
+  const decayed = Array.from(merged.values());
+
+  const first = iterate(members, decayed, seeds, options);
+  const collusionClusters = detectCollusionClusters(members, decayed, new Set(seeds), options.collusionThreshold);
+
+  let result = first;
+  if (collusionClusters.length > 0) {
+    const clusterOf = new Map<string, number>();
+    collusionClusters.forEach((cluster, index) => cluster.members.forEach(member => clusterOf.set(member, index)));
+    const pruned = decayed.filter(edge =>
+      !clusterOf.has(edge.from) || clusterOf.get(edge.from) !== clusterOf.get(edge.to));
+    result = iterate(members, pruned, seeds, options);
+  }
+
+  const max = Math.max(0, ...result.globalTrust.values());
+  const scores = new Map(members.map(member => [member, max > 0 ? (result.globalTrust.get(member) || 0) / max : 0]));
+
+  return {
+    globalTrust: result.globalTrust,
+    scores,
+    seeds,
+    collusionClusters,
+    iterations: result.iterations,
+    converged: result.converged,
+    computedAt: now
+  };
+}
+
+/**
+ * Power iteration of t = (1 - a) * C^T t + a * p, where C is the row-normalized
+ * local trust matrix and p the uniform distribution over the seeds. Members
+ * that trust nobody hand their trust back to the seeds.
+ */
+function iterate(
+  members: string[],
+  edges: TrustEdge[],
+  seeds: string[],
+  options: TrustGraphOptions
+): { globalTrust: Map<string, number>; iterations: number; converged: boolean } {
+  const globalTrust = new Map<string, number>();
+  if (members.length === 0 || seeds.length === 0) {
+    members.forEach(member => globalTrust.set(member, 0));
+    return { globalTrust, iterations: 0, converged: true };
+  }
+
+  const restart = new Map(seeds.map(member => [member, 1 / seeds.length]));
+
+  const outgoing = new Map<string, TrustEdge[]>();
+  const outWeight = new Map<string, number>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+    outWeight.set(edge.from, (outWeight.get(edge.from) || 0) + edge.weight);
+  }
+
+  let trust = new Map(restart);
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < options.maxIterations && !converged) {
+    iterations++;
+    const next = new Map<string, number>();
+    let dangling = 0;
+
+    for (const member of members) {
+      const current = trust.get(member) || 0;
+      if (current === 0) continue;
+
+      const total = outWeight.get(member) || 0;
+      if (total === 0) {
+        dangling += current;
+        continue;
+      }
+      for (const edge of outgoing.get(member)!) {
+        next.set(edge.to, (next.get(edge.to) || 0) + (1 - options.restartProbability) * current * edge.weight / total);
+      }
+    }
+
+    const restartMass = options.restartProbability + (1 - options.restartProbability) * dangling;
+    for (const [member, share] of restart) {
+      next.set(member, (next.get(member) || 0) + restartMass * share);
+    }
+
+    let delta = 0;
+    for (const member of members) {
+      delta += Math.abs((next.get(member) || 0) - (trust.get(member) || 0));
+    }
+    trust = next;
+    converged = delta < options.tolerance;
+  }
+
+  for (const member of members) {
+    globalTrust.set(member, trust.get(member) || 0);
+  }
+  return { globalTrust, iterations, converged };
+}
+
+/**
+ * Strongly connected components without a seed whose inbound trust comes
+ * mostly from their own members
+ */
+export function detectCollusionClusters(
+  members: string[],
+  edges: TrustEdge[],
+  seeds: Set<string>,
+  threshold: number = DEFAULT_TRUST_GRAPH_OPTIONS.collusionThreshold
+): CollusionCluster[] {
+  const clusters: CollusionCluster[] = [];
+
+  for (const component of stronglyConnectedComponents(members, edges)) {
+    if (component.length < 2 || component.some(member => seeds.has(member))) continue;
+
+    const inside = new Set(component);
+    const internal = edges.filter(edge => inside.has(edge.from) && inside.has(edge.to));
+    const internalWeight = internal.reduce((sum, edge) => sum + edge.weight, 0);
+    const externalInboundWeight = edges
+      .filter(edge => !inside.has(edge.from) && inside.has(edge.to))
+      .reduce((sum, edge) => sum + edge.weight, 0);
+    const insularity = internalWeight / (internalWeight + externalInboundWeight);
+
+    if (insularity < threshold) continue;
+
+    const pairs = new Set(internal.map(edge => `${edge.from}\u0000${edge.to}`));
+    const reciprocated = internal.filter(edge => pairs.has(`${edge.to}\u0000${edge.from}`)).length;
+
+    clusters.push({
+      members: component.sort(),
+      internalWeight,
+      externalInboundWeight,
+      insularity,
+      reciprocity: reciprocated / internal.length
+    });
+  }
+
+  return clusters;
+}
+
+/**
+ * Tarjan's algorithm, iterative so deep chains cannot overflow the stack
+ */
+function stronglyConnectedComponents(members: string[], edges: TrustEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) || []), edge.to]);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of members) {
+    if (index.has(root)) continue;
+
+    const work: { node: string; next: number }[] = [{ node: root, next: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter);
+    counter++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const neighbours = adjacency.get(frame.node) || [];
+
+      if (frame.next < neighbours.length) {
+        const neighbour = neighbours[frame.next++];
+        if (!index.has(neighbour)) {
+          index.set(neighbour, counter);
+          lowLink.set(neighbour, counter);
+          counter++;
+          stack.push(neighbour);
+          onStack.add(neighbour);
+          work.push({ node: neighbour, next: 0 });
+        } else if (onStack.has(neighbour)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(neighbour)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
@@ -10,6 +10,7 @@ dotenv.config();
 const envSchema = Joi.object({
   NODE_ENV: Joi.string().valid('development', 'staging', 'production').default('development'),
   PORT: Joi.number().default(4000),
+  PUBLIC_URL: Joi.string().uri().optional(),
   
   // Database
   DATABASE_URL: Joi.string().required(),
@@ -18,6 +19,8 @@ const envSchema = Joi.object({
   
   // Security
   JWT_SECRET: Joi.string().min(32).required(),
+  JWT_ACCESS_TOKEN_TTL: Joi.number().default(900),
+  JWT_REFRESH_TOKEN_TTL: Joi.number().default(604800),
   ENCRYPTION_KEY: Joi.string().length(32).required(),
   ANONYMIZATION_SALT: Joi.string().min(16).required(),
   
@@ -45,6 +48,28 @@ const envSchema = Joi.object({
   // Integration
   DISCOURSE_API_KEY: Joi.string().optional(),
   
+  // Compliance
+  SANCTIONS_LIST_PATH: Joi.string().optional(),
+  COMPLIANCE_CACHE_TTL: Joi.number().default(3600),
+  
+  // Credential status
+  STATUS_LIST_ALLOWED_HOSTS: Joi.string().optional(),
+  
+  // Trust graph
+  TRUST_SEEDS: Joi.string().optional(),
+  TRUST_HALF_LIFE_DAYS: Joi.number().min(0).default(180),
+  TRUST_RESTART_PROBABILITY: Joi.number().greater(0).max(1).default(0.15),
+  REPUTATION_ISSUER_DID: Joi.string().optional(),
+  REPUTATION_CREDENTIAL_TTL_DAYS: Joi.number().integer().min(1).default(30),
+  
+  // Hybrid retrieval
+  HYBRID_KEYWORD_WEIGHT: Joi.number().min(0).default(1),
+  HYBRID_VECTOR_WEIGHT: Joi.number().min(0).default(1),
+  HYBRID_RRF_K: Joi.number().integer().min(1).default(60),
+  RERANKER: Joi.string().valid('none', 'cross-encoder', 'llm').default('none'),
+  RERANKER_URL: Joi.string().uri().optional(),
+  RERANKER_MODEL: Joi.string().optional(),
+  
   // Features
   MULTI_AGENT_MODE: Joi.boolean().default(true),
   CROSS_SESSION_SYNTHESIS: Joi.boolean().default(true),
@@ -63,6 +88,7 @@ if (error) {
 export const config = {
   nodeEnv: envVars.NODE_ENV,
   port: envVars.PORT,
+  publicUrl: envVars.PUBLIC_URL || `http://localhost:${envVars.PORT}`,
   
   // Database
   databaseUrl: envVars.DATABASE_URL,
@@ -71,6 +97,8 @@ export const config = {
   
   // Security
   jwtSecret: envVars.JWT_SECRET,
+  jwtAccessTokenTtl: envVars.JWT_ACCESS_TOKEN_TTL,
+  jwtRefreshTokenTtl: envVars.JWT_REFRESH_TOKEN_TTL,
   encryptionKey: envVars.ENCRYPTION_KEY,
   anonymizationSalt: envVars.ANONYMIZATION_SALT,
   
@@ -102,6 +130,42 @@ export const config = {
   // Integration
   discourseApiKey: envVars.DISCOURSE_API_KEY,
   
+  // Compliance
+  compliance: {
+    sanctionsListPath: envVars.SANCTIONS_LIST_PATH,
+    cacheTtl: envVars.COMPLIANCE_CACHE_TTL
+  },
+  
+  // Credential status: hosts whose status lists may be fetched for imported credentials
+  statusLists: {
+    allowedHosts: envVars.STATUS_LIST_ALLOWED_HOSTS
+      ? envVars.STATUS_LIST_ALLOWED_HOSTS.split(',').map((host: string) => host.trim().toLowerCase()).filter(Boolean)
+      : [] as string[]
+  },
+  
+  // Trust graph
+  trustGraph: {
+    seeds: envVars.TRUST_SEEDS ? envVars.TRUST_SEEDS.split(',').map((seed: string) => seed.trim()).filter(Boolean) : [],
+    halfLifeDays: envVars.TRUST_HALF_LIFE_DAYS,
+    restartProbability: envVars.TRUST_RESTART_PROBABILITY
+  },
+  reputationCredentials: {
+    issuerDID: envVars.REPUTATION_ISSUER_DID,
+    ttlDays: envVars.REPUTATION_CREDENTIAL_TTL_DAYS
+  },
+  
+  // Hybrid retrieval
+  hybridSearch: {
+    keywordWeight: envVars.HYBRID_KEYWORD_WEIGHT,
+    vectorWeight: envVars.HYBRID_VECTOR_WEIGHT,
+    rrfK: envVars.HYBRID_RRF_K
+  },
+  reranker: {
+    method: envVars.RERANKER as 'none' | 'cross-encoder' | 'llm',
+    url: envVars.RERANKER_URL as string | undefined,
+    model: envVars.RERANKER_MODEL as string | undefined
+  },
+  
   // Features
   multiAgentMode: envVars.MULTI_AGENT_MODE,
   crossSessionSynthesis: envVars.CROSS_SESSION_SYNTHESIS,
@@ -61,6 +61,26 @@ class DatabaseManager {
     return this.pgPool.connect();
   }
 
+  /**
+   * Run fn inside BEGIN/COMMIT on a dedicated client, rolling back if it throws
+   */
+  async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(rollbackError => {
+        logger.error('Rollback failed', { error: rollbackError });
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   getRedis(): Redis {
     return this.redis;
   }
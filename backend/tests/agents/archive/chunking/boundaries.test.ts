@@ -0,0 +1,73 @@
+// =====================================
+// backend/tests/agents/archive/chunking/boundaries.test.ts
+// =====================================
+
+import { detectClauses, detectSections, splitSentences } from '../../../../src/agents/archive/chunking/boundaries';
+
+function sentences(text: string): string[] {
+  return splitSentences(text, { start: 0, end: text.length }).map(span => text.slice(span.start, span.end));
+}
+
+describe('splitSentences', () => {
+  it('does not break after abbreviations, initials, decimals or URLs', () => {
+    const text = 'See Art. 5 of the regulation, e.g. for custody. J. R. Smith paid 3.5 BTC via https://example.org/a.b today. Done!';
+
+    expect(sentences(text)).toEqual([
+      'See Art. 5 of the regulation, e.g. for custody.',
+      'J. R. Smith paid 3.5 BTC via https://example.org/a.b today.',
+      'Done!'
+    ]);
+  });
+
+  it('ends sentences at blank lines and list items', () => {
+    const text = 'Obligations include\n- record keeping\n- reporting\n\nNext paragraph';
+
+    expect(sentences(text)).toEqual(['Obligations include', '- record keeping', '- reporting', 'Next paragraph']);
+  });
+
+  it('keeps offsets within the requested span', () => {
+    const text = 'Ignored. First sentence. Second sentence.';
+    const spans = splitSentences(text, { start: 9, end: text.length });
+
+    expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['First sentence.', 'Second sentence.']);
+  });
+});
+
+describe('detectClauses', () => {
+  it('labels numbered, lettered and roman clauses at line starts', () => {
+    const text = '4.2 The provider shall\n(a) keep records;\niv) report breaches.\nSee clause 3.1 above.';
+    const clauses = detectClauses(text, { start: 0, end: text.length });
+
+    expect(clauses.map(clause => clause.label)).toEqual(['4.2', '(a)', 'iv']);
+    expect(text.slice(clauses[1].startIndex)).toMatch(/^\(a\) keep/);
+  });
+});
+
+describe('detectSections', () => {
+  it('detects Markdown, keyword, numbered and all-caps headings', () => {
+    const text = [
+      '# Custody Guidance', 'Intro text.', 'EXECUTIVE SUMMARY', 'Summary text.',
+      'Article 4', 'Article text.', '2.1 Scope', 'Scope text.'
+    ].join('\n\n');
+
+    expect(detectSections(text).map(({ title, level }) => ({ title, level }))).toEqual([
+      { title: 'Custody Guidance', level: 1 },
+      { title: 'EXECUTIVE SUMMARY', level: 1 },
+      { title: 'Article 4', level: 2 },
+      { title: '2.1 Scope', level: 2 }
+    ]);
+  });
+
+  it('does not treat sentences or multi-line paragraphs as headings', () => {
+    const text = 'Intro text.\n\n1. Providers must register.\n\nSECTION ONE\ncontinues here';
+
+    expect(detectSections(text)).toEqual([]);
+  });
+
+  it('prefers headings from extraction', () => {
+    const text = 'Preamble\n\nBody';
+    const sections = detectSections(text, [{ text: 'Body', level: 3, startIndex: 10 }, { text: 'Out of range', level: 1, startIndex: 99 }]);
+
+    expect(sections).toEqual([{ startIndex: 10, level: 3, title: 'Body' }]);
+  });
+});
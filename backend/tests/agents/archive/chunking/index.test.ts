@@ -0,0 +1,144 @@
+// =====================================
+// backend/tests/agents/archive/chunking/index.test.ts
+// =====================================
+
+import { chunkText, countTokens, getTokenizer, TextChunk } from '../../../../src/agents/archive/chunking';
+
+jest.mock('../../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const CUSTODY = 'Custodians must segregate client assets from their own holdings at all times.';
+const REPORTING = 'Reporting entities must file suspicious activity reports within thirty days.';
+
+function paragraphs(sentence: string, count: number): string {
+  return Array.from({ length: count }, (_, index) => `${sentence} Paragraph ${index + 1} adds detail.`).join('\n\n');
+}
+
+const DOCUMENT = [
+  '# Custody Guidance',
+  'Intro paragraph describing the scope of this guidance.',
+  '## 1 Custody',
+  paragraphs(CUSTODY, 6),
+  '## 2 Reporting',
+  '4.1 Providers shall report promptly.\n4.2 Reports shall be kept for five years.',
+  paragraphs(REPORTING, 6)
+].join('\n\n');
+
+function expectExactOffsets(text: string, chunks: TextChunk[]): void {
+  chunks.forEach((chunk, index) => {
+    expect(chunk.chunkIndex).toBe(index);
+    expect(chunk.content).toBe(text.slice(chunk.startIndex, chunk.endIndex));
+  });
+}
+
+describe('chunkText', () => {
+  it.each(['section', 'token', 'recursive'] as const)('keeps %s chunks within budget and citable by offset', async strategy => {
+    const result = await chunkText(DOCUMENT, { strategy, chunkSize: 60, chunkOverlap: 10 });
+
+    expect(result.strategy).toBe(strategy);
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expectExactOffsets(DOCUMENT, result.chunks);
+    for (const chunk of result.chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(60);
+      expect(chunk.tokenCount).toBe(countTokens(chunk.content, getTokenizer()));
+    }
+  });
+
+  it('never lets a section chunk cross a heading', async () => {
+    const result = await chunkText(DOCUMENT, { strategy: 'section', chunkSize: 60, chunkOverlap: 10 });
+    const reportingStart = DOCUMENT.indexOf('## 2 Reporting');
+
+    for (const chunk of result.chunks) {
+      expect(chunk.startIndex < reportingStart && chunk.endIndex > reportingStart).toBe(false);
+    }
+    const reporting = result.chunks.find(chunk => chunk.startIndex === reportingStart)!;
+    expect(reporting.headingPath).toEqual(['Custody Guidance', '2 Reporting']);
+    expect(reporting.section).toBe('2 Reporting');
+  });
+
+  it('labels chunks with the pages they span', async () => {
+    const pageBreak = DOCUMENT.indexOf('4.2 Reports');
+    const pages = [
+      { pageNumber: 1, startIndex: 0, endIndex: pageBreak },
+      { pageNumber: 2, startIndex: pageBreak, endIndex: DOCUMENT.length }
+    ];
+    const result = await chunkText(DOCUMENT, { strategy: 'token', chunkSize: 60, chunkOverlap: 0, structure: { headings: [], pages } });
+
+    expect(result.chunks[0]).toMatchObject({ pageNumber: 1, pageEnd: undefined });
+    expect(result.chunks.find(chunk => chunk.startIndex < pageBreak && chunk.endIndex > pageBreak)).toMatchObject({ pageNumber: 1, pageEnd: 2 });
+    expect(result.chunks[result.chunks.length - 1].pageNumber).toBe(2);
+  });
+
+  it('labels chunks with the clause in effect at their start', async () => {
+    const text = '4.1 Providers shall report promptly.\n4.2 Reports shall be kept for five years and protected against loss, alteration or unauthorised access.';
+    const result = await chunkText(text, { strategy: 'token', chunkSize: 8, chunkOverlap: 0 });
+
+    expect(result.chunks[0].clause).toBe('4.1');
+    expect(result.chunks[result.chunks.length - 1].clause).toBe('4.2');
+  });
+
+  it('repeats overlap from the previous chunk', async () => {
+    const text = paragraphs(CUSTODY, 10);
+    const result = await chunkText(text, { strategy: 'recursive', chunkSize: 50, chunkOverlap: 15 });
+
+    expectExactOffsets(text, result.chunks);
+    for (let index = 1; index < result.chunks.length; index++) {
+      expect(result.chunks[index].startIndex).toBeLessThan(result.chunks[index - 1].endIndex);
+      expect(result.chunks[index].startIndex).toBeGreaterThan(result.chunks[index - 1].startIndex);
+    }
+  });
+
+  it('measures chunks with the embedding model\'s tokenizer and caps them at its input limit', async () => {
+    const result = await chunkText(DOCUMENT, { strategy: 'recursive', chunkSize: 1000, chunkOverlap: 100, embeddingModel: 'all-MiniLM-L6-v2' });
+
+    expect(result.tokenizer).toBe('wordpiece-estimate');
+    expect(result.warnings).toEqual([expect.stringContaining('exceeds all-MiniLM-L6-v2 input limit; using 256')]);
+    expect(result.chunks.every(chunk => chunk.tokenCount <= 256)).toBe(true);
+  });
+
+  it('rejects unknown strategies and invalid sizes', async () => {
+    await expect(chunkText('x', { strategy: 'paragraph' as any, chunkSize: 10, chunkOverlap: 0 })).rejects.toThrow('Unknown chunking strategy');
+    await expect(chunkText('x', { strategy: 'token', chunkSize: 0, chunkOverlap: 0 })).rejects.toThrow('chunkSize');
+    await expect(chunkText('x', { strategy: 'token', chunkSize: 10, chunkOverlap: 10 })).rejects.toThrow('chunkOverlap');
+  });
+
+  it('returns no chunks for blank text', async () => {
+    const result = await chunkText('  \n\n ', { strategy: 'recursive', chunkSize: 10, chunkOverlap: 0 });
+
+    expect(result.chunks).toEqual([]);
+  });
+
+  describe('semantic strategy', () => {
+    const rules = (sentence: string) => [1, 2, 3, 4].map(rule => sentence.replace('.', ` (rule ${rule}).`)).join(' ');
+    const text = `${rules(CUSTODY)}\n\n${rules(REPORTING)}`;
+    const mentions = (passage: string, word: string) => passage.split(word).length - 1;
+    const embed = async (passage: string) => [mentions(passage, 'Custodians'), mentions(passage, 'Reporting')];
+
+    it('starts a new chunk where the topic changes', async () => {
+      const result = await chunkText(text, { strategy: 'semantic', chunkSize: 200, chunkOverlap: 0, embed, breakpointPercentile: 50 });
+      const topicChange = text.indexOf('Reporting');
+
+      expect(result.strategy).toBe('semantic');
+      expectExactOffsets(text, result.chunks);
+      expect(result.chunks.map(chunk => chunk.startIndex)).toEqual([0, topicChange]);
+    });
+
+    it('falls back to section chunking when embedding fails', async () => {
+      const failing = jest.fn().mockRejectedValue(new Error('embedding service unavailable'));
+      const result = await chunkText(text, { strategy: 'semantic', chunkSize: 60, chunkOverlap: 0, embed: failing });
+
+      expect(failing).toHaveBeenCalled();
+      expect(result.strategy).toBe('section');
+      expect(result.warnings).toEqual([expect.stringContaining('embedding service unavailable')]);
+      expect(result.chunks.length).toBeGreaterThan(1);
+    });
+
+    it('falls back to section chunking without an embedding function', async () => {
+      const result = await chunkText(text, { strategy: 'semantic', chunkSize: 60, chunkOverlap: 0 });
+
+      expect(result.strategy).toBe('section');
+      expect(result.warnings).toEqual([expect.stringContaining('no embedding function provided')]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// =====================================
+// backend/tests/agents/archive/citations.test.ts
+// =====================================
+
+import { annotateCitations, sourceLabel } from '../../../src/agents/archive/citations';
+import { FilteredResult } from '../../../src/agents/archive/retrieval-system';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const REPORTING = 'Under the rule, exchanges must report suspicious transactions within 24 hours. Records are kept for five years.';
+const CUSTODY = 'Custody providers segregate client assets from their own.';
+
+function source(id: string, content: string, startIndex: number = 0, accessLevel: FilteredResult['accessLevel'] = 'full'): FilteredResult {
+  return {
+    id,
+    content,
+    score: 0.9,
+    metadata: {
+      documentId: `doc-${id}`,
+      title: `Title ${id}`,
+      sessionId: 'session-1',
+      privacyLevel: 'selective',
+      chunkIndex: 0,
+      startIndex,
+      endIndex: startIndex + content.length,
+      wordCount: content.split(/\s+/).length
+    },
+    relevanceScore: 0.9,
+    qualityScore: 0.8,
+    recencyScore: 0.5,
+    finalScore: 0.8,
+    privacyCompliant: true,
+    accessLevel
+  };
+}
+
+const SOURCES = [source('chunk-1', REPORTING, 100), source('chunk-2', CUSTODY)];
+
+describe('annotateCitations', () => {
+  it('rewrites model labels to source numbers', () => {
+    const { response, citations } = annotateCitations(
+      'Exchanges must report suspicious transactions [S1, S2]. Custody providers segregate client assets [Source 2].',
+      SOURCES
+    );
+
+    expect(response).toBe('Exchanges must report suspicious transactions [1][2]. Custody providers segregate client assets [2].');
+    expect(citations.map(citation => citation.marker)).toEqual([1, 2, 2]);
+    for (const citation of citations) {
+      expect(response.slice(citation.markerSpan.start, citation.markerSpan.end)).toBe(`[${citation.marker}]`);
+    }
+  });
+
+  it('anchors a citation to the supporting passage in the chunk and the document', () => {
+    const { citations } = annotateCitations('Exchanges must report suspicious transactions within 24 hours [S1].', SOURCES);
+    const [citation] = citations;
+    const passage = 'Under the rule, exchanges must report suspicious transactions within 24 hours.';
+
+    expect(citation).toMatchObject({ chunkId: 'chunk-1', documentId: 'doc-chunk-1', title: 'Title chunk-1', support: 1, supported: true });
+    expect(citation.quote).toBe(passage);
+    expect(citation.chunkSpan).toEqual({ start: 0, end: passage.length });
+    expect(citation.documentSpan).toEqual({ start: 100, end: 100 + passage.length });
+  });
+
+  it('flags uncited claims and citations that do not back their sentence', () => {
+    const answer = [
+      '## Summary',
+      'Exchanges must report suspicious transactions within 24 hours [S1].',
+      'The moon is made of cheese and rocks [S2].',
+      'Custody providers segregate client assets from their own.'
+    ].join('\n');
+
+    const { check } = annotateCitations(answer, SOURCES);
+
+    expect(check).toMatchObject({ claims: 3, cited: 2, supported: 1 });
+    expect(check.unsupported.map(sentence => [sentence.reason, sentence.text])).toEqual([
+      ['weak-support', 'The moon is made of cheese and rocks [2].'],
+      ['uncited', 'Custody providers segregate client assets from their own.']
+    ]);
+  });
+
+  it('does not count a citation as support when the passage has a different figure', () => {
+    const { citations, check } = annotateCitations('Exchanges must report suspicious transactions within 48 hours [S1].', SOURCES);
+
+    expect(citations[0].supported).toBe(false);
+    expect(check.unsupported[0].reason).toBe('weak-support');
+  });
+
+  it('drops labels for sources that were not provided and reports the sentence', () => {
+    const { response, citations, check } = annotateCitations('Validators must publish audited reserve reports [S7].', SOURCES);
+
+    expect(response).toBe('Validators must publish audited reserve reports.');
+    expect(citations).toHaveLength(0);
+    expect(check.unsupported[0].reason).toBe('unknown-source');
+  });
+
+  it('gives no support from a metadata-only source', () => {
+    const { citations } = annotateCitations(
+      'Custody providers segregate client assets [S1].',
+      [source('chunk-3', CUSTODY, 0, 'metadata')]
+    );
+
+    expect(citations[0]).toMatchObject({ support: 0, supported: false });
+  });
+
+  it('honours a custom support threshold', () => {
+    const answer = 'Exchanges must report suspicious transactions within 48 hours [S1].';
+    expect(annotateCitations(answer, SOURCES, { minSupport: 0.4 }).citations[0].supported).toBe(true);
+  });
+});
+
+describe('sourceLabel', () => {
+  it('labels sources from S1', () => {
+    expect(sourceLabel(0)).toBe('S1');
+  });
+});
@@ -0,0 +1,130 @@
+// =====================================
+// backend/tests/agents/archive/extractors/docx.test.ts
+// =====================================
+
+import zlib from 'zlib';
+import { extractDocx } from '../../../../src/agents/archive/extractors/docx';
+
+/**
+ * Deflated ZIP without CRCs, which the reader does not check
+ */
+function buildZip(files: Record<string, Buffer | string>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = typeof content === 'string' ? Buffer.from(content) : content;
+    const data = zlib.deflateRawSync(raw);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>`;
+}
+
+function paragraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+}
+
+const STYLES = `<w:styles ${W}><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>`;
+
+describe('extractDocx', () => {
+  it('extracts headings, paragraphs, tables and core properties', () => {
+    const file = buildZip({
+      'word/document.xml': documentXml([
+        paragraph('Scope', 'Heading1'),
+        paragraph('Custodians must segregate client assets.'),
+        '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Role</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Duty</w:t></w:r></w:p></w:tc></w:tr>',
+        '<w:tr><w:tc><w:p><w:r><w:t>Custodian</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Segregate</w:t></w:r></w:p></w:tc></w:tr></w:tbl>'
+      ].join('')),
+      'word/styles.xml': STYLES,
+      'docProps/core.xml': '<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc"><dc:title>Custody Guide</dc:title><dc:creator>BGIN</dc:creator></cp:coreProperties>'
+    });
+
+    const document = extractDocx(file);
+
+    expect(document.format).toBe('docx');
+    expect(document).toMatchObject({ title: 'Custody Guide', author: 'BGIN' });
+    expect(document.headings.map(heading => [heading.level, heading.text])).toEqual([[1, 'Scope']]);
+    expect(document.text).toContain('Custodians must segregate client assets.');
+    expect(document.tables).toHaveLength(1);
+    expect(document.tables[0].columnCount).toBe(2);
+    expect(document.text).toContain('Custodian');
+  });
+
+  it('leaves deleted text out', () => {
+    const file = buildZip({
+      'word/document.xml': documentXml('<w:p><w:r><w:t>Kept </w:t></w:r><w:del><w:r><w:delText>removed</w:delText></w:r></w:del></w:p>')
+    });
+
+    expect(extractDocx(file).text).not.toContain('removed');
+  });
+
+  it('rejects parts that together decompress past the document budget', () => {
+    const padding = `<!--${' '.repeat(30 * 1024 * 1024)}-->`;
+    const file = buildZip({
+      'word/document.xml': documentXml(paragraph('Small body.')),
+      'word/styles.xml': `<w:styles ${W}>${padding}</w:styles>`,
+      'word/numbering.xml': `<w:numbering ${W}>${padding}</w:numbering>`,
+      'docProps/core.xml': `<cp:coreProperties>${padding}</cp:coreProperties>`
+    });
+
+    expect(file.length).toBeLessThan(1024 * 1024);
+    expect(() => extractDocx(file)).toThrow('Document decompresses to more than 64 MB');
+  });
+
+  it('rejects archives that are not Word documents', () => {
+    expect(() => extractDocx(buildZip({ 'xl/workbook.xml': '<workbook/>' }))).toThrow('word/document.xml missing');
+    expect(() => extractDocx(Buffer.from('not a zip file at all, just some text'))).toThrow('Not a ZIP archive');
+  });
+
+  it('rejects a corrupt central directory', () => {
+    const file = buildZip({ 'word/document.xml': documentXml(paragraph('Body.')) });
+    const corrupt = Buffer.from(file);
+    corrupt.writeUInt32LE(corrupt.length - 30, corrupt.length - 6);
+
+    expect(() => extractDocx(corrupt)).toThrow('Corrupt ZIP central directory');
+  });
+
+  it('rejects encrypted entries', () => {
+    const file = buildZip({ 'word/document.xml': documentXml(paragraph('Body.')) });
+    const directory = file.readUInt32LE(file.length - 6);
+    file.writeUInt16LE(1, directory + 8);
+
+    expect(() => extractDocx(file)).toThrow('Encrypted ZIP archives are not supported');
+  });
+});
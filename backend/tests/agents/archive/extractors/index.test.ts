@@ -0,0 +1,43 @@
+// =====================================
+// backend/tests/agents/archive/extractors/index.test.ts
+// =====================================
+
+import { detectFormat, extractDocument } from '../../../../src/agents/archive/extractors';
+
+describe('detectFormat', () => {
+  it('trusts PDF magic bytes over the declared type', () => {
+    expect(detectFormat(Buffer.from('%PDF-1.7\n'), { mimeType: 'application/octet-stream' })).toBe('pdf');
+  });
+
+  it('does not treat text that mentions the PDF header as a PDF', () => {
+    const notes = Buffer.from('# PDF notes\n\nEvery PDF starts with %PDF-1.7 on its first line.\n');
+    expect(detectFormat(notes, { fileName: 'notes.md' })).toBe('markdown');
+  });
+
+  it('falls back from the declared type to the file extension to text', () => {
+    expect(detectFormat(Buffer.from('a,b\n1,2\n'), { mimeType: 'text/csv; charset=utf-8' })).toBe('csv');
+    expect(detectFormat(Buffer.from('<p>x</p>'), { fileName: 'page.HTML' })).toBe('html');
+    expect(detectFormat(Buffer.from('plain'))).toBe('text');
+  });
+
+  it('rejects ZIP archives other than Word documents and unknown binary types', () => {
+    const emptyZip = Buffer.alloc(22);
+    emptyZip.writeUInt32LE(0x06054b50, 0);
+    const localHeader = Buffer.alloc(4);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+
+    expect(() => detectFormat(Buffer.concat([localHeader, emptyZip]))).toThrow('only Word (.docx) packages');
+    expect(() => detectFormat(Buffer.from('x'), { mimeType: 'image/png' })).toThrow('Unsupported document type: image/png');
+  });
+});
+
+describe('extractDocument', () => {
+  it('wraps extractor failures with the format', async () => {
+    await expect(extractDocument(Buffer.from('%PDF-1.7\ngarbage'))).rejects.toThrow('Could not extract pdf document');
+  });
+
+  it('rejects binary data passed off as text', async () => {
+    const binary = Buffer.from(Array.from({ length: 200 }, (_, index) => index % 32));
+    await expect(extractDocument(binary, { mimeType: 'text/plain' })).rejects.toThrow(/binary/);
+  });
+});
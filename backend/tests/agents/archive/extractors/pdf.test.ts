@@ -0,0 +1,182 @@
+// =====================================
+// backend/tests/agents/archive/extractors/pdf.test.ts
+// =====================================
+
+import zlib from 'zlib';
+import { extractPDF, hasPDFHeader } from '../../../../src/agents/archive/extractors/pdf';
+
+interface ContentStream {
+  data: Buffer;
+  filter?: string;
+}
+
+/**
+ * One page per content stream, all set in Helvetica
+ */
+function buildPDF(pages: ContentStream[], info?: string): Buffer {
+  const objects: Buffer[] = [];
+  const pageRefs = pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ');
+  objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageRefs}] /Count ${pages.length} >>`));
+  objects.push(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'));
+  objects.push(Buffer.from(info || '<< >>'));
+  pages.forEach((page, index) => {
+    objects.push(Buffer.from(`<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R >> >> /Contents ${6 + index * 2} 0 R >>`));
+    const filter = page.filter ? ` /Filter /${page.filter}` : '';
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${page.data.length}${filter} >>\nstream\n`),
+      page.data,
+      Buffer.from('\nendstream')
+    ]));
+  });
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n')];
+  objects.forEach((object, index) => {
+    parts.push(Buffer.from(`${index + 1} 0 obj\n`), object, Buffer.from('\nendobj\n'));
+  });
+  parts.push(Buffer.from(`trailer\n<< /Root 1 0 R /Info 4 0 R /Size ${objects.length + 1} >>\n%%EOF\n`));
+  return Buffer.concat(parts);
+}
+
+function textStream(lines: string[]): Buffer {
+  return Buffer.from(lines
+    .map((line, index) => `BT /F1 12 Tf 72 ${720 - index * 14} Td (${line}) Tj ET`)
+    .join('\n'), 'latin1');
+}
+
+/**
+ * Pack LZW codes MSB-first, widening codes the way the decoder does with EarlyChange 1
+ */
+function packLZW(codes: number[]): Buffer {
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeLength = 9;
+  let next = 258;
+  let previous = false;
+
+  for (const code of [...codes, 257]) {
+    bitBuffer = (bitBuffer << codeLength) | code;
+    bitCount += codeLength;
+    while (bitCount >= 8) {
+      bytes.push((bitBuffer >> (bitCount - 8)) & 0xff);
+      bitCount -= 8;
+      bitBuffer &= (1 << bitCount) - 1;
+    }
+    if (previous && next < 4096) next++;
+    previous = true;
+    if (next + 1 >= (1 << codeLength) && codeLength < 12) codeLength++;
+  }
+  if (bitCount > 0) bytes.push((bitBuffer << (8 - bitCount)) & 0xff);
+  return Buffer.from(bytes);
+}
+
+function lzwEncode(data: Buffer): Buffer {
+  const table = new Map<string, number>();
+  for (let i = 0; i < 256; i++) table.set(String.fromCharCode(i), i);
+  let next = 258;
+  const codes: number[] = [];
+  let word = '';
+  for (const char of data.toString('latin1')) {
+    if (table.has(word + char)) {
+      word += char;
+      continue;
+    }
+    codes.push(table.get(word)!);
+    if (next < 4096) table.set(word + char, next++);
+    word = char;
+  }
+  if (word) codes.push(table.get(word)!);
+  return packLZW(codes);
+}
+
+describe('hasPDFHeader', () => {
+  it('accepts the header at the start or after non-printable junk', () => {
+    expect(hasPDFHeader(Buffer.from('%PDF-1.4\n'))).toBe(true);
+    expect(hasPDFHeader(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf, 0x0a]), Buffer.from('%PDF-1.7')]))).toBe(true);
+  });
+
+  it('rejects text that only mentions the header', () => {
+    expect(hasPDFHeader(Buffer.from('# Notes\nFiles start with %PDF-1.7'))).toBe(false);
+    expect(hasPDFHeader(Buffer.from('x%PDF-1.7'))).toBe(false);
+  });
+});
+
+describe('extractPDF', () => {
+  it('extracts text, pages and document info', () => {
+    const file = buildPDF(
+      [{ data: textStream(['First page text.']) }, { data: textStream(['Second page text.']) }],
+      '<< /Title (Custody Rules) /Author (BGIN) >>'
+    );
+
+    const document = extractPDF(file);
+
+    expect(document.format).toBe('pdf');
+    expect(document.text).toContain('First page text.');
+    expect(document.text).toContain('Second page text.');
+    expect(document.pages.map(page => page.pageNumber)).toEqual([1, 2]);
+    expect(document).toMatchObject({ title: 'Custody Rules', author: 'BGIN' });
+  });
+
+  it('decodes Flate and LZW content streams', () => {
+    const content = textStream(['Compressed stream text.']);
+
+    expect(extractPDF(buildPDF([{ data: zlib.deflateSync(content), filter: 'FlateDecode' }])).text)
+      .toContain('Compressed stream text.');
+    expect(extractPDF(buildPDF([{ data: lzwEncode(content), filter: 'LZWDecode' }])).text)
+      .toContain('Compressed stream text.');
+  });
+
+  it('keeps decoding LZW once the code table is full', () => {
+    const lines = Array.from({ length: 400 }, (_, index) => `Line ${index} of a long LZW stream.`);
+    const document = extractPDF(buildPDF([{ data: lzwEncode(textStream(lines)), filter: 'LZWDecode' }]));
+
+    expect(document.text).toContain('Line 0 of a long LZW stream.');
+    expect(document.text).toContain('Line 399 of a long LZW stream.');
+  });
+
+  it('rejects Flate streams that together decompress past the document budget', () => {
+    const bomb = zlib.deflateSync(Buffer.alloc(30 * 1024 * 1024, 0x20));
+    const pages = [0, 1, 2].map(() => ({ data: bomb, filter: 'FlateDecode' }));
+
+    expect(() => extractPDF(buildPDF(pages))).toThrow('PDF decompresses to more than 64 MB');
+  });
+
+  it('rejects an LZW stream that repeats its longest code', () => {
+    // A run of zeros fills the table with ever longer strings, then 4095 repeats the longest
+    const codes = [0];
+    for (let code = 258; code < 4096; code++) codes.push(code);
+    for (let i = 0; i < 20000; i++) codes.push(4095);
+
+    const file = buildPDF([{ data: packLZW(codes), filter: 'LZWDecode' }]);
+
+    expect(file.length).toBeLessThan(64 * 1024);
+    expect(() => extractPDF(file)).toThrow('PDF decompresses to more than 64 MB');
+  });
+
+  it('rejects files that are not PDFs', () => {
+    expect(() => extractPDF(Buffer.from('Plain text that mentions %PDF-1.7'))).toThrow('Not a PDF file');
+  });
+
+  it('rejects a PDF without a page tree', () => {
+    expect(() => extractPDF(Buffer.from('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< /Root 1 0 R >>\n')))
+      .toThrow('PDF page tree not found');
+  });
+
+  it('rejects encrypted PDFs', () => {
+    const file = Buffer.concat([buildPDF([{ data: textStream(['Secret']) }]), Buffer.from('trailer\n<< /Encrypt 9 0 R >>\n')]);
+    expect(() => extractPDF(file)).toThrow('Encrypted PDFs are not supported');
+  });
+
+  it('reports no text when the only content stream is corrupt', () => {
+    const file = buildPDF([{ data: Buffer.from('not deflate data'), filter: 'FlateDecode' }]);
+    expect(() => extractPDF(file)).toThrow('PDF contains no extractable text');
+  });
+
+  it('reads a stream whose declared length is wrong', () => {
+    const file = buildPDF([{ data: textStream(['Length is off.']) }]);
+    const damaged = Buffer.from(file.toString('latin1').replace(/\/Length \d+/, '/Length 99999'), 'latin1');
+
+    expect(extractPDF(damaged).text).toContain('Length is off.');
+  });
+});
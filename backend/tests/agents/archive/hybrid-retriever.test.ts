@@ -0,0 +1,133 @@
+// =====================================
+// backend/tests/agents/archive/hybrid-retriever.test.ts
+// =====================================
+
+import { HybridRetriever } from '../../../src/agents/archive/hybrid-retriever';
+import { retrievalSystem, KeywordSearchResult, SearchResult } from '../../../src/agents/archive/retrieval-system';
+
+jest.mock('../../../src/agents/archive/retrieval-system', () => ({
+  retrievalSystem: { searchFullText: jest.fn(), searchSimilar: jest.fn() }
+}));
+jest.mock('../../../src/utils/config', () => ({
+  config: { hybridSearch: { keywordWeight: 1, vectorWeight: 1, rrfK: 60 } }
+}));
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const searchFullText = retrievalSystem.searchFullText as jest.Mock;
+const searchSimilar = retrievalSystem.searchSimilar as jest.Mock;
+
+function hit(id: string, score: number): SearchResult {
+  return {
+    id,
+    content: `content of ${id}`,
+    score,
+    metadata: {
+      documentId: `doc-${id}`,
+      sessionId: 'session-1',
+      privacyLevel: 'selective',
+      chunkIndex: 0,
+      startIndex: 0,
+      endIndex: 12,
+      wordCount: 3
+    }
+  };
+}
+
+function keywordHit(id: string, score: number, matchedTerms: string[] = []): KeywordSearchResult {
+  return { ...hit(id, score), matchedTerms, phraseMatch: false };
+}
+
+describe('HybridRetriever', () => {
+  const retriever = new HybridRetriever();
+
+  beforeEach(() => {
+    searchFullText.mockReset();
+    searchSimilar.mockReset();
+  });
+
+  it('ranks a chunk found by both sources above chunks found by one', async () => {
+    searchFullText.mockResolvedValue([keywordHit('a', 9), keywordHit('b', 7)]);
+    searchSimilar.mockResolvedValue([hit('c', 0.95), hit('b', 0.9)]);
+
+    const results = await retriever.search('custody rules');
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a', 'c']);
+    expect(results[0].fusedScore).toBeCloseTo(1 / 62 + 1 / 62);
+    expect(results[1].fusedScore).toBeCloseTo(1 / 61);
+  });
+
+  it('scales scores by the best possible fused score', async () => {
+    searchFullText.mockResolvedValue([keywordHit('a', 9)]);
+    searchSimilar.mockResolvedValue([hit('a', 0.9)]);
+
+    const [top] = await retriever.search('custody rules');
+    expect(top.score).toBeCloseTo(1);
+  });
+
+  it('applies per-request weights and rrfK', async () => {
+    searchFullText.mockResolvedValue([keywordHit('a', 9)]);
+    searchSimilar.mockResolvedValue([hit('b', 0.9)]);
+
+    const results = await retriever.search('q', {}, { weights: { keyword: 1, vector: 3 }, rrfK: 10 });
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a']);
+    expect(results[0].fusedScore).toBeCloseTo(3 / 11);
+    expect(results[0].score).toBeCloseTo((3 / 11) / (4 / 11));
+  });
+
+  it('skips a source whose weight is zero', async () => {
+    searchSimilar.mockResolvedValue([hit('b', 0.9)]);
+
+    const results = await retriever.search('q', {}, { weights: { keyword: 0 } });
+
+    expect(searchFullText).not.toHaveBeenCalled();
+    expect(results.map(result => result.id)).toEqual(['b']);
+  });
+
+  it('requests at least limit candidates from each source and returns at most limit', async () => {
+    searchFullText.mockResolvedValue(['a', 'b', 'c'].map(id => keywordHit(id, 1)));
+    searchSimilar.mockResolvedValue([]);
+
+    const results = await retriever.search('q', { sessionId: 's' }, { limit: 2, candidates: 1 });
+
+    expect(searchFullText).toHaveBeenCalledWith('q', { sessionId: 's' }, 2);
+    expect(results).toHaveLength(2);
+  });
+
+  it('degrades to the other source when one fails', async () => {
+    searchFullText.mockRejectedValue(new Error('database down'));
+    searchSimilar.mockResolvedValue([hit('b', 0.9)]);
+
+    const results = await retriever.search('q');
+    expect(results.map(result => result.id)).toEqual(['b']);
+  });
+
+  it('fails when no source is available', async () => {
+    searchFullText.mockRejectedValue(new Error('database down'));
+    searchSimilar.mockRejectedValue(new Error('qdrant down'));
+
+    await expect(retriever.search('q')).rejects.toThrow('keyword and vector search both unavailable');
+  });
+
+  it('rejects invalid weights and rrfK', async () => {
+    await expect(retriever.search('q', {}, { weights: { keyword: 0, vector: 0 } })).rejects.toThrow('not both zero');
+    await expect(retriever.search('q', {}, { weights: { keyword: -1 } })).rejects.toThrow('non-negative');
+    await expect(retriever.search('q', {}, { rrfK: 0 })).rejects.toThrow('rrfK must be at least 1');
+  });
+
+  it('explains each source\'s share of the fused score', async () => {
+    searchFullText.mockResolvedValue([keywordHit('a', 9, ['custody'])]);
+    searchSimilar.mockResolvedValue([hit('x', 0.95), hit('a', 0.8)]);
+
+    const [top] = await retriever.search('custody', {}, { explain: true });
+    const explanation = top.explanation!;
+
+    expect(top.id).toBe('a');
+    expect(explanation.fusedRank).toBe(1);
+    expect(explanation.keyword).toMatchObject({ rank: 1, score: 9, weight: 1, matchedTerms: ['custody'], phraseMatch: false });
+    expect(explanation.vector).toMatchObject({ rank: 2, score: 0.8, weight: 1 });
+    expect(explanation.keyword!.share + explanation.vector!.share).toBeCloseTo(1);
+  });
+});
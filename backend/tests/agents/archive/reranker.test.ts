@@ -0,0 +1,103 @@
+// =====================================
+// backend/tests/agents/archive/reranker.test.ts
+// =====================================
+
+import axios from 'axios';
+import { Reranker } from '../../../src/agents/archive/reranker';
+import { llmClient } from '../../../src/integrations/llm/llm-client';
+import { config } from '../../../src/utils/config';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { post: jest.fn() }
+}));
+jest.mock('../../../src/integrations/llm/llm-client', () => ({
+  llmClient: { generateResponse: jest.fn() }
+}));
+jest.mock('../../../src/utils/config', () => ({
+  config: { reranker: { method: 'none', url: undefined, model: 'bge-reranker-base' } }
+}));
+
+const post = axios.post as jest.Mock;
+const generateResponse = llmClient.generateResponse as jest.Mock;
+
+const candidates = ['a', 'b', 'c'].map(id => ({ id, content: `content of ${id}` }));
+
+describe('Reranker', () => {
+  const reranker = new Reranker();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(config.reranker, { method: 'none', url: undefined });
+  });
+
+  it('is disabled by default and refuses to rerank', async () => {
+    expect(reranker.isEnabled).toBe(false);
+    await expect(reranker.rerank('query', candidates)).rejects.toThrow('Reranking is disabled');
+    await expect(reranker.rerank('query', [])).resolves.toEqual([]);
+  });
+
+  describe('cross-encoder', () => {
+    beforeEach(() => {
+      Object.assign(config.reranker, { method: 'cross-encoder', url: 'http://reranker:8080/' });
+    });
+
+    it('maps scores back to candidates by index and clamps them to 0..1', async () => {
+      post.mockResolvedValue({ data: [{ index: 2, score: 0.9 }, { index: 0, score: 1.2 }, { index: 1, score: -0.1 }] });
+
+      await expect(reranker.rerank('custody rules', candidates)).resolves.toEqual([
+        { id: 'a', score: 1 }, { id: 'b', score: 0 }, { id: 'c', score: 0.9 }
+      ]);
+      expect(post).toHaveBeenCalledWith('http://reranker:8080/rerank', expect.objectContaining({
+        query: 'custody rules', texts: ['content of a', 'content of b', 'content of c'], model: 'bge-reranker-base', raw_scores: false
+      }), expect.any(Object));
+    });
+
+    it('throws on missing scores, malformed responses or a missing URL', async () => {
+      post.mockResolvedValueOnce({ data: [{ index: 0, score: 0.5 }] });
+      await expect(reranker.rerank('q', candidates)).rejects.toThrow('no score for candidate 1');
+
+      post.mockResolvedValueOnce({ data: { error: 'overloaded' } });
+      await expect(reranker.rerank('q', candidates)).rejects.toThrow('unexpected response');
+
+      config.reranker.url = undefined;
+      await expect(reranker.rerank('q', candidates)).rejects.toThrow('RERANKER_URL is required');
+    });
+  });
+
+  describe('llm', () => {
+    beforeEach(() => {
+      config.reranker.method = 'llm';
+    });
+
+    it('scales 0-10 ratings to 0..1, tolerating prose around the JSON', async () => {
+      generateResponse.mockResolvedValue({ content: 'Scores:\n[{"passage": 1, "score": 7}, {"passage": 2, "score": 12}, {"passage": 3, "score": "0"}]\nDone.' });
+
+      await expect(reranker.rerank('q', candidates)).resolves.toEqual([
+        { id: 'a', score: 0.7 }, { id: 'b', score: 1 }, { id: 'c', score: 0 }
+      ]);
+      expect(generateResponse.mock.calls[0][1]).toMatchObject({ model: 'bge-reranker-base', temperature: 0 });
+    });
+
+    it('scores candidates in batches of eight', async () => {
+      const many = Array.from({ length: 10 }, (_, index) => ({ id: `c${index}`, content: `passage ${index}` }));
+      generateResponse.mockImplementation(async (prompt: string) => {
+        const count = (prompt.match(/^\[\d+\] /gm) || []).length;
+        return { content: JSON.stringify(Array.from({ length: count }, (_, index) => ({ passage: index + 1, score: 5 }))) };
+      });
+
+      const scores = await reranker.rerank('q', many);
+
+      expect(generateResponse).toHaveBeenCalledTimes(2);
+      expect(scores.map(score => score.id)).toEqual(many.map(candidate => candidate.id));
+    });
+
+    it('throws when the reply is not JSON or skips a passage', async () => {
+      generateResponse.mockResolvedValueOnce({ content: 'All passages look relevant.' });
+      await expect(reranker.rerank('q', candidates)).rejects.toThrow('did not return JSON scores');
+
+      generateResponse.mockResolvedValueOnce({ content: '[{"passage": 1, "score": 4}, {"passage": 3, "score": 9}]' });
+      await expect(reranker.rerank('q', candidates)).rejects.toThrow('no score for passage 2');
+    });
+  });
+});
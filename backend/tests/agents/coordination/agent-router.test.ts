@@ -0,0 +1,142 @@
+// =====================================
+// backend/tests/agents/coordination/agent-router.test.ts
+// =====================================
+
+import { AgentCoordinator, AgentHandler, AgentStreamEvent } from '../../../src/agents/coordination/agent-router';
+import { createDefaultAgentHandlers } from '../../../src/agents/coordination/agent-handlers';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../../src/agents/coordination/agent-handlers', () => ({
+  createDefaultAgentHandlers: jest.fn(() => [])
+}));
+
+function handler(overrides: Partial<AgentHandler> = {}): AgentHandler {
+  return {
+    type: 'archive',
+    timeoutMs: 1000,
+    validatePayload: (payload: any) => typeof payload.query === 'string' ? [] : ['query is required'],
+    handle: jest.fn(async (payload: any) => ({ answer: `results for ${payload.query}` })),
+    ...overrides
+  };
+}
+
+const request = { type: 'archive' as const, sessionId: 'session-1', payload: { query: 'privacy pools' } };
+
+describe('AgentCoordinator', () => {
+  let coordinator: AgentCoordinator;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    coordinator = new AgentCoordinator();
+  });
+
+  it('dispatches a request to the handler registered for its type', async () => {
+    const archive = handler();
+    coordinator.registerAgent(archive);
+
+    const response = await coordinator.processRequest(request);
+
+    expect(response).toMatchObject({ success: true, agentType: 'archive', data: { answer: 'results for privacy pools' } });
+    expect(archive.handle).toHaveBeenCalledWith(request.payload, request);
+    expect(coordinator.getAgentStatus('archive')).toMatchObject({
+      status: 'ready',
+      activeRequests: 0,
+      totalRequests: 1,
+      failedRequests: 0
+    });
+  });
+
+  it('rejects malformed requests, unknown agents and invalid payloads without calling a handler', async () => {
+    const archive = handler();
+    coordinator.registerAgent(archive);
+
+    const malformed = await coordinator.processRequest({ type: 'archive', payload: 'query' } as any);
+    const unknown = await coordinator.processRequest({ ...request, type: 'codex' });
+    const invalid = await coordinator.processRequest({ ...request, payload: {} });
+
+    expect(malformed).toMatchObject({
+      success: false,
+      error: 'Invalid agent request',
+      validationErrors: ['sessionId is required', 'payload must be an object']
+    });
+    expect(unknown).toMatchObject({ success: false, error: 'No agent registered for type "codex"' });
+    expect(invalid).toMatchObject({ success: false, error: 'Invalid payload', validationErrors: ['query is required'] });
+    expect(archive.handle).not.toHaveBeenCalled();
+  });
+
+  it('fails a request that exceeds the agent timeout and counts it', async () => {
+    coordinator.registerAgent(handler({
+      timeoutMs: 20,
+      handle: () => new Promise(resolve => setTimeout(() => resolve('late'), 200))
+    }));
+
+    const response = await coordinator.processRequest(request);
+
+    expect(response).toMatchObject({ success: false, error: 'archive agent timed out after 20ms' });
+    expect(coordinator.getAgentStatus('archive')).toMatchObject({
+      status: 'ready',
+      failedRequests: 1,
+      timeouts: 1,
+      lastError: 'archive agent timed out after 20ms'
+    });
+  });
+
+  it('records handler errors on the agent status', async () => {
+    coordinator.registerAgent(handler({ handle: jest.fn().mockRejectedValue(new Error('vector store offline')) }));
+
+    const response = await coordinator.processRequest(request);
+
+    expect(response).toMatchObject({ success: false, error: 'vector store offline' });
+    expect(coordinator.getAgentStatus('archive')).toMatchObject({ failedRequests: 1, timeouts: 0, lastError: 'vector store offline' });
+  });
+
+  it('forwards stream events when the caller listens and the agent streams', async () => {
+    const archive = handler({
+      async *stream(payload: any) {
+        yield { type: 'token', text: 'privacy' };
+        yield { type: 'token', text: ' pools' };
+        return { answer: payload.query };
+      }
+    });
+    coordinator.registerAgent(archive);
+    const events: AgentStreamEvent[] = [];
+
+    const streamed = await coordinator.processRequest(request, event => events.push(event));
+    const plain = await coordinator.processRequest(request);
+
+    expect(streamed.data).toEqual({ answer: 'privacy pools' });
+    expect(events).toEqual([{ type: 'token', text: 'privacy' }, { type: 'token', text: ' pools' }]);
+    expect(plain.data).toEqual({ answer: 'results for privacy pools' });
+    expect(archive.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks agents degraded when their health check fails', async () => {
+    coordinator.registerAgent(handler({ healthCheck: jest.fn().mockResolvedValue(false) }));
+    coordinator.registerAgent(handler({ type: 'codex', healthCheck: jest.fn().mockRejectedValue(new Error('down')) }));
+    coordinator.registerAgent(handler({ type: 'discourse', healthCheck: jest.fn().mockResolvedValue(true) }));
+
+    await coordinator.refreshAgentHealth();
+
+    expect(coordinator.getAllAgentStatuses().map(status => [status.type, status.status])).toEqual([
+      ['archive', 'degraded'],
+      ['codex', 'degraded'],
+      ['discourse', 'ready']
+    ]);
+  });
+
+  it('keeps agents registered before initialize over the defaults', async () => {
+    const custom = handler();
+    const defaults = [handler({ type: 'archive', timeoutMs: 5 }), handler({ type: 'codex' })];
+    (createDefaultAgentHandlers as jest.Mock).mockReturnValueOnce(defaults);
+    coordinator.registerAgent(custom);
+
+    await coordinator.initialize();
+    await coordinator.processRequest(request);
+
+    expect(coordinator.getRegisteredAgents()).toEqual(['archive', 'codex']);
+    expect(custom.handle).toHaveBeenCalled();
+    expect(defaults[0].handle).not.toHaveBeenCalled();
+  });
+});
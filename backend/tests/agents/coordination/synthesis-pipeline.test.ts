@@ -0,0 +1,150 @@
+// =====================================
+// backend/tests/agents/coordination/synthesis-pipeline.test.ts
+// =====================================
+
+import { SynthesisPipeline } from '../../../src/agents/coordination/synthesis-pipeline';
+import { retrievalSystem } from '../../../src/agents/archive/retrieval-system';
+import { policyAnalyzer } from '../../../src/agents/codex/policy-analyzer';
+import { discourseClient } from '../../../src/integrations/discourse-api/discourse-client';
+import { llmClient } from '../../../src/integrations/llm/llm-client';
+import { database } from '../../../src/utils/database';
+
+jest.mock('../../../src/agents/archive/retrieval-system', () => ({
+  retrievalSystem: { searchSimilar: jest.fn(), rankResults: jest.fn(), applyPrivacyFilters: jest.fn() }
+}));
+jest.mock('../../../src/agents/codex/policy-analyzer', () => ({
+  policyAnalyzer: { getFramework: jest.fn(), analyzePolicyFramework: jest.fn() }
+}));
+jest.mock('../../../src/integrations/discourse-api/discourse-client', () => ({
+  discourseClient: { searchTopics: jest.fn() }
+}));
+jest.mock('../../../src/integrations/llm/llm-client', () => ({
+  llmClient: { generateResponse: jest.fn() }
+}));
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../../src/utils/database', () => ({
+  database: { query: jest.fn(), transaction: jest.fn(), getRedis: jest.fn() }
+}));
+
+const query = database.query as jest.Mock;
+const generateResponse = llmClient.generateResponse as jest.Mock;
+const searchTopics = discourseClient.searchTopics as jest.Mock;
+const analyzePolicyFramework = policyAnalyzer.analyzePolicyFramework as jest.Mock;
+
+function archiveResult(documentId: string, finalScore: number) {
+  return { id: `chunk-${documentId}`, content: `excerpt of ${documentId}`, finalScore, metadata: { documentId }, document: { title: `Report ${documentId}` } };
+}
+
+const ANALYSIS = {
+  id: 'analysis-1',
+  framework: { name: 'Travel Rule guidance' },
+  analysis: { complianceScore: 72, riskLevel: 'medium', strengths: ['clear scope'], weaknesses: ['cost'], gaps: ['DeFi'], recommendations: ['pilot'] },
+  metadata: { confidence: 0.8 }
+};
+
+describe('SynthesisPipeline', () => {
+  let pipeline: SynthesisPipeline;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    query.mockImplementation(async (text: string) => text.includes('FROM sessions') ? { rows: [{ '?column?': 1 }] } : { rows: [], rowCount: 1 });
+
+    const results = [archiveResult('doc-1', 0.8), archiveResult('doc-2', 0.6)];
+    (retrievalSystem.searchSimilar as jest.Mock).mockResolvedValue(results);
+    (retrievalSystem.rankResults as jest.Mock).mockImplementation(async ranked => ranked);
+    (retrievalSystem.applyPrivacyFilters as jest.Mock).mockImplementation(async filtered => filtered);
+    analyzePolicyFramework.mockResolvedValue(ANALYSIS);
+    searchTopics.mockResolvedValue([{ id: 11, title: 'Travel Rule for DeFi', posts_count: 20 }, { id: 12, title: 'VASP onboarding', posts_count: 40 }]);
+    generateResponse.mockResolvedValue({
+      content: 'Here is the synthesis: {"summary": "Merged answer", "insights": ["Archive and Codex agree"], "recommendations": ["Pilot in DeFi"]}'
+    });
+
+    pipeline = new SynthesisPipeline();
+  });
+
+  it('rejects unknown sessions before running any agent', async () => {
+    query.mockResolvedValueOnce({ rows: [] });
+
+    await expect(pipeline.collaborate({ sessionId: 'missing', question: 'q' })).rejects.toThrow('Session not found: missing');
+    expect(retrievalSystem.searchSimilar).not.toHaveBeenCalled();
+    expect(generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('merges archive, codex and discourse findings into a stored collaboration', async () => {
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'How should the Travel Rule apply to DeFi?' });
+
+    expect(collaboration.participatingAgents).toEqual(['archive', 'codex', 'discourse']);
+    expect(collaboration.synthesisResult).toMatchObject({
+      summary: 'Merged answer', insights: ['Archive and Codex agree'], recommendations: ['Pilot in DeFi']
+    });
+    expect(collaboration.synthesisResult.sources).toEqual([
+      { agent: 'archive', reference: 'doc-1', title: 'Report doc-1', score: 0.8 },
+      { agent: 'archive', reference: 'doc-2', title: 'Report doc-2', score: 0.6 },
+      { agent: 'codex', reference: 'analysis-1', title: 'Travel Rule guidance', score: 0.8 },
+      { agent: 'discourse', reference: '11', title: 'Travel Rule for DeFi', score: 1 },
+      { agent: 'discourse', reference: '12', title: 'VASP onboarding', score: 1 }
+    ]);
+    // archive 0.7 * 0.45 + codex 0.8 * 0.35 + discourse (0.4 coverage, 1 activity) 0.7 * 0.2, to two decimals
+    expect(collaboration.confidenceScore).toBe(0.74);
+    expect(collaboration.qualityMetrics).toMatchObject({ agentCoverage: 1, sourceCount: 5 });
+
+    const prompt = generateResponse.mock.calls[0][0];
+    expect(prompt).toContain('[A1] Report doc-1: excerpt of doc-1');
+    expect(prompt).toContain('CODEX (Travel Rule guidance, compliance 72, risk medium)');
+    expect(prompt).toContain('[D2] VASP onboarding (40 posts)');
+
+    const insert = query.mock.calls.find(([text]) => text.includes('INSERT INTO agent_collaborations'))!;
+    expect(insert[1].slice(0, 4)).toEqual([collaboration.id, 'session-1', 'multi_agent_synthesis', ['archive', 'codex', 'discourse']]);
+  });
+
+  it('counts failed agents as zero confidence and leaves them out of the participants', async () => {
+    searchTopics.mockRejectedValue(new Error('Discourse unavailable'));
+
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'q' });
+
+    expect(collaboration.participatingAgents).toEqual(['archive', 'codex']);
+    expect(collaboration.synthesisResult.contributions.find(c => c.agent === 'discourse')).toMatchObject({
+      success: false, confidence: 0, error: 'Discourse unavailable'
+    });
+    expect(collaboration.confidenceScore).toBe(0.6);
+    expect(collaboration.qualityMetrics.agentCoverage).toBeCloseTo(2 / 3);
+  });
+
+  it('runs only the requested agents and weights confidence among them', async () => {
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'q', agents: ['codex'] });
+
+    expect(retrievalSystem.searchSimilar).not.toHaveBeenCalled();
+    expect(searchTopics).not.toHaveBeenCalled();
+    expect(collaboration.confidenceScore).toBe(0.8);
+  });
+
+  it('fails the codex agent for an unknown framework', async () => {
+    (policyAnalyzer.getFramework as jest.Mock).mockReturnValue(undefined);
+
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'q', agents: ['codex'], frameworkId: 'fw-404' });
+
+    expect(collaboration.synthesisResult.contributions[0]).toMatchObject({ success: false, error: 'Unknown policy framework: fw-404' });
+    expect(analyzePolicyFramework).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the raw findings when the merge reply is not JSON', async () => {
+    generateResponse.mockResolvedValue({ content: 'I could not produce JSON.' });
+
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'q', agents: ['archive'] });
+
+    expect(collaboration.synthesisResult.summary).toContain('ARCHIVE (2 documents)');
+    expect(collaboration.synthesisResult.insights).toEqual([]);
+  });
+
+  it('skips the merge when no agent contributed', async () => {
+    (retrievalSystem.searchSimilar as jest.Mock).mockRejectedValue(new Error('Vector store down'));
+
+    const collaboration = await pipeline.collaborate({ sessionId: 'session-1', question: 'q', agents: ['archive'] });
+
+    expect(generateResponse).not.toHaveBeenCalled();
+    expect(collaboration.synthesisResult.summary).toBe('No agent was able to contribute to this synthesis.');
+    expect(collaboration.confidenceScore).toBe(0);
+  });
+});
@@ -0,0 +1,118 @@
+// =====================================
+// backend/tests/integrations/llm/llm-client.test.ts
+// =====================================
+
+import { Readable } from 'stream';
+import axios from 'axios';
+import { Anthropic } from '@anthropic-ai/sdk';
+import { LLMClient, LLMStreamChunk } from '../../../src/integrations/llm/llm-client';
+
+jest.mock('../../../src/utils/config', () => ({
+  config: { kwaaiApiKey: 'kwaai-key', anthropicApiKey: 'anthropic-key', openaiApiKey: undefined }
+}));
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('axios', () => {
+  const http = { get: jest.fn(), post: jest.fn() };
+  return { __esModule: true, default: { create: jest.fn(() => http), post: jest.fn() } };
+});
+jest.mock('@anthropic-ai/sdk', () => {
+  const client = { messages: { create: jest.fn() } };
+  return { Anthropic: jest.fn(() => client) };
+});
+jest.mock('openai', () => ({ __esModule: true, default: jest.fn() }));
+
+const kwaai = (axios.create as jest.Mock)() as { get: jest.Mock; post: jest.Mock };
+const anthropic = new (Anthropic as any)() as { messages: { create: jest.Mock } };
+
+async function collect(stream: AsyncGenerator<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function* anthropicEvents(...texts: string[]) {
+  for (const text of texts) {
+    yield { type: 'content_block_delta', delta: { type: 'text_delta', text } };
+  }
+  yield { type: 'message_delta', delta: { stop_reason: 'end_turn' } };
+}
+
+describe('LLMClient.streamResponse', () => {
+  let client: LLMClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.KWAAI_DISTRIBUTED_NODES;
+    anthropic.messages.create.mockImplementation(async (request: any) => request.stream ? anthropicEvents('Fallback ', 'answer') : {});
+    client = new LLMClient();
+  });
+
+  it('streams tokens from KwaaiNet server-sent events split across reads', async () => {
+    kwaai.get.mockResolvedValue({ data: [] });
+    kwaai.post.mockResolvedValue({
+      data: Readable.from([
+        'data: {"model":"llama-3.2","choices":[{"delta":{"content":"Hel"}}]}\n\nda',
+        'ta: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: not json\n\n',
+        'data: {"choices":[{"delta":{},"finish_reason":"stop"}]}\n\ndata: {"choices":[{"delta":{"content":"ignored"}}]}\n\n'
+      ])
+    });
+
+    const chunks = await collect(client.streamResponse('Summarise the custody report'));
+
+    expect(chunks).toEqual([
+      { content: 'Hel', done: false, model: 'llama-3.2' },
+      { content: 'lo', done: false, model: 'llama-3.2' },
+      { content: '', done: true, model: 'llama-3.2', finishReason: 'stop' }
+    ]);
+    expect(kwaai.post.mock.calls[0][1]).toMatchObject({ stream: true, messages: [{ role: 'user', content: 'Summarise the custody report' }] });
+    expect(kwaai.post.mock.calls[0][2]).toEqual({ responseType: 'stream' });
+  });
+
+  it('ends the stream at [DONE]', async () => {
+    kwaai.get.mockResolvedValue({ data: [] });
+    kwaai.post.mockResolvedValue({ data: Readable.from(['data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n']) });
+
+    const chunks = await collect(client.streamResponse('q'));
+
+    expect(chunks.map(chunk => chunk.done)).toEqual([false, true]);
+  });
+
+  it('falls back to Anthropic when KwaaiNet fails before emitting anything', async () => {
+    kwaai.get.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const chunks = await collect(client.streamResponse('q'));
+
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Fallback answer');
+    expect(chunks[chunks.length - 1]).toMatchObject({ done: true, finishReason: 'end_turn' });
+    expect(kwaai.post).not.toHaveBeenCalled();
+  });
+
+  it('does not switch providers once tokens have been emitted', async () => {
+    kwaai.get.mockResolvedValue({ data: [] });
+    const body = new Readable({ read() {} });
+    body.push('data: {"choices":[{"delta":{"content":"Partial"}}]}\n\n');
+    setImmediate(() => body.destroy(new Error('socket hang up')));
+    kwaai.post.mockResolvedValue({ data: body });
+
+    const received: string[] = [];
+    await expect((async () => {
+      for await (const chunk of client.streamResponse('q')) {
+        received.push(chunk.content);
+      }
+    })()).rejects.toThrow('socket hang up');
+
+    expect(received).toEqual(['Partial']);
+    expect(anthropic.messages.create).not.toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+  });
+
+  it('throws the last error when no provider can stream', async () => {
+    kwaai.get.mockRejectedValue(new Error('ECONNREFUSED'));
+    anthropic.messages.create.mockRejectedValue(new Error('overloaded'));
+
+    await expect(collect(client.streamResponse('q'))).rejects.toThrow('Provider anthropic is not available');
+  });
+});
@@ -0,0 +1,237 @@
+// =====================================
+// backend/tests/privacy-pools/asp-manager.test.ts
+// =====================================
+
+import { BGINASPManager, TrustNetworkNode } from '../../src/privacy-pools/asp-manager';
+import { aspRepository } from '../../src/privacy-pools/asp-repository';
+import { complianceEngine } from '../../src/privacy-pools/compliance-engine';
+import { generateDepositSecrets } from '../../src/privacy-pools/commitments';
+import { AssociationSetMerkleTree } from '../../src/privacy-pools/association-merkle-tree';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { trustGraph: { seeds: ['alice'] } }
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/privacy-pools/compliance-engine', () => ({
+  complianceEngine: { evaluate: jest.fn() }
+}));
+jest.mock('../../src/privacy-pools/asp-repository', () => ({
+  aspRepository: {
+    loadState: jest.fn(),
+    recordRoot: jest.fn(),
+    saveDeposit: jest.fn(),
+    saveWithdrawal: jest.fn(),
+    findRoot: jest.fn(),
+    saveReviewOutcome: jest.fn()
+  }
+}));
+
+const repository = aspRepository as jest.Mocked<typeof aspRepository>;
+const evaluate = complianceEngine.evaluate as jest.Mock;
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+
+function eligibleNode(userId: string): TrustNetworkNode {
+  return {
+    userId,
+    did: `did:bgin:${userId}`,
+    reputationScore: 0.9,
+    researchContributions: [],
+    trustRelationships: [],
+    aspEligibility: {
+      eligible: true,
+      trustThreshold: 0.8,
+      contributionThreshold: 10,
+      complianceStatus: 'approved',
+      lastChecked: new Date(),
+      requirements: {
+        minimumTrustScore: 0.8,
+        minimumContributions: 10,
+        minimumReputation: 0.75,
+        kycStatus: true,
+        regulatoryCompliance: true,
+        noSanctions: true,
+        identityVerification: true
+      }
+    },
+    privacyPoolAccess: { depositLimit: 0, withdrawalPrivacy: 'low', priorityProcessing: false, feeReduction: 0, lastUpdated: new Date() }
+  } as TrustNetworkNode;
+}
+
+function decision(allPassed: boolean) {
+  const outcome = { passed: allPassed, reason: allPassed ? 'ok' : 'listed' };
+  return {
+    allPassed,
+    reason: allPassed ? 'All compliance checks passed' : 'Compliance checks failed: sanctions (listed)',
+    checks: { kyc: outcome, aml: outcome, sanctions: outcome, identity: outcome }
+  };
+}
+
+function rootFor(version: number, tree: { root: string; treeRoot: string; size: number }) {
+  return { version, epoch: 1, root: tree.root, treeRoot: tree.treeRoot, size: tree.size, createdAt: new Date() };
+}
+
+describe('BGINASPManager deposits and withdrawals', () => {
+  let manager: BGINASPManager;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    repository.loadState.mockResolvedValue({
+      nodes: [eligibleNode('alice')],
+      contributions: [],
+      deposits: [],
+      rewards: [],
+      associationSet: [],
+      openEpoch: 1,
+      ledgerTransactions: [],
+      rewardLedgerEntries: [],
+      latestRoot: null
+    } as any);
+    repository.recordRoot.mockImplementation(async (_epoch, tree) => rootFor(1, tree));
+    repository.saveDeposit.mockImplementation(async (_deposit, options) => options?.tree ? rootFor(2, options.tree) : undefined);
+
+    manager = new BGINASPManager();
+    await manager.initialize();
+  });
+
+  it('evaluates a deposit with server-side scores and stores nothing', async () => {
+    evaluate.mockResolvedValue(decision(true));
+
+    const evaluation = await manager.evaluateDeposit({ depositorId: 'alice', depositorAddress: ADDRESS, amount: '1000', assetType: 'ETH' });
+
+    expect(evaluation).toMatchObject({ depositorId: 'alice', trustScore: 0.9, contributionScore: 0 });
+    expect(evaluation.aspApproval.approved).toBe(true);
+    expect(repository.saveDeposit).not.toHaveBeenCalled();
+    expect(await manager.getAssociationSet()).toEqual([]);
+  });
+
+  it('refuses to evaluate for members who are not eligible', async () => {
+    await expect(manager.evaluateDeposit({ depositorId: 'mallory', amount: '1', assetType: 'ETH' }))
+      .rejects.toThrow('User not found in trust network');
+  });
+
+  it('adds an approved ledger deposit to the association set and publishes a root', async () => {
+    evaluate.mockResolvedValue(decision(true));
+    const secrets = generateDepositSecrets();
+
+    const deposit = await manager.registerDeposit({ depositorId: 'alice', depositorAddress: ADDRESS, amount: '1000', assetType: 'ETH', precommitment: secrets.precommitment });
+
+    expect(deposit.status).toBe('approved');
+    expect(await manager.getAssociationSet()).toEqual([deposit.commitment]);
+    expect((await manager.getAssociationSetRoot())!.version).toBe(2);
+  });
+
+  it('rejects a withdrawal of an approved commitment as another asset', async () => {
+    evaluate.mockResolvedValue(decision(true));
+    const secrets = generateDepositSecrets();
+    const deposit = await manager.registerDeposit({ depositorId: 'alice', depositorAddress: ADDRESS, amount: '1000', assetType: 'DAI', precommitment: secrets.precommitment });
+    const root = (await manager.getAssociationSetRoot())!;
+    repository.findRoot.mockResolvedValue(root);
+
+    const request = {
+      amount: '1000',
+      label: deposit.label!,
+      nullifier: secrets.nullifier,
+      secret: secrets.secret,
+      recipient: '0x00000000000000000000000000000000000000bb',
+      associationRoot: root.root
+    };
+
+    const asEth = await manager.requestWithdrawal({ ...request, assetType: 'ETH' });
+    expect(asEth).toMatchObject({ status: 'rejected', reason: 'Asset or amount does not match the deposit' });
+
+    const asDai = await manager.requestWithdrawal({ ...request, assetType: 'DAI' });
+    expect(asDai.status).toBe('completed');
+  });
+
+  it('does not add a rejected deposit to the association set', async () => {
+    evaluate.mockResolvedValue(decision(false));
+
+    const deposit = await manager.registerDeposit({
+      depositorId: 'alice', depositorAddress: ADDRESS, amount: '1000', assetType: 'ETH', precommitment: generateDepositSecrets().precommitment
+    });
+
+    expect(deposit.status).toBe('rejected');
+    expect(await manager.getAssociationSet()).toEqual([]);
+  });
+});
+
+describe('BGINASPManager review completion', () => {
+  it('applies nothing when another process already completed the review', async () => {
+    const contribution = {
+      id: 'c1', contributorId: 'alice', contributionType: 'analysis', qualityScore: 0, impactScore: 0, trustScore: 0,
+      reviewStatus: 'pending_review', timestamp: new Date()
+    };
+    repository.loadState.mockResolvedValue({
+      nodes: [eligibleNode('alice')], contributions: [contribution], deposits: [], rewards: [], associationSet: [],
+      openEpoch: 1, ledgerTransactions: [], rewardLedgerEntries: [], latestRoot: null
+    } as any);
+    repository.recordRoot.mockImplementation(async (_epoch, tree) => rootFor(1, tree));
+    repository.saveReviewOutcome.mockResolvedValue(false);
+    const manager = new BGINASPManager();
+    await manager.initialize();
+
+    const summary = {
+      reviewIds: [], reviewerWeights: {}, criterionScores: { methodology: 1, evidence: 1, originality: 1, clarity: 1, relevance: 1 },
+      qualityScore: 1, recommendationScore: 1, accepted: true, completedAt: new Date()
+    };
+
+    await expect(manager.completeContributionReview('c1', summary)).resolves.toBeUndefined();
+    expect(manager.findContribution('c1')!.reviewStatus).toBe('pending_review');
+    expect(manager.getUserTrustScore('alice')).toBe(0.9);
+  });
+});
+
+describe('BGINASPManager restore', () => {
+  const A = '0x' + 'a'.repeat(64);
+  const B = '0x' + 'b'.repeat(64);
+
+  function state(overrides: Record<string, any>) {
+    return {
+      nodes: [eligibleNode('alice')], contributions: [], deposits: [], rewards: [], associationSet: [A, B],
+      openEpoch: 4, ledgerTransactions: [], rewardLedgerEntries: [], latestRoot: null, ...overrides
+    } as any;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('resumes the stored association set, epoch and published root', async () => {
+    const tree = new AssociationSetMerkleTree([A, B]);
+    repository.loadState.mockResolvedValue(state({ latestRoot: rootFor(7, tree) }));
+    const manager = new BGINASPManager();
+    await manager.initialize();
+
+    expect((await manager.getAssociationSet()).sort()).toEqual([A, B]);
+    await expect(manager.getAssociationSetRoot()).resolves.toMatchObject({ version: 7, root: tree.root });
+    expect(repository.recordRoot).not.toHaveBeenCalled();
+  });
+
+  it('publishes a root when the stored one does not match the restored set', async () => {
+    const stale = new AssociationSetMerkleTree([A]);
+    repository.loadState.mockResolvedValue(state({ latestRoot: rootFor(3, stale) }));
+    repository.recordRoot.mockImplementation(async (_epoch, tree) => rootFor(4, tree));
+    const manager = new BGINASPManager();
+    await manager.initialize();
+
+    expect(repository.recordRoot).toHaveBeenCalledWith(4, expect.objectContaining({ root: new AssociationSetMerkleTree([A, B]).root }));
+    await expect(manager.getAssociationSetRoot()).resolves.toMatchObject({ version: 4 });
+  });
+
+  it('does not restore retracted contributions', async () => {
+    const contribution = (id: string, retractedAt?: Date) => ({
+      id, contributorId: 'alice', contributionType: 'analysis', qualityScore: 0.8, impactScore: 0, trustScore: 0,
+      reviewStatus: 'accepted', timestamp: new Date(), retractedAt
+    });
+    repository.loadState.mockResolvedValue(state({ contributions: [contribution('kept'), contribution('retracted', new Date())] }));
+    repository.recordRoot.mockImplementation(async (_epoch, tree) => rootFor(1, tree));
+    const manager = new BGINASPManager();
+    await manager.initialize();
+
+    expect(manager.findContribution('kept')).toBeDefined();
+    expect(manager.findContribution('retracted')).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+// =====================================
+// backend/tests/privacy-pools/asp-repository.test.ts
+// =====================================
+
+import { ASPRepository, AssociationSetEvent } from '../../src/privacy-pools/asp-repository';
+import { AssociationSetMerkleTree } from '../../src/privacy-pools/association-merkle-tree';
+import { PrivacyPoolDeposit } from '../../src/privacy-pools/asp-manager';
+import { database } from '../../src/utils/database';
+
+jest.mock('../../src/utils/database', () => ({
+  database: { query: jest.fn(), transaction: jest.fn(), getRedis: jest.fn() }
+}));
+
+const A = '0x' + 'a'.repeat(64);
+const B = '0x' + 'b'.repeat(64);
+const C = '0x' + 'c'.repeat(64);
+
+/**
+ * In-memory stand-ins for the association set and deposit tables, answering
+ * the statements the repository issues by their shape
+ */
+function fakeTables() {
+  const events: any[] = [];
+  const epochs: any[] = [];
+  const roots: any[] = [];
+  const deposits: any[] = [];
+  const maxSequence = () => events.length > 0 ? events[events.length - 1].sequence : null;
+  const last = (rows: any[]) => rows.length > 0 ? [rows[rows.length - 1]] : [];
+
+  const query = jest.fn(async (text: string, params: any[] = []): Promise<any> => {
+    if (text.includes('INSERT INTO asp_association_set_events')) {
+      events.push({
+        sequence: String(events.length + 1), epoch: params[0], commitment: params[1], action: params[2],
+        reason: params[3], deposit_id: params[4], recorded_by: params[5], recorded_at: params[6]
+      });
+      return { rows: [], rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO asp_association_set_roots')) {
+      const row = { version: roots.length + 1, epoch: params[0], root: params[1], tree_root: params[2], size: params[3], last_event_sequence: maxSequence(), created_at: new Date() };
+      roots.push(row);
+      return { rows: [row] };
+    }
+    if (text.includes('INSERT INTO asp_association_set_epochs')) {
+      const row = { epoch: params[0], commitments: params[1], size: params[2], last_event_sequence: maxSequence(), root_version: params[3], sealed_by: params[4], sealed_at: new Date() };
+      epochs.push(row);
+      return { rows: [row] };
+    }
+    if (text.includes('INSERT INTO asp_deposits')) {
+      deposits.push({
+        deposit_id: params[0], depositor_id: params[1], amount: params[2], asset_type: params[3], depositor_address: params[4],
+        trust_score: params[5], contribution_score: params[6], asp_approval: JSON.parse(params[7]), commitment: params[8],
+        status: params[9], label: params[10], precommitment: params[11], deposit_tx_hash: params[12], exit_tx_hash: null, created_at: params[13]
+      });
+      return { rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO privacy_pool_transitions')) return { rowCount: 1 };
+    if (text.includes('FROM asp_association_set_epochs ORDER BY epoch DESC LIMIT 1')) return { rows: last(epochs) };
+    if (text.includes('FROM asp_association_set_roots ORDER BY version DESC LIMIT 1')) return { rows: last(roots) };
+    if (text.includes('FROM asp_association_set_events WHERE sequence > $1')) {
+      return { rows: events.filter(row => Number(row.sequence) > params[0]) };
+    }
+    if (text.includes('FROM asp_association_set_events WHERE sequence <= $1')) {
+      return { rows: events.filter(row => Number(row.sequence) <= params[0]) };
+    }
+    if (text.includes('FROM asp_deposits')) return { rows: deposits };
+    if (/FROM (asp_trust_nodes|asp_research_contributions|asp_contribution_rewards|privacy_pool_ledger_transactions|asp_reward_ledger_)/.test(text)) {
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  (database.query as jest.Mock).mockImplementation(query);
+  (database.transaction as jest.Mock).mockImplementation(async (run: any) => run({ query }));
+
+  return { events, epochs, roots };
+}
+
+function event(epoch: number, commitment: string, action: 'add' | 'remove'): AssociationSetEvent {
+  return { epoch, commitment, action, recordedAt: new Date() };
+}
+
+function deposit(commitment: string): PrivacyPoolDeposit {
+  return {
+    depositId: `deposit-${commitment.slice(2, 6)}`,
+    depositorId: 'user-1',
+    amount: '1000000000000000000',
+    assetType: 'ETH',
+    trustScore: 0.9,
+    contributionScore: 0.8,
+    aspApproval: {
+      approved: true, reason: 'Approved', timestamp: new Date('2026-05-01T00:00:00Z'), bginTrustLevel: 'high',
+      complianceChecks: { kyc: true, aml: true, sanctions: true, identity: true }
+    } as any,
+    commitment,
+    status: 'approved',
+    timestamp: new Date('2026-05-01T00:00:00Z')
+  };
+}
+
+describe('ASPRepository', () => {
+  let repository: ASPRepository;
+  let tables: ReturnType<typeof fakeTables>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tables = fakeTables();
+    repository = new ASPRepository();
+  });
+
+  it('starts an empty store at epoch 1 with no root', async () => {
+    const state = await repository.loadState();
+
+    expect(state).toMatchObject({ associationSet: [], openEpoch: 1, latestRoot: null, nodes: [], deposits: [] });
+  });
+
+  it('restores the association set from the latest snapshot plus the events recorded since', async () => {
+    await repository.sealEpoch(1, [event(1, A, 'add'), event(1, B, 'add')], [A, B], new AssociationSetMerkleTree([A, B]), 'admin');
+
+    // Epoch 2 is still open when a deposit is approved
+    const tree = new AssociationSetMerkleTree([A, B, C]);
+    const root = await repository.saveDeposit(deposit(C), { event: { ...event(2, C, 'add'), depositId: 'deposit-cccc' }, tree });
+
+    const state = await repository.loadState();
+
+    expect(state.associationSet.sort()).toEqual([A, B, C]);
+    expect(state.openEpoch).toBe(2);
+    expect(state.latestRoot).toMatchObject({ version: 2, root: tree.root, size: 3, lastEventSequence: 3 });
+    expect(root!.version).toBe(2);
+    expect(state.deposits[0]).toMatchObject({ depositId: 'deposit-cccc', commitment: C, depositorAddress: undefined, label: undefined });
+    expect(state.deposits[0].aspApproval.timestamp).toEqual(new Date('2026-05-01T00:00:00Z'));
+  });
+
+  it('publishes a new root on sealing only when the set changed', async () => {
+    const tree = new AssociationSetMerkleTree([A]);
+    const first = await repository.sealEpoch(1, [event(1, A, 'add')], [A], tree);
+    const unchanged = await repository.sealEpoch(2, [], [A], tree);
+    const changed = await repository.sealEpoch(3, [event(3, B, 'add')], [A, B], new AssociationSetMerkleTree([A, B]));
+
+    expect(first).toMatchObject({ epoch: 1, size: 1, rootVersion: 1, root: tree.root, lastEventSequence: 1 });
+    expect(unchanged.rootVersion).toBe(1);
+    expect(changed.rootVersion).toBe(2);
+    expect(tables.roots).toHaveLength(2);
+  });
+
+  it('stores a deposit without touching the association set when it is not approved', async () => {
+    const root = await repository.saveDeposit({ ...deposit(A), status: 'rejected' });
+
+    expect(root).toBeUndefined();
+    expect(tables.events).toEqual([]);
+    expect(tables.roots).toEqual([]);
+  });
+
+  it('rebuilds the set as of any event by replaying the log', async () => {
+    await repository.sealEpoch(1, [event(1, A, 'add'), event(1, B, 'add'), event(1, A, 'remove'), event(1, C, 'add')], [B, C], new AssociationSetMerkleTree([B, C]));
+
+    await expect(repository.getCommitmentsAtSequence(undefined)).resolves.toEqual([]);
+    await expect(repository.getCommitmentsAtSequence(2)).resolves.toEqual([A, B]);
+    await expect(repository.getCommitmentsAtSequence(3)).resolves.toEqual([B]);
+  });
+});
@@ -0,0 +1,123 @@
+// =====================================
+// backend/tests/privacy-pools/association-merkle-tree.test.ts
+// =====================================
+
+import {
+  AssociationSetMerkleTree,
+  MerkleExclusionProof,
+  MerkleInclusionProof,
+  normalizeCommitment,
+  verifyMerkleProof
+} from '../../src/privacy-pools/association-merkle-tree';
+
+const COMMITMENTS = ['0x10', '0x20', '0x30', '0x40', '0x50'];
+
+describe('normalizeCommitment', () => {
+  it('treats hex and decimal field elements as the same bytes32 value', () => {
+    expect(normalizeCommitment('0x10').equals(normalizeCommitment('16'))).toBe(true);
+    expect(normalizeCommitment('0x10')).toHaveLength(32);
+  });
+
+  it('hashes anything else', () => {
+    expect(normalizeCommitment('not-a-field-element').equals(normalizeCommitment('not-a-field-element'))).toBe(true);
+    expect(normalizeCommitment('not-a-field-element').equals(normalizeCommitment('0x0'))).toBe(false);
+  });
+});
+
+describe('AssociationSetMerkleTree', () => {
+  const tree = new AssociationSetMerkleTree(COMMITMENTS);
+
+  it('deduplicates commitments and does not depend on their order', () => {
+    const shuffled = new AssociationSetMerkleTree(['0x50', '16', '0x30', '0x20', '0x40', '0x10']);
+
+    expect(shuffled.size).toBe(5);
+    expect(shuffled.root).toBe(tree.root);
+  });
+
+  it('binds the leaf count into the published root', () => {
+    expect(tree.root).not.toBe(tree.treeRoot);
+    expect(new AssociationSetMerkleTree(COMMITMENTS.slice(0, 4)).root).not.toBe(tree.root);
+  });
+
+  it('proves every member included', () => {
+    for (const commitment of COMMITMENTS) {
+      const proof = tree.getProof(commitment);
+
+      expect(proof.type).toBe('inclusion');
+      expect(proof.root).toBe(tree.root);
+      expect(verifyMerkleProof(proof, tree.root)).toEqual({ valid: true });
+    }
+  });
+
+  it('proves a value between two members excluded with adjacent neighbours', () => {
+    const proof = tree.getProof('0x25') as MerkleExclusionProof;
+
+    expect(proof.type).toBe('exclusion');
+    expect(proof.lower!.leafIndex).toBe(1);
+    expect(proof.upper!.leafIndex).toBe(2);
+    expect(verifyMerkleProof(proof, tree.root)).toEqual({ valid: true });
+  });
+
+  it('proves values before the first and after the last member excluded', () => {
+    const before = tree.getProof('0x01') as MerkleExclusionProof;
+    const after = tree.getProof('0x99') as MerkleExclusionProof;
+
+    expect(before.lower).toBeUndefined();
+    expect(after.upper).toBeUndefined();
+    expect(verifyMerkleProof(before, tree.root).valid).toBe(true);
+    expect(verifyMerkleProof(after, tree.root).valid).toBe(true);
+  });
+
+  it('proves exclusion from the empty set', () => {
+    const empty = new AssociationSetMerkleTree([]);
+    expect(verifyMerkleProof(empty.getProof('0x10'), empty.root)).toEqual({ valid: true });
+  });
+});
+
+describe('verifyMerkleProof', () => {
+  const tree = new AssociationSetMerkleTree(COMMITMENTS);
+
+  it('rejects a proof against another root', () => {
+    const other = new AssociationSetMerkleTree(['0x10']);
+    expect(verifyMerkleProof(tree.getProof('0x10'), other.root).reason).toBe('Proof does not commit to the expected root');
+  });
+
+  it('rejects an inclusion proof reused for another commitment', () => {
+    const proof = { ...tree.getProof('0x10'), commitment: '0x25' } as MerkleInclusionProof;
+    expect(verifyMerkleProof(proof, tree.root).reason).toBe('Leaf value does not match the commitment');
+  });
+
+  it('rejects a tampered path', () => {
+    const proof = tree.getProof('0x30') as MerkleInclusionProof;
+    const siblings = [...proof.siblings];
+    siblings[0] = `0x${'ab'.repeat(32)}`;
+
+    expect(verifyMerkleProof({ ...proof, siblings }, tree.root).reason).toBe('Merkle path does not lead to the root');
+  });
+
+  it('rejects a lied size, which would move the ends of the set', () => {
+    const proof = tree.getProof('0x99') as MerkleExclusionProof;
+    expect(verifyMerkleProof({ ...proof, size: 8 }, tree.root).valid).toBe(false);
+  });
+
+  it('rejects an exclusion proof for a member', () => {
+    const gap = tree.getProof('0x25') as MerkleExclusionProof;
+    const forged = { ...gap, commitment: '0x30', value: `0x${'30'.padStart(64, '0')}` };
+
+    expect(verifyMerkleProof(forged, tree.root).reason).toBe('Invalid upper neighbour');
+  });
+
+  it('rejects neighbours that are not adjacent', () => {
+    const low = tree.getProof('0x15') as MerkleExclusionProof;
+    const high = tree.getProof('0x45') as MerkleExclusionProof;
+    const spanning = { ...tree.getProof('0x25'), lower: low.lower, upper: high.upper } as MerkleExclusionProof;
+
+    expect(verifyMerkleProof(spanning, tree.root).reason).toBe('Neighbours are not adjacent leaves');
+  });
+
+  it('rejects a one-sided proof that is not at the end of the set', () => {
+    const proof = tree.getProof('0x25') as MerkleExclusionProof;
+    expect(verifyMerkleProof({ ...proof, lower: undefined }, tree.root).reason).toBe('Upper neighbour must be the first leaf');
+    expect(verifyMerkleProof({ ...proof, upper: undefined }, tree.root).reason).toBe('Lower neighbour must be the last leaf');
+  });
+});
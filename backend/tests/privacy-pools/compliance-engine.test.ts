@@ -0,0 +1,131 @@
+// =====================================
+// backend/tests/privacy-pools/compliance-engine.test.ts
+// =====================================
+
+import { ComplianceEngine } from '../../src/privacy-pools/compliance-engine';
+import { ComplianceCheckType, ComplianceProvider, ComplianceSubject } from '../../src/privacy-pools/compliance-providers';
+import { database } from '../../src/utils/database';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { compliance: { sanctionsListPath: undefined, cacheTtl: 3600 } }
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/utils/database', () => ({
+  database: { query: jest.fn(), transaction: jest.fn(), getRedis: jest.fn() }
+}));
+jest.mock('../../src/toip/did-resolver', () => ({
+  didResolver: { resolve: jest.fn(), getSupportedMethods: jest.fn(() => []) }
+}));
+
+const SUBJECT: ComplianceSubject = {
+  userId: 'user-1',
+  did: 'did:bgin:participant:user-1',
+  node: {} as any,
+  address: '0x1111111111111111111111111111111111111111'
+};
+
+function provider(name: string, checks: ComplianceCheckType[], status: 'pass' | 'fail' | 'error' | 'unavailable', cacheable: boolean = false) {
+  return {
+    name,
+    checks,
+    cacheable,
+    version: jest.fn().mockResolvedValue('1'),
+    check: jest.fn().mockResolvedValue({ status, reason: `${name} says ${status}`, evidence: [] })
+  } satisfies ComplianceProvider;
+}
+
+describe('ComplianceEngine', () => {
+  let engine: ComplianceEngine;
+  let cache: Map<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache = new Map();
+    (database.getRedis as jest.Mock).mockReturnValue({
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => { cache.set(key, value); })
+    });
+
+    engine = new ComplianceEngine();
+    engine.getProviders().forEach(({ name }) => engine.unregisterProvider(name));
+  });
+
+  it('registers the attestation and DID providers, and no sanctions list unless configured', () => {
+    expect(new ComplianceEngine().getProviders().map(entry => entry.name)).toEqual(['bgin-attestations', 'did-resolution']);
+  });
+
+  it('passes only when every check has a passing provider and no blocking one', async () => {
+    engine.registerProvider(provider('attestations', ['kyc', 'aml', 'sanctions', 'identity'], 'pass'));
+    engine.registerProvider(provider('screening', ['sanctions'], 'fail'));
+
+    const decision = await engine.evaluate(SUBJECT);
+
+    expect(decision.allPassed).toBe(false);
+    expect(decision.checks.kyc).toEqual({ passed: true, reason: 'Passed by attestations', decidedBy: ['attestations'] });
+    expect(decision.checks.sanctions).toEqual({ passed: false, reason: 'screening: screening says fail', decidedBy: ['screening'] });
+    expect(decision.reason).toBe('Compliance checks failed: sanctions (screening: screening says fail)');
+    expect(decision.subject.addresses).toEqual([SUBJECT.address]);
+    expect(decision.results).toHaveLength(5);
+  });
+
+  it('ignores unavailable providers but fails checks nobody could perform', async () => {
+    engine.registerProvider(provider('attestations', ['kyc', 'aml', 'sanctions'], 'pass'));
+    engine.registerProvider(provider('did', ['identity'], 'unavailable'));
+    engine.registerProvider(provider('extra', ['kyc'], 'unavailable'));
+
+    const decision = await engine.evaluate(SUBJECT);
+
+    expect(decision.checks.kyc.passed).toBe(true);
+    expect(decision.checks.identity).toEqual({ passed: false, reason: 'No provider could perform the identity check', decidedBy: [] });
+  });
+
+  it('fails closed when a provider throws', async () => {
+    const broken = provider('broken', ['kyc'], 'pass');
+    broken.check.mockRejectedValue(new Error('upstream unavailable'));
+    engine.registerProvider(provider('attestations', ['kyc', 'aml', 'sanctions', 'identity'], 'pass'));
+    engine.registerProvider(broken);
+
+    const decision = await engine.evaluate(SUBJECT);
+
+    expect(decision.checks.kyc).toMatchObject({ passed: false, decidedBy: ['broken'] });
+    expect(decision.results.find(result => result.provider === 'broken')).toMatchObject({ status: 'error', reason: 'upstream unavailable' });
+  });
+
+  it('caches definitive results of cacheable providers per version', async () => {
+    const screening = provider('screening', ['sanctions'], 'pass', true);
+    const attestations = provider('attestations', ['kyc', 'aml', 'sanctions', 'identity'], 'pass');
+    engine.registerProvider(screening);
+    engine.registerProvider(attestations);
+
+    await engine.evaluate(SUBJECT);
+    const second = await engine.evaluate(SUBJECT);
+
+    expect(screening.check).toHaveBeenCalledTimes(1);
+    expect(attestations.check).toHaveBeenCalledTimes(8);
+    expect(second.results.find(result => result.provider === 'screening')).toMatchObject({ status: 'pass', cached: true });
+
+    screening.version.mockResolvedValue('2');
+    await engine.evaluate(SUBJECT);
+    expect(screening.check).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache errors or unavailable results', async () => {
+    const flaky = provider('flaky', ['identity'], 'error', true);
+    engine.registerProvider(flaky);
+
+    await engine.evaluate(SUBJECT);
+    await engine.evaluate(SUBJECT);
+
+    expect(flaky.check).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('still evaluates when the cache is unreachable', async () => {
+    (database.getRedis as jest.Mock).mockImplementation(() => { throw new Error('Redis down'); });
+    engine.registerProvider(provider('attestations', ['kyc', 'aml', 'sanctions', 'identity'], 'pass', true));
+
+    await expect(engine.evaluate(SUBJECT)).resolves.toMatchObject({ allPassed: true });
+  });
+});
@@ -0,0 +1,143 @@
+// =====================================
+// backend/tests/privacy-pools/compliance-providers.test.ts
+// =====================================
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AttestationComplianceProvider,
+  ComplianceSubject,
+  DIDIdentityProvider,
+  SanctionsListProvider,
+  subjectAddresses
+} from '../../src/privacy-pools/compliance-providers';
+import { didResolver } from '../../src/toip/did-resolver';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/toip/did-resolver', () => ({
+  didResolver: { resolve: jest.fn(), getSupportedMethods: jest.fn() }
+}));
+
+const LISTED = '0x8589427373D6D84E98730D7795D8f6f8731FDA16';
+const CLEAN = '0x1111111111111111111111111111111111111111';
+
+function subject(overrides: Partial<ComplianceSubject> = {}, requirements: Record<string, boolean> = {}): ComplianceSubject {
+  return {
+    userId: 'user-1',
+    did: 'did:bgin:participant:user-1',
+    node: {
+      aspEligibility: {
+        requirements: { kycStatus: true, regulatoryCompliance: true, noSanctions: true, identityVerification: false, ...requirements }
+      }
+    } as any,
+    ...overrides
+  };
+}
+
+describe('subjectAddresses', () => {
+  it('collects the deposit address and did:pkh / did:ethr accounts, lower-cased and deduplicated', () => {
+    expect(subjectAddresses(subject({ address: LISTED, did: `did:pkh:eip155:1:${LISTED}` }))).toEqual([LISTED.toLowerCase()]);
+    expect(subjectAddresses(subject({ did: `did:ethr:${CLEAN}` }))).toEqual([CLEAN]);
+    expect(subjectAddresses(subject({ did: 'did:web:example.org' }))).toEqual([]);
+  });
+});
+
+describe('AttestationComplianceProvider', () => {
+  it('passes or fails each check from the trust node flags', async () => {
+    const provider = new AttestationComplianceProvider();
+
+    await expect(provider.check('kyc', subject())).resolves.toMatchObject({ status: 'pass' });
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({
+      status: 'fail', reason: 'identityVerification not attested on trust node'
+    });
+  });
+});
+
+describe('SanctionsListProvider', () => {
+  let directory: string;
+  let listPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sanctions-'));
+    listPath = path.join(directory, 'sdn.csv');
+    await fs.writeFile(listPath, [
+      `36,"TORNADO CASH","-0- ","CYBER2","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","Digital Currency Address - ETH ${LISTED}; Digital Currency Address - XBT 1BadAddr, more"`,
+      '37,"EXAMPLE, LTD.","-0- ","SDGT","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","Website example.org"',
+      ''
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('fails a subject whose address is listed, naming the entity and program', async () => {
+    const result = await new SanctionsListProvider(listPath).check('sanctions', subject({ address: LISTED.toLowerCase() }));
+
+    expect(result.status).toBe('fail');
+    expect(result.reason).toContain('(TORNADO CASH)');
+    expect(result.evidence[0]).toMatchObject({ type: 'list-match', source: 'sdn.csv', data: { currency: 'ETH', program: 'CYBER2' } });
+  });
+
+  it('passes an unlisted address and records what was screened', async () => {
+    const result = await new SanctionsListProvider(listPath).check('sanctions', subject({ address: CLEAN }));
+
+    expect(result.status).toBe('pass');
+    expect(result.reason).toBe('No match among 2 listed addresses');
+    expect(result.evidence[0].data).toEqual({ addresses: [CLEAN] });
+  });
+
+  it('fails closed when there is no address to screen', async () => {
+    const result = await new SanctionsListProvider(listPath).check('sanctions', subject());
+
+    expect(result).toEqual({ status: 'fail', reason: 'No on-chain address to screen against the sanctions list', evidence: [] });
+  });
+
+  it('reloads the list when the file changes', async () => {
+    const provider = new SanctionsListProvider(listPath);
+    const before = await provider.version();
+
+    await fs.writeFile(listPath, `address\n${CLEAN}\n`);
+    await fs.utimes(listPath, new Date(), new Date(Date.now() + 5000));
+
+    expect(await provider.version()).not.toBe(before);
+    await expect(provider.check('sanctions', subject({ address: CLEAN }))).resolves.toMatchObject({ status: 'fail' });
+  });
+});
+
+describe('DIDIdentityProvider', () => {
+  const resolve = didResolver.resolve as jest.Mock;
+  const provider = new DIDIdentityProvider();
+
+  function resolution(didDocument: any, metadata: Record<string, any> = {}, documentMetadata: Record<string, any> = {}) {
+    return { didDocument, didResolutionMetadata: metadata, didDocumentMetadata: documentMetadata };
+  }
+
+  it('passes an active DID with an authentication key', async () => {
+    resolve.mockResolvedValue(resolution({ id: 'did:bgin:x', authentication: ['did:bgin:x#key-1'] }));
+
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'pass' });
+  });
+
+  it('fails deactivated, keyless and unresolvable DIDs', async () => {
+    resolve.mockResolvedValueOnce(resolution({ id: 'did:bgin:x', authentication: ['k'] }, {}, { deactivated: true }));
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'fail', reason: 'DID is deactivated' });
+
+    resolve.mockResolvedValueOnce(resolution({ id: 'did:bgin:x', authentication: [] }));
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'fail', reason: 'DID document has no authentication key' });
+
+    resolve.mockResolvedValueOnce(resolution(null, { error: 'notFound', errorMessage: 'DID not found' }));
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'fail', reason: 'DID not found' });
+  });
+
+  it('skips unsupported methods and errors on resolver failures', async () => {
+    resolve.mockResolvedValueOnce(resolution(null, { error: 'methodNotSupported' }));
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'unavailable' });
+
+    resolve.mockResolvedValueOnce(resolution(null, { error: 'internalError', errorMessage: 'timeout' }));
+    await expect(provider.check('identity', subject())).resolves.toMatchObject({ status: 'error', reason: 'timeout' });
+  });
+});
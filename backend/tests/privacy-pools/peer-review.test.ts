@@ -0,0 +1,165 @@
+// =====================================
+// backend/tests/privacy-pools/peer-review.test.ts
+// =====================================
+
+import { PeerReviewManager, MIN_REVIEWS } from '../../src/privacy-pools/peer-review';
+import { bginASPManager, ResearchContribution, TrustNetworkNode, TrustRelationship } from '../../src/privacy-pools/asp-manager';
+import { aspRepository } from '../../src/privacy-pools/asp-repository';
+import { logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/privacy-pools/asp-repository', () => ({
+  aspRepository: { saveReviews: jest.fn(), getReviews: jest.fn() }
+}));
+jest.mock('../../src/privacy-pools/asp-manager', () => ({
+  bginASPManager: {
+    getTrustNetworkNode: jest.fn(),
+    getTrustNetworkNodes: jest.fn(),
+    findContribution: jest.fn(),
+    getUserTrustScore: jest.fn(),
+    completeContributionReview: jest.fn()
+  }
+}));
+
+const manager = bginASPManager as jest.Mocked<typeof bginASPManager>;
+
+const SUBMITTED_AT = new Date('2026-01-10T00:00:00Z');
+const SCORES = { methodology: 4, evidence: 4, originality: 3, clarity: 5, relevance: 4 };
+
+let nodes: Map<string, TrustNetworkNode>;
+let contribution: ResearchContribution;
+
+function node(userId: string, reputationScore: number): TrustNetworkNode {
+  return { userId, did: `did:bgin:${userId}`, reputationScore, researchContributions: [], trustRelationships: [] } as unknown as TrustNetworkNode;
+}
+
+function trust(fromUserId: string, toUserId: string, createdAt: Date): void {
+  const relationship: TrustRelationship = {
+    fromUserId, toUserId, trustScore: 0.8, relationshipType: 'collaboration', evidence: [], createdAt, lastUpdated: createdAt
+  };
+  nodes.get(toUserId)!.trustRelationships.push(relationship);
+}
+
+function setMembers(...members: TrustNetworkNode[]): void {
+  nodes = new Map(members.map(member => [member.userId, member]));
+}
+
+describe('PeerReviewManager', () => {
+  let reviews: PeerReviewManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setMembers(node('author', 0.5), node('r1', 0.9), node('r2', 0.8), node('r3', 0.7), node('r4', 0.6));
+    contribution = {
+      id: 'c1', contributorId: 'author', contributionType: 'analysis', reviewStatus: 'pending_review', timestamp: SUBMITTED_AT
+    } as ResearchContribution;
+
+    manager.getTrustNetworkNode.mockImplementation(userId => nodes.get(userId));
+    manager.getTrustNetworkNodes.mockImplementation(() => Array.from(nodes.values()));
+    manager.findContribution.mockImplementation(id => (id === contribution.id ? contribution : undefined));
+    manager.getUserTrustScore.mockReturnValue(0.5);
+    manager.completeContributionReview.mockImplementation(async () => {
+      if (contribution.reviewStatus !== 'pending_review') return undefined;
+      contribution = { ...contribution, reviewStatus: 'accepted' };
+      return contribution;
+    });
+
+    reviews = new PeerReviewManager();
+  });
+
+  describe('findConflicts', () => {
+    it('flags the contributor and relationships in either direction', () => {
+      trust('r1', 'author', new Date('2026-01-01'));
+      trust('author', 'r2', new Date('2026-01-01'));
+
+      expect(reviews.findConflicts('author', 'author')[0].reason).toBe('self');
+      expect(reviews.findConflicts('r1', 'author', SUBMITTED_AT)[0]).toMatchObject({ direction: 'reviewer-to-contributor' });
+      expect(reviews.findConflicts('r2', 'author', SUBMITTED_AT)[0]).toMatchObject({ direction: 'contributor-to-reviewer' });
+      expect(reviews.findConflicts('r3', 'author', SUBMITTED_AT)).toEqual([]);
+    });
+
+    it('ignores relationships created after the submission', () => {
+      trust('author', 'r1', new Date('2026-01-11'));
+
+      expect(reviews.findConflicts('r1', 'author', SUBMITTED_AT)).toEqual([]);
+      expect(reviews.findConflicts('r1', 'author')).toHaveLength(1);
+    });
+  });
+
+  describe('assignReviewers', () => {
+    it('prefers the least loaded reviewers over the most reputable', async () => {
+      const other = { ...contribution, id: 'c0' };
+      manager.findContribution.mockImplementation(id => (id === 'c0' ? other : id === contribution.id ? contribution : undefined));
+      await reviews.assignReviewers('c0', { reviewerIds: ['r1', 'r2'] });
+
+      const assignments = await reviews.assignReviewers('c1');
+
+      expect(assignments.map(review => review.reviewerId)).toEqual(['r3', 'r4', 'r1']);
+    });
+
+    it('skips reviewers conflicted before the submission but not after', async () => {
+      trust('author', 'r1', new Date('2026-01-01'));
+      trust('author', 'r2', new Date('2026-02-01'));
+
+      const assignments = await reviews.assignReviewers('c1');
+
+      expect(assignments.map(review => review.reviewerId)).toEqual(['r2', 'r3', 'r4']);
+    });
+
+    it(`fails without storing anything when fewer than ${MIN_REVIEWS} reviewers are available`, async () => {
+      setMembers(node('author', 0.5), node('r1', 0.9));
+
+      await expect(reviews.assignReviewers('c1')).rejects.toThrow('Not enough reviewers');
+      expect(aspRepository.saveReviews).not.toHaveBeenCalled();
+      expect(reviews.getReviewsForContribution('c1')).toEqual([]);
+    });
+  });
+
+  describe('completion', () => {
+    it('completes with a weighted summary once enough reviews are in', async () => {
+      const [first, second] = await reviews.assignReviewers('c1', { reviewerIds: ['r1', 'r2'] });
+
+      const pending = await reviews.submitReview(first.id, { scores: SCORES, recommendation: 'accept' });
+      const done = await reviews.submitReview(second.id, { scores: SCORES, recommendation: 'reject' });
+
+      expect(pending.summary).toBeUndefined();
+      expect(done.summary).toMatchObject({ recommendationScore: 0.5, accepted: true });
+      expect(done.summary!.qualityScore).toBeCloseTo(0.3 * 0.75 + 0.25 * 0.75 + 0.2 * 0.5 + 0.15 + 0.1 * 0.75);
+    });
+
+    it('returns no summary when a concurrent submission already completed the review', async () => {
+      const [first, second] = await reviews.assignReviewers('c1', { reviewerIds: ['r1', 'r2'] });
+      manager.completeContributionReview.mockResolvedValueOnce(undefined);
+
+      await reviews.submitReview(first.id, { scores: SCORES, recommendation: 'accept' });
+      const result = await reviews.submitReview(second.id, { scores: SCORES, recommendation: 'accept' });
+
+      expect(manager.completeContributionReview).toHaveBeenCalledTimes(1);
+      expect(result.review.status).toBe('submitted');
+      expect(result.summary).toBeUndefined();
+    });
+
+    it('escalates when a decline leaves too few reviewers and nobody can replace them', async () => {
+      setMembers(node('author', 0.5), node('r1', 0.9), node('r2', 0.8));
+      const [first] = await reviews.assignReviewers('c1');
+
+      const result = await reviews.declineReview(first.id, 'Out of office');
+
+      expect(result.replacement).toBeUndefined();
+      expect(result.summary).toBeUndefined();
+      expect(reviews.getContributionsAwaitingReviewers()).toEqual([{ contributionId: 'c1', activeReviews: 1 }]);
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('an admin must assign reviewers'));
+    });
+
+    it('assigns a replacement when one is available', async () => {
+      const assignments = await reviews.assignReviewers('c1');
+
+      const result = await reviews.declineReview(assignments[0].id, 'Conflict', true);
+
+      expect(result.replacement!.reviewerId).toBe('r4');
+      expect(reviews.getContributionsAwaitingReviewers()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// =====================================
+// backend/tests/privacy-pools/pool-ledger.test.ts
+// =====================================
+
+import { MockPoolLedger } from '../../src/privacy-pools/pool-ledger';
+import { computeCommitment, generateDepositSecrets } from '../../src/privacy-pools/commitments';
+
+const DEPOSITOR = '0x00000000000000000000000000000000000000aa';
+const RECIPIENT = '0x00000000000000000000000000000000000000bb';
+
+describe('MockPoolLedger', () => {
+  let ledger: MockPoolLedger;
+
+  beforeEach(() => {
+    ledger = new MockPoolLedger();
+  });
+
+  async function deposit(amount: string = '1000') {
+    const secrets = generateDepositSecrets();
+    const receipt = await ledger.deposit({ from: DEPOSITOR, assetType: 'ETH', amount, precommitment: secrets.precommitment });
+    return { secrets, receipt };
+  }
+
+  it('derives the commitment from the amount, pool label and precommitment', async () => {
+    const { secrets, receipt } = await deposit();
+
+    expect(receipt.commitment).toBe(computeCommitment('1000', receipt.label, secrets.precommitment));
+    expect(await ledger.hasCommitment(receipt.commitment)).toBe(true);
+    expect(await ledger.getPoolBalance('ETH')).toBe('1000');
+    expect(await ledger.getBlockNumber()).toBe(1);
+  });
+
+  it('gives every deposit a fresh label, so equal precommitments do not collide', async () => {
+    const { precommitment } = generateDepositSecrets();
+    const first = await ledger.deposit({ from: DEPOSITOR, assetType: 'ETH', amount: '5', precommitment });
+    const second = await ledger.deposit({ from: DEPOSITOR, assetType: 'ETH', amount: '5', precommitment });
+
+    expect(second.label).not.toBe(first.label);
+    expect(second.commitment).not.toBe(first.commitment);
+  });
+
+  it('rejects amounts that are not positive integers', async () => {
+    for (const amount of ['0', '-1', '1.5', 'abc']) {
+      await expect(deposit(amount)).rejects.toThrow('Amount must be a positive integer in base units');
+    }
+  });
+
+  it('pays out a withdrawal once and spends its nullifier', async () => {
+    const { secrets, receipt } = await deposit();
+    const params = { to: RECIPIENT, assetType: 'ETH', amount: '1000', commitment: receipt.commitment, nullifierHash: secrets.nullifierHash };
+
+    const withdrawal = await ledger.withdraw(params);
+
+    expect(withdrawal.type).toBe('withdrawal');
+    expect(await ledger.isSpent(secrets.nullifierHash)).toBe(true);
+    expect(await ledger.getPoolBalance('ETH')).toBe('0');
+    expect(await ledger.getBalance(RECIPIENT.toUpperCase(), 'ETH')).toBe('1000');
+    await expect(ledger.withdraw(params)).rejects.toThrow('Nullifier already spent');
+  });
+
+  it('returns funds to the depositor on ragequit', async () => {
+    const { secrets, receipt } = await deposit();
+    await ledger.ragequit({ to: DEPOSITOR, assetType: 'ETH', amount: '1000', commitment: receipt.commitment, nullifierHash: secrets.nullifierHash });
+
+    expect(await ledger.getBalance(DEPOSITOR, 'ETH')).toBe('1000');
+    expect(await ledger.getPoolBalance('ETH')).toBe('0');
+  });
+
+  it('refuses unknown commitments', async () => {
+    const { secrets } = await deposit('100');
+
+    await expect(ledger.withdraw({ to: RECIPIENT, assetType: 'ETH', amount: '100', commitment: '0x01', nullifierHash: secrets.nullifierHash }))
+      .rejects.toThrow('Unknown commitment');
+  });
+
+  it('pays out only the asset and amount the commitment was deposited with', async () => {
+    const { secrets, receipt } = await deposit('1000');
+    await ledger.deposit({ from: DEPOSITOR, assetType: 'DAI', amount: '5000', precommitment: generateDepositSecrets().precommitment });
+    const payout = { to: RECIPIENT, commitment: receipt.commitment, nullifierHash: secrets.nullifierHash };
+
+    await expect(ledger.withdraw({ ...payout, assetType: 'ETH', amount: '400' })).rejects.toThrow('Asset or amount does not match the deposit');
+    await expect(ledger.withdraw({ ...payout, assetType: 'ETH', amount: '1001' })).rejects.toThrow('Asset or amount does not match the deposit');
+    await expect(ledger.withdraw({ ...payout, assetType: 'DAI', amount: '1000' })).rejects.toThrow('Asset or amount does not match the deposit');
+    await expect(ledger.ragequit({ ...payout, to: DEPOSITOR, assetType: 'ETH', amount: '1' })).rejects.toThrow('Asset or amount does not match the deposit');
+
+    expect(await ledger.isSpent(secrets.nullifierHash)).toBe(false);
+    expect(await ledger.getPoolBalance('ETH')).toBe('1000');
+    expect(await ledger.getPoolBalance('DAI')).toBe('5000');
+  });
+
+  it('rebuilds the same state from its receipts', async () => {
+    const first = await deposit('700');
+    const second = await deposit('300');
+    const payout = await ledger.withdraw({
+      to: RECIPIENT, assetType: 'ETH', amount: '700', commitment: first.receipt.commitment, nullifierHash: first.secrets.nullifierHash
+    });
+    const receipts = [first.receipt, second.receipt, payout];
+
+    const restored = new MockPoolLedger();
+    restored.restore(receipts);
+
+    expect(await restored.getPoolBalance('ETH')).toBe('300');
+    expect(await restored.getBalance(RECIPIENT, 'ETH')).toBe('700');
+    expect(await restored.isSpent(first.secrets.nullifierHash)).toBe(true);
+    expect(await restored.getBlockNumber()).toBe(3);
+
+    // Restored commitments keep their asset and amount
+    await expect(restored.withdraw({
+      to: RECIPIENT, assetType: 'ETH', amount: '1', commitment: second.receipt.commitment, nullifierHash: second.secrets.nullifierHash
+    })).rejects.toThrow('Asset or amount does not match the deposit');
+
+    // The next deposit takes the nonce after the restored ones
+    const next = await restored.deposit({ from: DEPOSITOR, assetType: 'ETH', amount: '1', precommitment: generateDepositSecrets().precommitment });
+    expect(next.label).not.toBe(first.receipt.label);
+    expect(next.blockNumber).toBe(4);
+  });
+});
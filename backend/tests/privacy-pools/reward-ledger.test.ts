@@ -0,0 +1,113 @@
+// =====================================
+// backend/tests/privacy-pools/reward-ledger.test.ts
+// =====================================
+
+import {
+  RewardBalances,
+  RewardLedger,
+  SYSTEM_ACCOUNTS,
+  contributorAccount,
+  issuanceKey,
+  reversalKey
+} from '../../src/privacy-pools/reward-ledger';
+
+describe('RewardLedger', () => {
+  let ledger: RewardLedger;
+
+  beforeEach(() => {
+    ledger = new RewardLedger();
+  });
+
+  function issue(contributionId: string, amounts: Partial<RewardBalances>, contributorId: string = 'alice') {
+    const entry = ledger.buildIssuance({ contributorId, contributionId, amounts, description: `Reward for ${contributionId}` });
+    ledger.apply(entry);
+    return entry;
+  }
+
+  it('books each non-zero amount as a balanced pair against the system account', () => {
+    const entry = ledger.buildIssuance({
+      contributorId: 'alice',
+      contributionId: 'c1',
+      amounts: { reward_points: 10, trust_boost: 0, fee_reduction: 0.05 },
+      description: 'Reward'
+    });
+
+    expect(entry.idempotencyKey).toBe(issuanceKey('c1'));
+    expect(entry.lines).toEqual([
+      { account: SYSTEM_ACCOUNTS.reward_points, unit: 'reward_points', debit: 10, credit: 0 },
+      { account: contributorAccount('alice', 'reward_points'), unit: 'reward_points', debit: 0, credit: 10 },
+      { account: SYSTEM_ACCOUNTS.fee_reduction, unit: 'fee_reduction', debit: 0.05, credit: 0 },
+      { account: contributorAccount('alice', 'fee_reduction'), unit: 'fee_reduction', debit: 0, credit: 0.05 }
+    ]);
+  });
+
+  it('debits the contributor for negative amounts', () => {
+    issue('c1', { reward_points: 10 });
+    issue('c2', { reward_points: -4 });
+
+    expect(ledger.getBalances('alice').reward_points).toBe(6);
+  });
+
+  it('applies an entry once per idempotency key', () => {
+    const entry = issue('c1', { reward_points: 10 });
+    ledger.apply(entry);
+    ledger.apply({ ...entry, id: 'another-id' });
+
+    expect(ledger.getBalances('alice').reward_points).toBe(10);
+    expect(ledger.findByIdempotencyKey(issuanceKey('c1'))).toBe(entry);
+  });
+
+  it('keeps fractional amounts exact and the trial balance at zero', () => {
+    for (let i = 0; i < 10; i++) {
+      issue(`c${i}`, { trust_boost: 0.1, fee_reduction: 0.01 });
+    }
+
+    expect(ledger.getBalances('alice')).toEqual({ reward_points: 0, trust_boost: 1, fee_reduction: 0.1 });
+    expect(ledger.getTrialBalance()).toEqual({ reward_points: 0, trust_boost: 0, fee_reduction: 0 });
+  });
+
+  it('reverses an entry by swapping its debits and credits', () => {
+    const entry = issue('c1', { reward_points: 10, trust_boost: 0.2 });
+    const reversal = ledger.buildReversal(entry, 'duplicate submission', 'admin-1');
+    ledger.apply(reversal);
+
+    expect(reversal).toMatchObject({ kind: 'reversal', reversesEntryId: entry.id, idempotencyKey: reversalKey(entry.id), description: 'Reversal: duplicate submission' });
+    expect(ledger.getReversal(entry.id)).toBe(reversal);
+    expect(ledger.getBalances('alice')).toEqual({ reward_points: 0, trust_boost: 0, fee_reduction: 0 });
+    expect(ledger.getTrialBalance()).toEqual({ reward_points: 0, trust_boost: 0, fee_reduction: 0 });
+  });
+
+  it('refuses to reverse a reversal or reverse an entry twice', () => {
+    const entry = issue('c1', { reward_points: 10 });
+    const reversal = ledger.buildReversal(entry, 'mistake');
+    ledger.apply(reversal);
+
+    expect(() => ledger.buildReversal(reversal, 'again')).toThrow('A reversal cannot itself be reversed');
+    expect(() => ledger.buildReversal(entry, 'again')).toThrow(`Entry ${entry.id} has already been reversed`);
+  });
+
+  it('lists a contributor\'s entries newest first with running balances', () => {
+    issue('c1', { reward_points: 10 });
+    issue('c2', { reward_points: 5 }, 'bob');
+    const second = issue('c3', { reward_points: 3, trust_boost: 0.1 });
+
+    const statement = ledger.getStatement('alice');
+
+    expect(statement.total).toBe(2);
+    expect(statement.balances).toEqual({ reward_points: 13, trust_boost: 0.1, fee_reduction: 0 });
+    expect(statement.entries.map(line => line.entryId)).toEqual([second.id, ledger.findByIdempotencyKey(issuanceKey('c1'))!.id]);
+    expect(statement.entries[0].changes).toEqual({ reward_points: 3, trust_boost: 0.1 });
+    expect(statement.entries[1].balances.reward_points).toBe(10);
+
+    expect(ledger.getStatement('alice', 1, 1).entries.map(line => line.contributionId)).toEqual(['c1']);
+  });
+
+  it('rebuilds balances from persisted entries', () => {
+    const entries = [issue('c1', { reward_points: 10 }), issue('c2', { trust_boost: 0.3 })];
+    const restored = new RewardLedger();
+    restored.restore(entries);
+
+    expect(restored.getBalances('alice')).toEqual(ledger.getBalances('alice'));
+    expect(restored.getEntry(entries[1].id)).toBe(entries[1]);
+  });
+});
@@ -0,0 +1,153 @@
+// =====================================
+// backend/tests/services/auth-service.test.ts
+// =====================================
+
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthUser } from '../../src/services/auth-service';
+import { database } from '../../src/utils/database';
+
+jest.mock('../../src/utils/config', () => ({
+  config: {
+    jwtSecret: 'test-secret-that-is-long-enough-for-hs256',
+    jwtAccessTokenTtl: 900,
+    jwtRefreshTokenTtl: 3600,
+    anonymizationSalt: 'test-salt'
+  }
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/utils/database', () => ({
+  database: { query: jest.fn(), getRedis: jest.fn() }
+}));
+
+const query = database.query as jest.Mock;
+
+/**
+ * Just enough of participant_profiles and revoked_tokens for the service
+ */
+function fakeDatabase() {
+  const participants = new Map<string, any>();
+  const revoked = new Set<string>();
+
+  query.mockImplementation(async (text: string, params: any[] = []) => {
+    if (text.includes('INSERT INTO revoked_tokens')) {
+      if (revoked.has(params[0])) return { rows: [], rowCount: 0 };
+      revoked.add(params[0]);
+      return { rows: [{ jti: params[0] }], rowCount: 1 };
+    }
+    if (text.includes('FROM revoked_tokens')) {
+      return { rows: revoked.has(params[0]) ? [{}] : [], rowCount: revoked.has(params[0]) ? 1 : 0 };
+    }
+    if (text.includes('INSERT INTO participant_profiles')) {
+      if (participants.has(params[0])) return { rows: [], rowCount: 0 };
+      const row = { participant_hash: params[0], anonymous_handle: params[1], password_hash: params[2], did: null, role: 'participant', chaired_working_groups: null };
+      participants.set(params[0], row);
+      return { rows: [row], rowCount: 1 };
+    }
+    if (text.includes('FROM participant_profiles')) {
+      const row = participants.get(params[0]);
+      return { rows: row ? [row] : [], rowCount: row ? 1 : 0 };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+  (database.getRedis as jest.Mock).mockImplementation(() => {
+    throw new Error('Redis unavailable');
+  });
+
+  return { participants, revoked };
+}
+
+describe('AuthService', () => {
+  const service = new AuthService();
+  let db: ReturnType<typeof fakeDatabase>;
+  let user: AuthUser;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db = fakeDatabase();
+    user = { id: service.hashEmail('ada@example.org'), email: 'ada@example.org', name: 'Ada', role: 'participant', workingGroups: [] };
+    db.participants.set(user.id, { participant_hash: user.id, anonymous_handle: 'Ada', password_hash: null, did: null, role: 'participant', chaired_working_groups: null });
+  });
+
+  describe('identifiers', () => {
+    it('hashes normalized emails and keeps email and DID hashes apart', () => {
+      expect(service.hashEmail(' Ada@Example.org ')).toBe(service.hashEmail('ada@example.org'));
+      expect(service.hashDID('ada@example.org')).not.toBe(service.hashEmail('ada@example.org'));
+    });
+  });
+
+  describe('registration', () => {
+    it('stores a bcrypt hash and authenticates with the password', async () => {
+      const registered = await service.register('grace@example.org', 'correct horse', 'Grace');
+
+      const row = db.participants.get(registered.id);
+      expect(row.password_hash).toMatch(/^\$2[aby]\$12\$/);
+      await expect(service.authenticate('grace@example.org', 'correct horse')).resolves.toMatchObject({ id: registered.id });
+      await expect(service.authenticate('grace@example.org', 'wrong password')).resolves.toBeNull();
+      await expect(service.authenticate('nobody@example.org', 'correct horse')).resolves.toBeNull();
+    });
+
+    it('rejects invalid emails, short passwords and duplicates', async () => {
+      await expect(service.register('not-an-email', 'long enough', 'X')).rejects.toThrow('valid email');
+      await expect(service.register('x@example.org', 'short', 'X')).rejects.toThrow('at least 8');
+      await expect(service.register('ada@example.org', 'long enough', 'Ada')).rejects.toThrow('already exists');
+    });
+  });
+
+  describe('tokens', () => {
+    it('issues access and refresh tokens that only verify as their own type', async () => {
+      const tokens = service.issueTokens(user);
+
+      await expect(service.verifyToken(tokens.accessToken, 'access')).resolves.toMatchObject({ sub: user.id, type: 'access' });
+      await expect(service.verifyToken(tokens.refreshToken, 'access')).rejects.toThrow('Expected access token');
+      await expect(service.verifyToken(tokens.accessToken, 'refresh')).rejects.toThrow('Expected refresh token');
+    });
+
+    it('rejects tokens signed with another key or issuer', async () => {
+      const forged = jwt.sign({ type: 'access' }, 'another-secret', { subject: user.id, issuer: 'bgin-ai', jwtid: 'j1' });
+      const foreign = jwt.sign({ type: 'access' }, 'test-secret-that-is-long-enough-for-hs256', { subject: user.id, issuer: 'elsewhere', jwtid: 'j2' });
+
+      await expect(service.verifyToken(forged, 'access')).rejects.toThrow('invalid signature');
+      await expect(service.verifyToken(foreign, 'access')).rejects.toThrow('jwt issuer invalid');
+    });
+
+    it('rejects revoked tokens, and revokes each token once', async () => {
+      const { accessToken } = service.issueTokens(user);
+      const payload = await service.verifyToken(accessToken, 'access');
+
+      await expect(service.revokeToken(payload)).resolves.toBe(true);
+      await expect(service.revokeToken(payload)).resolves.toBe(false);
+      await expect(service.verifyToken(accessToken, 'access')).rejects.toThrow('revoked');
+    });
+  });
+
+  describe('refresh', () => {
+    it('rotates the refresh token and re-reads the role', async () => {
+      const { refreshToken } = service.issueTokens(user);
+      db.participants.get(user.id).role = 'admin';
+
+      const { user: refreshed, tokens } = await service.refresh(refreshToken);
+
+      expect(refreshed.role).toBe('admin');
+      await expect(service.verifyToken(tokens.accessToken, 'access')).resolves.toMatchObject({ role: 'admin' });
+      await expect(service.refresh(refreshToken)).rejects.toThrow('revoked');
+    });
+
+    it('lets only one of two concurrent refreshes with the same token succeed', async () => {
+      const { refreshToken } = service.issueTokens(user);
+
+      const results = await Promise.allSettled([service.refresh(refreshToken), service.refresh(refreshToken)]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason.message).toBe('Token has been revoked');
+    });
+
+    it('refuses refresh for deleted accounts', async () => {
+      const { refreshToken } = service.issueTokens(user);
+      db.participants.delete(user.id);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow('Account no longer exists');
+    });
+  });
+});
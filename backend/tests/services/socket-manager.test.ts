@@ -0,0 +1,135 @@
+// =====================================
+// backend/tests/services/socket-manager.test.ts
+// =====================================
+
+import { SocketManager } from '../../src/services/socket-manager';
+import { authService } from '../../src/services/auth-service';
+import { trustService } from '../../src/services/trust-service';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/services/auth-service', () => ({
+  authService: { verifyToken: jest.fn() }
+}));
+jest.mock('../../src/services/trust-service', () => ({
+  trustService: { getReputationScore: jest.fn() }
+}));
+
+type Handler = (...args: any[]) => any;
+
+function fakeSocket(auth: Record<string, unknown> = { token: 'access-token' }) {
+  const handlers = new Map<string, Handler>();
+  return {
+    id: 'socket-1',
+    handshake: { auth, headers: {} as Record<string, string> },
+    data: {} as Record<string, any>,
+    handlers,
+    on: jest.fn((event: string, handler: Handler) => handlers.set(event, handler)),
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn()
+  };
+}
+
+function fakeServer() {
+  const room = { emit: jest.fn(), to: jest.fn() };
+  room.to.mockReturnValue(room);
+  return {
+    room,
+    middleware: undefined as Handler | undefined,
+    connection: undefined as Handler | undefined,
+    use(handler: Handler) { this.middleware = handler; },
+    on(_event: string, handler: Handler) { this.connection = handler; },
+    to: jest.fn(() => room),
+    emit: jest.fn()
+  };
+}
+
+async function connect(server: ReturnType<typeof fakeServer>, socket: ReturnType<typeof fakeSocket>): Promise<Error | undefined> {
+  const error = await new Promise<Error | undefined>(resolve => server.middleware!(socket, resolve));
+  if (!error) server.connection!(socket);
+  return error;
+}
+
+describe('SocketManager', () => {
+  const coordinator = { processRequest: jest.fn(), getAllAgentStatuses: jest.fn() };
+  let server: ReturnType<typeof fakeServer>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authService.verifyToken as jest.Mock).mockResolvedValue({
+      sub: 'participant-1', name: 'Ada', role: 'participant', workingGroups: ['wg-identity']
+    });
+    (trustService.getReputationScore as jest.Mock).mockResolvedValue(0.42);
+    coordinator.processRequest.mockResolvedValue({ success: true, data: {} });
+
+    server = fakeServer();
+    new SocketManager(server as any, coordinator as any);
+  });
+
+  it('rejects handshakes without a valid access token', async () => {
+    await expect(connect(server, fakeSocket({}))).resolves.toEqual(new Error('Authentication required'));
+
+    (authService.verifyToken as jest.Mock).mockRejectedValue(new Error('Invalid token'));
+    await expect(connect(server, fakeSocket())).resolves.toEqual(new Error('Authentication required'));
+  });
+
+  it('replaces the client-supplied user context with the authenticated one', async () => {
+    const socket = fakeSocket();
+    await connect(server, socket);
+
+    await socket.handlers.get('agent:request')!({
+      type: 'archive',
+      sessionId: 'session-a',
+      payload: {
+        query: 'custody rules',
+        userContext: { participantHash: 'someone-else', trustScore: 1, privacyLevel: 'maximum', accessRights: ['admin'] }
+      }
+    });
+
+    const [request] = coordinator.processRequest.mock.calls[0];
+    expect(request.payload.query).toBe('custody rules');
+    expect(request.payload.userContext).toEqual({
+      participantHash: 'participant-1',
+      sessionId: 'session-a',
+      privacyLevel: 'selective',
+      trustScore: 0.42,
+      accessRights: ['working-group:wg-identity']
+    });
+    expect(socket.emit).toHaveBeenCalledWith('agent:response', { success: true, data: {} });
+  });
+
+  it('derives the privacy level from the role', async () => {
+    (authService.verifyToken as jest.Mock).mockResolvedValue({ sub: 'admin-1', name: 'Root', role: 'admin' });
+    const socket = fakeSocket();
+    await connect(server, socket);
+
+    await socket.handlers.get('agent:request')!({ type: 'archive', payload: { query: 'q' } });
+
+    expect(coordinator.processRequest.mock.calls[0][0].payload.userContext).toMatchObject({
+      participantHash: 'admin-1', privacyLevel: 'maximum', accessRights: []
+    });
+  });
+
+  it('streams results to the requesting socket only', async () => {
+    coordinator.processRequest.mockImplementation(async (_request, onEvent) => {
+      onEvent({ type: 'sources', sources: [{ id: 'doc-1' }] });
+      onEvent({ type: 'chunk', content: 'Hello' });
+      return { success: true, data: { metadata: { model: 'm' } }, processingTime: 5 };
+    });
+    const socket = fakeSocket();
+    await connect(server, socket);
+    socket.handlers.get('collaboration:join')!('session-a');
+
+    await socket.handlers.get('agent:request')!({
+      type: 'archive', sessionId: 'session-a', payload: { query: 'q', stream: true }, metadata: { requestId: 'r1' }
+    });
+
+    const events = socket.emit.mock.calls.map(([event]) => event);
+    expect(events).toEqual(['agent:sources', 'agent:chunk', 'agent:complete', 'agent:response']);
+    expect(socket.emit).toHaveBeenCalledWith('agent:chunk', { requestId: 'r1', agentType: 'archive', content: 'Hello' });
+    expect(server.to).not.toHaveBeenCalled();
+    expect(server.room.emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+// =====================================
+// backend/tests/services/trust-export.test.ts
+// =====================================
+
+import { TrustExportService } from '../../src/services/trust-export';
+import { bginASPManager } from '../../src/privacy-pools/asp-manager';
+import { agentDIDManager } from '../../src/toip/agent-did-manager';
+import { trustService } from '../../src/services/trust-service';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { publicUrl: 'https://bgin.example.org' }
+}));
+jest.mock('../../src/privacy-pools/asp-manager', () => ({
+  bginASPManager: { getTrustRanking: jest.fn(), getTrustNetworkNodes: jest.fn() }
+}));
+jest.mock('../../src/toip/agent-did-manager', () => ({
+  agentDIDManager: { getTrustRanking: jest.fn(), getAllAgents: jest.fn(), getAgentReputation: jest.fn(), getAllTrustRelationships: jest.fn() }
+}));
+jest.mock('../../src/services/trust-service', () => ({
+  trustService: { anonymize: jest.fn(), listRelationships: jest.fn(), getRanking: jest.fn() }
+}));
+
+const ARCHIVE_AGENT = 'did:bgin:agent:archive:1';
+const CODEX_AGENT = 'did:bgin:agent:codex:1';
+const UPDATED = new Date('2026-03-14T15:09:26Z');
+
+describe('TrustExportService', () => {
+  let service: TrustExportService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (bginASPManager.getTrustRanking as jest.Mock).mockReturnValue({ scores: new Map([['alice', 1], ['bob', 0.43]]) });
+    (bginASPManager.getTrustNetworkNodes as jest.Mock).mockReturnValue([
+      { userId: 'alice', did: 'did:bgin:participant:alice', reputationScore: 0.87, trustRelationships: [] },
+      {
+        userId: 'bob', did: 'did:bgin:participant:bob', reputationScore: 0.62,
+        trustRelationships: [{ fromUserId: 'alice', relationshipType: 'endorsement', trustScore: 0.74, evidence: [{}, {}], lastUpdated: UPDATED }]
+      }
+    ]);
+    (agentDIDManager.getTrustRanking as jest.Mock).mockReturnValue({ scores: new Map([[ARCHIVE_AGENT, 1]]) });
+    (agentDIDManager.getAllAgents as jest.Mock).mockReturnValue([{ did: ARCHIVE_AGENT }, { did: CODEX_AGENT }]);
+    (agentDIDManager.getAgentReputation as jest.Mock).mockImplementation(did => did === ARCHIVE_AGENT ? { overallScore: 0.91 } : undefined);
+    (agentDIDManager.getAllTrustRelationships as jest.Mock).mockReturnValue([
+      { id: 'rel-1', fromAgent: ARCHIVE_AGENT, toAgent: CODEX_AGENT, relationshipType: 'delegation', trustScore: 0.66, evidence: [], lastUpdated: UPDATED }
+    ]);
+    (trustService.anonymize as jest.Mock).mockImplementation(hash => `anon_${hash}`);
+    (trustService.listRelationships as jest.Mock).mockResolvedValue([
+      {
+        id: 'collab-1', participantA: 'alice', participantB: 'carol', relationshipType: 'collaboration', strength: 0.58,
+        totalInteractions: 3, contextDomain: 'wg-custody', lastInteraction: UPDATED, establishedAt: UPDATED
+      }
+    ]);
+    (trustService.getRanking as jest.Mock).mockResolvedValue({ scores: new Map([['alice', 1], ['carol', 0.25]]) });
+    service = new TrustExportService();
+  });
+
+  describe('buildGraph', () => {
+    it('exports raw participant identities only at the minimal level', async () => {
+      const graph = await service.buildGraph({ privacyLevel: 'minimal' });
+
+      expect(graph.nodes.find(node => node.id === 'bob')).toMatchObject({ did: 'did:bgin:participant:bob', reputation: 0.62, graphTrust: 0.43 });
+      expect(graph.edges.find(edge => edge.network === 'asp')).toMatchObject({
+        source: 'alice', target: 'bob', trustScore: 0.74, evidenceCount: 2, lastUpdated: UPDATED.toISOString()
+      });
+    });
+
+    it('uses the trust API pseudonyms at the selective level', async () => {
+      const graph = await service.buildGraph({ privacyLevel: 'selective' });
+      const participants = graph.nodes.filter(node => node.kind === 'participant');
+
+      expect(participants.map(node => node.id).sort()).toEqual(['anon_alice', 'anon_bob', 'anon_carol']);
+      expect(participants.every(node => node.did === undefined)).toBe(true);
+    });
+
+    it('keys pseudonyms per export and cuts timestamps to the day at the high level', async () => {
+      const first = await service.buildGraph({ privacyLevel: 'high' });
+      const second = await service.buildGraph({ privacyLevel: 'high' });
+      const ids = (graph: typeof first) => graph.nodes.filter(node => node.kind === 'participant').map(node => node.id);
+
+      expect(ids(first).every(id => /^anon_[0-9a-f]{16}$/.test(id))).toBe(true);
+      expect(ids(first).some(id => ids(second).includes(id))).toBe(false);
+      expect(first.edges.find(edge => edge.network === 'asp')!.lastUpdated).toBe('2026-03-14');
+      expect(trustService.anonymize).not.toHaveBeenCalled();
+    });
+
+    it('rounds scores and drops timestamps and context domains at the maximum level', async () => {
+      const graph = await service.buildGraph({ privacyLevel: 'maximum' });
+
+      expect(graph.nodes.find(node => node.id === ARCHIVE_AGENT)).toMatchObject({ reputation: 0.9, graphTrust: 1 });
+      for (const edge of graph.edges) {
+        expect(edge.lastUpdated).toBeUndefined();
+        expect(edge.contextDomain).toBeUndefined();
+        expect(edge.trustScore * 10).toBeCloseTo(Math.round(edge.trustScore * 10));
+      }
+    });
+
+    it('keeps agent DIDs and exports collaboration relationships in both directions', async () => {
+      const graph = await service.buildGraph({ privacyLevel: 'selective' });
+
+      expect(graph.nodes.find(node => node.id === CODEX_AGENT)).toMatchObject({ kind: 'agent', agentType: 'codex', graphTrust: 0 });
+      expect(graph.edges.find(edge => edge.network === 'toip')).toMatchObject({ source: ARCHIVE_AGENT, target: CODEX_AGENT });
+
+      const collaboration = graph.edges.filter(edge => edge.network === 'collaboration');
+      expect(collaboration.map(edge => [edge.source, edge.target])).toEqual([['anon_alice', 'anon_carol'], ['anon_carol', 'anon_alice']]);
+      expect(collaboration.every(edge => edge.mutual && edge.contextDomain === 'wg-custody')).toBe(true);
+      expect(graph.nodes.find(node => node.id === 'anon_carol')!.collaborationTrust).toBe(0.25);
+    });
+
+    it('limits a context-domain export to collaboration relationships in that domain', async () => {
+      const graph = await service.buildGraph({ privacyLevel: 'selective', contextDomain: 'wg-custody' });
+
+      expect(trustService.listRelationships).toHaveBeenCalledWith('wg-custody');
+      expect(trustService.getRanking).toHaveBeenCalledWith('wg-custody');
+      expect(bginASPManager.getTrustNetworkNodes).not.toHaveBeenCalled();
+      expect(graph.nodes.map(node => node.id)).toEqual(['anon_alice', 'anon_carol']);
+      expect(graph.edges.every(edge => edge.network === 'collaboration')).toBe(true);
+    });
+  });
+
+  describe('serialize', () => {
+    const graph = {
+      id: 'graph-1',
+      generatedAt: UPDATED,
+      privacyLevel: 'selective' as const,
+      nodes: [{ id: 'anon_<a&b>', kind: 'participant' as const, reputation: 0.5 }, { id: ARCHIVE_AGENT, kind: 'agent' as const }],
+      edges: [{
+        id: 'e1', source: 'anon_<a&b>', target: ARCHIVE_AGENT, network: 'asp' as const, relationshipType: 'endorsement',
+        trustScore: 0.8, evidenceCount: 1, mutual: false
+      }]
+    };
+
+    it('writes escaped GraphML with typed keys', () => {
+      const xml = service.serialize(graph, 'graphml');
+
+      expect(xml).toContain('<key id="n_reputation" for="node" attr.name="reputation" attr.type="double"/>');
+      expect(xml).toContain('<node id="anon_&lt;a&amp;b&gt;"><data key="n_kind">participant</data><data key="n_reputation">0.5</data></node>');
+      expect(xml).toContain(`<edge id="e1" source="anon_&lt;a&amp;b&gt;" target="${ARCHIVE_AGENT}">`);
+      expect(xml).not.toContain('<data key="n_did">');
+    });
+
+    it('writes GEXF with trust scores as edge weights', () => {
+      const xml = service.serialize(graph, 'gexf');
+
+      expect(xml).toContain('<attribute id="evidenceCount" title="evidenceCount" type="integer"/>');
+      expect(xml).toContain('weight="0.8"');
+      expect(xml).toContain('<meta lastmodifieddate="2026-03-14">');
+    });
+
+    it('writes JSON-LD with DIDs and participant URNs as node identifiers', () => {
+      const document = JSON.parse(service.serialize(graph, 'jsonld'));
+
+      expect(document['@context']['@vocab']).toBe('https://bgin.example.org/ns/trust#');
+      expect(document.nodes.map((node: any) => [node['@id'], node['@type']])).toEqual([
+        ['urn:bgin:participant:anon_<a&b>', 'Participant'],
+        [ARCHIVE_AGENT, 'Agent']
+      ]);
+      expect(document.edges[0]).toMatchObject({ '@type': 'TrustRelationship', source: 'urn:bgin:participant:anon_<a&b>', target: ARCHIVE_AGENT, trustScore: 0.8 });
+    });
+  });
+});
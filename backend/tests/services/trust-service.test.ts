@@ -0,0 +1,224 @@
+// =====================================
+// backend/tests/services/trust-service.test.ts
+// =====================================
+
+import { TrustService } from '../../src/services/trust-service';
+import { database } from '../../src/utils/database';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { anonymizationSalt: 'test-salt', trustGraph: { seeds: ['seed'], halfLifeDays: 180, restartProbability: 0.15 } }
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/utils/database', () => ({
+  database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+interface Relationship {
+  id: string;
+  participant_a_hash: string;
+  participant_b_hash: string;
+  relationship_type: string;
+  context_domain: string | null;
+  strength: string;
+  total_interactions: number;
+  verification_method: string;
+  last_interaction_at: Date;
+  updated_at: Date;
+  established_at: Date;
+}
+
+/**
+ * In-memory stand-ins for the trust tables, answering the queries the
+ * service issues by their shape
+ */
+function fakeTables() {
+  const relationships: Relationship[] = [];
+  const contributions: { id: string; participant_hash: string; quality_score: number; peer_validations: number }[] = [];
+  const verifications: { contribution_id: string; verifier_hash: string; confidence: number; verifier_weight: number }[] = [];
+  const profiles = new Map<string, number>();
+  const history: any[][] = [];
+
+  const involves = (row: Relationship, hash: string) => row.participant_a_hash === hash || row.participant_b_hash === hash;
+
+  const query = jest.fn(async (text: string, params: any[] = []): Promise<any> => {
+    if (text.includes('SELECT participant_a_hash, participant_b_hash, strength')) {
+      return { rows: relationships.filter(row => params[0] === null || row.context_domain === params[0]) };
+    }
+    if (text.includes('FROM trust_relationships WHERE (participant_a_hash = $1')) {
+      const matches = relationships.filter(row => involves(row, params[0]) &&
+        (params[1] === null || row.context_domain === params[1]) && (params[2] === null || row.relationship_type === params[2]));
+      return text.includes('COUNT(*)')
+        ? { rows: [{ total: matches.length }] }
+        : { rows: [...matches].sort((a, b) => parseFloat(b.strength) - parseFloat(a.strength)).slice(params[4], params[4] + params[3]) };
+    }
+    if (text.includes('SELECT COUNT(*)::int AS size FROM trust_relationships')) {
+      return { rows: [{ size: relationships.filter(row => involves(row, params[0])).length }] };
+    }
+    if (text.includes('INSERT INTO contribution_verifications')) {
+      if (verifications.some(row => row.contribution_id === params[1] && row.verifier_hash === params[2])) {
+        return { rows: [], rowCount: 0 };
+      }
+      verifications.push({ contribution_id: params[1], verifier_hash: params[2], confidence: params[4], verifier_weight: params[5] });
+      return { rows: [{ id: params[0] }], rowCount: 1 };
+    }
+    if (text.includes('UPDATE participant_contributions SET peer_validations')) {
+      contributions.find(row => row.id === params[0])!.peer_validations++;
+      return { rowCount: 1 };
+    }
+    if (text.includes('UPDATE trust_relationships')) {
+      const row = relationships.find(candidate => involves(candidate, params[0]) && involves(candidate, params[1]));
+      if (row) row.total_interactions++;
+      return { rowCount: row ? 1 : 0 };
+    }
+    if (text.includes('INSERT INTO trust_relationships')) {
+      relationships.push(relationship(params[0], params[1], 0.5, params[3]));
+      return { rowCount: 1 };
+    }
+    if (text.includes('FROM participant_contributions WHERE participant_hash')) {
+      const own = contributions.filter(row => row.participant_hash === params[0]);
+      return {
+        rows: [{
+          contribution_count: own.length,
+          quality: String(own.length ? own.reduce((sum, row) => sum + row.quality_score, 0) / own.length : 0),
+          peer_validations: own.reduce((sum, row) => sum + row.peer_validations, 0)
+        }]
+      };
+    }
+    if (text.includes('SUM(v.confidence * v.verifier_weight)')) {
+      const own = new Set(contributions.filter(row => row.participant_hash === params[0]).map(row => row.id));
+      const weighted = verifications.filter(row => own.has(row.contribution_id))
+        .reduce((sum, row) => sum + row.confidence * row.verifier_weight, 0);
+      return { rows: [{ weighted: String(weighted) }] };
+    }
+    if (text.includes('INSERT INTO participant_profiles')) {
+      profiles.set(params[0], params[1]);
+      return { rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO participant_reputation_history')) {
+      history.push(params);
+      return { rowCount: 1 };
+    }
+    if (text.includes('SELECT reputation_score FROM participant_profiles')) {
+      return { rows: profiles.has(params[0]) ? [{ reputation_score: profiles.get(params[0]) }] : [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  (database.query as jest.Mock).mockImplementation(query);
+  (database.transaction as jest.Mock).mockImplementation(async (run: any) => run({ query }));
+
+  return { relationships, contributions, verifications, profiles, history };
+}
+
+let nextId = 0;
+function relationship(a: string, b: string, strength: number, contextDomain: string | null = 'wg-identity'): Relationship {
+  const now = new Date();
+  return {
+    id: `rel-${++nextId}`, participant_a_hash: a, participant_b_hash: b, relationship_type: 'collaboration',
+    context_domain: contextDomain, strength: String(strength), total_interactions: 1, verification_method: 'peer_verification',
+    last_interaction_at: now, updated_at: now, established_at: now
+  };
+}
+
+describe('TrustService', () => {
+  let service: TrustService;
+  let tables: ReturnType<typeof fakeTables>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tables = fakeTables();
+    // seed - alice - bob are connected; sybil1 and sybil2 only vouch for each other
+    tables.relationships.push(
+      relationship('seed', 'alice', 0.9),
+      relationship('alice', 'bob', 0.8, 'wg-custody'),
+      relationship('sybil1', 'sybil2', 1)
+    );
+    tables.contributions.push(
+      { id: 'contribution-1', participant_hash: 'bob', quality_score: 0.75, peer_validations: 0 }
+    );
+    service = new TrustService();
+  });
+
+  it('pseudonymizes participants with a keyed, stable hash', () => {
+    expect(service.anonymize('alice')).toBe(service.anonymize('alice'));
+    expect(service.anonymize('alice')).toMatch(/^anon_[0-9a-f]{16}$/);
+    expect(service.anonymize('alice')).not.toBe(service.anonymize('bob'));
+    expect(service.anonymize('alice')).not.toContain('alice');
+  });
+
+  describe('getNetwork', () => {
+    it('returns pseudonymous relationships with graph trust, rank and pagination', async () => {
+      const network = await service.getNetwork('alice', { limit: 1 });
+
+      expect(network.participant).toBe(service.anonymize('alice'));
+      expect(network.relationships).toHaveLength(1);
+      expect(network.relationships[0]).toMatchObject({ participant: service.anonymize('seed'), strength: 0.9 });
+      expect(network.pagination).toEqual({ limit: 1, offset: 0, total: 2 });
+      expect(network.networkSize).toBe(2);
+      expect(network.trustScore).toBeGreaterThan(0);
+      expect(network.rank).toBeLessThanOrEqual(2);
+    });
+
+    it('filters by context domain', async () => {
+      const network = await service.getNetwork('alice', { contextDomain: 'wg-custody' });
+
+      expect(network.relationships.map(entry => entry.participant)).toEqual([service.anonymize('bob')]);
+      expect(network.contextDomain).toBe('wg-custody');
+    });
+
+    it('gives members unreachable from the seeds no trust', async () => {
+      const network = await service.getNetwork('sybil1');
+
+      expect(network.trustScore).toBe(0);
+      expect(network.networkSize).toBe(1);
+    });
+  });
+
+  describe('verifyContribution', () => {
+    const contribution = { id: 'contribution-1', participantHash: 'bob', contributionId: null, sessionId: 'wg-custody', qualityScore: 0.75 };
+
+    it('weights the verification by the verifier\'s graph trust and records reputation on a 0-1 scale', async () => {
+      const { verification, reputation } = await service.verifyContribution('alice', contribution, { verificationType: 'peer_review', confidence: 1 });
+
+      expect(verification).toMatchObject({ participant: service.anonymize('bob'), verifier: service.anonymize('alice'), status: 'verified' });
+      expect(verification.verifierWeight).toBeGreaterThan(0);
+      expect(reputation.peerValidations).toBe(1);
+      expect(reputation.weightedValidations).toBeCloseTo(verification.verifierWeight);
+      expect(reputation.reputationScore).toBeGreaterThan(0);
+      expect(reputation.reputationScore).toBeLessThanOrEqual(1);
+      expect(tables.profiles.get('bob')).toBe(reputation.reputationScore);
+      expect(tables.history).toHaveLength(1);
+      await expect(service.getReputationScore('bob')).resolves.toBe(reputation.reputationScore);
+    });
+
+    it('lets verifications by untrusted members count for nothing', async () => {
+      const { verification, reputation } = await service.verifyContribution('sybil1', contribution, { verificationType: 'peer_review', confidence: 1 });
+
+      expect(verification.verifierWeight).toBe(0);
+      expect(reputation.peerValidations).toBe(1);
+      expect(reputation.validation).toBe(0);
+    });
+
+    it('rejects self-verification and repeat verification', async () => {
+      await expect(service.verifyContribution('bob', contribution, { verificationType: 'peer_review', confidence: 1 }))
+        .rejects.toThrow('cannot verify their own contributions');
+
+      await service.verifyContribution('alice', contribution, { verificationType: 'peer_review', confidence: 1 });
+      await expect(service.verifyContribution('alice', contribution, { verificationType: 'peer_review', confidence: 1 }))
+        .rejects.toThrow('already been verified by this participant');
+      expect(tables.contributions[0].peer_validations).toBe(1);
+    });
+
+    it('creates a relationship between a verifier and contributor who had none', async () => {
+      await service.verifyContribution('seed', contribution, { verificationType: 'peer_review', confidence: 0.5 });
+
+      expect(tables.relationships.some(row => row.participant_a_hash === 'seed' && row.participant_b_hash === 'bob')).toBe(true);
+    });
+  });
+
+  it('reports no reputation for participants without a profile', async () => {
+    await expect(service.getReputationScore('nobody')).resolves.toBe(0);
+  });
+});
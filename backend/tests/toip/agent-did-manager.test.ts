@@ -0,0 +1,223 @@
+// =====================================
+// backend/tests/toip/agent-did-manager.test.ts
+// =====================================
+
+import crypto from 'crypto';
+import { AgentDIDManager, formatAuthMessage } from '../../src/toip/agent-did-manager';
+import { didKeyFromPublicKey } from '../../src/toip/did-keys';
+import { toipRepository } from '../../src/toip/toip-repository';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { publicUrl: 'https://bgin.example.org', trustGraph: { seeds: [] } }
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('../../src/utils/database', () => ({
+  database: { query: jest.fn(), transaction: jest.fn() }
+}));
+jest.mock('../../src/toip/toip-repository', () => ({
+  toipRepository: {
+    addTrustRelationship: jest.fn(),
+    createAgentDID: jest.fn(),
+    saveCredential: jest.fn(),
+    createStatusList: jest.fn(),
+    saveStatusChange: jest.fn()
+  }
+}));
+
+function holder() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    did: didKeyFromPublicKey(publicKey),
+    sign: (message: string) => crypto.sign(null, Buffer.from(message, 'utf8'), privateKey).toString('base64url')
+  };
+}
+
+describe('AgentDIDManager DID login', () => {
+  let manager: AgentDIDManager;
+
+  beforeEach(() => {
+    manager = new AgentDIDManager();
+  });
+
+  it('issues a structured message bound to the domain, DID, nonce and expiry', () => {
+    const { did } = holder();
+    const challenge = manager.createAuthChallenge(did);
+
+    expect(challenge.domain).toBe('bgin.example.org');
+    expect(challenge.expiresAt.getTime() - challenge.issuedAt.getTime()).toBe(5 * 60 * 1000);
+    expect(challenge.message).toBe([
+      'bgin.example.org wants you to sign in with your DID:',
+      did,
+      '',
+      `Nonce: ${challenge.nonce}`,
+      `Issued At: ${challenge.issuedAt.toISOString()}`,
+      `Expiration Time: ${challenge.expiresAt.toISOString()}`
+    ].join('\n'));
+    expect(formatAuthMessage(challenge)).toBe(challenge.message);
+  });
+
+  it('only accepts identifiers that can be resolved without this node', () => {
+    expect(() => manager.createAuthChallenge('did:bgin:agent:archive:1')).toThrow('Only did:key and did:web');
+  });
+
+  it('verifies a signature over the message once', async () => {
+    const key = holder();
+    const challenge = manager.createAuthChallenge(key.did);
+    const signature = key.sign(challenge.message);
+
+    await expect(manager.verifyAuthChallenge(key.did, challenge.nonce, signature)).resolves.toEqual({ verified: true });
+    await expect(manager.verifyAuthChallenge(key.did, challenge.nonce, signature))
+      .resolves.toEqual({ verified: false, reason: 'Unknown or already used challenge' });
+  });
+
+  it('rejects a signature over the bare nonce', async () => {
+    const key = holder();
+    const challenge = manager.createAuthChallenge(key.did);
+
+    await expect(manager.verifyAuthChallenge(key.did, challenge.nonce, key.sign(challenge.nonce)))
+      .resolves.toEqual({ verified: false, reason: 'Signature does not match DID key' });
+  });
+
+  it('rejects signatures by another key and challenges issued to another DID', async () => {
+    const key = holder();
+    const other = holder();
+    const challenge = manager.createAuthChallenge(key.did);
+
+    await expect(manager.verifyAuthChallenge(key.did, challenge.nonce, other.sign(challenge.message)))
+      .resolves.toMatchObject({ verified: false, reason: 'Signature does not match DID key' });
+
+    const second = manager.createAuthChallenge(key.did);
+    await expect(manager.verifyAuthChallenge(other.did, second.nonce, other.sign(second.message)))
+      .resolves.toMatchObject({ verified: false, reason: 'Unknown or already used challenge' });
+  });
+
+  it('rejects expired challenges', async () => {
+    const key = holder();
+    const challenge = manager.createAuthChallenge(key.did);
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 5 * 60 * 1000 + 1);
+
+    try {
+      await expect(manager.verifyAuthChallenge(key.did, challenge.nonce, key.sign(challenge.message)))
+        .resolves.toEqual({ verified: false, reason: 'Challenge expired' });
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('keeps at most five pending challenges per DID', async () => {
+    const key = holder();
+    const challenges = Array.from({ length: 6 }, () => manager.createAuthChallenge(key.did));
+
+    await expect(manager.verifyAuthChallenge(key.did, challenges[0].nonce, key.sign(challenges[0].message)))
+      .resolves.toMatchObject({ verified: false, reason: 'Unknown or already used challenge' });
+    await expect(manager.verifyAuthChallenge(key.did, challenges[5].nonce, key.sign(challenges[5].message)))
+      .resolves.toEqual({ verified: true });
+  });
+});
+
+describe('AgentDIDManager trust relationships', () => {
+  const addTrustRelationship = toipRepository.addTrustRelationship as jest.Mock;
+  let manager: AgentDIDManager;
+
+  beforeEach(() => {
+    addTrustRelationship.mockReset();
+    manager = new AgentDIDManager();
+  });
+
+  it('persists the relationship before keeping it in memory', async () => {
+    addTrustRelationship.mockImplementation(async () => {
+      expect(manager.getAllTrustRelationships()).toEqual([]);
+      return undefined;
+    });
+
+    const relationship = await manager.establishTrustRelationship('did:bgin:a', 'did:bgin:b', 'endorsement', 0.7, []);
+
+    expect(addTrustRelationship).toHaveBeenCalledWith(relationship, expect.any(Function));
+    expect(manager.getAllTrustRelationships()).toEqual([relationship]);
+  });
+
+  it('leaves memory untouched when the write fails', async () => {
+    addTrustRelationship.mockRejectedValue(new Error('connection lost'));
+
+    await expect(manager.establishTrustRelationship('did:bgin:a', 'did:bgin:b', 'endorsement', 0.7, [])).rejects.toThrow('connection lost');
+    expect(manager.getAllTrustRelationships()).toEqual([]);
+  });
+
+  it('keeps an initial trust score of 0 and rejects scores outside [0, 1]', async () => {
+    addTrustRelationship.mockResolvedValue(undefined);
+
+    await expect(manager.establishTrustRelationship('did:bgin:a', 'did:bgin:b', 'verification', 0, []))
+      .resolves.toMatchObject({ trustScore: 0 });
+    for (const score of [-0.1, 1.5, NaN]) {
+      await expect(manager.establishTrustRelationship('did:bgin:a', 'did:bgin:b', 'verification', score, []))
+        .rejects.toThrow('Initial trust score must be between 0 and 1');
+    }
+    expect(addTrustRelationship).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentDIDManager credential status', () => {
+  let manager: AgentDIDManager;
+
+  beforeEach(() => {
+    manager = new AgentDIDManager();
+  });
+
+  async function issue() {
+    const issuer = await manager.createAgentDID('archive', ['issue']);
+    const subject = await manager.createAgentDID('codex', ['analyze']);
+    return manager.issueCapabilityCredential(issuer.did, subject.did, 'codex', ['analyze'], 0.8);
+  }
+
+  it('issues credentials with a revocation and a suspension entry that verify', async () => {
+    const credential = await issue();
+
+    expect(credential.credentialStatus!.map(entry => entry.statusPurpose)).toEqual(['revocation', 'suspension']);
+    await expect(manager.verifyCredential(credential)).resolves.toMatchObject({
+      verified: true,
+      checks: { structure: true, issuer: true, signature: true, issuanceDate: true, expiration: true, revocation: true }
+    });
+  });
+
+  it('fails verification while suspended and passes again once reinstated', async () => {
+    const credential = await issue();
+
+    await manager.suspendCredential(credential.id, 'Under investigation', 'admin-1');
+    const suspended = await manager.verifyCredential(credential);
+    expect(suspended.verified).toBe(false);
+    expect(suspended.reason).toMatch(/^Credential suspended at .+: Under investigation$/);
+    expect(suspended.checks).toMatchObject({ signature: true, revocation: false });
+
+    await manager.reinstateCredential(credential.id, 'Cleared');
+    await expect(manager.verifyCredential(credential)).resolves.toMatchObject({ verified: true });
+    expect(manager.getCredentialStatus(credential.id)).toMatchObject({ revoked: false, suspended: false });
+  });
+
+  it('fails verification once revoked', async () => {
+    const credential = await issue();
+
+    await manager.revokeCredential(credential.id, 'Agent key compromised');
+
+    await expect(manager.verifyCredential(credential)).resolves.toMatchObject({
+      verified: false,
+      reason: expect.stringContaining('revoked')
+    });
+    expect(manager.getCredentialStatus(credential.id)!.history).toHaveLength(1);
+  });
+
+  it('rejects credentials whose status entries were swapped for another list', async () => {
+    const credential = await issue();
+    const foreign = {
+      ...credential,
+      credentialStatus: credential.credentialStatus!.map(entry => ({ ...entry, statusListCredential: 'https://elsewhere.example/list' }))
+    };
+
+    const result = await manager.verifyCredential(foreign);
+
+    expect(result.verified).toBe(false);
+    expect(result.checks.signature).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+// =====================================
+// backend/tests/toip/did-resolver.test.ts
+// =====================================
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import axios from 'axios';
+import { DIDResolver } from '../../src/toip/did-resolver';
+import { didKeyFromPublicKey, publicKeyToMultibase } from '../../src/toip/did-keys';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+jest.mock('dns', () => ({
+  promises: { lookup: jest.fn() }
+}));
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+const lookup = dns.lookup as unknown as jest.Mock;
+const get = axios.get as jest.Mock;
+
+const { publicKey } = crypto.generateKeyPairSync('ed25519');
+const exported = (key: crypto.KeyObject) => key.export({ format: 'der', type: 'spki' }).toString('hex');
+
+describe('DIDResolver', () => {
+  let resolver: DIDResolver;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolver = new DIDResolver();
+  });
+
+  it('reports invalid DIDs and unsupported methods in the resolution metadata', async () => {
+    await expect(resolver.resolve('not-a-did')).resolves.toMatchObject({
+      didDocument: null, didResolutionMetadata: { error: 'invalidDid' }
+    });
+    await expect(resolver.resolve('did:example:123')).resolves.toMatchObject({
+      didResolutionMetadata: { error: 'methodNotSupported', errorMessage: 'DID method not supported: example' }
+    });
+  });
+
+  it('resolves through registered drivers and reports unknown DIDs as not found', async () => {
+    const document = { '@context': 'https://www.w3.org/ns/did/v1', id: 'did:bgin:agent:archive:1' };
+    resolver.registerDriver('bgin', async did => did === document.id ? { didDocument: document, didDocumentMetadata: { created: '2026-01-01' } } : null);
+
+    expect(resolver.getSupportedMethods()).toEqual(['key', 'web', 'bgin']);
+    await expect(resolver.resolve(document.id)).resolves.toMatchObject({
+      didDocument: document,
+      didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      didDocumentMetadata: { created: '2026-01-01' }
+    });
+    await expect(resolver.resolve('did:bgin:agent:archive:2')).resolves.toMatchObject({ didResolutionMetadata: { error: 'notFound' } });
+  });
+
+  describe('did:key', () => {
+    it('derives the document and verification key from the identifier', async () => {
+      const did = didKeyFromPublicKey(publicKey);
+      const { didDocument } = await resolver.resolve(did);
+
+      expect(didDocument!.verificationMethod![0]).toMatchObject({ type: 'Multikey', controller: did, publicKeyMultibase: did.slice('did:key:'.length) });
+      expect(didDocument!.authentication).toEqual([`${did}#${did.slice('did:key:'.length)}`]);
+      expect(exported(await resolver.resolveVerificationKey(did))).toBe(exported(publicKey));
+    });
+
+    it('rejects malformed keys', async () => {
+      const { didResolutionMetadata } = await resolver.resolve('did:key:z6MkInvalid');
+
+      expect(didResolutionMetadata.error).toBe('invalidDid');
+    });
+  });
+
+  describe('did:web', () => {
+    const did = 'did:web:example.org';
+    const document = { '@context': 'https://www.w3.org/ns/did/v1', id: did };
+
+    it('fetches the well-known document over a connection pinned to the checked address', async () => {
+      lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      get.mockResolvedValue({ status: 200, data: document });
+
+      await expect(resolver.resolve(did)).resolves.toMatchObject({ didDocument: document });
+      expect(lookup).toHaveBeenCalledWith('example.org', { all: true });
+
+      const [url, options] = get.mock.calls[0];
+      expect(url).toBe('https://example.org/.well-known/did.json');
+      expect(options).toMatchObject({ maxRedirects: 0, proxy: false });
+
+      const pinned = await new Promise(resolve =>
+        options.httpsAgent.options.lookup('example.org', {}, (_error: any, address: string) => resolve(address)));
+      expect(pinned).toBe('93.184.216.34');
+    });
+
+    it('maps ports and paths to the document URL', async () => {
+      lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      get.mockResolvedValue({ status: 200, data: { ...document, id: 'did:web:example.org%3A8443:users:alice' } });
+
+      await resolver.resolve('did:web:example.org%3A8443:users:alice');
+
+      expect(get.mock.calls[0][0]).toBe('https://example.org:8443/users/alice/did.json');
+    });
+
+    it.each([
+      ['loopback', [{ address: '127.0.0.1', family: 4 }]],
+      ['private', [{ address: '10.1.2.3', family: 4 }]],
+      ['mixed', [{ address: '93.184.216.34', family: 4 }, { address: '192.168.0.10', family: 4 }]],
+      ['IPv4-mapped private', [{ address: '::ffff:169.254.169.254', family: 6 }]],
+      ['unique local IPv6', [{ address: 'fd00::1', family: 6 }]]
+    ])('refuses hosts resolving to %s addresses with a generic error', async (_label, addresses) => {
+      lookup.mockResolvedValue(addresses);
+
+      const { didResolutionMetadata } = await resolver.resolve(did);
+
+      expect(didResolutionMetadata).toMatchObject({ error: 'notFound', errorMessage: 'Could not retrieve the did:web document' });
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it('reports network failures generically', async () => {
+      lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      get.mockRejectedValue(new Error('connect ECONNREFUSED 93.184.216.34:443'));
+
+      const { didResolutionMetadata } = await resolver.resolve(did);
+
+      expect(didResolutionMetadata.errorMessage).toBe('Could not retrieve the did:web document');
+    });
+
+    it.each([
+      'did:web:127.0.0.1',
+      'did:web:localhost',
+      'did:web:example.org%3A0',
+      'did:web:example.org:..',
+      'did:web:example.org:a%2Fb'
+    ])('rejects %s without a network request', async identifier => {
+      const { didResolutionMetadata } = await resolver.resolve(identifier);
+
+      expect(didResolutionMetadata.error).toBe('invalidDid');
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('treats a 404 as not found and rejects documents for another DID', async () => {
+      lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+      get.mockResolvedValueOnce({ status: 404, data: '' });
+      await expect(resolver.resolve(did)).resolves.toMatchObject({ didResolutionMetadata: { error: 'notFound', errorMessage: `DID not found: ${did}` } });
+
+      get.mockResolvedValueOnce({ status: 200, data: { ...document, id: 'did:web:attacker.example' } });
+      await expect(resolver.resolve(did)).resolves.toMatchObject({ didResolutionMetadata: { error: 'invalidDid' } });
+    });
+  });
+
+  describe('resolveVerificationKey', () => {
+    const did = 'did:bgin:agent:archive:1';
+    const method = { id: '#key-1', type: 'Multikey', controller: did, publicKeyMultibase: publicKeyToMultibase(publicKey) };
+
+    it('follows relative references from the requested relationship', async () => {
+      resolver.registerDriver('bgin', async () => ({
+        didDocument: { '@context': 'https://www.w3.org/ns/did/v1', id: did, verificationMethod: [method], authentication: [`${did}#key-1`] }
+      }));
+
+      expect(exported(await resolver.resolveVerificationKey(did, 'authentication'))).toBe(exported(publicKey));
+    });
+
+    it('refuses deactivated DIDs and documents without a usable key', async () => {
+      resolver.registerDriver('bgin', async () => ({
+        didDocument: { '@context': 'https://www.w3.org/ns/did/v1', id: did, verificationMethod: [method] },
+        didDocumentMetadata: { deactivated: true }
+      }));
+      await expect(resolver.resolveVerificationKey(did)).rejects.toThrow('DID is deactivated');
+
+      resolver.registerDriver('bgin', async () => ({
+        didDocument: { '@context': 'https://www.w3.org/ns/did/v1', id: did, verificationMethod: [method], assertionMethod: ['#missing'] }
+      }));
+      await expect(resolver.resolveVerificationKey(did)).rejects.toThrow('No Ed25519 assertionMethod key');
+    });
+  });
+});
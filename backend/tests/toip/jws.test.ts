@@ -0,0 +1,113 @@
+// =====================================
+// backend/tests/toip/jws.test.ts
+// =====================================
+
+import crypto from 'crypto';
+import {
+  canonicalize,
+  decodeCompactJWS,
+  decodeJWSHeader,
+  signCompactJWS,
+  signDetachedJWS,
+  verifyCompactJWS,
+  verifyDetachedJWS
+} from '../../src/toip/jws';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+const other = crypto.generateKeyPairSync('ed25519');
+
+function encodeHeader(header: object): string {
+  return Buffer.from(JSON.stringify(header)).toString('base64url');
+}
+
+describe('canonicalize', () => {
+  it('sorts object keys at every level and drops whitespace', () => {
+    expect(canonicalize({ b: 1, a: { d: [3, { z: true, y: null }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[3,{"y":null,"z":true}]},"b":1}');
+  });
+
+  it('omits undefined properties and nulls undefined array items', () => {
+    expect(canonicalize({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+  });
+
+  it('gives the same output before and after a JSON round trip', () => {
+    const credential = { issuanceDate: new Date('2025-01-01T00:00:00Z'), subject: { id: 'did:example:1' } };
+    expect(canonicalize(credential)).toBe(canonicalize(JSON.parse(JSON.stringify(credential))));
+  });
+});
+
+describe('detached JWS', () => {
+  const payload = canonicalize({ id: 'urn:uuid:1', claim: 'value' });
+
+  it('signs with an unencoded, detached payload', () => {
+    const jws = signDetachedJWS(payload, privateKey, 'did:example:issuer#key-1');
+
+    expect(jws.split('.')[1]).toBe('');
+    expect(decodeJWSHeader(jws)).toEqual({ alg: 'EdDSA', b64: false, crit: ['b64'], kid: 'did:example:issuer#key-1' });
+    expect(verifyDetachedJWS(jws, payload, publicKey)).toEqual({ valid: true });
+  });
+
+  it('rejects a modified payload', () => {
+    const jws = signDetachedJWS(payload, privateKey, 'did:example:issuer#key-1');
+    const result = verifyDetachedJWS(jws, canonicalize({ id: 'urn:uuid:1', claim: 'changed' }), publicKey);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/Signature does not match/);
+  });
+
+  it('rejects a signature from another key', () => {
+    const jws = signDetachedJWS(payload, other.privateKey, 'did:example:issuer#key-1');
+    expect(verifyDetachedJWS(jws, payload, publicKey).valid).toBe(false);
+  });
+
+  it('rejects a JWS that carries its payload', () => {
+    const [header, , signature] = signDetachedJWS(payload, privateKey, 'kid').split('.');
+    const attached = `${header}.${Buffer.from(payload).toString('base64url')}.${signature}`;
+
+    expect(verifyDetachedJWS(attached, payload, publicKey).reason).toMatch(/Malformed detached JWS/);
+  });
+
+  it('rejects other algorithms and encoded payloads', () => {
+    const signature = signDetachedJWS(payload, privateKey, 'kid').split('.')[2];
+
+    const hs256 = `${encodeHeader({ alg: 'HS256', b64: false, crit: ['b64'] })}..${signature}`;
+    expect(verifyDetachedJWS(hs256, payload, publicKey).reason).toBe('Unsupported JWS algorithm: HS256');
+
+    const encoded = `${encodeHeader({ alg: 'EdDSA' })}..${signature}`;
+    expect(verifyDetachedJWS(encoded, payload, publicKey).reason).toMatch(/unencoded payload/);
+  });
+
+  it('rejects a header that is not JSON', () => {
+    expect(verifyDetachedJWS('not-json..sig', payload, publicKey).reason).toMatch(/header is not valid/);
+  });
+});
+
+describe('compact JWS', () => {
+  it('round trips header and payload', () => {
+    const jws = signCompactJWS({ sub: 'did:example:holder', n: 1 }, privateKey, { typ: 'JWT', kid: 'k' });
+
+    expect(decodeCompactJWS(jws)).toEqual({
+      header: { alg: 'EdDSA', typ: 'JWT', kid: 'k' },
+      payload: { sub: 'did:example:holder', n: 1 }
+    });
+    expect(verifyCompactJWS(jws, publicKey)).toEqual({ valid: true });
+  });
+
+  it('rejects a tampered payload and a foreign key', () => {
+    const jws = signCompactJWS({ n: 1 }, privateKey, {});
+    const [header, , signature] = jws.split('.');
+    const tampered = `${header}.${Buffer.from(JSON.stringify({ n: 2 })).toString('base64url')}.${signature}`;
+
+    expect(verifyCompactJWS(tampered, publicKey)).toEqual({ valid: false, reason: 'JWS signature is invalid' });
+    expect(verifyCompactJWS(jws, other.publicKey).valid).toBe(false);
+  });
+
+  it('rejects malformed input and other algorithms', () => {
+    expect(() => decodeCompactJWS('a..c')).toThrow('Malformed compact JWS');
+    expect(verifyCompactJWS('a.b', publicKey).valid).toBe(false);
+
+    const [, payload, signature] = signCompactJWS({ n: 1 }, privateKey, {}).split('.');
+    expect(verifyCompactJWS(`${encodeHeader({ alg: 'none' })}.${payload}.${signature}`, publicKey).reason)
+      .toBe('Unsupported JWS algorithm: none');
+  });
+});
@@ -0,0 +1,165 @@
+// =====================================
+// backend/tests/toip/sd-jwt.test.ts
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+import { createDisclosure, decodeDisclosure, issueSDJWT, presentSDJWT, verifySDJWT } from '../../src/toip/sd-jwt';
+import { decodeCompactJWS, signCompactJWS } from '../../src/toip/jws';
+
+const ISSUER = 'did:example:issuer';
+const KID = `${ISSUER}#key-1`;
+const AUDIENCE = 'did:example:verifier';
+
+const issuerKeys = crypto.generateKeyPairSync('ed25519');
+const holderKeys = crypto.generateKeyPairSync('ed25519');
+
+const resolveIssuerKey = async (issuer: string): Promise<KeyObject> => {
+  if (issuer !== ISSUER) throw new Error(`Unknown issuer ${issuer}`);
+  return issuerKeys.publicKey;
+};
+const resolveHolderKey = async (cnf: any): Promise<KeyObject> => crypto.createPublicKey({ key: cnf.jwk, format: 'jwk' });
+
+function issue(always: Record<string, any> = {}) {
+  return issueSDJWT({
+    always: {
+      iss: ISSUER,
+      cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) },
+      exp: Math.floor(Date.now() / 1000) + 3600,
+      ...always
+    },
+    disclose: { reputationScore: 0.82, interactions: 14 },
+    discloseNested: { reputationAtLeast: { members: { '0.5': true, '0.8': true }, decoys: 5 } }
+  }, issuerKeys.privateKey, KID);
+}
+
+function present(sdJwt: string, paths: string[], nonce: string = 'n-1'): string {
+  return presentSDJWT(sdJwt, paths, holderKeys.privateKey, { audience: AUDIENCE, nonce });
+}
+
+describe('disclosures', () => {
+  it('round trips salt, name and value', () => {
+    const disclosure = createDisclosure('reputationScore', 0.82);
+    expect(decodeDisclosure(disclosure.encoded)).toEqual(disclosure);
+  });
+
+  it('rejects anything but a [salt, name, value] array', () => {
+    const encoded = Buffer.from(JSON.stringify(['salt', 'name'])).toString('base64url');
+    expect(() => decodeDisclosure(encoded)).toThrow('Disclosure must be a [salt, name, value] array');
+  });
+});
+
+describe('issueSDJWT', () => {
+  it('hides disclosable claims behind sorted digests and pads nested digests with decoys', () => {
+    const { sdJwt, disclosures } = issue();
+    const { header, payload } = decodeCompactJWS(sdJwt.split('~')[0]);
+
+    expect(header).toEqual({ alg: 'EdDSA', kid: KID, typ: 'dc+sd-jwt' });
+    expect(payload.reputationScore).toBeUndefined();
+    expect(payload._sd).toHaveLength(2);
+    expect(payload._sd).toEqual([...payload._sd].sort());
+    expect(payload.reputationAtLeast._sd).toHaveLength(5);
+    expect(disclosures.map(disclosure => disclosure.name)).toEqual(['reputationScore', 'interactions', '0.5', '0.8']);
+    expect(sdJwt.endsWith('~')).toBe(true);
+  });
+});
+
+describe('verifySDJWT', () => {
+  it('reconstructs only the presented claims and checks key binding', async () => {
+    const { sdJwt } = issue();
+    const presentation = present(sdJwt, ['reputationAtLeast.0.8']);
+
+    const result = await verifySDJWT(presentation, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-1' } });
+
+    expect(result.verified).toBe(true);
+    expect(result.keyBound).toBe(true);
+    expect(result.disclosed).toEqual(['reputationAtLeast.0.8']);
+    expect(result.claims!.reputationAtLeast).toEqual({ '0.8': true });
+    expect(result.claims!.reputationScore).toBeUndefined();
+    expect(result.claims!.iss).toBe(ISSUER);
+  });
+
+  it('verifies an issued SD-JWT without key binding when none is expected', async () => {
+    const { sdJwt } = issue();
+    const result = await verifySDJWT(sdJwt, { resolveIssuerKey });
+
+    expect(result).toMatchObject({ verified: true, keyBound: false });
+    expect(result.claims).toMatchObject({ reputationScore: 0.82, interactions: 14 });
+  });
+
+  it('rejects a presentation for another audience or nonce', async () => {
+    const { sdJwt } = issue();
+    const presentation = present(sdJwt, ['reputationScore'], 'n-1');
+
+    const result = await verifySDJWT(presentation, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-2' } });
+    expect(result).toEqual({ verified: false, reason: 'Key binding audience or nonce does not match' });
+  });
+
+  it('rejects a presentation without a key binding JWT when one is expected', async () => {
+    const { sdJwt } = issue();
+    const result = await verifySDJWT(sdJwt, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-1' } });
+
+    expect(result.reason).toBe('Key binding JWT is required');
+  });
+
+  it('rejects a key binding JWT signed by someone other than the holder', async () => {
+    const { sdJwt } = issue();
+    const stolen = presentSDJWT(sdJwt, ['reputationScore'], crypto.generateKeyPairSync('ed25519').privateKey, { audience: AUDIENCE, nonce: 'n-1' });
+
+    const result = await verifySDJWT(stolen, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-1' } });
+    expect(result.verified).toBe(false);
+    expect(result.reason).toMatch(/^Key binding/);
+  });
+
+  it('rejects disclosures added after the key binding JWT was signed', async () => {
+    const { sdJwt, disclosures } = issue();
+    const presentation = present(sdJwt, ['reputationAtLeast.0.5']);
+    const kbJwt = presentation.slice(presentation.lastIndexOf('~') + 1);
+    const extended = `${presentation.slice(0, -kbJwt.length)}${disclosures[0].encoded}~${kbJwt}`;
+
+    const result = await verifySDJWT(extended, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-1' } });
+    expect(result.reason).toBe('Key binding sd_hash does not match the presentation');
+  });
+
+  it('rejects a stale key binding JWT', async () => {
+    const { sdJwt } = issue();
+    const presented = sdJwt;
+    const kbJwt = signCompactJWS({
+      iat: Math.floor(Date.now() / 1000) - 600,
+      aud: AUDIENCE,
+      nonce: 'n-1',
+      sd_hash: crypto.createHash('sha256').update(presented, 'ascii').digest('base64url')
+    }, holderKeys.privateKey, { typ: 'kb+jwt' });
+
+    const result = await verifySDJWT(`${presented}${kbJwt}`, { resolveIssuerKey, resolveHolderKey, keyBinding: { audience: AUDIENCE, nonce: 'n-1' } });
+    expect(result.reason).toBe('Key binding JWT is stale');
+  });
+
+  it('rejects forged, repeated and overwriting disclosures', async () => {
+    const { sdJwt, disclosures } = issue();
+    const jwt = sdJwt.split('~')[0];
+
+    const forged = `${jwt}~${createDisclosure('reputationScore', 1).encoded}~`;
+    expect((await verifySDJWT(forged, { resolveIssuerKey })).reason).toBe('Disclosure does not match any digest in the credential');
+
+    const repeated = `${jwt}~${disclosures[0].encoded}~${disclosures[0].encoded}~`;
+    expect((await verifySDJWT(repeated, { resolveIssuerKey })).reason).toBe('Disclosure presented more than once');
+
+    const overwrite = issueSDJWT({ always: { iss: ISSUER, role: 'member' }, disclose: { role: 'admin' } }, issuerKeys.privateKey, KID);
+    expect((await verifySDJWT(overwrite.sdJwt, { resolveIssuerKey })).reason).toBe('Disclosure overwrites claim role');
+  });
+
+  it('rejects an expired credential', async () => {
+    const { sdJwt } = issue({ exp: Math.floor(Date.now() / 1000) - 1 });
+    expect((await verifySDJWT(sdJwt, { resolveIssuerKey })).reason).toBe('Credential has expired');
+  });
+
+  it('rejects a key id that does not belong to the issuer', async () => {
+    const { sdJwt } = issueSDJWT({ always: { iss: ISSUER }, disclose: {} }, issuerKeys.privateKey, 'did:example:other#key-1');
+    expect((await verifySDJWT(sdJwt, { resolveIssuerKey })).reason).toBe('SD-JWT kid does not belong to the issuer');
+  });
+
+  it('rejects an SD-JWT signed with a key the issuer does not hold', async () => {
+    const { sdJwt } = issueSDJWT({ always: { iss: ISSUER }, disclose: { a: 1 } }, holderKeys.privateKey, KID);
+    expect((await verifySDJWT(sdJwt, { resolveIssuerKey })).verified).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+// =====================================
+// backend/tests/toip/status-list.test.ts
+// =====================================
+
+import zlib from 'zlib';
+import {
+  StatusListRegistry,
+  STATUS_LIST_LENGTH,
+  encodeStatusList,
+  decodeStatusList,
+  getStatusBit
+} from '../../src/toip/status-list';
+import { toipRepository } from '../../src/toip/toip-repository';
+
+jest.mock('../../src/utils/config', () => ({
+  config: { publicUrl: 'https://bgin.example.org' }
+}));
+jest.mock('../../src/toip/toip-repository', () => ({
+  toipRepository: { createStatusList: jest.fn(), saveStatusChange: jest.fn() }
+}));
+
+const repository = toipRepository as jest.Mocked<typeof toipRepository>;
+const ISSUER = 'did:bgin:agent:archive:issuer';
+
+describe('status list encoding', () => {
+  it('round-trips a bitstring through gzip and multibase base64url', () => {
+    const bits = Buffer.alloc(STATUS_LIST_LENGTH / 8);
+    bits[0] = 0x80;
+    bits[bits.length - 1] = 0x01;
+
+    const encoded = encodeStatusList(bits);
+
+    expect(encoded.startsWith('u')).toBe(true);
+    expect(encoded.length).toBeLessThan(200);
+    expect(decodeStatusList(encoded).equals(bits)).toBe(true);
+  });
+
+  it('rejects lists that are not multibase base64url', () => {
+    expect(() => decodeStatusList('z' + zlib.gzipSync(Buffer.alloc(8)).toString('base64url'))).toThrow('multibase base64url');
+  });
+
+  it('stops inflating at the size limit', () => {
+    const bomb = 'u' + zlib.gzipSync(Buffer.alloc(64 * 1024 * 1024)).toString('base64url');
+
+    expect(() => decodeStatusList(bomb)).toThrow(`encodedList expands beyond ${STATUS_LIST_LENGTH / 8} bytes`);
+    expect(decodeStatusList(encodeStatusList(Buffer.alloc(4096)), 4096)).toHaveLength(4096);
+  });
+
+  it('reads index 0 from the most significant bit and bounds the index', () => {
+    const bits = Buffer.from([0b10000001, 0b01000000]);
+
+    expect([0, 1, 7, 8, 9].map(index => getStatusBit(bits, index))).toEqual([true, false, true, false, true]);
+    expect(() => getStatusBit(bits, 16)).toThrow('statusListIndex out of range: 16');
+    expect(() => getStatusBit(bits, -1)).toThrow('out of range');
+    expect(() => getStatusBit(bits, 1.5)).toThrow('out of range');
+  });
+});
+
+describe('StatusListRegistry', () => {
+  let registry: StatusListRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository.createStatusList.mockResolvedValue(undefined);
+    repository.saveStatusChange.mockResolvedValue(undefined);
+    registry = new StatusListRegistry();
+  });
+
+  it('allocates one entry per purpose from the issuer\'s lists', async () => {
+    const first = await registry.allocate(ISSUER);
+    const second = await registry.allocate(ISSUER);
+
+    expect(first.map(entry => entry.statusPurpose)).toEqual(['revocation', 'suspension']);
+    expect(repository.createStatusList).toHaveBeenCalledTimes(2);
+    expect(second[0].statusListCredential).toBe(first[0].statusListCredential);
+    expect(first[0].statusListCredential).not.toBe(first[1].statusListCredential);
+    expect(first[0].statusListCredential).toMatch(/^https:\/\/bgin\.example\.org\/api\/toip\/status-lists\//);
+    expect(first[0].id).toBe(`${first[0].statusListCredential}#${first[0].statusListIndex}`);
+    expect(second[0].statusListIndex).not.toBe(first[0].statusListIndex);
+  });
+
+  it('revokes and reinstates a credential with a recorded history', async () => {
+    const entries = await registry.allocate(ISSUER);
+
+    await registry.setStatus('cred-1', entries, 'suspension', true, 'Key rotation pending', 'admin-1');
+    expect(registry.getStatus('cred-1', entries)).toMatchObject({ revoked: false, suspended: true });
+
+    await registry.setStatus('cred-1', entries, 'suspension', false, 'Key rotated');
+    await registry.setStatus('cred-1', entries, 'revocation', true, 'Agent compromised');
+
+    const status = registry.getStatus('cred-1', entries);
+    expect(status).toMatchObject({ revoked: true, suspended: false });
+    expect(status.history.map(change => change.reason)).toEqual(['Key rotation pending', 'Key rotated', 'Agent compromised']);
+    expect(registry.getLastChange('cred-1', 'suspension')!.reason).toBe('Key rotated');
+    expect(registry.isSet(entries[0])).toBe(true);
+    expect(registry.isSet({ ...entries[0], statusPurpose: 'suspension' })).toBeUndefined();
+  });
+
+  it('publishes the flipped bit in the hosted list', async () => {
+    const entries = await registry.allocate(ISSUER);
+    await registry.setStatus('cred-1', entries, 'revocation', true, 'Withdrawn');
+
+    const list = registry.getListByUrl(entries[0].statusListCredential)!;
+    const published = decodeStatusList(encodeStatusList(list.bits));
+    expect(getStatusBit(published, Number(entries[0].statusListIndex))).toBe(true);
+    expect(published.filter(byte => byte !== 0)).toHaveLength(1);
+  });
+
+  it('leaves the list untouched when the change cannot be stored', async () => {
+    const entries = await registry.allocate(ISSUER);
+    repository.saveStatusChange.mockRejectedValue(new Error('connection lost'));
+
+    await expect(registry.setStatus('cred-1', entries, 'revocation', true, 'Withdrawn')).rejects.toThrow('connection lost');
+    expect(registry.getStatus('cred-1', entries)).toEqual({ revoked: false, suspended: false, history: [] });
+  });
+
+  it('refuses entries for lists hosted elsewhere', async () => {
+    const [entry] = await registry.allocate(ISSUER);
+
+    await expect(registry.setStatus('cred-1', [{ ...entry, statusListCredential: 'https://elsewhere.example/list' }], 'revocation', true, 'x'))
+      .rejects.toThrow('Credential cred-1 has no revocation status entry on this node');
+    await expect(registry.setStatus('cred-1', [entry], 'suspension', true, 'x')).rejects.toThrow('no suspension status entry');
+  });
+
+  it('restores lists, allocations and history', async () => {
+    const entries = await registry.allocate(ISSUER);
+    await registry.setStatus('cred-1', entries, 'revocation', true, 'Withdrawn');
+    const lists = [entries[0], entries[1]].map(entry => ({ ...registry.getListByUrl(entry.statusListCredential)!, allocated: new Set<number>() }));
+
+    const restored = new StatusListRegistry();
+    restored.restore(lists, entries, registry.getStatus('cred-1', entries).history);
+
+    expect(restored.getStatus('cred-1', entries)).toMatchObject({ revoked: true, suspended: false });
+    expect(restored.getListByUrl(entries[0].statusListCredential)!.allocated.has(Number(entries[0].statusListIndex))).toBe(true);
+    const [next] = await restored.allocate(ISSUER);
+    expect(next.statusListCredential).toBe(entries[0].statusListCredential);
+    expect(repository.createStatusList).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,122 @@
+// =====================================
+// backend/tests/toip/trust-graph.test.ts
+// =====================================
+
+import { computeTrustRanking, decayFactor, detectCollusionClusters, TrustEdge } from '../../src/toip/trust-graph';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function edge(from: string, to: string, weight: number = 1, ageDays: number = 0): TrustEdge {
+  return { from, to, weight, timestamp: new Date(NOW.getTime() - ageDays * DAY) };
+}
+
+function total(values: Iterable<number>): number {
+  return Array.from(values).reduce((sum, value) => sum + value, 0);
+}
+
+describe('decayFactor', () => {
+  it('halves trust every half-life and never decays future timestamps', () => {
+    expect(decayFactor(new Date(NOW.getTime() - 180 * DAY), 180, NOW)).toBeCloseTo(0.5);
+    expect(decayFactor(new Date(NOW.getTime() - 360 * DAY), 180, NOW)).toBeCloseTo(0.25);
+    expect(decayFactor(new Date(NOW.getTime() + DAY), 180, NOW)).toBe(1);
+    expect(decayFactor(new Date(0), 0, NOW)).toBe(1);
+  });
+});
+
+describe('computeTrustRanking', () => {
+  it('gives no trust to a Sybil region however much it endorses itself', () => {
+    const members = ['seed', 'alice', 'bob', 'sybil1', 'sybil2', 'sybil3'];
+    const edges = [
+      edge('seed', 'alice'), edge('alice', 'bob'), edge('bob', 'alice'),
+      edge('sybil1', 'sybil2'), edge('sybil2', 'sybil3'), edge('sybil3', 'sybil1'),
+      edge('sybil1', 'alice'), edge('sybil2', 'bob')
+    ];
+
+    const ranking = computeTrustRanking(members, edges, { seeds: ['seed'], now: NOW });
+
+    expect(total(ranking.globalTrust.values())).toBeCloseTo(1);
+    expect(ranking.scores.get('alice')).toBeGreaterThan(0);
+    expect(ranking.scores.get('bob')).toBeGreaterThan(0);
+    for (const sybil of ['sybil1', 'sybil2', 'sybil3']) {
+      expect(ranking.scores.get(sybil)).toBe(0);
+    }
+    expect(Math.max(...ranking.scores.values())).toBe(1);
+  });
+
+  it('ranks nobody without a seed among the members', () => {
+    const ranking = computeTrustRanking(['alice', 'bob'], [edge('alice', 'bob'), edge('bob', 'alice')], { seeds: ['absent'], now: NOW });
+
+    expect(ranking.seeds).toEqual([]);
+    expect(ranking.iterations).toBe(0);
+    expect(Array.from(ranking.scores.values())).toEqual([0, 0]);
+  });
+
+  it('counts stale endorsements for less than recent ones', () => {
+    const ranking = computeTrustRanking(
+      ['seed', 'recent', 'stale'],
+      [edge('seed', 'recent', 1, 10), edge('seed', 'stale', 1, 720)],
+      { seeds: ['seed'], now: NOW }
+    );
+
+    expect(ranking.scores.get('recent')).toBeGreaterThan(ranking.scores.get('stale')! * 10);
+  });
+
+  it('ignores self-trust, unknown members and non-positive weights', () => {
+    const members = ['seed', 'alice', 'bob'];
+    const edges = [edge('seed', 'alice'), edge('seed', 'bob')];
+    const baseline = computeTrustRanking(members, edges, { seeds: ['seed'], now: NOW });
+
+    const padded = computeTrustRanking(members, [
+      ...edges, edge('alice', 'alice'), edge('alice', 'outsider'), edge('outsider', 'alice'), edge('bob', 'alice', 0), edge('bob', 'alice', -1)
+    ], { seeds: ['seed'], now: NOW });
+
+    expect(padded.scores).toEqual(baseline.scores);
+  });
+
+  it('merges parallel edges', () => {
+    const members = ['seed', 'alice', 'bob'];
+    const doubled = computeTrustRanking(members, [edge('seed', 'alice', 0.5), edge('seed', 'alice', 0.5), edge('seed', 'bob', 0.5)], { seeds: ['seed'], now: NOW });
+
+    expect(doubled.scores.get('alice')).toBeCloseTo(2 * doubled.scores.get('bob')!);
+  });
+
+  it('strips the internal edges of a colluding cluster before ranking', () => {
+    const members = ['seed', 'alice', 'ring1', 'ring2', 'ring3'];
+    const edges = [
+      edge('seed', 'alice'), edge('alice', 'ring1', 0.1), edge('alice', 'seed'),
+      edge('ring1', 'ring2'), edge('ring2', 'ring1'), edge('ring2', 'ring3'), edge('ring3', 'ring2'), edge('ring3', 'ring1'), edge('ring1', 'ring3')
+    ];
+
+    const ranking = computeTrustRanking(members, edges, { seeds: ['seed'], now: NOW });
+    const unchecked = computeTrustRanking(members, edges, { seeds: ['seed'], now: NOW, collusionThreshold: 1.1 });
+
+    expect(ranking.collusionClusters).toHaveLength(1);
+    expect(ranking.collusionClusters[0]).toMatchObject({ members: ['ring1', 'ring2', 'ring3'], internalWeight: 6, externalInboundWeight: 0.1, reciprocity: 1 });
+    expect(ranking.collusionClusters[0].insularity).toBeCloseTo(6 / 6.1);
+    expect(unchecked.collusionClusters).toEqual([]);
+    expect(ranking.globalTrust.get('ring2')).toBe(0);
+    expect(unchecked.globalTrust.get('ring2')).toBeGreaterThan(0);
+    expect(ranking.globalTrust.get('ring1')).toBeLessThan(unchecked.globalTrust.get('ring1')!);
+  });
+
+  it('handles long endorsement chains', () => {
+    const members = Array.from({ length: 5000 }, (_, index) => `member${index}`);
+    const edges = members.slice(1).map((member, index) => edge(members[index], member));
+
+    const ranking = computeTrustRanking(members, edges, { seeds: ['member0'], now: NOW });
+
+    expect(ranking.scores.get('member0')).toBe(1);
+    expect(ranking.scores.get('member1')).toBeGreaterThan(ranking.scores.get('member2')!);
+  });
+});
+
+describe('detectCollusionClusters', () => {
+  it('does not flag clusters containing a seed or with enough outside endorsement', () => {
+    const edges = [edge('a', 'b'), edge('b', 'a'), edge('c', 'a'), edge('d', 'b')];
+
+    expect(detectCollusionClusters(['a', 'b', 'c', 'd'], edges, new Set(['a']))).toEqual([]);
+    expect(detectCollusionClusters(['a', 'b', 'c', 'd'], edges, new Set(), 0.8)).toEqual([]);
+    expect(detectCollusionClusters(['a', 'b', 'c', 'd'], edges, new Set(), 0.5)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,282 @@
+// =====================================
+// backend/tests/toip/vc-converter.test.ts
+// =====================================
+
+import crypto, { KeyObject } from 'crypto';
+import axios from 'axios';
+import { VerifiableCredentialConverter, VC_V2_CONTEXT } from '../../src/toip/vc-converter';
+import { agentDIDManager, AgentCredential } from '../../src/toip/agent-did-manager';
+import { statusListRegistry } from '../../src/toip/status-list';
+import { decodeCompactJWS } from '../../src/toip/jws';
+
+jest.mock('axios', () => ({ __esModule: true, default: { get: jest.fn() } }));
+jest.mock('../../src/utils/config', () => ({
+  config: {
+    publicUrl: 'https://bgin.example.org',
+    statusLists: { allowedHosts: ['status.example.org'] }
+  }
+}));
+jest.mock('../../src/toip/toip-repository', () => ({
+  toipRepository: { createStatusList: jest.fn(), saveStatusChange: jest.fn() }
+}));
+jest.mock('../../src/toip/agent-did-manager', () => ({
+  agentDIDManager: { getSigningKey: jest.fn(), resolveVerificationKey: jest.fn() }
+}));
+
+const didManager = agentDIDManager as jest.Mocked<typeof agentDIDManager>;
+const http = axios as jest.Mocked<typeof axios>;
+
+const ISSUER = 'did:bgin:agent:archive:issuer';
+const HOLDER = 'did:bgin:agent:codex:holder';
+const keys = new Map<string, { privateKey: KeyObject; publicKey: KeyObject }>();
+
+function credential(overrides: Partial<AgentCredential> = {}): AgentCredential {
+  return {
+    id: 'urn:uuid:7d0b5c1e-credential',
+    type: 'AgentCapabilityCredential',
+    issuer: ISSUER,
+    subject: HOLDER,
+    credentialSubject: {
+      agentType: 'archive',
+      capabilities: ['search'],
+      trustLevel: 0.8,
+      permissions: ['read']
+    },
+    issuanceDate: new Date(Date.now() - 60_000),
+    expirationDate: new Date(Date.now() + 3_600_000),
+    proof: {
+      type: 'Ed25519Signature2020',
+      created: new Date(),
+      verificationMethod: `${ISSUER}#key-1`,
+      proofPurpose: 'assertionMethod',
+      jws: ''
+    },
+    ...overrides
+  };
+}
+
+describe('VerifiableCredentialConverter', () => {
+  let converter: VerifiableCredentialConverter;
+
+  beforeAll(() => {
+    for (const did of [ISSUER, HOLDER]) {
+      keys.set(did, crypto.generateKeyPairSync('ed25519'));
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statusListRegistry.restore([], [], []);
+    didManager.getSigningKey.mockImplementation((did: string) => keys.get(did)?.privateKey);
+    didManager.resolveVerificationKey.mockImplementation(async (did: string) => {
+      const pair = keys.get(did);
+      if (!pair) throw new Error(`Unknown DID ${did}`);
+      return pair.publicKey;
+    });
+    converter = new VerifiableCredentialConverter();
+  });
+
+  describe('JSON-LD', () => {
+    it('exports a VC 2.0 document with an eddsa-jcs-2022 proof that verifies', async () => {
+      const vc = converter.exportJsonLd(credential());
+
+      expect(vc['@context']).toEqual([VC_V2_CONTEXT]);
+      expect(vc.type).toEqual(['VerifiableCredential', 'AgentCapabilityCredential']);
+      expect(vc.credentialSubject).toMatchObject({ id: HOLDER, agentType: 'archive' });
+      expect(vc.proof).toMatchObject({
+        type: 'DataIntegrityProof',
+        cryptosuite: 'eddsa-jcs-2022',
+        verificationMethod: `${ISSUER}#key-1`,
+        proofPurpose: 'assertionMethod'
+      });
+      expect(vc.proof!.proofValue.startsWith('z')).toBe(true);
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({ verified: true });
+    });
+
+    it('detects a credential modified after signing', async () => {
+      const vc = converter.exportJsonLd(credential());
+      vc.credentialSubject.trustLevel = 1;
+
+      const result = await converter.verifyJsonLd(vc);
+
+      expect(result.verified).toBe(false);
+      expect(result.reason).toContain('modified after signing');
+    });
+
+    it('rejects a proof whose verification method belongs to another DID', async () => {
+      const vc = converter.exportJsonLd(credential());
+      vc.issuer = HOLDER;
+
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({
+        verified: false,
+        reason: 'proof.verificationMethod does not belong to the expected controller'
+      });
+    });
+
+    it('rejects expired credentials and documents without the v2 context', async () => {
+      const expired = converter.exportJsonLd(credential({ expirationDate: new Date(Date.now() - 1000) }));
+      const wrongContext = { ...converter.exportJsonLd(credential()), '@context': ['https://www.w3.org/2018/credentials/v1'] };
+
+      expect((await converter.verifyJsonLd(expired)).reason).toMatch(/^Credential expired at/);
+      expect((await converter.verifyJsonLd(wrongContext)).reason).toBe(`@context must start with ${VC_V2_CONTEXT}`);
+    });
+
+    it('refuses to export for an issuer whose key is not held here', () => {
+      expect(() => converter.exportJsonLd(credential({ issuer: 'did:bgin:agent:other' })))
+        .toThrow('No signing key held for did:bgin:agent:other');
+    });
+  });
+
+  describe('VC-JWT', () => {
+    it('exports a vc+jwt whose payload is the credential and verifies it', async () => {
+      const jwt = converter.exportJwt(credential());
+      const { header, payload } = decodeCompactJWS(jwt);
+
+      expect(header).toMatchObject({ alg: 'EdDSA', kid: `${ISSUER}#key-1`, typ: 'vc+jwt', cty: 'vc' });
+      expect(payload.credentialSubject.id).toBe(HOLDER);
+      await expect(converter.verifyJwt(jwt)).resolves.toEqual({ verified: true });
+    });
+
+    it('rejects a JWT signed by someone other than the issuer', async () => {
+      const [header, payload] = converter.exportJwt(credential()).split('.');
+      const forged = `${header}.${payload}.${converter.exportJwt(credential({ issuer: HOLDER })).split('.')[2]}`;
+
+      expect((await converter.verifyJwt(forged)).verified).toBe(false);
+      expect((await converter.verifyJwt('not-a-jwt')).verified).toBe(false);
+    });
+  });
+
+  describe('importCredential', () => {
+    it('round-trips both formats back to an AgentCredential', async () => {
+      const original = credential();
+
+      const fromJsonLd = await converter.importCredential(converter.exportJsonLd(original));
+      const jwt = converter.exportJwt(original);
+      const fromJwt = await converter.importCredential(jwt);
+
+      expect(fromJsonLd.format).toBe('jsonld');
+      expect(fromJsonLd.credential).toMatchObject({
+        id: original.id,
+        type: 'AgentCapabilityCredential',
+        issuer: ISSUER,
+        subject: HOLDER,
+        credentialSubject: original.credentialSubject
+      });
+      expect(fromJsonLd.credential!.proof.type).toBe('DataIntegrityProof');
+      expect(fromJwt.format).toBe('jwt');
+      expect(fromJwt.credential!.proof).toMatchObject({ type: 'JsonWebToken', jws: jwt, verificationMethod: `${ISSUER}#key-1` });
+    });
+
+    it('returns no credential when verification fails', async () => {
+      const vc = converter.exportJsonLd(credential());
+      delete vc.proof;
+
+      const result = await converter.importCredential(vc);
+
+      expect(result.verification).toEqual({ verified: false, reason: 'Missing proof' });
+      expect(result.credential).toBeUndefined();
+    });
+  });
+
+  describe('credential status', () => {
+    it('reports revocation and suspension from lists hosted here', async () => {
+      const credentialStatus = await statusListRegistry.allocate(ISSUER);
+      const vc = converter.exportJsonLd(credential({ credentialStatus }));
+
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({ verified: true });
+
+      await statusListRegistry.setStatus('urn:uuid:7d0b5c1e-credential', credentialStatus, 'suspension', true, 'under review');
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({ verified: false, reason: 'Credential suspended' });
+
+      await statusListRegistry.setStatus('urn:uuid:7d0b5c1e-credential', credentialStatus, 'revocation', true, 'compromised');
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({ verified: false, reason: 'Credential revoked' });
+    });
+
+    it('exports hosted status lists as signed BitstringStatusListCredentials', async () => {
+      const [revocation] = await statusListRegistry.allocate(ISSUER);
+      const list = statusListRegistry.getListByUrl(revocation.statusListCredential)!;
+
+      const vc = converter.exportStatusListCredential(list.id)!;
+
+      expect(vc.id).toBe(list.url);
+      expect(vc.type).toContain('BitstringStatusListCredential');
+      expect(vc.credentialSubject).toMatchObject({ type: 'BitstringStatusList', statusPurpose: 'revocation' });
+      await expect(converter.verifyJsonLd(vc)).resolves.toEqual({ verified: true });
+      expect(converter.exportStatusListCredential('missing')).toBeUndefined();
+    });
+
+    it('fetches remote lists only from allowed https hosts and checks who signed them', async () => {
+      const [revocation] = await statusListRegistry.allocate(ISSUER);
+      const list = statusListRegistry.getListByUrl(revocation.statusListCredential)!;
+      const remoteUrl = 'https://status.example.org/lists/1';
+      const remoteEntry = { ...revocation, id: `${remoteUrl}#${revocation.statusListIndex}`, statusListCredential: remoteUrl };
+      const remoteList = converter.exportStatusListCredential(list.id)!;
+      statusListRegistry.restore([], [], []);
+
+      http.get.mockResolvedValueOnce({ data: remoteList });
+      const hosted = converter.exportJsonLd(credential({ credentialStatus: [remoteEntry] }));
+      await expect(converter.verifyJsonLd(hosted)).resolves.toEqual({ verified: true });
+      expect(http.get).toHaveBeenCalledWith(remoteUrl, expect.objectContaining({ maxRedirects: 0, proxy: false }));
+
+      const disallowed = converter.exportJsonLd(credential({
+        credentialStatus: [{ ...remoteEntry, statusListCredential: 'http://status.example.org/lists/1' }]
+      }));
+      expect((await converter.verifyJsonLd(disallowed)).reason).toBe('Cannot check revocation status: status list host status.example.org is not allowed');
+
+      http.get.mockResolvedValueOnce({ data: remoteList });
+      const otherIssuer = converter.exportJsonLd(credential({ issuer: HOLDER, credentialStatus: [remoteEntry] }));
+      expect((await converter.verifyJsonLd(otherIssuer)).reason).toBe('Cannot check revocation status: status list was not issued by the credential issuer');
+      expect(http.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('presentations', () => {
+    const options = { challenge: 'nonce-123', domain: 'verifier.example.org' };
+
+    it('verifies a holder-signed presentation with embedded and enveloped credentials', async () => {
+      const presentation = converter.createPresentation(
+        HOLDER,
+        [converter.exportJsonLd(credential()), converter.exportJwt(credential())],
+        options
+      );
+
+      expect(presentation.proof).toMatchObject({ proofPurpose: 'authentication', ...options });
+      expect(presentation.verifiableCredential[1]).toMatchObject({ type: 'EnvelopedVerifiableCredential' });
+      await expect(converter.verifyPresentation(presentation, options)).resolves.toEqual({
+        verified: true,
+        credentials: [{ verified: true }, { verified: true }]
+      });
+    });
+
+    it('rejects a replay to another verifier or with another challenge', async () => {
+      const presentation = converter.createPresentation(HOLDER, [converter.exportJwt(credential())], options);
+
+      expect((await converter.verifyPresentation(presentation, { ...options, challenge: 'other' })).reason)
+        .toBe('Presentation challenge does not match');
+      expect((await converter.verifyPresentation(presentation, { ...options, domain: 'evil.example.org' })).reason)
+        .toBe('Presentation domain does not match');
+      expect((await converter.verifyPresentation(presentation, { challenge: '', domain: '' })).reason)
+        .toBe('A verifier challenge and domain are required');
+    });
+
+    it('fails when an included credential does not verify', async () => {
+      const tampered = converter.exportJsonLd(credential());
+      tampered.credentialSubject.permissions = ['admin'];
+      const presentation = converter.createPresentation(HOLDER, [tampered], options);
+
+      const result = await converter.verifyPresentation(presentation, options);
+
+      expect(result.verified).toBe(false);
+      expect(result.reason).toMatch(/^Credential 0 failed verification: Proof signature does not match/);
+      expect(result.credentials).toHaveLength(1);
+    });
+
+    it('rejects a presentation not signed by its holder', async () => {
+      const presentation = converter.createPresentation(HOLDER, [], options);
+      presentation.holder = ISSUER;
+
+      expect((await converter.verifyPresentation(presentation, options)).reason)
+        .toBe('proof.verificationMethod does not belong to the expected controller');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+-- database/migrations/001_participant_auth.sql - Participant accounts and roles
+
+-- Participants are keyed by an HMAC of their email (participant_hash), so the
+-- address itself is never stored. Credentials and roles live on the profile.
+ALTER TABLE participant_profiles ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+ALTER TABLE participant_profiles ADD COLUMN IF NOT EXISTS role VARCHAR(50) DEFAULT 'participant';
+ALTER TABLE participant_profiles ADD COLUMN IF NOT EXISTS chaired_working_groups TEXT[] DEFAULT '{}';
+ALTER TABLE participant_profiles ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMP WITH TIME ZONE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'participant_profiles_role_check'
+    ) THEN
+        ALTER TABLE participant_profiles
+            ADD CONSTRAINT participant_profiles_role_check
+            CHECK (role IN ('participant', 'working_group_chair', 'admin'));
+    END IF;
+END $$;
+
+-- Revoked access/refresh tokens, kept until they would have expired anyway
+CREATE TABLE IF NOT EXISTS revoked_tokens (
+    jti UUID PRIMARY KEY,
+    participant_hash VARCHAR(255) REFERENCES participant_profiles(participant_hash) ON DELETE CASCADE,
+    token_type VARCHAR(20) NOT NULL CHECK (token_type IN ('access', 'refresh')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires ON revoked_tokens(expires_at);
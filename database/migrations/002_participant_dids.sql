@@ -0,0 +1,7 @@
+-- database/migrations/002_participant_dids.sql - DID-based participant login
+
+-- Participants who log in with a did:key/did:web are keyed by an HMAC of the
+-- DID; the DID itself is kept so it can be linked to trust network nodes.
+ALTER TABLE participant_profiles ADD COLUMN IF NOT EXISTS did VARCHAR(512);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_participant_profiles_did ON participant_profiles(did) WHERE did IS NOT NULL;
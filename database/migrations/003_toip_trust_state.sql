@@ -0,0 +1,89 @@
+-- database/migrations/003_toip_trust_state.sql - Persistent ToIP agent trust network
+
+-- Agent DIDs managed by this node. The Ed25519 signing key is stored as
+-- PKCS#8 encrypted with AES-256-GCM under ENCRYPTION_KEY.
+CREATE TABLE IF NOT EXISTS toip_agent_dids (
+    did VARCHAR(512) PRIMARY KEY,
+    agent_type VARCHAR(50) NOT NULL CHECK (agent_type IN ('archive', 'codex', 'discourse')),
+    verification_method VARCHAR(600) NOT NULL,
+    public_key_multibase VARCHAR(128) NOT NULL,
+    encrypted_private_key TEXT,
+    service_endpoint TEXT NOT NULL,
+    capability_invocation TEXT[] DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Issued credentials are stored verbatim so the signed body round-trips exactly
+CREATE TABLE IF NOT EXISTS toip_agent_credentials (
+    id VARCHAR(255) PRIMARY KEY,
+    issuer_did VARCHAR(512) NOT NULL,
+    subject_did VARCHAR(512) NOT NULL,
+    credential JSONB NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_toip_agent_credentials_subject ON toip_agent_credentials(subject_did);
+
+CREATE TABLE IF NOT EXISTS toip_trust_relationships (
+    id UUID PRIMARY KEY,
+    from_agent VARCHAR(512) NOT NULL,
+    to_agent VARCHAR(512) NOT NULL,
+    relationship_type VARCHAR(50) NOT NULL CHECK (relationship_type IN ('collaboration', 'verification', 'endorsement')),
+    trust_score DOUBLE PRECISION NOT NULL,
+    evidence JSONB DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_updated TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_toip_trust_relationships_from ON toip_trust_relationships(from_agent);
+CREATE INDEX IF NOT EXISTS idx_toip_trust_relationships_to ON toip_trust_relationships(to_agent);
+
+CREATE TABLE IF NOT EXISTS toip_agent_reputations (
+    agent_did VARCHAR(512) PRIMARY KEY REFERENCES toip_agent_dids(did) ON DELETE CASCADE,
+    overall_score DOUBLE PRECISION DEFAULT 0,
+    category_scores JSONB NOT NULL,
+    total_interactions INTEGER DEFAULT 0,
+    successful_collaborations INTEGER DEFAULT 0,
+    last_updated TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per reputation change, written in the same transaction as the
+-- relationship update that caused it
+CREATE TABLE IF NOT EXISTS toip_reputation_history (
+    id BIGSERIAL PRIMARY KEY,
+    agent_did VARCHAR(512) NOT NULL REFERENCES toip_agent_dids(did) ON DELETE CASCADE,
+    source_agent VARCHAR(512),
+    relationship_type VARCHAR(50),
+    trust_score DOUBLE PRECISION,
+    overall_score DOUBLE PRECISION NOT NULL,
+    category_scores JSONB NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_toip_reputation_history_agent ON toip_reputation_history(agent_did, recorded_at DESC);
+
+-- Bitstring Status Lists. Allocated indexes are rebuilt from the
+-- credentialStatus entries of stored credentials.
+CREATE TABLE IF NOT EXISTS toip_status_lists (
+    id UUID PRIMARY KEY,
+    url TEXT NOT NULL UNIQUE,
+    issuer_did VARCHAR(512) NOT NULL,
+    status_purpose VARCHAR(20) NOT NULL CHECK (status_purpose IN ('revocation', 'suspension')),
+    bits BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS toip_credential_status_changes (
+    id BIGSERIAL PRIMARY KEY,
+    credential_id VARCHAR(255) NOT NULL,
+    status_purpose VARCHAR(20) NOT NULL CHECK (status_purpose IN ('revocation', 'suspension')),
+    value BOOLEAN NOT NULL,
+    reason TEXT NOT NULL,
+    changed_by VARCHAR(255),
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_toip_credential_status_changes_credential ON toip_credential_status_changes(credential_id, changed_at);
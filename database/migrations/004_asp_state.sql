@@ -0,0 +1,88 @@
+-- database/migrations/004_asp_state.sql - Durable Association Set Provider state
+
+CREATE TABLE IF NOT EXISTS asp_trust_nodes (
+    user_id VARCHAR(255) PRIMARY KEY,
+    did VARCHAR(512) NOT NULL,
+    reputation_score DOUBLE PRECISION DEFAULT 0,
+    trust_relationships JSONB DEFAULT '[]',
+    asp_eligibility JSONB NOT NULL,
+    privacy_pool_access JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS asp_research_contributions (
+    id UUID PRIMARY KEY,
+    contributor_id VARCHAR(255) NOT NULL,
+    contribution_type VARCHAR(50) NOT NULL,
+    quality_score DOUBLE PRECISION DEFAULT 0,
+    impact_score DOUBLE PRECISION DEFAULT 0,
+    trust_score DOUBLE PRECISION DEFAULT 0,
+    verifiable_credential TEXT,
+    content JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_research_contributions_contributor ON asp_research_contributions(contributor_id);
+
+CREATE TABLE IF NOT EXISTS asp_deposits (
+    deposit_id UUID PRIMARY KEY,
+    depositor_id VARCHAR(255) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+    asset_type VARCHAR(10) NOT NULL,
+    trust_score DOUBLE PRECISION DEFAULT 0,
+    contribution_score DOUBLE PRECISION DEFAULT 0,
+    asp_approval JSONB NOT NULL,
+    commitment VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_deposits_depositor ON asp_deposits(depositor_id);
+
+CREATE TABLE IF NOT EXISTS asp_contribution_rewards (
+    id UUID PRIMARY KEY,
+    contributor_id VARCHAR(255) NOT NULL,
+    contribution_id UUID NOT NULL,
+    reward_type VARCHAR(50) NOT NULL,
+    reward_amount DOUBLE PRECISION NOT NULL,
+    privacy_pool_eligibility JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_contribution_rewards_contributor ON asp_contribution_rewards(contributor_id);
+
+-- Every addition to or removal from the association set, tagged with the
+-- epoch that was open when it happened. Rows are never updated or deleted.
+CREATE TABLE IF NOT EXISTS asp_association_set_events (
+    sequence BIGSERIAL PRIMARY KEY,
+    epoch INTEGER NOT NULL,
+    commitment VARCHAR(255) NOT NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('add', 'remove')),
+    reason TEXT,
+    deposit_id UUID,
+    recorded_by VARCHAR(255),
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_association_set_events_epoch ON asp_association_set_events(epoch, sequence);
+
+CREATE OR REPLACE FUNCTION asp_reject_history_rewrite() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'asp_association_set_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS asp_association_set_events_append_only ON asp_association_set_events;
+CREATE TRIGGER asp_association_set_events_append_only
+    BEFORE UPDATE OR DELETE ON asp_association_set_events
+    FOR EACH ROW EXECUTE FUNCTION asp_reject_history_rewrite();
+
+-- The full set as sealed at the end of each epoch
+CREATE TABLE IF NOT EXISTS asp_association_set_epochs (
+    epoch INTEGER PRIMARY KEY,
+    commitments TEXT[] NOT NULL,
+    size INTEGER NOT NULL,
+    last_event_sequence BIGINT,
+    sealed_by VARCHAR(255),
+    sealed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
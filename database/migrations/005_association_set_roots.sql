@@ -0,0 +1,17 @@
+-- database/migrations/005_association_set_roots.sql - Published association set Merkle roots
+
+-- A new root version is recorded every time the association set changes.
+-- The set behind a version is the event log replayed up to last_event_sequence.
+CREATE TABLE IF NOT EXISTS asp_association_set_roots (
+    version SERIAL PRIMARY KEY,
+    epoch INTEGER NOT NULL,
+    root CHAR(66) NOT NULL,
+    tree_root CHAR(66) NOT NULL,
+    size INTEGER NOT NULL,
+    last_event_sequence BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_association_set_roots_root ON asp_association_set_roots(root);
+
+ALTER TABLE asp_association_set_epochs ADD COLUMN IF NOT EXISTS root_version INTEGER REFERENCES asp_association_set_roots(version);
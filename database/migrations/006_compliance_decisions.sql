@@ -0,0 +1,6 @@
+-- database/migrations/006_compliance_decisions.sql - Depositor addresses for compliance screening
+
+-- The compliance decision itself is stored inside asp_approval
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS depositor_address VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_asp_deposits_depositor_address ON asp_deposits(depositor_address);
@@ -0,0 +1,76 @@
+-- database/migrations/007_pool_lifecycle.sql - Deposit and withdrawal lifecycle
+
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS status VARCHAR(20);
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS label CHAR(66);
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS precommitment CHAR(66);
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS deposit_tx_hash CHAR(66);
+ALTER TABLE asp_deposits ADD COLUMN IF NOT EXISTS exit_tx_hash CHAR(66);
+
+-- Deposits that were only evaluated never reached the ledger
+UPDATE asp_deposits
+   SET status = CASE WHEN (asp_approval->>'approved')::boolean THEN 'approved' ELSE 'rejected' END
+ WHERE status IS NULL;
+
+ALTER TABLE asp_deposits ALTER COLUMN status SET NOT NULL;
+
+-- Withdrawals are deliberately not linked to the deposit they spend
+CREATE TABLE IF NOT EXISTS privacy_pool_withdrawals (
+    withdrawal_id UUID PRIMARY KEY,
+    nullifier_hash CHAR(66) NOT NULL,
+    recipient VARCHAR(255) NOT NULL,
+    asset_type VARCHAR(10) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+    association_root CHAR(66) NOT NULL,
+    root_version INTEGER REFERENCES asp_association_set_roots(version),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('completed', 'rejected')),
+    reason TEXT,
+    tx_hash CHAR(66),
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_privacy_pool_withdrawals_spent
+    ON privacy_pool_withdrawals(nullifier_hash) WHERE status = 'completed';
+
+-- Receipts from the pool ledger, replayed on startup to rebuild the mock chain
+CREATE TABLE IF NOT EXISTS privacy_pool_ledger_transactions (
+    tx_hash CHAR(66) PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('deposit', 'ragequit', 'withdrawal')),
+    asset_type VARCHAR(10) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+    from_address VARCHAR(255),
+    to_address VARCHAR(255),
+    commitment CHAR(66),
+    label CHAR(66),
+    nullifier_hash CHAR(66),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_pool_ledger_transactions_block ON privacy_pool_ledger_transactions(block_number);
+
+-- Every deposit and withdrawal state change. Rows are never updated or deleted.
+CREATE TABLE IF NOT EXISTS privacy_pool_transitions (
+    id BIGSERIAL PRIMARY KEY,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('deposit', 'withdrawal')),
+    entity_id UUID NOT NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    actor VARCHAR(255),
+    tx_hash CHAR(66),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_pool_transitions_entity ON privacy_pool_transitions(entity_type, entity_id, id);
+
+CREATE OR REPLACE FUNCTION asp_reject_history_rewrite() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS privacy_pool_transitions_append_only ON privacy_pool_transitions;
+CREATE TRIGGER privacy_pool_transitions_append_only
+    BEFORE UPDATE OR DELETE ON privacy_pool_transitions
+    FOR EACH ROW EXECUTE FUNCTION asp_reject_history_rewrite();
@@ -0,0 +1,48 @@
+-- database/migrations/008_reward_ledger.sql - Double-entry contribution reward ledger
+
+CREATE TABLE IF NOT EXISTS asp_reward_ledger_entries (
+    id UUID PRIMARY KEY,
+    idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+    contributor_id VARCHAR(255) NOT NULL,
+    contribution_id UUID,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('issuance', 'reversal')),
+    reverses_entry_id UUID REFERENCES asp_reward_ledger_entries(id),
+    description TEXT NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_reward_ledger_entries_contributor ON asp_reward_ledger_entries(contributor_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_asp_reward_ledger_entries_reverses
+    ON asp_reward_ledger_entries(reverses_entry_id) WHERE reverses_entry_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS asp_reward_ledger_lines (
+    id BIGSERIAL PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES asp_reward_ledger_entries(id),
+    account VARCHAR(255) NOT NULL,
+    unit VARCHAR(20) NOT NULL CHECK (unit IN ('reward_points', 'trust_boost', 'fee_reduction')),
+    debit NUMERIC(24, 6) NOT NULL DEFAULT 0,
+    credit NUMERIC(24, 6) NOT NULL DEFAULT 0,
+    CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_reward_ledger_lines_entry ON asp_reward_ledger_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_asp_reward_ledger_lines_account ON asp_reward_ledger_lines(account, unit);
+
+-- Corrections are made with reversal entries, never by editing the journal
+DROP TRIGGER IF EXISTS asp_reward_ledger_entries_append_only ON asp_reward_ledger_entries;
+CREATE TRIGGER asp_reward_ledger_entries_append_only
+    BEFORE UPDATE OR DELETE ON asp_reward_ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION asp_reject_history_rewrite();
+
+DROP TRIGGER IF EXISTS asp_reward_ledger_lines_append_only ON asp_reward_ledger_lines;
+CREATE TRIGGER asp_reward_ledger_lines_append_only
+    BEFORE UPDATE OR DELETE ON asp_reward_ledger_lines
+    FOR EACH ROW EXECUTE FUNCTION asp_reject_history_rewrite();
+
+ALTER TABLE asp_research_contributions ADD COLUMN IF NOT EXISTS retracted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE asp_research_contributions ADD COLUMN IF NOT EXISTS retraction_reason TEXT;
+ALTER TABLE asp_research_contributions ADD COLUMN IF NOT EXISTS retracted_by VARCHAR(255);
+
+ALTER TABLE asp_contribution_rewards ADD COLUMN IF NOT EXISTS ledger_entry_id UUID REFERENCES asp_reward_ledger_entries(id);
+ALTER TABLE asp_contribution_rewards ADD COLUMN IF NOT EXISTS reversal_entry_id UUID REFERENCES asp_reward_ledger_entries(id);
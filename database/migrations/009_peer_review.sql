@@ -0,0 +1,24 @@
+-- database/migrations/009_peer_review.sql - Peer review of research contributions
+
+-- Contributions recorded before peer review existed keep their supplied scores
+ALTER TABLE asp_research_contributions ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) NOT NULL DEFAULT 'accepted'
+    CHECK (review_status IN ('pending_review', 'accepted', 'rejected'));
+ALTER TABLE asp_research_contributions ADD COLUMN IF NOT EXISTS review_summary JSONB;
+
+CREATE TABLE IF NOT EXISTS asp_contribution_reviews (
+    id UUID PRIMARY KEY,
+    contribution_id UUID NOT NULL REFERENCES asp_research_contributions(id),
+    reviewer_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('assigned', 'submitted', 'declined')),
+    scores JSONB,
+    recommendation VARCHAR(20) CHECK (recommendation IN ('accept', 'minor_revisions', 'major_revisions', 'reject')),
+    comments TEXT,
+    decline_reason TEXT,
+    conflict_declared BOOLEAN DEFAULT FALSE,
+    assigned_by VARCHAR(255),
+    assigned_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (contribution_id, reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_asp_contribution_reviews_reviewer ON asp_contribution_reviews(reviewer_id, status);
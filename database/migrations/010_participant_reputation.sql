@@ -0,0 +1,61 @@
+-- database/migrations/010_participant_reputation.sql - Peer verification of participant contributions and reputation history
+
+-- One row per verifier per contribution; participant_contributions.peer_validations
+-- counts these. verifier_weight is the verifier's graph trust at the time, which
+-- scales the verification's contribution to reputation
+CREATE TABLE IF NOT EXISTS contribution_verifications (
+    id UUID PRIMARY KEY,
+    contribution_id UUID NOT NULL REFERENCES participant_contributions(id) ON DELETE CASCADE,
+    verifier_hash VARCHAR(255) NOT NULL,
+    verification_type VARCHAR(100) NOT NULL,
+    confidence DECIMAL(3,2) NOT NULL CHECK (confidence >= 0.0 AND confidence <= 1.0),
+    verifier_weight DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK (verifier_weight >= 0.0 AND verifier_weight <= 1.0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (contribution_id, verifier_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contribution_verifications_verifier ON contribution_verifications(verifier_hash, created_at);
+
+-- One row per reputation change, written in the same transaction as the
+-- verification that caused it
+CREATE TABLE IF NOT EXISTS participant_reputation_history (
+    id BIGSERIAL PRIMARY KEY,
+    participant_hash VARCHAR(255) NOT NULL,
+    reputation_score DOUBLE PRECISION NOT NULL,
+    quality_score DOUBLE PRECISION NOT NULL,
+    validation_score DOUBLE PRECISION NOT NULL,
+    graph_trust DOUBLE PRECISION NOT NULL,
+    contribution_count INTEGER NOT NULL,
+    trust_network_size INTEGER NOT NULL,
+    reason VARCHAR(100),
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_reputation_history_participant ON participant_reputation_history(participant_hash, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_participant_contributions_contribution ON participant_contributions(contribution_id);
+
+-- Reputation is 0-1 everywhere; profiles stored it as a 0-100 integer. The
+-- anonymous_participants view reads the column, so it is rebuilt around the change.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+         WHERE table_name = 'participant_profiles' AND column_name = 'reputation_score' AND data_type = 'integer'
+    ) THEN
+        DROP VIEW IF EXISTS anonymous_participants;
+        ALTER TABLE participant_profiles
+            ALTER COLUMN reputation_score TYPE DOUBLE PRECISION USING reputation_score / 100.0;
+        CREATE VIEW anonymous_participants AS
+        SELECT
+            anonymize_participant_data(participant_hash) as anon_id,
+            anonymous_handle,
+            reputation_score,
+            trust_network_size,
+            contribution_count,
+            specializations,
+            last_active_at,
+            created_at
+        FROM participant_profiles
+        WHERE privacy_preferences->>'visibility' != 'private';
+    END IF;
+END $$;
@@ -0,0 +1,12 @@
+-- database/migrations/011_archive_chunk_search.sql - Full-text index over archive chunks for BM25 keyword retrieval
+
+-- The 'english' configuration stems words and drops stop words; identifiers
+-- such as "R.16" and article numbers survive as lexemes of their own
+ALTER TABLE archive_document_chunks ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+-- Distinct lexemes per chunk, the document length used for BM25 normalisation
+ALTER TABLE archive_document_chunks ADD COLUMN IF NOT EXISTS lexeme_count INTEGER
+    GENERATED ALWAYS AS (length(to_tsvector('english', content))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_archive_chunks_content_tsv ON archive_document_chunks USING GIN (content_tsv);